@@ -1,12 +1,13 @@
 "use client";
-import { useEffect, useMemo, useState, useRef } from "react";
+import { useCallback, useEffect, useMemo, useState, useRef } from "react";
 import Image from "next/image";
 import { motion, AnimatePresence } from "framer-motion";
 import { usePrivy } from "@privy-io/react-auth";
 import TokenTicker from "@/components/TokenTicker";
-import Positions from "@/components/Positions";
+import Positions, { PortfolioChange } from "@/components/Positions";
 import Activities from "@/components/Activities";
 import { ARC_ADD_NETWORK_PARAMS, ARC_CHAIN_HEX } from "@/lib/arcNetwork";
+import { formatChange } from "@/lib/priceService";
 import { uploadProfilePicture, saveProfileData, loadProfileData } from "@/lib/profileService";
 
 const Profile = () => {
@@ -14,6 +15,7 @@ const Profile = () => {
   const { authenticated, user } = usePrivy();
   const [chainId, setChainId] = useState<string | null>(null);
   const [totalPortfolioValue, setTotalPortfolioValue] = useState("$0.00");
+  const [portfolioChange, setPortfolioChange] = useState<PortfolioChange | null>(null);
   const [profilePictureUrl, setProfilePictureUrl] = useState<string | null>(null);
   const [isUploadingProfile, setIsUploadingProfile] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
@@ -53,6 +55,14 @@ const Profile = () => {
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
   }, [user?.wallet?.address]);
 
+  const handleTotalValueChange = useCallback(
+    (value: string, change24h: PortfolioChange | null) => {
+      setTotalPortfolioValue(value);
+      setPortfolioChange(change24h);
+    },
+    []
+  );
+
   const handleAddArcNetwork = async () => {
     if (typeof window === "undefined" || !(window as any).ethereum) return;
     try {
@@ -202,8 +212,17 @@ const Profile = () => {
               )}
 
               <h2 className="text-5xl font-bold mb-2">{totalPortfolioValue}</h2>
-              <p className="text-green-400 text-sm">
-                +0.00% <span className="text-gray-500">($0.00)</span>
+              <p
+                className={`text-sm ${
+                  (portfolioChange?.value ?? 0) >= 0 ? "text-green-400" : "text-red-400"
+                }`}
+              >
+                {formatChange(portfolioChange?.percent ?? 0)}{" "}
+                <span className="text-gray-500">
+                  ({(portfolioChange?.value ?? 0) < 0 ? "-" : ""}$
+                  {Math.abs(portfolioChange?.value ?? 0).toFixed(2)})
+                </span>{" "}
+                <span className="text-gray-500">24h</span>
               </p>
             </motion.div>
           </div>
@@ -261,7 +280,7 @@ const Profile = () => {
           {activeTab === "positions" ? (
             <Positions 
               walletAddress={user?.wallet?.address || null}
-              onTotalValueChange={setTotalPortfolioValue}
+              onTotalValueChange={handleTotalValueChange}
             />
           ) : (
             <Activities
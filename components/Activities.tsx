@@ -3,9 +3,8 @@
 import { useEffect, useState } from "react";
 import Image from "next/image";
 import { motion } from "framer-motion";
-import { supabase, ActivityRow } from "@/lib/supabase";
-import { getTokenIcon } from "@/lib/tokenIcons";
-import { StaticImageData } from "next/image";
+import { supabase, ActivityRow, SwapRow } from "@/lib/supabase";
+import { TokenIcon, getTokenIcon, isRemoteIcon } from "@/lib/tokenIcons";
 import arcLogo from "@/public/assets/arc_logo_1-removebg-preview.png";
 
 interface ActivitiesProps {
@@ -17,20 +16,24 @@ interface DisplayActivity {
   type: string;
   source: {
     token: string;
-    icon: StaticImageData | null;
+    icon: TokenIcon | null;
     network: string;
   };
   destination: {
     token: string;
-    icon: StaticImageData | null;
+    icon: TokenIcon | null;
     network: string;
   };
   status: "Successful" | "Failed";
   date: string;
   time: string;
   isCancellation?: boolean;
+  timestamp: string;
 }
 
+// Most activities shown
+const ACTIVITY_LIMIT = 100;
+
 // Format timestamp to date and time
 const formatTimestamp = (timestamp: string): { date: string; time: string } => {
   const date = new Date(timestamp);
@@ -66,12 +69,25 @@ const Activities = ({
       setError(null);
 
       try {
-        const { data, error: fetchError } = await supabase
-          .from("activities")
-          .select("*")
-          .eq("wallet_address", walletAddress.toLowerCase())
-          .order("timestamp", { ascending: false })
-          .limit(100);
+        // Activities the app recorded, and swaps the indexer found on-chain
+        // (including ones made outside the app)
+        const [
+          { data, error: fetchError },
+          { data: swapData, error: swapError },
+        ] = await Promise.all([
+          supabase
+            .from("activities")
+            .select("*")
+            .eq("wallet_address", walletAddress.toLowerCase())
+            .order("timestamp", { ascending: false })
+            .limit(ACTIVITY_LIMIT),
+          supabase
+            .from("swaps")
+            .select("*")
+            .eq("wallet_address", walletAddress.toLowerCase())
+            .order("block_time", { ascending: false })
+            .limit(ACTIVITY_LIMIT),
+        ]);
 
         if (fetchError) {
           console.error("Error fetching activities:", fetchError);
@@ -103,11 +119,51 @@ const Activities = ({
               date,
               time,
               isCancellation,
+              timestamp: row.timestamp,
             };
           }
         );
 
-        setActivities(transformedActivities);
+        // The feed still works without the swap index
+        if (swapError) {
+          console.warn("Error fetching indexed swaps:", swapError);
+        }
+        const recordedHashes = new Set(
+          (data || [])
+            .map((row: ActivityRow) => row.transaction_hash?.toLowerCase())
+            .filter(Boolean)
+        );
+        const indexedSwaps: DisplayActivity[] = (swapData || [])
+          .filter((row: SwapRow) => !recordedHashes.has(row.transaction_hash.toLowerCase()))
+          .map((row: SwapRow) => {
+            const { date, time } = formatTimestamp(row.block_time);
+            return {
+              type: "Swap",
+              source: {
+                token: row.token_in,
+                icon: getTokenIcon(row.token_in),
+                network: "Arc",
+              },
+              destination: {
+                token: row.token_out,
+                icon: getTokenIcon(row.token_out),
+                network: "Arc",
+              },
+              status: "Successful",
+              date,
+              time,
+              timestamp: row.block_time,
+            };
+          });
+
+        setActivities(
+          [...transformedActivities, ...indexedSwaps]
+            .sort(
+              (a, b) =>
+                new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+            )
+            .slice(0, ACTIVITY_LIMIT)
+        );
       } catch (err) {
         console.error("Unexpected error fetching activities:", err);
         setError("An unexpected error occurred");
@@ -235,6 +291,7 @@ const Activities = ({
                           <div className="shrink-0 w-8 h-8">
                             <Image
                               src={activity.source.icon}
+                              unoptimized={isRemoteIcon(activity.source.icon)}
                               alt={`${activity.source.token} logo`}
                               width={32}
                               height={32}
@@ -276,6 +333,7 @@ const Activities = ({
                             <div className="shrink-0 w-8 h-8">
                               <Image
                                 src={activity.destination.icon}
+                                unoptimized={isRemoteIcon(activity.destination.icon)}
                                 alt={`${activity.destination.token} logo`}
                                 width={32}
                                 height={32}
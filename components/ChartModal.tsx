@@ -3,20 +3,113 @@ import { X } from "lucide-react";
 import { motion } from "framer-motion";
 import Image from "next/image";
 import { useState } from "react";
-
-import usdcLogo from "@/public/assets/USDC-fotor-bg-remover-2025111075935.png";
-import ethLogo from "@/public/assets/Eth_logo_3-removebg-preview.png";
+import {
+  Bar,
+  ComposedChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { UNKNOWN_TOKEN_ICON, getTokenIcon, isRemoteIcon } from "@/lib/tokenIcons";
+import { formatChange } from "@/lib/priceService";
+import { CHART_PERIODS, Candle, ChartPeriod } from "@/lib/priceHistoryService";
+import { usePriceHistory } from "@/lib/usePriceHistory";
 
 interface ChartModalProps {
   isOpen: boolean;
   onClose: () => void;
+  /** Token whose price is charted (the sell token) */
+  baseToken: string;
+  /** Token the price is given in (the receive token) */
+  quoteToken: string;
+}
+
+interface ChartPoint extends Candle {
+  /** [low, high], the extent the candle is drawn over */
+  range: [number, number];
+}
+
+interface CandleShapeProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  payload: ChartPoint;
 }
 
-const ChartModal = ({ isOpen, onClose }: ChartModalProps) => {
-  const [selectedPeriod, setSelectedPeriod] = useState("24H");
+const RISING_COLOR = "rgb(34, 197, 94)";
+const FALLING_COLOR = "rgb(239, 68, 68)";
+
+const formatPrice = (price: number): string =>
+  price.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: price < 1 ? 6 : 2,
+  });
+
+const formatVolume = (volume: number): string =>
+  volume.toLocaleString("en-US", { notation: "compact", maximumFractionDigits: 2 });
+
+const formatTime = (time: number, period: ChartPeriod): string =>
+  new Date(time).toLocaleString("en-US",
+    period === "1H" || period === "24H"
+      ? { hour: "2-digit", minute: "2-digit" }
+      : { month: "short", day: "numeric" }
+  );
+
+// Draws a candle over the [low, high] bar: the wick spans the bar, the body
+// spans open to close
+const renderCandle = (props: unknown) => {
+  const { x, y, width, height, payload } = props as CandleShapeProps;
+  const { open, close, high, low } = payload;
+  const color = close >= open ? RISING_COLOR : FALLING_COLOR;
+  const toY = (price: number) => (high > low ? y + ((high - price) / (high - low)) * height : y);
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(toY(Math.min(open, close)) - bodyTop, 1);
+
+  return (
+    <g>
+      <line
+        x1={x + width / 2}
+        x2={x + width / 2}
+        y1={y}
+        y2={y + Math.max(height, 1)}
+        stroke={color}
+      />
+      <rect x={x} y={bodyTop} width={width} height={bodyHeight} fill={color} />
+    </g>
+  );
+};
+
+const TokenLogo = ({ symbol, className }: { symbol: string; className?: string }) => {
+  const icon = getTokenIcon(symbol) ?? UNKNOWN_TOKEN_ICON;
+  return (
+    <div
+      className={`w-8 h-8 sm:w-10 sm:h-10 rounded-full bg-primary/30 flex items-center justify-center overflow-hidden ${className ?? ""}`}
+    >
+      <Image
+        src={icon}
+        unoptimized={isRemoteIcon(icon)}
+        alt={`${symbol} logo`}
+        width={40}
+        height={40}
+        className="object-contain w-full h-full"
+      />
+    </div>
+  );
+};
+
+const ChartModal = ({ isOpen, onClose, baseToken, quoteToken }: ChartModalProps) => {
+  const [selectedPeriod, setSelectedPeriod] = useState<ChartPeriod>("24H");
+  const { history, loading, error } = usePriceHistory(baseToken, quoteToken, selectedPeriod);
 
   if (!isOpen) return null;
 
+  const chartData: ChartPoint[] =
+    history?.candles.map((candle) => ({ ...candle, range: [candle.low, candle.high] })) ?? [];
+  const maxVolume = Math.max(0, ...chartData.map((point) => point.volume));
+  const change = history?.change ?? null;
+
   return (
     <>
       {/* Backdrop for mobile */}
@@ -47,34 +140,18 @@ const ChartModal = ({ isOpen, onClose }: ChartModalProps) => {
           <div className="flex items-start md:items-center justify-between mb-4 sm:mb-6 flex-col md:flex-row gap-4">
             <div className="flex items-center gap-3">
               <div className="flex items-center gap-2">
-                <div className="w-8 h-8 sm:w-10 sm:h-10 rounded-full bg-primary/30 flex items-center justify-center overflow-hidden">
-                  <Image
-                    src={ethLogo}
-                    alt="ETH logo"
-                    width={40}
-                    height={40}
-                    className="object-contain w-full h-full"
-                  />
-                </div>
-                <div className="w-8 h-8 sm:w-10 sm:h-10 rounded-full bg-primary/30 flex items-center justify-center overflow-hidden -ml-3">
-                  <Image
-                    src={usdcLogo}
-                    alt="USDC logo"
-                    width={40}
-                    height={40}
-                    className="object-contain w-full h-full"
-                  />
-                </div>
+                <TokenLogo symbol={baseToken} />
+                <TokenLogo symbol={quoteToken} className="-ml-3" />
               </div>
               <h2 className="text-xl sm:text-2xl font-semibold text-foreground">
-                ETH/USDC
+                {baseToken}/{quoteToken}
               </h2>
             </div>
 
             <div className="flex items-center gap-1 w-full md:w-auto">
               {/* Time period buttons */}
               <div className="flex gap-1 flex-1 md:flex-initial overflow-x-auto scrollbar-hide crup">
-                {["24H", "7D", "1M", "3M", "6M"].map((period) => (
+                {(Object.keys(CHART_PERIODS) as ChartPeriod[]).map((period) => (
                   <motion.button
                     key={period}
                     onClick={() => setSelectedPeriod(period)}
@@ -104,45 +181,119 @@ const ChartModal = ({ isOpen, onClose }: ChartModalProps) => {
           </div>
 
           {/* Price info */}
-          <div className="mb-4 sm:mb-6">
-            <div className="flex items-center gap-2 mb-2">
-              <span className="text-sm text-green-500">+16.0%</span>
-              <span className="text-xs text-muted-foreground">in 24h</span>
-            </div>
-            <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
-              <h3 className="text-2xl sm:text-3xl md:text-4xl font-bold text-foreground">
-                3200.23 USDC
-              </h3>
-              <div className="grid grid-cols-3 sm:flex sm:items-center gap-4 sm:gap-6">
-                <div>
-                  <p className="text-xs text-muted-foreground mb-1">
-                    Market Cap
-                  </p>
-                  <p className="text-sm sm:text-base font-semibold text-foreground">
-                    $78.0B
-                  </p>
-                </div>
-                <div>
-                  <p className="text-xs text-muted-foreground mb-1">Volume</p>
-                  <p className="text-sm sm:text-base font-semibold text-foreground">
-                    $8.0B
-                  </p>
-                </div>
-                <div>
-                  <p className="text-xs text-muted-foreground mb-1">Markets</p>
-                  <p className="text-sm sm:text-base font-semibold text-foreground">
-                    5
-                  </p>
+          {history && chartData.length > 0 && (
+            <div className="mb-4 sm:mb-6">
+              <div className="flex items-center gap-2 mb-2">
+                {change !== null && (
+                  <span className={`text-sm ${change >= 0 ? "text-green-500" : "text-red-500"}`}>
+                    {formatChange(change)}
+                  </span>
+                )}
+                <span className="text-xs text-muted-foreground">
+                  in {selectedPeriod}
+                </span>
+              </div>
+              <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+                <h3 className="text-2xl sm:text-3xl md:text-4xl font-bold text-foreground">
+                  {formatPrice(history.price)} {quoteToken}
+                </h3>
+                <div className="grid grid-cols-3 sm:flex sm:items-center gap-4 sm:gap-6">
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-1">High</p>
+                    <p className="text-sm sm:text-base font-semibold text-foreground">
+                      {formatPrice(history.high)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-1">Low</p>
+                    <p className="text-sm sm:text-base font-semibold text-foreground">
+                      {formatPrice(history.low)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground mb-1">Volume</p>
+                    <p className="text-sm sm:text-base font-semibold text-foreground">
+                      {formatVolume(history.volume)} {baseToken}
+                    </p>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
+          )}
 
           {/* Chart area */}
           <div className="bg-[#151617] rounded-xl p-4 sm:p-6 h-64 sm:h-80 flex items-center justify-center">
-            <p className="text-muted-foreground text-sm sm:text-base">
-              Chart visualization area
-            </p>
+            {loading ? (
+              <p className="text-muted-foreground text-sm sm:text-base">
+                Loading chart...
+              </p>
+            ) : error ? (
+              <p className="text-destructive text-sm sm:text-base">{error}</p>
+            ) : chartData.length === 0 ? (
+              <p className="text-muted-foreground text-sm sm:text-base text-center">
+                {history
+                  ? "No price history for this period yet"
+                  : `No price history for ${baseToken}/${quoteToken}`}
+              </p>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+                  <XAxis
+                    dataKey="time"
+                    tickFormatter={(time: number) => formatTime(time, selectedPeriod)}
+                    tick={{ fontSize: 10, fill: "rgb(113, 113, 122)" }}
+                    axisLine={false}
+                    tickLine={false}
+                    minTickGap={24}
+                  />
+                  <YAxis
+                    yAxisId="price"
+                    orientation="right"
+                    domain={["auto", "auto"]}
+                    tickFormatter={formatPrice}
+                    tick={{ fontSize: 10, fill: "rgb(113, 113, 122)" }}
+                    axisLine={false}
+                    tickLine={false}
+                    width={60}
+                  />
+                  {/* Volume bars sit under the candles, in the bottom quarter of the chart */}
+                  <XAxis xAxisId="volume" dataKey="time" hide />
+                  <YAxis yAxisId="volume" hide domain={[0, maxVolume * 4 || 1]} />
+                  <Tooltip
+                    cursor={{ fill: "rgba(255, 255, 255, 0.05)" }}
+                    content={({ active, payload }) => {
+                      const point = payload?.[0]?.payload as ChartPoint | undefined;
+                      if (!active || !point) return null;
+                      return (
+                        <div className="bg-[#18191b] border border-border/50 rounded-lg p-2 text-xs text-foreground">
+                          <p className="text-muted-foreground mb-1">
+                            {new Date(point.time).toLocaleString()}
+                          </p>
+                          <p>O {formatPrice(point.open)} H {formatPrice(point.high)}</p>
+                          <p>L {formatPrice(point.low)} C {formatPrice(point.close)}</p>
+                          <p className="text-muted-foreground">
+                            Vol {formatVolume(point.volume)} {baseToken}
+                          </p>
+                        </div>
+                      );
+                    }}
+                  />
+                  <Bar
+                    xAxisId="volume"
+                    yAxisId="volume"
+                    dataKey="volume"
+                    fill="rgba(113, 113, 122, 0.4)"
+                    isAnimationActive={false}
+                  />
+                  <Bar
+                    yAxisId="price"
+                    dataKey="range"
+                    shape={renderCandle}
+                    isAnimationActive={false}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            )}
           </div>
         </div>
       </motion.div>
@@ -1,12 +1,22 @@
 "use client";
+import { useState } from "react";
 import { motion } from "framer-motion";
 import { X } from "lucide-react";
+import {
+  FREQUENCY_PRESETS,
+  FrequencySpec,
+  WEEKDAY_LABELS,
+  formatFrequency,
+  validateFrequency,
+} from "@/supabase/functions/_shared/frequency";
 
-const frequencies = [
-  { value: "hourly", label: "Hourly", description: "Every hour starting now" },
-  { value: "daily", label: "Daily", description: "Every day starting today" },
-  { value: "weekly", label: "Weekly", description: "Every week starting now" },
-  { value: "monthly", label: "Month", description: "Every month starting now" },
+type CustomKind = "hours" | "days" | "weekdays" | "months";
+
+const customKinds: { value: CustomKind; label: string }[] = [
+  { value: "hours", label: "Hours" },
+  { value: "days", label: "Days" },
+  { value: "weekdays", label: "Weekdays" },
+  { value: "months", label: "Day of month" },
 ];
 
 interface FrequencyModalProps {
@@ -14,16 +24,70 @@ interface FrequencyModalProps {
   onClose: () => void;
   onSelect: (frequency: string) => void;
   currentValue: string;
+  timezone?: string;
 }
 
+/**
+ * Build a rule from the custom form. Returns null when a required input is
+ * missing; range checks are left to validateFrequency.
+ */
+const buildCustomRule = (
+  kind: CustomKind,
+  every: string,
+  weekdays: number[],
+  dayOfMonth: string,
+  time: string
+): string | null => {
+  const [hour, minute] = time.split(":").map(Number);
+  const timeOfDay = time ? { hour, minute } : undefined;
+  let spec: FrequencySpec;
+
+  switch (kind) {
+    case "hours":
+      if (!every) return null;
+      spec = { kind: "hours", every: Number(every) };
+      break;
+    case "days":
+      if (!every) return null;
+      spec = { kind: "days", every: Number(every), time: timeOfDay };
+      break;
+    case "weekdays":
+      if (weekdays.length === 0) return null;
+      spec = { kind: "weekdays", weekdays: [...weekdays].sort((a, b) => a - b), time: timeOfDay };
+      break;
+    case "months":
+      if (!dayOfMonth) return null;
+      spec = { kind: "months", every: 1, dayOfMonth: Number(dayOfMonth), time: timeOfDay };
+      break;
+  }
+
+  return formatFrequency(spec);
+};
+
 export const FrequencyModal = ({
   isOpen,
   onClose,
   onSelect,
   currentValue,
+  timezone,
 }: FrequencyModalProps) => {
+  const [customKind, setCustomKind] = useState<CustomKind>("days");
+  const [every, setEvery] = useState("1");
+  const [weekdays, setWeekdays] = useState<number[]>([1]);
+  const [dayOfMonth, setDayOfMonth] = useState("1");
+  const [time, setTime] = useState("");
+
   if (!isOpen) return null;
 
+  const customRule = buildCustomRule(customKind, every, weekdays, dayOfMonth, time);
+  const customError = customRule ? validateFrequency(customRule, timezone) : null;
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays((current) =>
+      current.includes(day) ? current.filter((d) => d !== day) : [...current, day]
+    );
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -37,7 +101,7 @@ export const FrequencyModal = ({
         animate={{ scale: 1, opacity: 1 }}
         exit={{ scale: 0.95, opacity: 0 }}
         onClick={(e) => e.stopPropagation()}
-        className="bg-zinc-900 rounded-2xl w-full max-w-md border border-zinc-800"
+        className="bg-zinc-900 rounded-2xl w-full max-w-md border border-zinc-800 max-h-[90vh] overflow-y-auto"
       >
         <div className="p-6">
           <div className="flex items-center justify-between mb-6">
@@ -53,24 +117,130 @@ export const FrequencyModal = ({
           </div>
 
           <div className="space-y-2">
-            {frequencies.map((freq) => (
+            {FREQUENCY_PRESETS.map((freq) => (
               <button
                 key={freq.value}
                 onClick={() => {
-                  onSelect(freq.label);
+                  onSelect(freq.value);
                   onClose();
                 }}
                 className={`w-full px-4 py-4 rounded-xl text-left transition-colors cursor-pointer ${
-                  currentValue === freq.label
+                  currentValue === freq.value
                     ? "bg-zinc-800"
                     : "bg-zinc-950 hover:bg-zinc-800"
                 }`}
               >
-                <div className="text-white font-medium mb-1">{freq.label}</div>
+                <div className="text-white font-medium mb-1">{freq.value}</div>
                 <div className="text-gray-500 text-sm">{freq.description}</div>
               </button>
             ))}
           </div>
+
+          {/* Custom rule */}
+          <div className="mt-6 p-4 rounded-xl bg-zinc-950 space-y-4">
+            <div className="text-white font-medium">Custom</div>
+
+            <div className="grid grid-cols-4 gap-2">
+              {customKinds.map((kind) => (
+                <button
+                  key={kind.value}
+                  type="button"
+                  onClick={() => setCustomKind(kind.value)}
+                  className={`px-2 py-2 rounded-lg text-xs transition-colors cursor-pointer ${
+                    customKind === kind.value
+                      ? "bg-zinc-800 text-white"
+                      : "bg-zinc-900 text-gray-400 hover:bg-zinc-800"
+                  }`}
+                >
+                  {kind.label}
+                </button>
+              ))}
+            </div>
+
+            {(customKind === "hours" || customKind === "days") && (
+              <div className="flex items-center gap-3">
+                <span className="text-gray-400 text-sm">Every</span>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={every}
+                  onChange={(e) => setEvery(e.target.value.replace(/[^0-9]/g, ""))}
+                  className="w-20 px-3 py-2 rounded-lg bg-zinc-900 text-white outline-none"
+                />
+                <span className="text-gray-400 text-sm">{customKind}</span>
+              </div>
+            )}
+
+            {customKind === "weekdays" && (
+              <div className="grid grid-cols-7 gap-1">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    className={`py-2 rounded-lg text-xs transition-colors cursor-pointer ${
+                      weekdays.includes(day)
+                        ? "bg-zinc-800 text-white"
+                        : "bg-zinc-900 text-gray-500 hover:bg-zinc-800"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {customKind === "months" && (
+              <div className="flex items-center gap-3">
+                <span className="text-gray-400 text-sm">On day</span>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={dayOfMonth}
+                  onChange={(e) => setDayOfMonth(e.target.value.replace(/[^0-9]/g, ""))}
+                  className="w-20 px-3 py-2 rounded-lg bg-zinc-900 text-white outline-none"
+                />
+                <span className="text-gray-400 text-sm">of each month</span>
+              </div>
+            )}
+
+            {customKind !== "hours" && (
+              <div className="flex items-center gap-3">
+                <span className="text-gray-400 text-sm">At</span>
+                <input
+                  type="time"
+                  value={time}
+                  onChange={(e) => setTime(e.target.value)}
+                  className="px-3 py-2 rounded-lg bg-zinc-900 text-white outline-none"
+                />
+                <span className="text-gray-600 text-xs">Optional</span>
+              </div>
+            )}
+
+            <div className="text-xs">
+              {customError ? (
+                <span className="text-red-400">{customError}</span>
+              ) : (
+                <span className="text-gray-500">
+                  {customRule ?? "Complete the rule"}
+                  {timezone && customKind !== "hours" && ` (${timezone})`}
+                </span>
+              )}
+            </div>
+
+            <button
+              type="button"
+              disabled={!customRule || !!customError}
+              onClick={() => {
+                if (!customRule) return;
+                onSelect(customRule);
+                onClose();
+              }}
+              className="w-full py-3 rounded-xl bg-zinc-800 text-white text-sm font-medium transition-colors cursor-pointer hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Use Custom Frequency
+            </button>
+          </div>
         </div>
       </motion.div>
     </motion.div>
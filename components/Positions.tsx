@@ -6,10 +6,20 @@ import Image from "next/image";
 import { motion, AnimatePresence } from "framer-motion";
 import { holdingsData } from "@/mockData/portfolioData";
 import { useWalletHoldings } from "@/lib/useWalletHoldings";
+import { isRemoteIcon } from "@/lib/tokenIcons";
+import { formatChange } from "@/lib/priceService";
+
+/** Portfolio value change over the last 24h at current balances */
+export interface PortfolioChange {
+  /** Change in USD */
+  value: number;
+  /** Change in % */
+  percent: number;
+}
 
 interface PositionsProps {
   walletAddress?: string | null;
-  onTotalValueChange?: (value: string) => void;
+  onTotalValueChange?: (value: string, change24h: PortfolioChange | null) => void;
 }
 
 const Positions = ({ walletAddress, onTotalValueChange }: PositionsProps) => {
@@ -37,19 +47,34 @@ const Positions = ({ walletAddress, onTotalValueChange }: PositionsProps) => {
     // If wallet is connected but has no holdings, set to $0.00
     if (walletAddress && !loading && walletHoldings.length === 0) {
       if (onTotalValueChange) {
-        onTotalValueChange("$0.00");
+        onTotalValueChange("$0.00", null);
       }
       return;
     }
 
-    const total = displayHoldings.reduce((sum, holding) => {
+    let total = 0;
+    // Value of the current balances at prices from 24h ago
+    let totalBefore = 0;
+    let hasChange = false;
+    displayHoldings.forEach((holding) => {
       const value = parseFloat(holding.value.replace("$", ""));
-      return sum + value;
-    }, 0);
-    
+      total += value;
+      if (holding.change24h === null) {
+        totalBefore += value;
+        return;
+      }
+      hasChange = true;
+      totalBefore += value / (1 + holding.change24h / 100);
+    });
+
     const totalValue = `$${total.toFixed(2)}`;
     if (onTotalValueChange) {
-      onTotalValueChange(totalValue);
+      onTotalValueChange(
+        totalValue,
+        hasChange && totalBefore > 0
+          ? { value: total - totalBefore, percent: ((total - totalBefore) / totalBefore) * 100 }
+          : null
+      );
     }
   }, [displayHoldings, onTotalValueChange, walletAddress, loading, walletHoldings.length]);
 
@@ -173,6 +198,7 @@ const Positions = ({ walletAddress, onTotalValueChange }: PositionsProps) => {
                                 {holding.icon ? (
                                   <Image
                                     src={holding.icon}
+                                    unoptimized={isRemoteIcon(holding.icon)}
                                     alt={`${holding.token} logo`}
                                     width={24}
                                     height={24}
@@ -194,6 +220,15 @@ const Positions = ({ walletAddress, onTotalValueChange }: PositionsProps) => {
                           </td>
                           <td className="text-right py-4 px-4 text-gray-400">
                             {holding.price}
+                            {holding.change24h !== null && (
+                              <span
+                                className={`block text-xs ${
+                                  holding.change24h >= 0 ? "text-green-400" : "text-red-400"
+                                }`}
+                              >
+                                {formatChange(holding.change24h)}
+                              </span>
+                            )}
                           </td>
                           <td className="text-right py-4 px-4 font-medium">
                             {holding.value}
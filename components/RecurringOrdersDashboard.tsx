@@ -2,9 +2,18 @@
 import { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { usePrivy } from "@privy-io/react-auth";
-import { getRecurringOrders, cancelRecurringOrder, getOrderExecutions } from "@/lib/recurringOrderService";
+import {
+  getRecurringOrders,
+  cancelRecurringOrder,
+  getOrderExecutions,
+  getCurrentOrderPrice,
+} from "@/lib/recurringOrderService";
 import { RecurringOrder, RecurringOrderExecution } from "@/lib/recurringOrderService";
 import CancelOrderConfirmationModal from "@/components/CancelOrderConfirmationModal";
+import { MISSED_SLOT_POLICIES } from "@/supabase/functions/_shared/schedule";
+import { projectOrderCompletion } from "@/supabase/functions/_shared/orderLimits";
+import { FAILURE_CLASS_LABELS, describeFailureClass } from "@/supabase/functions/_shared/preflight";
+import { summarizeOrderPerformance } from "@/supabase/functions/_shared/fills";
 
 export const RecurringOrdersDashboard = () => {
   const { user } = usePrivy();
@@ -13,6 +22,7 @@ export const RecurringOrdersDashboard = () => {
   const [orders, setOrders] = useState<RecurringOrder[]>([]);
   const [selectedOrder, setSelectedOrder] = useState<RecurringOrder | null>(null);
   const [executionHistory, setExecutionHistory] = useState<RecurringOrderExecution[]>([]);
+  const [currentPrice, setCurrentPrice] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [cancelingId, setCancelingId] = useState<string | null>(null);
@@ -34,6 +44,7 @@ export const RecurringOrdersDashboard = () => {
   useEffect(() => {
     if (selectedOrder) {
       loadExecutionHistory(selectedOrder.id);
+      loadCurrentPrice(selectedOrder);
     }
   }, [selectedOrder]);
 
@@ -67,6 +78,15 @@ export const RecurringOrdersDashboard = () => {
     }
   };
 
+  const loadCurrentPrice = async (order: RecurringOrder) => {
+    setCurrentPrice(null);
+    try {
+      setCurrentPrice(await getCurrentOrderPrice(order));
+    } catch (err) {
+      console.error("Error quoting current price:", err);
+    }
+  };
+
   const handleCancelOrder = async (orderId: string) => {
     if (!walletAddress) {
       alert("Please connect your wallet");
@@ -91,9 +111,10 @@ export const RecurringOrdersDashboard = () => {
     setCancelingId(orderToCancel.id);
     try {
       await cancelRecurringOrder(orderToCancel.id, walletAddress);
-      setOrders(orders.map((o) => (o.id === orderToCancel.id ? { ...o, is_active: false } : o)));
+      const cancelled = { is_active: false, paused_reason: null, paused_at: null };
+      setOrders(orders.map((o) => (o.id === orderToCancel.id ? { ...o, ...cancelled } : o)));
       if (selectedOrder?.id === orderToCancel.id) {
-        setSelectedOrder({ ...selectedOrder, is_active: false });
+        setSelectedOrder({ ...selectedOrder, ...cancelled });
       }
       setShowCancelModal(false);
       setOrderToCancel(null);
@@ -115,6 +136,9 @@ export const RecurringOrdersDashboard = () => {
     });
   };
 
+  const formatAmount = (value: number) =>
+    value.toLocaleString("en-US", { maximumFractionDigits: 6 });
+
   const formatDateTime = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       month: "short",
@@ -148,11 +172,62 @@ export const RecurringOrdersDashboard = () => {
         return "text-red-400";
       case "Pending":
         return "text-yellow-400";
+      case "Skipped":
+        return "text-zinc-500";
+      case "SkippedPriceLimit":
+        return "text-orange-400";
       default:
         return "text-zinc-400";
     }
   };
 
+  // Auto-paused and completed orders are inactive but keep the executor's reason
+  const getOrderStatus = (order: RecurringOrder) => {
+    if (order.is_active) {
+      return { label: "Active", color: "text-green-400" };
+    }
+    if (order.paused_reason) {
+      return { label: "Paused", color: "text-yellow-400" };
+    }
+    if (order.completion_reason) {
+      return { label: "Completed", color: "text-blue-400" };
+    }
+    return { label: "Cancelled", color: "text-zinc-500" };
+  };
+
+  const canCancel = (order: RecurringOrder) => order.is_active || !!order.paused_reason;
+
+  const getProjection = (order: RecurringOrder) => {
+    const nextSlot = order.current_slot ?? order.next_execution_date;
+    if (!order.is_active || !nextSlot) {
+      return null;
+    }
+    try {
+      return projectOrderCompletion(order, nextSlot);
+    } catch (err) {
+      // Orders with an unsupported frequency are paused by the executor
+      console.error(`Cannot project order ${order.id}:`, err);
+      return null;
+    }
+  };
+
+  const selectedProjection = selectedOrder ? getProjection(selectedOrder) : null;
+
+  const selectedPerformance = selectedOrder
+    ? summarizeOrderPerformance(selectedOrder.order_type, executionHistory, currentPrice)
+    : null;
+  // Prices are quoted for the traded token in the other token of the pair
+  const priceUnit = selectedOrder
+    ? selectedOrder.order_type === "buy"
+      ? `${selectedOrder.source_token} / ${selectedOrder.target_token}`
+      : `${selectedOrder.target_token} / ${selectedOrder.source_token}`
+    : "";
+  const pnlToken = selectedOrder
+    ? selectedOrder.order_type === "buy"
+      ? selectedOrder.source_token
+      : selectedOrder.target_token
+    : "";
+
   if (isLoading) {
     return (
       <motion.div
@@ -256,12 +331,23 @@ export const RecurringOrdersDashboard = () => {
                   </td>
                   <td className="px-6 py-4 text-sm text-zinc-400">{formatDate(order.next_execution_date)}</td>
                   <td className="px-6 py-4">
-                    <span className={`text-sm font-semibold ${order.is_active ? "text-green-400" : "text-zinc-500"}`}>
-                      {order.is_active ? "Active" : "Cancelled"}
+                    <span
+                      className={`text-sm font-semibold ${getOrderStatus(order).color}`}
+                      title={order.paused_reason ?? order.completion_reason ?? undefined}
+                    >
+                      {getOrderStatus(order).label}
                     </span>
+                    {order.is_active && order.last_failure_class && (
+                      <span
+                        className="block text-xs text-red-400 mt-1"
+                        title={describeFailureClass(order.last_failure_class, order.source_token)}
+                      >
+                        {FAILURE_CLASS_LABELS[order.last_failure_class]}
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4">
-                    {order.is_active && (
+                    {canCancel(order) && (
                       <motion.button
                         whileHover={{ scale: 1.05 }}
                         whileTap={{ scale: 0.95 }}
@@ -330,16 +416,74 @@ export const RecurringOrdersDashboard = () => {
 
               <div className="flex justify-between items-center pb-4 border-b border-zinc-800/30">
                 <span className="text-zinc-400">Status</span>
-                <span className={`font-semibold ${selectedOrder.is_active ? "text-green-400" : "text-zinc-500"}`}>
-                  {selectedOrder.is_active ? "Active" : "Cancelled"}
+                <span className={`font-semibold ${getOrderStatus(selectedOrder).color}`}>
+                  {getOrderStatus(selectedOrder).label}
                 </span>
               </div>
 
+              {selectedOrder.paused_reason && (
+                <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/40">
+                  <p className="text-xs font-semibold text-yellow-400 mb-1">
+                    Paused{selectedOrder.paused_at ? ` on ${formatDateTime(selectedOrder.paused_at)}` : ""}
+                  </p>
+                  <p className="text-xs text-yellow-200/80">{selectedOrder.paused_reason}</p>
+                </div>
+              )}
+
+              {selectedOrder.is_active && selectedOrder.last_failure_class && (
+                <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/40">
+                  <p className="text-xs font-semibold text-red-400 mb-1">
+                    {FAILURE_CLASS_LABELS[selectedOrder.last_failure_class]}
+                  </p>
+                  <p className="text-xs text-red-200/80">
+                    {describeFailureClass(selectedOrder.last_failure_class, selectedOrder.source_token)}
+                  </p>
+                </div>
+              )}
+
+              {selectedOrder.is_active && selectedOrder.consecutive_failures > 0 && (
+                <div className="flex justify-between items-center pb-4 border-b border-zinc-800/30">
+                  <span className="text-zinc-400">Recent Failures</span>
+                  <span className="font-semibold text-red-400">{selectedOrder.consecutive_failures} in a row</span>
+                </div>
+              )}
+
               <div className="flex justify-between items-center pb-4 border-b border-zinc-800/30">
                 <span className="text-zinc-400">Next Execution</span>
                 <span className="font-semibold text-white">{formatDate(selectedOrder.next_execution_date)}</span>
               </div>
 
+              <div className="flex justify-between items-center pb-4 border-b border-zinc-800/30">
+                <span className="text-zinc-400">Max Slippage</span>
+                <span className="font-semibold text-white">{selectedOrder.max_slippage ?? 1}%</span>
+              </div>
+
+              {selectedOrder.limit_price && (
+                <div className="flex justify-between items-center pb-4 border-b border-zinc-800/30">
+                  <span className="text-zinc-400">
+                    {selectedOrder.order_type === "buy" ? "Max Price" : "Min Price"}
+                  </span>
+                  <span className="font-semibold text-white">
+                    {selectedOrder.limit_price}{" "}
+                    {selectedOrder.order_type === "buy"
+                      ? `${selectedOrder.source_token} / ${selectedOrder.target_token}`
+                      : `${selectedOrder.target_token} / ${selectedOrder.source_token}`}
+                  </span>
+                </div>
+              )}
+
+              <div className="flex justify-between items-center pb-4 border-b border-zinc-800/30">
+                <span className="text-zinc-400">Timezone</span>
+                <span className="font-semibold text-white">{selectedOrder.timezone ?? "UTC"}</span>
+              </div>
+
+              <div className="flex justify-between items-center pb-4 border-b border-zinc-800/30">
+                <span className="text-zinc-400">Missed Executions</span>
+                <span className="font-semibold text-white">
+                  {MISSED_SLOT_POLICIES.find((p) => p.value === selectedOrder.missed_slot_policy)?.label ?? "Run once"}
+                </span>
+              </div>
+
               <div className="flex justify-between items-center pb-4 border-b border-zinc-800/30">
                 <span className="text-zinc-400">End Date</span>
                 <span className="font-semibold text-white">
@@ -347,12 +491,46 @@ export const RecurringOrdersDashboard = () => {
                 </span>
               </div>
 
-              <div className="flex justify-between items-center">
+              <div className="flex justify-between items-center pb-4 border-b border-zinc-800/30">
                 <span className="text-zinc-400">Executions</span>
-                <span className="font-semibold text-white">{selectedOrder.execution_count}</span>
+                <span className="font-semibold text-white">
+                  {selectedOrder.execution_count}
+                  {selectedOrder.max_executions ? ` / ${selectedOrder.max_executions}` : ""}
+                </span>
+              </div>
+
+              {selectedOrder.total_budget ? (
+                <div className="flex justify-between items-center pb-4 border-b border-zinc-800/30">
+                  <span className="text-zinc-400">Remaining Budget</span>
+                  <span className="font-semibold text-white">
+                    {Math.max(0, selectedOrder.total_budget - selectedOrder.total_spent).toLocaleString(undefined, {
+                      maximumFractionDigits: 6,
+                    })}{" "}
+                    / {selectedOrder.total_budget} {selectedOrder.source_token}
+                  </span>
+                </div>
+              ) : null}
+
+              <div className="flex justify-between items-center">
+                <span className="text-zinc-400">
+                  {selectedOrder.completed_at ? "Completed" : "Projected Completion"}
+                </span>
+                <span className="font-semibold text-white">
+                  {selectedOrder.completed_at
+                    ? formatDate(selectedOrder.completed_at)
+                    : selectedProjection?.projectedCompletionDate
+                      ? `${formatDate(selectedProjection.projectedCompletionDate)} (${selectedProjection.remainingExecutions} left)`
+                      : selectedProjection && selectedProjection.remainingExecutions === null
+                        ? "Ongoing"
+                        : "N/A"}
+                </span>
               </div>
 
-              {selectedOrder.is_active && (
+              {selectedOrder.completion_reason && (
+                <p className="text-xs text-blue-400">{selectedOrder.completion_reason}</p>
+              )}
+
+              {canCancel(selectedOrder) && (
                 <motion.button
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
@@ -375,6 +553,57 @@ export const RecurringOrdersDashboard = () => {
           >
             <h3 className="text-lg font-semibold text-white mb-4">Execution History</h3>
 
+            {selectedPerformance && selectedPerformance.filledExecutions > 0 && (
+              <div className="grid grid-cols-3 gap-3 mb-4">
+                <div className="p-3 rounded-lg bg-zinc-800/20 border border-zinc-800/50">
+                  <p className="text-xs text-zinc-400 mb-1">
+                    {selectedOrder.order_type === "buy" ? "Avg Cost Basis" : "Avg Sale Price"}
+                  </p>
+                  <p className="text-sm font-semibold text-white">
+                    {selectedPerformance.averagePrice !== null
+                      ? formatAmount(selectedPerformance.averagePrice)
+                      : "N/A"}
+                  </p>
+                  <p className="text-xs text-zinc-500">{priceUnit}</p>
+                </div>
+                <div className="p-3 rounded-lg bg-zinc-800/20 border border-zinc-800/50">
+                  <p className="text-xs text-zinc-400 mb-1">
+                    {selectedOrder.order_type === "buy" ? "Total Acquired" : "Total Received"}
+                  </p>
+                  <p className="text-sm font-semibold text-white">
+                    {formatAmount(selectedPerformance.totalOut)}
+                  </p>
+                  <p className="text-xs text-zinc-500">
+                    {selectedOrder.target_token} for {formatAmount(selectedPerformance.totalIn)}{" "}
+                    {selectedOrder.source_token}
+                  </p>
+                </div>
+                <div className="p-3 rounded-lg bg-zinc-800/20 border border-zinc-800/50">
+                  <p className="text-xs text-zinc-400 mb-1">Unrealized P&amp;L</p>
+                  {selectedPerformance.unrealizedPnl !== null ? (
+                    <>
+                      <p
+                        className={`text-sm font-semibold ${
+                          selectedPerformance.unrealizedPnl >= 0 ? "text-green-400" : "text-red-400"
+                        }`}
+                      >
+                        {selectedPerformance.unrealizedPnl >= 0 ? "+" : ""}
+                        {formatAmount(selectedPerformance.unrealizedPnl)} {pnlToken}
+                      </p>
+                      {selectedPerformance.unrealizedPnlPercent !== null && (
+                        <p className="text-xs text-zinc-500">
+                          {selectedPerformance.unrealizedPnlPercent.toFixed(2)}% at{" "}
+                          {formatAmount(currentPrice ?? 0)}
+                        </p>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-sm text-zinc-500">No current quote</p>
+                  )}
+                </div>
+              </div>
+            )}
+
             <div className="space-y-3 max-h-96 overflow-y-auto">
               {executionHistory.length === 0 ? (
                 <p className="text-zinc-400 text-center py-8">No executions yet</p>
@@ -389,7 +618,8 @@ export const RecurringOrdersDashboard = () => {
                   >
                     <div className="flex justify-between items-start mb-2">
                       <span className={`text-xs font-semibold ${getStatusColor(execution.status)}`}>
-                        {execution.status}
+                        {execution.status === "SkippedPriceLimit" ? "Skipped (price limit)" : execution.status}
+                        {execution.failure_class && ` · ${FAILURE_CLASS_LABELS[execution.failure_class]}`}
                       </span>
                       <span className="text-xs text-zinc-500">{formatDateTime(execution.execution_date)}</span>
                     </div>
@@ -398,6 +628,28 @@ export const RecurringOrdersDashboard = () => {
                       {execution.amount} {execution.source_token} → {execution.target_token}
                     </div>
 
+                    {execution.amount_out != null && (
+                      <div className="text-xs text-zinc-400 mb-2 space-y-0.5">
+                        <p>
+                          Received {formatAmount(execution.amount_out)} {execution.target_token}
+                          {execution.effective_price != null &&
+                            ` @ ${formatAmount(execution.effective_price)} ${priceUnit}`}
+                        </p>
+                        <p>
+                          {execution.price_impact != null && `Price impact ${execution.price_impact}%`}
+                          {execution.price_impact != null && execution.fee != null && " · "}
+                          {execution.fee != null &&
+                            `Gas ${execution.gas_used ?? "?"} (${formatAmount(execution.fee)} USDC)`}
+                        </p>
+                      </div>
+                    )}
+
+                    {execution.status === "Skipped" && execution.scheduled_for && (
+                      <p className="text-xs text-zinc-500 mb-2">
+                        Scheduled for {formatDateTime(execution.scheduled_for)}
+                      </p>
+                    )}
+
                     {execution.transaction_hash && (
                       <a
                         href={`https://testnet.arcscan.io/tx/${execution.transaction_hash}`}
@@ -410,7 +662,13 @@ export const RecurringOrdersDashboard = () => {
                     )}
 
                     {execution.error_message && (
-                      <p className="text-xs text-red-400 mt-2">{execution.error_message}</p>
+                      <p
+                        className={`text-xs mt-2 ${
+                          execution.status === "SkippedPriceLimit" ? "text-zinc-400" : "text-red-400"
+                        }`}
+                      >
+                        {execution.error_message}
+                      </p>
                     )}
                   </motion.div>
                 ))
@@ -7,26 +7,32 @@ import {
   Wallet,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import Image from "next/image";
 import { usePrivy, useWallets } from "@privy-io/react-auth";
 import { 
-  fetchArcBalance, 
-  fetchERC20Balance,
-  fetchERC20Allowance,
   formatBalance, 
-  getSwapQuoteFromQuantumExchange,
-  getSwapTransactionFromQuantumExchange,
   getRevertReasonViaPublicRpc,
   TOKEN_CONTRACTS,
   TOKEN_DECIMALS,
   NATIVE_TOKENS,
-  ERC20_TOKENS,
   ARC_CHAIN_HEX,
   ARC_ADD_NETWORK_PARAMS,
   ARC_POOLS,
 } from "@/lib/arcNetwork";
+import { AggregatedQuote, aggregateQuotes } from "@/lib/quoteAggregator";
+import {
+  SwapHop,
+  SwapRequest,
+  describePartialSwap,
+  getLiquiditySource,
+  quantumExchangeSource,
+} from "@/lib/liquidity";
+import { loadTokenRegistry } from "@/lib/tokenRegistry";
+import { useWalletHoldings } from "@/lib/useWalletHoldings";
+import { isRemoteIcon } from "@/lib/tokenIcons";
+import { encodeApprove } from "@/supabase/functions/_shared/erc20";
 
 import usdcLogo from "@/public/assets/USDC-fotor-bg-remover-2025111075935.png";
 import usdtLogo from "@/public/assets/usdt_logo-removebg-preview.png";
@@ -36,7 +42,8 @@ import hypeLogo from "@/public/assets/hype.png";
 import eurcLogo from "@/public/assets/Euro_Coin logo.png";
 import swprcLogo from "@/public/assets/swapr_logo.png";
 import quantumLogo from "@/public/assets/quantum-logo.png";
-import TokenModal from "./TokenModal";
+import { loadCustomTokens } from "@/lib/customTokenService";
+import TokenModal, { ModalToken, toModalToken } from "./TokenModal";
 import SettingsModal from "./SettingsModal";
 import ChartModal from "./ChartModal";
 import TokenInput from "./reusable/TokenInput";
@@ -56,8 +63,8 @@ const tokens = [
 ];
 
 interface TokenSelectorProps {
-  selected: (typeof tokens)[0];
-  onSelect: (token: (typeof tokens)[0]) => void;
+  selected: ModalToken;
+  onSelect: (token: ModalToken) => void;
   excludeSymbol?: string;
   onOpenModal: () => void;
 }
@@ -73,6 +80,7 @@ const TokenSelector = ({ selected, onOpenModal }: TokenSelectorProps) => {
       <div className="w-6 h-6 rounded-full bg-primary/30 flex items-center justify-center overflow-hidden">
         <Image
           src={selected.icon}
+          unoptimized={isRemoteIcon(selected.icon)}
           alt={`${selected.symbol} logo`}
           width={24}
           height={24}
@@ -101,9 +109,25 @@ const SwapCard = () => {
   );
   const [transactionHash, setTransactionHash] = useState<string | null>(null);
   const [revertReason, setRevertReason] = useState<string | null>(null);
+  // What a pool route that stopped partway left in the wallet
+  const [partialSwap, setPartialSwap] = useState<string | null>(null);
   const [slippageTolerance, setSlippageTolerance] = useState(1); // 1% default to reduce "execution reverted" from slippage
   const [resetApprovalLoading, setResetApprovalLoading] = useState(false);
 
+  // Merge the token lists and QuantumExchange token list into the token registry
+  useEffect(() => {
+    const builtIn = new Set(tokens.map((token) => token.symbol));
+    loadTokenRegistry()
+      .then((registered) =>
+        setListedTokens(
+          registered
+            .filter((token) => token.address && !token.custom && !builtIn.has(token.symbol))
+            .map(toModalToken)
+        )
+      )
+      .catch((error) => console.error("Error loading token registry:", error));
+  }, []);
+
   // Monitor chain ID changes
   useEffect(() => {
     if (!authenticated || typeof window === "undefined") return;
@@ -177,33 +201,28 @@ const SwapCard = () => {
     return "0x" + v.toString(16);
   };
 
-  // Minimal calldata encoding for ERC20 approve(spender, amount)
-  // approve(address,uint256) selector = 0x095ea7b3
-  const encodeErc20Approve = (spender: string, amountWei: string) => {
-    const selector = "0x095ea7b3";
-    const spenderNo0x = spender.toLowerCase().replace(/^0x/, "");
-    const spenderPadded = spenderNo0x.padStart(64, "0");
-    const amountHex = BigInt(amountWei).toString(16).padStart(64, "0");
-    return selector + spenderPadded + amountHex;
-  };
-
   // Token and amount states
   const [sellAmount, setSellAmount] = useState("0.00");
   const [receiveAmount, setReceiveAmount] = useState("0.00");
-  const [sellToken, setSellToken] = useState(tokens[0]);
-  const [receiveToken, setReceiveToken] = useState(tokens[1]);
-
-  // Actual wallet balances
-  const [tokenBalances, setTokenBalances] = useState<Record<string, number>>({
-    USDC: 0,
-    ETH: 0,
-    USDT: 0,
-    EURC: 0,
-    SWPRC: 0,
-    UNI: 0,
-    HYPE: 0,
-  });
-  const [isLoadingBalances, setIsLoadingBalances] = useState(false);
+  // Quotes from every liquidity source for the current amount
+  const [quoteResult, setQuoteResult] = useState<AggregatedQuote | null>(null);
+  const [showQuoteSources, setShowQuoteSources] = useState(false);
+  const quotePlan = quoteResult?.best.plan ?? null;
+  // Pool routes are swapped one transaction per hop
+  const quoteTransactions = quotePlan?.legs.reduce((sum, leg) => sum + leg.route.hops.length, 0) ?? 0;
+  const [sellToken, setSellToken] = useState<ModalToken>(tokens[0]);
+  const [receiveToken, setReceiveToken] = useState<ModalToken>(tokens[1]);
+  // Tokens from token lists beyond the built-in ones
+  const [listedTokens, setListedTokens] = useState<ModalToken[]>([]);
+  // Tokens the connected wallet imported by contract address
+  const [customTokens, setCustomTokens] = useState<ModalToken[]>([]);
+
+  // Actual wallet balances, shared with Positions through useWalletHoldings
+  const {
+    balances: tokenBalances,
+    loading: isLoadingBalances,
+    refresh: refreshBalances,
+  } = useWalletHoldings(authenticated ? user?.wallet?.address ?? null : null);
 
   // Modal states
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
@@ -211,130 +230,30 @@ const SwapCard = () => {
   const [isSellTokenModalOpen, setIsSellTokenModalOpen] = useState(false);
   const [isReceiveTokenModalOpen, setIsReceiveTokenModalOpen] = useState(false);
 
-  // Fetch actual wallet balances from Arc testnet
-  const fetchUserBalances = useCallback(async () => {
-    if (!user?.wallet?.address) {
-      console.log("Wallet address not available");
+  // Load the tokens the connected wallet imported
+  useEffect(() => {
+    const walletAddress = user?.wallet?.address;
+    if (!walletAddress) {
+      setCustomTokens([]);
       return;
     }
 
-    console.log("Fetching balances for wallet:", user.wallet.address);
-    setIsLoadingBalances(true);
-    try {
-      // Fetch USDC balance from Arc testnet (native balance)
-      const usdcBalance = await fetchArcBalance(user.wallet.address);
-      console.log("USDC balance:", usdcBalance);
-      
-      if (usdcBalance) {
-        setTokenBalances((prev) => ({
-          ...prev,
-          USDC: parseFloat(formatBalance(usdcBalance)),
-        }));
-      }
-
-      // Fetch WUSDC balance
-      if (TOKEN_CONTRACTS.WUSDC) {
-        console.log("Fetching WUSDC balance from:", TOKEN_CONTRACTS.WUSDC);
-        const wusdcBalanceWei = await fetchERC20Balance(
-          user.wallet.address,
-          TOKEN_CONTRACTS.WUSDC
-        );
-        console.log("WUSDC balance (wei):", wusdcBalanceWei);
-        if (wusdcBalanceWei && wusdcBalanceWei !== "0x0") {
-          const wusdcBalance =
-            parseInt(wusdcBalanceWei, 16) / 10 ** (TOKEN_DECIMALS.WUSDC || 6);
-          console.log("WUSDC balance (converted):", wusdcBalance);
-          setTokenBalances((prev) => ({
-            ...prev,
-            WUSDC: wusdcBalance,
-          }));
-        }
-      }
-
-      // Fetch QTM balance
-      if (TOKEN_CONTRACTS.QTM) {
-        console.log("Fetching QTM balance from:", TOKEN_CONTRACTS.QTM);
-        const qtmBalanceWei = await fetchERC20Balance(
-          user.wallet.address,
-          TOKEN_CONTRACTS.QTM
-        );
-        console.log("QTM balance (wei):", qtmBalanceWei);
-        if (qtmBalanceWei && qtmBalanceWei !== "0x0") {
-          const qtmBalance =
-            parseInt(qtmBalanceWei, 16) / 10 ** (TOKEN_DECIMALS.QTM || 18);
-          console.log("QTM balance (converted):", qtmBalance);
-          setTokenBalances((prev) => ({
-            ...prev,
-            QTM: qtmBalance,
-          }));
-        }
-      }
-
-      // Fetch EURC balance
-      if (TOKEN_CONTRACTS.EURC) {
-        console.log("Fetching EURC balance from:", TOKEN_CONTRACTS.EURC);
-        const eurcBalanceWei = await fetchERC20Balance(
-          user.wallet.address,
-          TOKEN_CONTRACTS.EURC
-        );
-        console.log("EURC balance (wei):", eurcBalanceWei);
-        if (eurcBalanceWei && eurcBalanceWei !== "0x0") {
-          const eurcBalance =
-            parseInt(eurcBalanceWei, 16) / 10 ** (TOKEN_DECIMALS.EURC || 6);
-          console.log("EURC balance (converted):", eurcBalance);
-          setTokenBalances((prev) => ({
-            ...prev,
-            EURC: eurcBalance,
-          }));
-        }
-      }
-
-      // Fetch SWPRC balance
-      if (TOKEN_CONTRACTS.SWPRC) {
-        console.log("Fetching SWPRC balance from:", TOKEN_CONTRACTS.SWPRC);
-        const swprcBalanceWei = await fetchERC20Balance(
-          user.wallet.address,
-          TOKEN_CONTRACTS.SWPRC
-        );
-        console.log("SWPRC balance (wei):", swprcBalanceWei);
-        if (swprcBalanceWei && swprcBalanceWei !== "0x0") {
-          const swprcBalance =
-            parseInt(swprcBalanceWei, 16) / 10 ** (TOKEN_DECIMALS.SWPRC || 6);
-          console.log("SWPRC balance (converted):", swprcBalance);
-          setTokenBalances((prev) => ({
-            ...prev,
-            SWPRC: swprcBalance,
-          }));
-        }
-      }
-
-      // TODO: Fetch other token balances (ETH, USDT, UNI, HYPE)
-      // Add token contract addresses to TOKEN_CONTRACTS and use fetchERC20Balance
-    } catch (error) {
-      console.error("Failed to fetch wallet balances:", error);
-    } finally {
-      setIsLoadingBalances(false);
-    }
+    loadCustomTokens(walletAddress)
+      .then((imported) => setCustomTokens(imported.map(toModalToken)))
+      .catch((error) => console.error("Error loading custom tokens:", error));
   }, [user?.wallet?.address]);
 
+  const handleImportToken = (token: ModalToken) => {
+    setCustomTokens((prev) =>
+      prev.some((t) => t.symbol === token.symbol) ? prev : [...prev, token]
+    );
+    refreshBalances();
+  };
+
   // Sync wallet connection with Privy authentication
   useEffect(() => {
-    if (authenticated && user) {
-      setIsWalletConnected(true);
-      fetchUserBalances();
-    } else {
-      setIsWalletConnected(false);
-      setTokenBalances({
-        USDC: 0,
-        ETH: 0,
-        USDT: 0,
-        EURC: 0,
-        SWPRC: 0,
-        UNI: 0,
-        HYPE: 0,
-      });
-    }
-  }, [authenticated, user, fetchUserBalances]);
+    setIsWalletConnected(authenticated && !!user);
+  }, [authenticated, user]);
 
   // Get display balance for a token (actual if available, mock otherwise)
   const getTokenBalance = (symbol: string): number => {
@@ -366,73 +285,40 @@ const SwapCard = () => {
       getQuoteForSwap(value);
     } else {
       setReceiveAmount("0.00");
+      setQuoteResult(null);
     }
   };
 
-  // Get swap quote from QuantumExchange API
+  // Get the best swap quote across all liquidity sources
   const getQuoteForSwap = async (sellAmountValue: string) => {
     try {
-      // Get token addresses for the swap
-      let tokenInAddress: string | null = null;
-      let tokenOutAddress: string | null = null;
-
-      // Map token symbols to contract addresses
-      const addressMap: Record<string, string> = TOKEN_CONTRACTS;
-      
-      if (addressMap[sellToken.symbol]) {
-        tokenInAddress = addressMap[sellToken.symbol];
-      }
-
-      if (addressMap[receiveToken.symbol]) {
-        tokenOutAddress = addressMap[receiveToken.symbol];
-      }
-
-      if (!tokenInAddress || !tokenOutAddress) {
-        console.warn(
-          `Token address not found for ${sellToken.symbol} or ${receiveToken.symbol}`
-        );
-        calculateMockRate(sellAmountValue);
-        return;
-      }
-
       // Convert sell amount to wei using correct decimals for the sell token
       const sellTokenDecimals = TOKEN_DECIMALS[sellToken.symbol] || 18;
       const amountInWei = BigInt(
-        parseFloat(sellAmountValue) * 10 ** sellTokenDecimals
+        Math.floor(parseFloat(sellAmountValue) * 10 ** sellTokenDecimals)
       ).toString();
 
-      console.log("Getting quote from QuantumExchange:", {
-        sellToken: sellToken.symbol,
-        receiveToken: receiveToken.symbol,
-        tokenInAddress,
-        tokenOutAddress,
-        amountInWei,
+      const result = await aggregateQuotes({
+        tokenIn: sellToken.symbol,
+        tokenOut: receiveToken.symbol,
+        amountIn: amountInWei,
+        slippage: slippageTolerance,
       });
 
-      // Get quote from QuantumExchange API
-      const quoteData = await getSwapQuoteFromQuantumExchange(
-        tokenInAddress,
-        tokenOutAddress,
-        amountInWei,
-        slippageTolerance
+      console.log(
+        `Best quote from ${result.best.label} (${result.quotes.length}/${result.sourceCount} sources):`,
+        result
       );
 
-      console.log("Quote received from QuantumExchange:", quoteData);
-
       // Convert quote back from wei using correct decimals for the receive token
       const receiveTokenDecimals = TOKEN_DECIMALS[receiveToken.symbol] || 18;
-      const quoteAmount = parseFloat(quoteData.toAmount) / 10 ** receiveTokenDecimals;
-
-      console.log("Quote converted:", {
-        receiveTokenDecimals,
-        quoteAmount,
-        priceImpact: quoteData.priceImpact,
-      });
-
-      setReceiveAmount(quoteAmount.toFixed(2));
+      setQuoteResult(result);
+      setReceiveAmount(
+        (Number(result.best.amountOut) / 10 ** receiveTokenDecimals).toFixed(2)
+      );
     } catch (error) {
       console.error("Error getting swap quote:", error);
-      // Fallback to mock calculation on error
+      setQuoteResult(null);
       calculateMockRate(sellAmountValue);
     }
   };
@@ -506,7 +392,7 @@ const SwapCard = () => {
       if (chainId !== ARC_CHAIN_HEX) throw new Error("Switch to Arc Testnet first");
       const tokenAddress = TOKEN_CONTRACTS[sellToken.symbol];
       const spender = ARC_POOLS.routerQuantum;
-      const calldata = encodeErc20Approve(spender, "0");
+      const calldata = encodeApprove(spender, "0");
       const toHexQuantity = (n: number) => "0x" + n.toString(16);
       await provider.request({
         method: "eth_sendTransaction",
@@ -518,7 +404,7 @@ const SwapCard = () => {
           gas: toHexQuantity(80000),
         }],
       });
-      fetchUserBalances();
+      refreshBalances();
       alert("Approval reset for " + sellToken.symbol + ". Next swap will ask for approval again.");
     } catch (e) {
       console.error("Reset approval failed:", e);
@@ -534,6 +420,9 @@ const SwapCard = () => {
   const handleSwap = async () => {
     setSwapState("loading");
     setRevertReason(null);
+    setPartialSwap(null);
+    // Hops of a pool route that were mined, to report a route that stops partway
+    const minedHops: SwapHop[] = [];
 
     try {
       if (!user?.wallet?.address) {
@@ -661,26 +550,6 @@ const SwapCard = () => {
         }
       };
 
-      // Get token addresses for the swap
-      let tokenInAddress: string | null = null;
-      let tokenOutAddress: string | null = null;
-
-      const addressMap: Record<string, string> = TOKEN_CONTRACTS;
-      
-      if (addressMap[sellToken.symbol]) {
-        tokenInAddress = addressMap[sellToken.symbol];
-      }
-
-      if (addressMap[receiveToken.symbol]) {
-        tokenOutAddress = addressMap[receiveToken.symbol];
-      }
-
-      if (!tokenInAddress || !tokenOutAddress) {
-        throw new Error(
-          `Token address not found for ${sellToken.symbol} or ${receiveToken.symbol}`
-        );
-      }
-
       // Step 1: Validate balance before proceeding
       const sellAmountNum = parseFloat(sellAmount);
       const balance = getTokenBalance(sellToken.symbol);
@@ -702,11 +571,19 @@ const SwapCard = () => {
         Math.floor(sellAmountNum * 10 ** sellTokenDecimals)
       ).toString();
 
-      console.log("Preparing swap via QuantumExchange:", {
+      // Execute with the source that won the quote, QuantumExchange without one
+      const source = getLiquiditySource(quoteResult?.best.source ?? quantumExchangeSource.id);
+      const swapRequest: SwapRequest = {
+        tokenIn: sellToken.symbol,
+        tokenOut: receiveToken.symbol,
+        amountIn: amountInWei,
+        slippage: slippageTolerance,
+        recipient: user.wallet.address,
+      };
+
+      console.log(`Preparing swap via ${source.label}:`, {
         sellToken: sellToken.symbol,
         receiveToken: receiveToken.symbol,
-        tokenInAddress,
-        tokenOutAddress,
         amountInWei,
         amountInHuman: sellAmount,
         walletAddress: user.wallet.address,
@@ -714,384 +591,345 @@ const SwapCard = () => {
         sellTokenDecimals,
       });
 
-      // Step 3: Get swap transaction data from QuantumExchange
-      const swapData = await getSwapTransactionFromQuantumExchange(
-        tokenInAddress,
-        tokenOutAddress,
-        amountInWei,
-        slippageTolerance,
-        user.wallet.address
-      );
-
-      console.log("Swap transaction data received:", {
-        to: swapData.to,
-        value: swapData.value,
-        dataLength: swapData.data?.length,
-        gasLimit: swapData.gasLimit,
-        approvalAddress: swapData.approvalAddress,
-        approvalAmount: swapData.approvalAmount,
-      });
-
-      // Check for invalid ETH values in token-to-token swaps (will be corrected later)
-      const swapValueBigInt = BigInt(swapData.value || "0");
-      const isNativeInput = NATIVE_TOKENS.includes(sellToken.symbol);
-      const isNativeOutput = NATIVE_TOKENS.includes(receiveToken.symbol);
-      
-      // Native tokens (like USDC) are payable and SHOULD have a non-zero ETH value
-      // ERC-20 tokens should NOT have a non-zero ETH value
-      if (!isNativeInput && !isNativeOutput && swapValueBigInt > 0n) {
-        console.warn("WARNING: QuantumExchange returned non-zero ETH value for ERC-20 token swap", {
-          sellToken: sellToken.symbol,
-          receiveToken: receiveToken.symbol,
-          swapValue: swapData.value,
-          swapValueWei: swapValueBigInt.toString(),
-          note: "This will be corrected to 0x0 before sending",
+      // Routes without a router come back as one transaction per hop, each
+      // built once the previous one is mined
+      let request: SwapRequest | undefined = swapRequest;
+      let txHash = "";
+      while (request) {
+        // Step 3: Get swap transaction data from the source
+        const swapData = await source.buildSwapTransaction(request);
+
+        console.log("Swap transaction data received:", {
+          to: swapData.to,
+          value: swapData.value,
+          dataLength: swapData.data?.length,
+          gasLimit: swapData.gasLimit,
+          spender: swapData.spender,
+          approvalAmount: swapData.approvalAmount,
         });
-      } else if ((isNativeInput || isNativeOutput) && swapValueBigInt > 0n) {
-        console.log("Swap involves native token (requires ETH payment)", {
-          sellToken: sellToken.symbol,
-          receiveToken: receiveToken.symbol,
-          ethAmount: swapData.value,
-          ethInWei: swapValueBigInt.toString(),
-          ethInDecimal: (Number(swapValueBigInt) / 1e18).toFixed(6),
-        });
-      }
 
-      // Step 4: Check current allowance and handle token approval if needed
-      // Native tokens (like USDC) don't need ERC-20 approval - they use payable functions
-      // Only ERC-20 tokens need approval
-      const needsApprovalCheck = ERC20_TOKENS.includes(sellToken.symbol);
-      
-      let needsApproval = false;
-      let spenderAddress = "";
-      let requiredAmount = "";
-      let currentAllowanceBigInt = BigInt(0);
+        // Check for invalid ETH values in token-to-token swaps (will be corrected later)
+        // A hop of a pool route only swaps its own pair
+        const swapValueBigInt = BigInt(swapData.value || "0");
+        const hopTokenIn = swapData.hop?.tokenIn ?? request.tokenIn;
+        const hopTokenOut = swapData.hop?.tokenOut ?? request.tokenOut;
+        const isNativeInput = NATIVE_TOKENS.includes(hopTokenIn);
+        const isNativeOutput = NATIVE_TOKENS.includes(hopTokenOut);
       
-      if (needsApprovalCheck) {
-        // The spender is the swap router (swapData.to) - this is who needs permission to spend tokens
-        spenderAddress = swapData.approvalAddress || swapData.to;
-        requiredAmount = swapData.approvalAmount || amountInWei;
-        
-        console.log("Checking token allowance for ERC-20 token:", {
-          token: sellToken.symbol,
-          tokenAddress: tokenInAddress,
-          owner: user.wallet.address,
-          spender: spenderAddress,
-          requiredAmount,
-        });
-
-        // Check current allowance
-        const currentAllowance = await fetchERC20Allowance(
-          user.wallet.address,
-          spenderAddress,
-          tokenInAddress
-        );
-
-        currentAllowanceBigInt = currentAllowance ? BigInt(currentAllowance) : BigInt(0);
-        const requiredAmountBigInt = BigInt(requiredAmount);
-        needsApproval = currentAllowanceBigInt < requiredAmountBigInt;
-
-        console.log("Allowance check result:", {
-          currentAllowance: currentAllowanceBigInt.toString(),
-          requiredAmount: requiredAmountBigInt.toString(),
-          needsApproval,
-        });
-      } else {
-        console.log("Native token - skipping ERC-20 approval (uses payable function)", {
-          token: sellToken.symbol,
-        });
-      }
-
-      // Handle approval if needed
-      if (needsApproval) {
-        console.log("Token approval needed - requesting approval:", {
-          approvalAddress: spenderAddress,
-          approvalAmount: requiredAmount,
-          currentAllowance: currentAllowanceBigInt.toString(),
-        });
+        // Native tokens (like USDC) are payable and SHOULD have a non-zero ETH value
+        // ERC-20 tokens should NOT have a non-zero ETH value
+        if (!isNativeInput && !isNativeOutput && swapValueBigInt > 0n) {
+          console.warn(`WARNING: ${source.label} returned non-zero ETH value for ERC-20 token swap`, {
+            sellToken: hopTokenIn,
+            receiveToken: hopTokenOut,
+            swapValue: swapData.value,
+            swapValueWei: swapValueBigInt.toString(),
+            note: "This will be corrected to 0x0 before sending",
+          });
+        } else if ((isNativeInput || isNativeOutput) && swapValueBigInt > 0n) {
+          console.log("Swap involves native token (requires ETH payment)", {
+            sellToken: hopTokenIn,
+            receiveToken: hopTokenOut,
+            ethAmount: swapData.value,
+            ethInWei: swapValueBigInt.toString(),
+            ethInDecimal: (Number(swapValueBigInt) / 1e18).toFixed(6),
+          });
+        }
 
-        // Send approval transaction via provider
-        try {
-          console.log("Sending approval transaction to MetaMask...");
-          // Approve the router to spend the required amount
-          const approvalCalldata = encodeErc20Approve(
-            spenderAddress,
-            requiredAmount
-          );
-          const approveTxHash = await sendTransactionViaProvider({
-            to: tokenInAddress,
-            value: "0",
-            data: approvalCalldata,
-            // Wallets still estimate gas, but providing a buffer helps on some providers
-            gas: 120000,
-          }, "APPROVAL");
-
-          console.log("Approval transaction sent:", approveTxHash);
-
-          // Wait for approval confirmation - poll until receipt is found
-          let approvalReceipt = null;
-          let approvalRetries = 0;
-          const maxApprovalRetries = 30; // Wait up to 30 seconds
+        // Step 4: Check current allowance and handle token approval if needed
+        // Native tokens (like USDC) don't need ERC-20 approval - they use payable functions
+        const approval = await source.needsApproval(user.wallet.address, request, swapData);
+
+        // Handle approval if needed
+        if (approval) {
+          console.log("Token approval needed - requesting approval:", approval);
+
+          // Send approval transaction via provider
+          try {
+            console.log("Sending approval transaction to MetaMask...");
+            // Approve the router to spend the required amount
+            const approvalCalldata = encodeApprove(
+              approval.spender,
+              approval.amount
+            );
+            const approveTxHash = await sendTransactionViaProvider({
+              to: approval.token,
+              value: "0",
+              data: approvalCalldata,
+              // Wallets still estimate gas, but providing a buffer helps on some providers
+              gas: 120000,
+            }, "APPROVAL");
+
+            console.log("Approval transaction sent:", approveTxHash);
+
+            // Wait for approval confirmation - poll until receipt is found
+            let approvalReceipt = null;
+            let approvalRetries = 0;
+            const maxApprovalRetries = 30; // Wait up to 30 seconds
           
-          while (approvalReceipt === null && approvalRetries < maxApprovalRetries) {
-            await new Promise((resolve) => setTimeout(resolve, 1000));
+            while (approvalReceipt === null && approvalRetries < maxApprovalRetries) {
+              await new Promise((resolve) => setTimeout(resolve, 1000));
             
-            try {
-              approvalReceipt = await eip1193Provider.request({
-                method: 'eth_getTransactionReceipt',
-                params: [approveTxHash],
-              });
+              try {
+                approvalReceipt = await eip1193Provider.request({
+                  method: 'eth_getTransactionReceipt',
+                  params: [approveTxHash],
+                });
               
-              if (approvalReceipt) {
-                if (approvalReceipt.status === '0x0') {
-                  throw new Error("Approval transaction failed on-chain");
+                if (approvalReceipt) {
+                  if (approvalReceipt.status === '0x0') {
+                    throw new Error("Approval transaction failed on-chain");
+                  }
+                  console.log("Approval transaction confirmed:", approvalReceipt);
+                  break;
                 }
-                console.log("Approval transaction confirmed:", approvalReceipt);
-                break;
+              } catch (err) {
+                // Continue polling
               }
-            } catch (err) {
-              // Continue polling
-            }
             
-            approvalRetries++;
-          }
+              approvalRetries++;
+            }
           
-          if (!approvalReceipt) {
-            throw new Error("Approval transaction not confirmed after 30 seconds");
-          }
+            if (!approvalReceipt) {
+              throw new Error("Approval transaction not confirmed after 30 seconds");
+            }
           
-          // Additional wait to ensure block is finalized
-          await new Promise((resolve) => setTimeout(resolve, 2000));
+            // Additional wait to ensure block is finalized
+            await new Promise((resolve) => setTimeout(resolve, 2000));
           
-          console.log("Approval transaction confirmed successfully!");
-        } catch (approvalError: unknown) {
-          // Better error serialization for approval errors
-          let approvalErrorDetails: Record<string, unknown> = {
-            context: "tokenApproval",
+            console.log("Approval transaction confirmed successfully!");
+          } catch (approvalError: unknown) {
+            // Better error serialization for approval errors
+            let approvalErrorDetails: Record<string, unknown> = {
+              context: "tokenApproval",
+              timestamp: new Date().toISOString(),
+              token: request.tokenIn,
+              approvalAddress: approval.spender,
+              approvalAmount: approval.amount,
+            };
+
+            if (approvalError instanceof Error) {
+              approvalErrorDetails.message = approvalError.message;
+              approvalErrorDetails.stack = approvalError.stack;
+              approvalErrorDetails.name = approvalError.name;
+            } else if (typeof approvalError === "string") {
+              approvalErrorDetails.message = approvalError;
+            } else if (approvalError && typeof approvalError === "object") {
+              const err = approvalError as Record<string, unknown>;
+              approvalErrorDetails = {
+                ...approvalErrorDetails,
+                message: err.message || err.reason || String(approvalError),
+                code: err.code,
+                data: err.data,
+                shortMessage: err.shortMessage,
+                cause: err.cause,
+              };
+            } else {
+              approvalErrorDetails.message = String(approvalError);
+            }
+
+            console.error("Approval transaction error details:", approvalErrorDetails);
+            // Don't continue if approval failed - the swap will fail anyway
+            throw new Error(
+              `Token approval failed: ${approvalErrorDetails.message || "Unknown error"}. Please try again.`
+            );
+          }
+        } else {
+          console.log("Sufficient allowance already exists - skipping approval");
+        }
+
+        // Re-fetch swap data so deadline and amountOutMin are fresh (avoids "execution reverted" from stale data)
+        console.log("Fetching fresh swap data before sending...");
+        const freshSwapData = await source.buildSwapTransaction(request);
+        const swapDataToSend = freshSwapData;
+
+        // Step 5: Send swap transaction via provider
+        console.log("Sending swap transaction...");
+        console.log("Swap transaction data:", {
+          to: swapDataToSend.to,
+          value: swapDataToSend.value,
+          dataLength: swapDataToSend.data?.length || 0,
+          sellToken: sellToken.symbol,
+          receiveToken: receiveToken.symbol,
+          amountIn: request.amountIn,
+          slippage: slippageTolerance,
+        });
+
+        // Try to estimate gas, but don't block if it fails
+        // (some RPC endpoints have issues with gas estimation on complex transactions)
+        try {
+          console.log("Estimating gas...");
+          const gasEstimate = await eip1193Provider.request({
+            method: 'eth_estimateGas',
+            params: [{
+              from: userAddress,
+              to: swapDataToSend.to,
+              value: swapDataToSend.value,
+              data: swapDataToSend.data,
+            }],
+          });
+          console.log("Gas estimate successful:", gasEstimate);
+        } catch (estimateError: unknown) {
+          // Log the error but continue - the wallet will provide its own gas estimation
+          let estimateErrorDetails: Record<string, unknown> = {
+            context: "gasEstimation",
             timestamp: new Date().toISOString(),
-            token: sellToken.symbol,
-            approvalAddress: spenderAddress,
-            approvalAmount: requiredAmount,
+            note: "Continuing with swap - wallet will estimate gas",
           };
 
-          if (approvalError instanceof Error) {
-            approvalErrorDetails.message = approvalError.message;
-            approvalErrorDetails.stack = approvalError.stack;
-            approvalErrorDetails.name = approvalError.name;
-          } else if (typeof approvalError === "string") {
-            approvalErrorDetails.message = approvalError;
-          } else if (approvalError && typeof approvalError === "object") {
-            const err = approvalError as Record<string, unknown>;
-            approvalErrorDetails = {
-              ...approvalErrorDetails,
-              message: err.message || err.reason || String(approvalError),
+          if (estimateError instanceof Error) {
+            estimateErrorDetails.message = estimateError.message;
+            estimateErrorDetails.stack = estimateError.stack;
+            estimateErrorDetails.name = estimateError.name;
+          } else if (typeof estimateError === "string") {
+            estimateErrorDetails.message = estimateError;
+          } else if (estimateError && typeof estimateError === "object") {
+            const err = estimateError as Record<string, unknown>;
+            estimateErrorDetails = {
+              ...estimateErrorDetails,
+              message: err.message || err.reason || String(estimateError),
               code: err.code,
               data: err.data,
               shortMessage: err.shortMessage,
               cause: err.cause,
             };
           } else {
-            approvalErrorDetails.message = String(approvalError);
+            estimateErrorDetails.message = String(estimateError);
           }
 
-          console.error("Approval transaction error details:", approvalErrorDetails);
-          // Don't continue if approval failed - the swap will fail anyway
-          throw new Error(
-            `Token approval failed: ${approvalErrorDetails.message || "Unknown error"}. Please try again.`
-          );
+          console.error("Gas estimation error details:", estimateErrorDetails);
+          console.warn("Gas estimation failed (wallet will estimate)");
         }
-      } else {
-        console.log("Sufficient allowance already exists - skipping approval");
-      }
 
-      // Re-fetch swap data so deadline and amountOutMin are fresh (avoids "execution reverted" from stale data)
-      console.log("Fetching fresh swap data before sending...");
-      const freshSwapData = await getSwapTransactionFromQuantumExchange(
-        tokenInAddress,
-        tokenOutAddress,
-        amountInWei,
-        slippageTolerance,
-        user.wallet.address
-      );
-      const swapDataToSend = freshSwapData;
-
-      // Step 5: Send swap transaction via provider
-      console.log("Sending swap transaction...");
-      console.log("Swap transaction data:", {
-        to: swapDataToSend.to,
-        value: swapDataToSend.value,
-        dataLength: swapDataToSend.data?.length || 0,
-        sellToken: sellToken.symbol,
-        receiveToken: receiveToken.symbol,
-        amountIn: amountInWei,
-        slippage: slippageTolerance,
-      });
-
-      // Try to estimate gas, but don't block if it fails
-      // (some RPC endpoints have issues with gas estimation on complex transactions)
-      try {
-        console.log("Estimating gas...");
-        const gasEstimate = await eip1193Provider.request({
-          method: 'eth_estimateGas',
-          params: [{
-            from: userAddress,
-            to: swapDataToSend.to,
-            value: swapDataToSend.value,
-            data: swapDataToSend.data,
-          }],
-        });
-        console.log("Gas estimate successful:", gasEstimate);
-      } catch (estimateError: unknown) {
-        // Log the error but continue - the wallet will provide its own gas estimation
-        let estimateErrorDetails: Record<string, unknown> = {
-          context: "gasEstimation",
-          timestamp: new Date().toISOString(),
-          note: "Continuing with swap - wallet will estimate gas",
-        };
-
-        if (estimateError instanceof Error) {
-          estimateErrorDetails.message = estimateError.message;
-          estimateErrorDetails.stack = estimateError.stack;
-          estimateErrorDetails.name = estimateError.name;
-        } else if (typeof estimateError === "string") {
-          estimateErrorDetails.message = estimateError;
-        } else if (estimateError && typeof estimateError === "object") {
-          const err = estimateError as Record<string, unknown>;
-          estimateErrorDetails = {
-            ...estimateErrorDetails,
-            message: err.message || err.reason || String(estimateError),
-            code: err.code,
-            data: err.data,
-            shortMessage: err.shortMessage,
-            cause: err.cause,
-          };
-        } else {
-          estimateErrorDetails.message = String(estimateError);
+        // Ensure value is properly formatted (should be hex string)
+        const swapValue = swapDataToSend.value?.startsWith("0x")
+          ? swapDataToSend.value
+          : swapDataToSend.value
+          ? toHexQuantity(swapDataToSend.value)
+          : "0x0";
+
+        // CRITICAL FIX: Only zero out value for pure ERC-20 token swaps (no native tokens)
+        // Native tokens (like USDC) REQUIRE non-zero ETH value via payable functions
+        // ERC-20 tokens should NEVER have a non-zero value
+        const isNativeInputFinal = NATIVE_TOKENS.includes(swapDataToSend.hop?.tokenIn ?? request.tokenIn);
+        const isNativeOutputFinal = NATIVE_TOKENS.includes(swapDataToSend.hop?.tokenOut ?? request.tokenOut);
+        const finalSwapValue = (!isNativeInputFinal && !isNativeOutputFinal) ? "0x0" : swapValue;
+
+        if (finalSwapValue !== swapValue) {
+          console.warn("Corrected swap value to 0x0 for pure ERC-20 token swap", {
+            originalValue: swapValue,
+            correctedValue: finalSwapValue,
+            sellToken: swapDataToSend.hop?.tokenIn ?? request.tokenIn,
+            receiveToken: swapDataToSend.hop?.tokenOut ?? request.tokenOut,
+          });
         }
 
-        console.error("Gas estimation error details:", estimateErrorDetails);
-        console.warn("Gas estimation failed (wallet will estimate)");
-      }
-
-      // Ensure value is properly formatted (should be hex string)
-      const swapValue = swapDataToSend.value?.startsWith("0x")
-        ? swapDataToSend.value
-        : swapDataToSend.value
-        ? toHexQuantity(swapDataToSend.value)
-        : "0x0";
-
-      // CRITICAL FIX: Only zero out value for pure ERC-20 token swaps (no native tokens)
-      // Native tokens (like USDC) REQUIRE non-zero ETH value via payable functions
-      // ERC-20 tokens should NEVER have a non-zero value
-      const isNativeInputFinal = NATIVE_TOKENS.includes(sellToken.symbol);
-      const isNativeOutputFinal = NATIVE_TOKENS.includes(receiveToken.symbol);
-      const finalSwapValue = (!isNativeInputFinal && !isNativeOutputFinal) ? "0x0" : swapValue;
-
-      if (finalSwapValue !== swapValue) {
-        console.warn("Corrected swap value to 0x0 for pure ERC-20 token swap", {
-          originalValue: swapValue,
-          correctedValue: finalSwapValue,
-          sellToken: sellToken.symbol,
-          receiveToken: receiveToken.symbol,
-        });
-      }
-
-      console.log("Final swap transaction parameters:", {
-        to: swapDataToSend.to,
-        value: finalSwapValue,
-        dataLength: swapDataToSend.data?.length,
-        gasLimit: swapDataToSend.gasLimit,
-      });
-
-      const txHash = await sendTransactionViaProvider(
-        {
+        console.log("Final swap transaction parameters:", {
           to: swapDataToSend.to,
           value: finalSwapValue,
-          data: swapDataToSend.data,
-          // Per QuantumExchange docs, use the provided gasLimit when available
-          gas: swapDataToSend.gasLimit ?? undefined,
-        },
-        "SWAP"
-      );
+          dataLength: swapDataToSend.data?.length,
+          gasLimit: swapDataToSend.gasLimit,
+        });
 
-      console.log("Swap transaction executed with hash:", txHash);
+        txHash = await sendTransactionViaProvider(
+          {
+            to: swapDataToSend.to,
+            value: finalSwapValue,
+            data: swapDataToSend.data,
+            // Use the source's gasLimit when available
+            gas: swapDataToSend.gasLimit ?? undefined,
+          },
+          "SWAP"
+        );
+
+        console.log("Swap transaction executed with hash:", txHash);
       
-      // Wait for transaction receipt to verify success
-      let receipt = null;
-      let retries = 0;
-      const maxRetries = 30; // Try for up to 30 seconds (1 second intervals)
+        // Wait for transaction receipt to verify success
+        let receipt = null;
+        let retries = 0;
+        const maxRetries = 30; // Try for up to 30 seconds (1 second intervals)
       
-      while (receipt === null && retries < maxRetries) {
-        await new Promise((resolve) => setTimeout(resolve, 1000));
+        while (receipt === null && retries < maxRetries) {
+          await new Promise((resolve) => setTimeout(resolve, 1000));
         
-        try {
-          receipt = await eip1193Provider.request({
-            method: 'eth_getTransactionReceipt',
-            params: [txHash],
-          });
+          try {
+            receipt = await eip1193Provider.request({
+              method: 'eth_getTransactionReceipt',
+              params: [txHash],
+            });
           
-          if (receipt) {
-            console.log("Transaction receipt received:", receipt);
+            if (receipt) {
+              console.log("Transaction receipt received:", receipt);
             
-            // Check if transaction was successful (status === '0x1')
-            if (receipt.status === '0x0') {
-              console.error("Transaction failed! Getting revert reason...");
-              let decodedReason: string | null = null;
-
-              try {
-                const tx = await eip1193Provider.request({
-                  method: 'eth_getTransactionByHash',
-                  params: [txHash],
-                }) as { from?: string; to?: string; value?: string; input?: string } | null;
-
-                if (tx?.from && tx?.to && tx?.input) {
-                  console.log("Failed transaction data:", JSON.stringify({ from: tx.from, to: tx.to, value: tx.value, inputLength: tx.input?.length }, null, 2));
-                  // Use public RPC for eth_call so we get revert data instead of "Internal JSON-RPC error"
-                  decodedReason = await getRevertReasonViaPublicRpc({
-                    from: tx.from,
-                    to: tx.to,
-                    value: tx.value ?? "0x0",
-                    data: tx.input,
-                  });
-                  if (decodedReason) {
-                    setRevertReason(decodedReason);
-                    console.error("Revert reason (decoded):", decodedReason);
+              // Check if transaction was successful (status === '0x1')
+              if (receipt.status === '0x0') {
+                console.error("Transaction failed! Getting revert reason...");
+                let decodedReason: string | null = null;
+
+                try {
+                  const tx = await eip1193Provider.request({
+                    method: 'eth_getTransactionByHash',
+                    params: [txHash],
+                  }) as { from?: string; to?: string; value?: string; input?: string } | null;
+
+                  if (tx?.from && tx?.to && tx?.input) {
+                    console.log("Failed transaction data:", JSON.stringify({ from: tx.from, to: tx.to, value: tx.value, inputLength: tx.input?.length }, null, 2));
+                    // Use public RPC for eth_call so we get revert data instead of "Internal JSON-RPC error"
+                    decodedReason = await getRevertReasonViaPublicRpc({
+                      from: tx.from,
+                      to: tx.to,
+                      value: tx.value ?? "0x0",
+                      data: tx.input,
+                    });
+                    if (decodedReason) {
+                      setRevertReason(decodedReason);
+                      console.error("Revert reason (decoded):", decodedReason);
+                    }
                   }
+                } catch (callError: unknown) {
+                  const callErrorObj = callError instanceof Error ? callError : new Error(String(callError));
+                  console.error("Revert reason extraction error:", {
+                    message: callErrorObj.message,
+                    error: callError,
+                  });
                 }
-              } catch (callError: unknown) {
-                const callErrorObj = callError instanceof Error ? callError : new Error(String(callError));
-                console.error("Revert reason extraction error:", {
-                  message: callErrorObj.message,
-                  error: callError,
-                });
-              }
 
-              throw new Error(
-                decodedReason
-                  ? `Transaction failed: ${decodedReason}`
-                  : "Transaction failed on-chain (status: 0x0)"
-              );
+                throw new Error(
+                  decodedReason
+                    ? `Transaction failed: ${decodedReason}`
+                    : "Transaction failed on-chain (status: 0x0)"
+                );
+              }
+              break;
             }
-            break;
-          }
-        } catch (receiptError: unknown) {
-          const receiptErrorObj = receiptError instanceof Error ? receiptError : new Error(String(receiptError));
-          // Rethrow our "Transaction failed" errors so the outer catch can show the decoded reason
-          if (receiptErrorObj.message.startsWith("Transaction failed")) {
-            throw receiptError;
+          } catch (receiptError: unknown) {
+            const receiptErrorObj = receiptError instanceof Error ? receiptError : new Error(String(receiptError));
+            // Rethrow our "Transaction failed" errors so the outer catch can show the decoded reason
+            if (receiptErrorObj.message.startsWith("Transaction failed")) {
+              throw receiptError;
+            }
+            console.error("Error fetching receipt:", receiptError);
           }
-          console.error("Error fetching receipt:", receiptError);
-        }
         
-        retries++;
-      }
+          retries++;
+        }
       
-      if (receipt === null) {
-        console.warn("Transaction receipt not received after 30 seconds, but hash was confirmed");
-      } else if (receipt.status === '0x0') {
-        throw new Error("Transaction failed on-chain");
+        if (receipt === null) {
+          if (swapDataToSend.next) {
+            throw new Error("Swap not confirmed after 30 seconds; the rest of the route was not sent");
+          }
+          console.warn("Transaction receipt not received after 30 seconds, but hash was confirmed");
+        } else if (receipt.status === '0x0') {
+          throw new Error("Transaction failed on-chain");
+        }
+
+        // Continue with the next hop, if the route has one
+        if (swapDataToSend.hop && receipt !== null) {
+          minedHops.push(swapDataToSend.hop);
+        }
+        request = swapDataToSend.next;
       }
-      
+
       // Store the transaction hash
       setTransactionHash(txHash);
       setRevertReason(null);
@@ -1110,7 +948,7 @@ const SwapCard = () => {
         setSwapState("idle");
         setTransactionHash(null);
         // Refresh wallet balances after successful swap
-        fetchUserBalances();
+        refreshBalances();
       }, 3000);
     } catch (error: unknown) {
       // Better error serialization for swap errors
@@ -1159,6 +997,15 @@ const SwapCard = () => {
         }
       }
 
+      // A route that stopped partway left tokens behind: say which, and keep
+      // the notification up until it is closed
+      const partial = minedHops.length > 0 ? describePartialSwap(minedHops, receiveToken.symbol) : null;
+      if (partial) {
+        errorDetails.minedHops = minedHops;
+        setPartialSwap(partial);
+        refreshBalances();
+      }
+
       console.error("Swap transaction error - Full details:", JSON.stringify(errorDetails, null, 2));
       
       setSwapState("failed");
@@ -1166,9 +1013,11 @@ const SwapCard = () => {
       setTransactionHash(null);
 
       // Auto-dismiss notification after 5 seconds
-      setTimeout(() => {
-        setNotification(null);
-      }, 5000);
+      if (!partial) {
+        setTimeout(() => {
+          setNotification(null);
+        }, 5000);
+      }
 
       setTimeout(() => {
         setSwapState("idle");
@@ -1229,6 +1078,7 @@ const SwapCard = () => {
             onClose={() => setNotification(null)}
             transactionHash={transactionHash}
             revertReason={revertReason}
+            partialSwap={partialSwap}
           />
         )}
       </AnimatePresence>
@@ -1351,6 +1201,79 @@ const SwapCard = () => {
                 onClear={() => setReceiveAmount("0.00")}
               />
             </div>
+            {quoteResult && (
+              <div className="mt-2 text-xs text-muted-foreground">
+                <button
+                  type="button"
+                  onClick={() => setShowQuoteSources(!showQuoteSources)}
+                  className="flex w-full items-center justify-between cursor-pointer hover:text-foreground transition-colors"
+                >
+                  <span>
+                    Best of {quoteResult.sourceCount} sources · {quoteResult.best.label}
+                  </span>
+                  <ChevronDown
+                    className={`w-3 h-3 transition-transform ${showQuoteSources ? "rotate-180" : ""}`}
+                  />
+                </button>
+                {showQuoteSources && (
+                  <div className="mt-1 space-y-1">
+                    {quoteResult.quotes.map((quote) => (
+                      <div
+                        key={quote.source}
+                        className={`flex justify-between ${
+                          quote.source === quoteResult.best.source ? "text-foreground" : ""
+                        }`}
+                      >
+                        <span>{quote.label}</span>
+                        <span>
+                          {formatBalance(
+                            (
+                              Number(quote.netAmountOut) /
+                              10 ** (TOKEN_DECIMALS[receiveToken.symbol] || 18)
+                            ).toString(),
+                            4
+                          )}{" "}
+                          {receiveToken.symbol}
+                          {quote.gasCost !== null && " net of gas"}
+                        </span>
+                      </div>
+                    ))}
+                    {quoteResult.failures.map((failure) => (
+                      <div key={failure.source} className="flex justify-between gap-4">
+                        <span>{failure.label}</span>
+                        <span className="truncate text-red-400" title={failure.error}>
+                          {failure.error}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            {quotePlan && (
+              <div className="mt-2 space-y-1 text-xs text-muted-foreground">
+                {quotePlan.legs.map((leg) => (
+                  <div key={leg.route.hops.map((hop) => hop.poolAddress).join("-")} className="flex justify-between">
+                    <span>
+                      {quotePlan.legs.length > 1 && `${leg.share}% `}
+                      {leg.route.path.join(" → ")}
+                    </span>
+                    <span>{leg.priceImpact.toFixed(2)}% impact</span>
+                  </div>
+                ))}
+                {quotePlan.legs.length > 1 && (
+                  <div className="flex justify-between">
+                    <span>Combined price impact</span>
+                    <span>{quotePlan.priceImpact.toFixed(2)}%</span>
+                  </div>
+                )}
+                {quoteTransactions > 1 && (
+                  <div>
+                    {quoteTransactions} swap transactions, each sent once the previous one is mined
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Action Button */}
@@ -1378,6 +1301,7 @@ const SwapCard = () => {
             <div className="w-6 h-6 rounded-full bg-primary/30 flex items-center justify-center overflow-hidden">
               <Image
                 src={sellToken.icon}
+                unoptimized={isRemoteIcon(sellToken.icon)}
                 alt={`${sellToken.symbol} logo`}
                 width={24}
                 height={24}
@@ -1398,6 +1322,7 @@ const SwapCard = () => {
             <div className="w-6 h-6 rounded-full bg-primary/30 flex items-center justify-center overflow-hidden">
               <Image
                 src={receiveToken.icon}
+                unoptimized={isRemoteIcon(receiveToken.icon)}
                 alt={`${receiveToken.symbol} logo`}
                 width={24}
                 height={24}
@@ -1419,6 +1344,10 @@ const SwapCard = () => {
           onSelect={setSellToken}
           excludeSymbol={receiveToken.symbol}
           tokenBalances={tokenBalances}
+          listedTokens={listedTokens}
+          customTokens={customTokens}
+          walletAddress={user?.wallet?.address}
+          onImportToken={handleImportToken}
         />
 
         <TokenModal
@@ -1428,6 +1357,10 @@ const SwapCard = () => {
           onSelect={setReceiveToken}
           excludeSymbol={sellToken.symbol}
           tokenBalances={tokenBalances}
+          listedTokens={listedTokens}
+          customTokens={customTokens}
+          walletAddress={user?.wallet?.address}
+          onImportToken={handleImportToken}
         />
 
         <SettingsModal
@@ -1443,6 +1376,8 @@ const SwapCard = () => {
           <ChartModal
             isOpen={isChartOpen}
             onClose={() => setIsChartOpen(false)}
+            baseToken={sellToken.symbol}
+            quoteToken={receiveToken.symbol}
           />
         )}
       </AnimatePresence>
@@ -12,6 +12,8 @@ interface SwapNotificationProps {
   transactionHash?: string | null;
   /** On-chain revert reason (e.g. "insufficient allowance") when swap failed */
   revertReason?: string | null;
+  /** What a multi-transaction route that stopped partway left in the wallet */
+  partialSwap?: string | null;
 }
 
 const SwapNotification = ({
@@ -23,6 +25,7 @@ const SwapNotification = ({
   onClose,
   transactionHash,
   revertReason,
+  partialSwap,
 }: SwapNotificationProps) => {
   const isSuccess = type === "success";
 
@@ -113,9 +116,12 @@ const SwapNotification = ({
               </button>
             </>
           ) : (
-            <p className="text-sm text-gray-300">
-              {revertReason ? revertReason : "Transaction failed or was rejected."}
-            </p>
+            <>
+              <p className="text-sm text-gray-300">
+                {revertReason ? revertReason : "Transaction failed or was rejected."}
+              </p>
+              {partialSwap && <p className="text-sm text-yellow-400 mt-1">{partialSwap}</p>}
+            </>
           )}
         </div>
 
@@ -1,5 +1,5 @@
 "use client";
-import { X } from "lucide-react";
+import { AlertTriangle, Download, X } from "lucide-react";
 import { useState, useRef, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useDebounce } from "use-debounce";
@@ -13,6 +13,16 @@ import hypeLogo from "@/public/assets/hype.png";
 import eurcLogo from "@/public/assets/Euro_Coin logo.png";
 import swprcLogo from "@/public/assets/swapr_logo.png";
 import quantumLogo from "@/public/assets/quantum-logo.png";
+import { TokenIcon, UNKNOWN_TOKEN_ICON, getTokenIcon, isRemoteIcon } from "@/lib/tokenIcons";
+import { TokenInfo, getTokenAddress } from "@/lib/tokenRegistry";
+import {
+  addCustomToken,
+  exportCustomTokens,
+  isTokenAddress,
+  lookupTokenByAddress,
+} from "@/lib/customTokenService";
+import { formatChange, formatUsdPrice } from "@/lib/priceService";
+import { useTokenPrices } from "@/lib/useTokenPrices";
 
 const tokens = [
   { symbol: "USDC", icon: usdcLogo, name: "USD Coin", balance: 1000 },
@@ -26,13 +36,40 @@ const tokens = [
   { symbol: "QTM", icon: quantumLogo, name: "Quantum", balance: 100 },
 ];
 
+type ModalToken = Omit<(typeof tokens)[0], "icon"> & {
+  icon: TokenIcon;
+  address?: string;
+  // Imported by the user by contract address
+  custom?: boolean;
+};
+
+/**
+ * Convert a registry token (from a token list or imported by the user) into a
+ * selectable token
+ */
+const toModalToken = (token: TokenInfo): ModalToken => ({
+  symbol: token.symbol,
+  icon: getTokenIcon(token.symbol) ?? UNKNOWN_TOKEN_ICON,
+  name: token.name,
+  balance: 0,
+  address: token.address ?? undefined,
+  custom: !!token.custom,
+});
+
 interface TokenModalProps {
   isOpen: boolean;
   onClose: () => void;
-  selected: (typeof tokens)[0];
-  onSelect: (token: (typeof tokens)[0]) => void;
+  selected: ModalToken;
+  onSelect: (token: ModalToken) => void;
   excludeSymbol?: string;
   tokenBalances?: Record<string, number>;
+  // Tokens from token lists, listed after the built-in ones
+  listedTokens?: ModalToken[];
+  // Tokens the connected wallet imported, listed last
+  customTokens?: ModalToken[];
+  // Wallet that imported tokens are saved for; importing is disabled without one
+  walletAddress?: string | null;
+  onImportToken?: (token: ModalToken) => void;
 }
 
 const TokenModal = ({
@@ -42,11 +79,21 @@ const TokenModal = ({
   onSelect,
   excludeSymbol,
   tokenBalances = {},
+  listedTokens = [],
+  customTokens = [],
+  walletAddress,
+  onImportToken,
 }: TokenModalProps) => {
   const [searchQuery, setSearchQuery] = useState("");
   const [debouncedSearchQuery] = useDebounce(searchQuery, 300);
   const searchInputRef = useRef<HTMLInputElement>(null);
 
+  // Token read from a pasted contract address, pending import
+  const [importCandidate, setImportCandidate] = useState<TokenInfo | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
   useEffect(() => {
     if (isOpen) {
       setTimeout(() => {
@@ -60,19 +107,100 @@ const TokenModal = ({
   }, [isOpen]);
 
   const filteredTokens = useMemo(() => {
-    return tokens.filter((token) => {
+    const query = debouncedSearchQuery.trim().toLowerCase();
+    const builtIn = new Set(tokens.map((token) => token.symbol));
+    const listed: ModalToken[] = [
+      ...tokens,
+      ...listedTokens.filter((token) => !builtIn.has(token.symbol)),
+      ...customTokens,
+    ];
+    return listed.filter((token) => {
       if (token.symbol === excludeSymbol) return false;
 
+      const address = (token.address ?? getTokenAddress(token.symbol))?.toLowerCase();
       const matchesSearch =
-        !debouncedSearchQuery.trim() ||
-        token.symbol
-          .toLowerCase()
-          .includes(debouncedSearchQuery.toLowerCase()) ||
-        token.name.toLowerCase().includes(debouncedSearchQuery.toLowerCase());
+        !query ||
+        token.symbol.toLowerCase().includes(query) ||
+        token.name.toLowerCase().includes(query) ||
+        address === query;
 
       return matchesSearch;
     });
-  }, [debouncedSearchQuery, excludeSymbol]);
+  }, [debouncedSearchQuery, excludeSymbol, listedTokens, customTokens]);
+
+  // Prices of the shown tokens that are deployed on Arc
+  const { prices } = useTokenPrices(
+    isOpen
+      ? filteredTokens
+          .filter((token) => token.address ?? getTokenAddress(token.symbol))
+          .map((token) => token.symbol)
+      : []
+  );
+
+  // Read the token behind a pasted address that isn't listed yet
+  const lookupAddress =
+    isTokenAddress(debouncedSearchQuery) && filteredTokens.length === 0
+      ? debouncedSearchQuery.trim()
+      : null;
+
+  useEffect(() => {
+    setImportCandidate(null);
+    setImportError(null);
+    if (!lookupAddress) return;
+
+    let cancelled = false;
+    setIsLookingUp(true);
+    lookupTokenByAddress(lookupAddress)
+      .then((token) => {
+        if (!cancelled) setImportCandidate(token);
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setImportError(error instanceof Error ? error.message : "Failed to read token");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLookingUp(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [lookupAddress]);
+
+  const handleImport = async () => {
+    if (!importCandidate || !walletAddress) return;
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const token = toModalToken(await addCustomToken(walletAddress, importCandidate));
+      onImportToken?.(token);
+      onSelect(token);
+      onClose();
+    } catch (error) {
+      console.error("Error importing token:", error);
+      setImportError("Failed to import token. Please try again.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!walletAddress) return;
+    try {
+      const list = await exportCustomTokens(walletAddress);
+      const url = URL.createObjectURL(
+        new Blob([JSON.stringify(list, null, 2)], { type: "application/json" })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "tower-imported-tokens.tokenlist.json";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting custom tokens:", error);
+    }
+  };
 
   if (!isOpen) return null;
 
@@ -112,7 +240,7 @@ const TokenModal = ({
               <input
                 ref={searchInputRef}
                 type="text"
-                placeholder="Search Token"
+                placeholder="Search name or paste address"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="w-full bg-[#1a1b1e] border-0 rounded-xl px-4 py-3.5 text-foreground placeholder:text-muted-foreground/60 outline-none focus:ring-1 focus:ring-border transition-all"
@@ -121,7 +249,63 @@ const TokenModal = ({
           </div>
 
           <div className="max-h-100 overflow-y-auto">
-            {filteredTokens.length === 0 ? (
+            {lookupAddress ? (
+              <div className="px-6 pb-6">
+                {isLookingUp ? (
+                  <div className="py-10 text-center text-sm text-muted-foreground/60">
+                    Reading token contract...
+                  </div>
+                ) : importCandidate ? (
+                  <div className="space-y-4">
+                    <div className="flex items-center gap-3">
+                      <div className="w-9 h-9 rounded-full flex items-center justify-center overflow-hidden bg-primary/20">
+                        <Image
+                          src={UNKNOWN_TOKEN_ICON}
+                          alt={`${importCandidate.symbol} logo`}
+                          width={36}
+                          height={36}
+                          className="object-contain w-full h-full"
+                        />
+                      </div>
+                      <div className="text-left min-w-0">
+                        <p className="font-medium text-sm text-foreground">
+                          {importCandidate.symbol}
+                        </p>
+                        <p className="text-xs text-muted-foreground/60 truncate">
+                          {importCandidate.name} · {importCandidate.decimals} decimals
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex gap-2 rounded-xl bg-yellow-500/10 border border-yellow-500/30 px-4 py-3">
+                      <AlertTriangle className="w-4 h-4 text-yellow-500 shrink-0 mt-0.5" />
+                      <p className="text-xs text-yellow-500/90">
+                        This token isn&apos;t verified. Anyone can create a token with any
+                        name, including fake versions of existing tokens. Make sure
+                        this is the token you want before trading it.
+                      </p>
+                    </div>
+                    <motion.button
+                      onClick={handleImport}
+                      disabled={!walletAddress || isImporting}
+                      className="w-full py-3 rounded-xl bg-primary text-primary-foreground font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                      whileHover={{ scale: walletAddress ? 1.01 : 1 }}
+                      whileTap={{ scale: walletAddress ? 0.99 : 1 }}
+                    >
+                      {!walletAddress
+                        ? "Connect a wallet to import"
+                        : isImporting
+                        ? "Importing..."
+                        : `Import ${importCandidate.symbol}`}
+                    </motion.button>
+                  </div>
+                ) : null}
+                {importError && (
+                  <p className="py-4 text-center text-sm text-destructive">
+                    {importError}
+                  </p>
+                )}
+              </div>
+            ) : filteredTokens.length === 0 ? (
               <div className="py-16 text-center text-muted-foreground/60">
                 No tokens found
               </div>
@@ -129,6 +313,7 @@ const TokenModal = ({
               <div className="px-2 pb-2">
                 {filteredTokens.map((token, index) => {
                   const isSelected = selected.symbol === token.symbol;
+                  const price = prices[token.symbol];
                   return (
                     <motion.button
                       key={token.symbol}
@@ -151,6 +336,7 @@ const TokenModal = ({
                         }`}>
                           <Image
                             src={token.icon}
+                            unoptimized={isRemoteIcon(token.icon)}
                             alt={`${token.symbol} logo`}
                             width={36}
                             height={36}
@@ -165,7 +351,22 @@ const TokenModal = ({
                           </p>
                           <p className="text-xs text-muted-foreground/60">
                             {token.name}
+                            {token.custom && " · Imported"}
                           </p>
+                          {price && (
+                            <p className="text-xs text-muted-foreground">
+                              {formatUsdPrice(price.usd)}
+                              {price.change24h !== null && (
+                                <span
+                                  className={`ml-1 ${
+                                    price.change24h >= 0 ? "text-success" : "text-destructive"
+                                  }`}
+                                >
+                                  {formatChange(price.change24h)}
+                                </span>
+                              )}
+                            </p>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
@@ -175,7 +376,9 @@ const TokenModal = ({
                               {tokenBalances[token.symbol].toFixed(6)}
                             </p>
                             <p className="text-xs text-muted-foreground/60">
-                              Balance
+                              {price
+                                ? `$${(tokenBalances[token.symbol] * price.usd).toFixed(2)}`
+                                : "Balance"}
                             </p>
                           </div>
                         )}
@@ -192,6 +395,18 @@ const TokenModal = ({
               </div>
             )}
           </div>
+
+          {walletAddress && customTokens.length > 0 && (
+            <div className="px-6 py-3 border-t border-border/50">
+              <button
+                onClick={handleExport}
+                className="flex items-center gap-2 text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <Download className="w-3.5 h-3.5" />
+                Export imported tokens as a token list
+              </button>
+            </div>
+          )}
         </motion.div>
       </motion.div>
     </AnimatePresence>
@@ -199,5 +414,5 @@ const TokenModal = ({
 };
 
 export default TokenModal;
-export { tokens };
-export type { TokenModalProps };
+export { tokens, toModalToken };
+export type { ModalToken, TokenModalProps };
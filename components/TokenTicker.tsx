@@ -1,9 +1,21 @@
 "use client";
 import { motion, AnimatePresence } from "framer-motion";
 import Image from "next/image";
-import { useState } from "react";
-import { tokens, Token } from "@/mockData/token";
+import { useState, useEffect, useMemo } from "react";
 import { ResponsiveContainer, Area, AreaChart } from "recharts";
+import { TokenIcon, UNKNOWN_TOKEN_ICON, getTokenIcon, isRemoteIcon } from "@/lib/tokenIcons";
+import { loadTokenRegistry } from "@/lib/tokenRegistry";
+import { formatChange, formatUsdPrice } from "@/lib/priceService";
+import { useTokenPrices } from "@/lib/useTokenPrices";
+
+interface Token {
+  symbol: string;
+  icon: TokenIcon;
+  price: string;
+  /** 24h change, or null until there is enough price history */
+  change: string | null;
+  chartData: number[];
+}
 
 interface TokenCardProps {
   token: Token;
@@ -29,6 +41,7 @@ const TokenCard = ({ token, onMouseEnter, onMouseLeave }: TokenCardProps) => {
       <div className="shrink-0 w-4 h-4">
         <Image
           src={token.icon}
+          unoptimized={isRemoteIcon(token.icon)}
           alt={`${token.symbol} logo`}
           width={16}
           height={16}
@@ -37,26 +50,31 @@ const TokenCard = ({ token, onMouseEnter, onMouseLeave }: TokenCardProps) => {
       </div>
       <span className="font-semibold text-foreground">${token.symbol}</span>
       <span className="text-foreground font-medium">{token.price}</span>
-      <span
-        className={
-          token.change.startsWith("+") ? "text-success" : "text-destructive"
-        }
-      >
-        {token.change}
-      </span>
+      {token.change && (
+        <span
+          className={
+            token.change.startsWith("+") ? "text-success" : "text-destructive"
+          }
+        >
+          {token.change}
+        </span>
+      )}
     </motion.div>
   );
 };
 
 const TokenOverlay = ({ token, position }: TokenOverlayProps) => {
-  const change24h = token.change24h || token.change;
-  const isPositive = change24h.startsWith("+");
+  const change24h = token.change;
+  const isPositive = !change24h || change24h.startsWith("+");
 
+  // A single sample is not a chart
   const chartData =
-    token.chartData?.map((value, index) => ({
-      index,
-      value,
-    })) || [];
+    token.chartData.length > 1
+      ? token.chartData.map((value, index) => ({
+          index,
+          value,
+        }))
+      : [];
 
   const strokeColor = isPositive ? "rgb(34, 197, 94)" : "rgb(239, 68, 68)";
 
@@ -85,6 +103,7 @@ const TokenOverlay = ({ token, position }: TokenOverlayProps) => {
           >
             <Image
               src={token.icon}
+              unoptimized={isRemoteIcon(token.icon)}
               alt={`${token.symbol} logo`}
               width={20}
               height={20}
@@ -98,7 +117,7 @@ const TokenOverlay = ({ token, position }: TokenOverlayProps) => {
             <p
               className={`text-xs ${isPositive ? "text-success" : "text-destructive"}`}
             >
-              {change24h} in 24h
+              {change24h ? `${change24h} in 24h` : "24h change not available yet"}
             </p>
           </div>
         </div>
@@ -164,14 +183,6 @@ const TokenOverlay = ({ token, position }: TokenOverlayProps) => {
               {token.price}
             </span>
           </div>
-          {token.marketCap && (
-            <div className="flex justify-between items-center">
-              <span className="text-muted-foreground text-xs">Market Cap:</span>
-              <span className="text-foreground font-medium text-xs">
-                {token.marketCap}
-              </span>
-            </div>
-          )}
         </div>
       </div>
     </motion.div>
@@ -179,6 +190,37 @@ const TokenOverlay = ({ token, position }: TokenOverlayProps) => {
 };
 
 const TokenTicker = () => {
+  // Listed tokens deployed on Arc; imported tokens are left out
+  const [symbols, setSymbols] = useState<string[]>([]);
+  const { prices } = useTokenPrices(symbols);
+
+  useEffect(() => {
+    loadTokenRegistry()
+      .then((registry) =>
+        setSymbols(
+          registry.filter((token) => token.address && !token.custom).map((token) => token.symbol)
+        )
+      )
+      .catch((error) => console.error("Error loading tokens for ticker:", error));
+  }, []);
+
+  // Tokens that could be priced, with their prices quoted on-chain
+  const tokens = useMemo<Token[]>(
+    () =>
+      symbols
+        .filter((symbol) => prices[symbol])
+        .map((symbol) => {
+          const price = prices[symbol];
+          return {
+            symbol,
+            icon: getTokenIcon(symbol) ?? UNKNOWN_TOKEN_ICON,
+            price: formatUsdPrice(price.usd),
+            change: price.change24h === null ? null : formatChange(price.change24h),
+            chartData: price.history,
+          };
+        }),
+    [symbols, prices]
+  );
   const [isPaused, setIsPaused] = useState(false);
   const [hoveredToken, setHoveredToken] = useState<Token | null>(null);
   const [hoverPosition, setHoverPosition] = useState({ x: 0, y: 0 });
@@ -0,0 +1,42 @@
+"use client";
+import { Info } from "lucide-react";
+import {
+  MISSED_SLOT_POLICIES,
+  MissedSlotPolicy,
+} from "@/supabase/functions/_shared/schedule";
+
+interface MissedSlotPolicyFieldProps {
+  value: MissedSlotPolicy;
+  onChange: (policy: MissedSlotPolicy) => void;
+}
+
+export const MissedSlotPolicyField = ({ value, onChange }: MissedSlotPolicyFieldProps) => (
+  <div>
+    <div className="flex items-center gap-2 mb-3">
+      <span className="text-sm font-medium text-white">Missed Executions</span>
+      <Info className="w-4 h-4 text-gray-500" />
+    </div>
+
+    <div className="grid grid-cols-3 gap-2">
+      {MISSED_SLOT_POLICIES.map((policy) => (
+        <button
+          key={policy.value}
+          type="button"
+          onClick={() => onChange(policy.value)}
+          title={policy.description}
+          className={`px-3 py-3 rounded-xl text-sm transition-colors cursor-pointer ${
+            value === policy.value
+              ? "bg-zinc-800 text-white"
+              : "bg-zinc-950 text-gray-400 hover:bg-zinc-900"
+          }`}
+        >
+          {policy.label}
+        </button>
+      ))}
+    </div>
+
+    <p className="text-gray-500 text-xs mt-2">
+      {MISSED_SLOT_POLICIES.find((policy) => policy.value === value)?.description}
+    </p>
+  </div>
+);
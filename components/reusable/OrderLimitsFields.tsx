@@ -0,0 +1,70 @@
+"use client";
+import { Info } from "lucide-react";
+
+interface OrderLimitsFieldsProps {
+  maxExecutions: string;
+  totalBudget: string;
+  budgetToken: string;
+  onMaxExecutionsChange: (value: string) => void;
+  onTotalBudgetChange: (value: string) => void;
+}
+
+const LimitInput = ({
+  label,
+  value,
+  placeholder,
+  suffix,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  placeholder: string;
+  suffix?: string;
+  onChange: (value: string) => void;
+}) => (
+  <div>
+    <div className="flex items-center gap-2 mb-3">
+      <span className="text-sm font-medium text-white">
+        {label}
+        <span className="text-gray-600"> (Optional)</span>
+      </span>
+      <Info className="w-4 h-4 text-gray-500" />
+    </div>
+
+    <div className="flex items-center px-4 py-3 rounded-xl bg-zinc-950">
+      <input
+        type="text"
+        inputMode="decimal"
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value.replace(/[^0-9.]/g, ""))}
+        className="w-full bg-transparent text-white outline-none placeholder:text-gray-600"
+      />
+      {suffix && <span className="text-gray-500 text-sm ml-2">{suffix}</span>}
+    </div>
+  </div>
+);
+
+export const OrderLimitsFields = ({
+  maxExecutions,
+  totalBudget,
+  budgetToken,
+  onMaxExecutionsChange,
+  onTotalBudgetChange,
+}: OrderLimitsFieldsProps) => (
+  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+    <LimitInput
+      label="Max Executions"
+      value={maxExecutions}
+      placeholder="Unlimited"
+      onChange={(value) => onMaxExecutionsChange(value.replace(".", ""))}
+    />
+    <LimitInput
+      label="Total Budget"
+      value={totalBudget}
+      placeholder="No limit"
+      suffix={budgetToken}
+      onChange={onTotalBudgetChange}
+    />
+  </div>
+);
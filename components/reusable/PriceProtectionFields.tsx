@@ -0,0 +1,85 @@
+"use client";
+import { Info } from "lucide-react";
+import { SLIPPAGE_PRESETS } from "@/supabase/functions/_shared/priceProtection";
+
+interface PriceProtectionFieldsProps {
+  orderType: "buy" | "sell";
+  maxSlippage: string;
+  limitPrice: string;
+  /** Token whose price is limited (bought or sold) */
+  assetToken: string;
+  /** Token the price is expressed in */
+  priceToken: string;
+  onMaxSlippageChange: (value: string) => void;
+  onLimitPriceChange: (value: string) => void;
+}
+
+export const PriceProtectionFields = ({
+  orderType,
+  maxSlippage,
+  limitPrice,
+  assetToken,
+  priceToken,
+  onMaxSlippageChange,
+  onLimitPriceChange,
+}: PriceProtectionFieldsProps) => (
+  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <span className="text-sm font-medium text-white">Max Slippage</span>
+        <Info className="w-4 h-4 text-gray-500" />
+      </div>
+
+      <div className="flex items-center gap-2">
+        {SLIPPAGE_PRESETS.map((preset) => (
+          <button
+            key={preset}
+            type="button"
+            onClick={() => onMaxSlippageChange(String(preset))}
+            className={`px-3 py-3 rounded-xl text-sm transition-colors cursor-pointer ${
+              maxSlippage === String(preset)
+                ? "bg-zinc-800 text-white"
+                : "bg-zinc-950 text-gray-400 hover:bg-zinc-900"
+            }`}
+          >
+            {preset}%
+          </button>
+        ))}
+        <div className="flex items-center flex-1 px-3 py-3 rounded-xl bg-zinc-950">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={maxSlippage}
+            onChange={(e) => onMaxSlippageChange(e.target.value.replace(/[^0-9.]/g, ""))}
+            className="w-full bg-transparent text-white text-sm outline-none"
+          />
+          <span className="text-gray-500 text-sm ml-1">%</span>
+        </div>
+      </div>
+    </div>
+
+    <div>
+      <div className="flex items-center gap-2 mb-3">
+        <span className="text-sm font-medium text-white">
+          {orderType === "buy" ? "Max Price" : "Min Price"}
+          <span className="text-gray-600"> (Optional)</span>
+        </span>
+        <Info className="w-4 h-4 text-gray-500" />
+      </div>
+
+      <div className="flex items-center px-4 py-3 rounded-xl bg-zinc-950">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={limitPrice}
+          placeholder="Any price"
+          onChange={(e) => onLimitPriceChange(e.target.value.replace(/[^0-9.]/g, ""))}
+          className="w-full bg-transparent text-white outline-none placeholder:text-gray-600"
+        />
+        <span className="text-gray-500 text-sm ml-2 whitespace-nowrap">
+          {priceToken} / {assetToken || "token"}
+        </span>
+      </div>
+    </div>
+  </div>
+);
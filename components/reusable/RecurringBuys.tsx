@@ -6,10 +6,26 @@ import { tokens } from "@/mockData/token";
 import { TokenDropdown } from "./TokenDropdown";
 import { FrequencyField } from "./FrequencyField";
 import { AmountInput } from "./AmountInput";
+import { MissedSlotPolicyField } from "./MissedSlotPolicyField";
+import { OrderLimitsFields } from "./OrderLimitsFields";
+import { PriceProtectionFields } from "./PriceProtectionFields";
 import { FrequencyModal } from "../FrequencyModal";
 import { DatePicker } from "../DatePicker";
 import RecurringOrderNotification from "../RecurringOrderNotification";
-import { createRecurringOrder, logOrderCreation } from "@/lib/recurringOrderService";
+import {
+  buildRecurringOrderPermission,
+  createRecurringOrder,
+  logOrderCreation,
+  requestSpendingPermissionSignature,
+} from "@/lib/recurringOrderService";
+import {
+  DEFAULT_MISSED_SLOT_POLICY,
+  MissedSlotPolicy,
+} from "@/supabase/functions/_shared/schedule";
+import {
+  DEFAULT_MAX_SLIPPAGE,
+  validatePriceProtection,
+} from "@/supabase/functions/_shared/priceProtection";
 
 // Helper function to format date as MM/DD/YYYY
 const formatDateToString = (date: Date): string => {
@@ -24,15 +40,18 @@ export const RecurringBuys = () => {
   const { wallets } = useWallets();
   const walletAddress = user?.wallet?.address;
 
-  // Calculate today's date
-  const today = new Date();
-  const todayFormatted = `${String(today.getMonth() + 1).padStart(2, "0")}/${String(today.getDate()).padStart(2, "0")}/${today.getFullYear()}`;
-
   const [selectedPayToken, setSelectedPayToken] = useState(tokens[0]);
   const [selectedBuyToken, setSelectedBuyToken] = useState<typeof tokens[0] | null>(null);
   const [amount, setAmount] = useState("10.00");
   const [frequency, setFrequency] = useState("Weekly");
-  const [endDate, setEndDate] = useState(todayFormatted);
+  const [endDate, setEndDate] = useState("");
+  const [maxExecutions, setMaxExecutions] = useState("");
+  const [totalBudget, setTotalBudget] = useState("");
+  const [maxSlippage, setMaxSlippage] = useState(String(DEFAULT_MAX_SLIPPAGE));
+  const [limitPrice, setLimitPrice] = useState("");
+  const [missedSlotPolicy, setMissedSlotPolicy] = useState<MissedSlotPolicy>(DEFAULT_MISSED_SLOT_POLICY);
+  // Calendar rules and times of day are evaluated in the browser's timezone
+  const [timezone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
 
   const [showFrequencyModal, setShowFrequencyModal] = useState(false);
   const [showDatePicker, setShowDatePicker] = useState(false);
@@ -68,46 +87,62 @@ export const RecurringBuys = () => {
       return;
     }
 
+    if (maxExecutions && parseInt(maxExecutions, 10) <= 0) {
+      setError("Max executions must be at least 1");
+      return;
+    }
+
+    if (totalBudget && parseFloat(totalBudget) < parseFloat(amount)) {
+      setError("Total budget must cover at least one order");
+      return;
+    }
+
+    const priceProtectionError = validatePriceProtection({
+      max_slippage: parseFloat(maxSlippage),
+      limit_price: limitPrice ? parseFloat(limitPrice) : null,
+    });
+    if (priceProtectionError) {
+      setError(priceProtectionError);
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
     try {
-      // Step 1: Create message to sign
-      const message = `I authorize Tower Finance to set up a recurring ${frequency} ${selectedPayToken.symbol} → ${selectedBuyToken.symbol} buy order for ${amount} ${selectedPayToken.symbol}`;
-      
-      let signature: string | undefined;
-
-      try {
-        // Step 2: Get the wallet and sign the message
-        const connectedWallet = wallets.find(
-          (w) => w.address?.toLowerCase() === walletAddress.toLowerCase()
-        );
-
-        if (!connectedWallet) {
-          throw new Error("Connected wallet not found");
-        }
+      // Step 1: Get the connected wallet's provider
+      const connectedWallet = wallets.find(
+        (w) => w.address?.toLowerCase() === walletAddress.toLowerCase()
+      );
 
-        // Get the EIP-1193 provider from the wallet
-        const eip1193Provider = await connectedWallet.getEthereumProvider();
+      if (!connectedWallet) {
+        throw new Error("Connected wallet not found");
+      }
 
-        if (!eip1193Provider) {
-          throw new Error("Failed to get wallet provider");
-        }
+      const eip1193Provider = await connectedWallet.getEthereumProvider();
 
-        // Convert message to hex
-        const messageHex = "0x" + Buffer.from(message).toString("hex");
+      if (!eip1193Provider) {
+        throw new Error("Failed to get wallet provider");
+      }
 
-        // Request signature - WALLET WILL PROMPT USER
-        signature = await eip1193Provider.request({
-          method: "personal_sign",
-          params: [messageHex, walletAddress],
-        }) as string;
+      // Step 2: Sign the spending permission that bounds what the executor may do
+      const permission = buildRecurringOrderPermission(
+        walletAddress,
+        selectedPayToken.symbol,
+        selectedBuyToken.symbol,
+        parseFloat(amount),
+        frequency,
+        endDate || undefined,
+        totalBudget ? parseFloat(totalBudget) : undefined,
+        timezone
+      );
 
-        console.log("✅ Message signed successfully:", signature);
-      } catch (signError) {
-        console.warn("⚠️ Signature request failed:", signError);
-        // Proceed without signature (optional - can require it)
-      }
+      // WALLET WILL PROMPT USER
+      const signature = await requestSpendingPermissionSignature(
+        eip1193Provider,
+        walletAddress,
+        permission
+      );
 
       // Step 3: Create the recurring order in the database
       const order = await createRecurringOrder(
@@ -117,17 +152,30 @@ export const RecurringBuys = () => {
         selectedBuyToken.symbol,
         parseFloat(amount),
         frequency,
-        endDate,
-        signature
+        endDate || undefined,
+        { permission, signature },
+        missedSlotPolicy,
+        {
+          maxExecutions: maxExecutions ? parseInt(maxExecutions, 10) : undefined,
+          totalBudget: totalBudget ? parseFloat(totalBudget) : undefined,
+        },
+        timezone,
+        {
+          maxSlippage: parseFloat(maxSlippage),
+          limitPrice: limitPrice ? parseFloat(limitPrice) : undefined,
+        }
       );
 
       // Reset form
       setSelectedBuyToken(null);
       setAmount("10.00");
       setFrequency("Weekly");
-      const newToday = new Date();
-      const newTodayFormatted = `${String(newToday.getMonth() + 1).padStart(2, "0")}/${String(newToday.getDate()).padStart(2, "0")}/${newToday.getFullYear()}`;
-      setEndDate(newTodayFormatted);
+      setMissedSlotPolicy(DEFAULT_MISSED_SLOT_POLICY);
+      setEndDate("");
+      setMaxExecutions("");
+      setTotalBudget("");
+      setMaxSlippage(String(DEFAULT_MAX_SLIPPAGE));
+      setLimitPrice("");
 
       // Capture notification data with current values
       setNotificationData({
@@ -194,13 +242,33 @@ export const RecurringBuys = () => {
           />
           <FrequencyField
             label="End Date"
-            value={endDate}
+            value={endDate || "No end date"}
             showInfo
             optional
             onClick={() => setShowDatePicker(true)}
           />
         </div>
 
+        <PriceProtectionFields
+          orderType="buy"
+          maxSlippage={maxSlippage}
+          limitPrice={limitPrice}
+          assetToken={selectedBuyToken?.symbol ?? ""}
+          priceToken={selectedPayToken.symbol}
+          onMaxSlippageChange={setMaxSlippage}
+          onLimitPriceChange={setLimitPrice}
+        />
+
+        <OrderLimitsFields
+          maxExecutions={maxExecutions}
+          totalBudget={totalBudget}
+          budgetToken={selectedPayToken.symbol}
+          onMaxExecutionsChange={setMaxExecutions}
+          onTotalBudgetChange={setTotalBudget}
+        />
+
+        <MissedSlotPolicyField value={missedSlotPolicy} onChange={setMissedSlotPolicy} />
+
         {error && (
           <motion.div
             initial={{ opacity: 0, y: -10 }}
@@ -239,6 +307,7 @@ export const RecurringBuys = () => {
           onClose={() => setShowFrequencyModal(false)}
           onSelect={setFrequency}
           currentValue={frequency}
+          timezone={timezone}
         />
         <DatePicker
           key="date-picker"
@@ -25,17 +25,30 @@ export {
   fetchArcBalance,
   formatBalance,
   getSwapQuote,
+  getPoolQuote,
+  getGasPrice,
+  findBestRoute,
+  findRoutePaths,
+  quoteRoute,
   getRouterTokenIndex,
   getRouterTokenIndices,
   getPoolBalances,
   prepareSwapTransaction,
+  preparePoolSwapTransaction,
   getPoolInfo,
   listAvailablePools,
+  getKnownPools,
   calculatePriceImpact,
+  getPoolPriceImpact,
+  referenceAmount,
 } from "./arcNetwork";
 
+// Pool discovery
+export { discoverPools, ensurePoolsDiscovered, loadCachedPools } from "./poolRegistry";
+
 // React hook
 export { useArcPools } from "./useArcPools";
 
 // Types
 export type { PoolState, SwapQuoteState } from "./useArcPools";
+export type { ArcPoolInfo, PoolEdge, RouteHop, SwapRoute } from "./arcNetwork";
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  type PoolEdge,
+  calculatePriceImpact,
+  getPoolPriceImpact,
+  referenceAmount,
+} from "./arcNetwork";
+
+const units = (amount: number | string, decimals: number): bigint => {
+  const [whole, fraction = ""] = String(amount).split(".");
+  return BigInt(whole + fraction.padEnd(decimals, "0").slice(0, decimals));
+};
+
+const WUSDC_TO_QTM: PoolEdge = {
+  pool: "WUSDC/QTM",
+  poolAddress: "0xD330Ae5713AF6507f43420e85C941a68BfbaD9D0",
+  tokenIn: "WUSDC",
+  tokenOut: "QTM",
+  tokenInIndex: 0,
+  tokenOutIndex: 1,
+};
+
+describe("referenceAmount", () => {
+  it("sizes the reference for each decimal pair", () => {
+    // 0.01 of the input token, unless the output would have fewer than 6 digits
+    expect(referenceAmount(6, 18)).toBe(units("0.01", 6));
+    expect(referenceAmount(18, 6)).toBe(units(1, 18));
+    expect(referenceAmount(6, 6)).toBe(units(1, 6));
+    expect(referenceAmount(18, 18)).toBe(units("0.01", 18));
+  });
+});
+
+describe("calculatePriceImpact", () => {
+  // [input decimals, output decimals]
+  const pairs: Array<[number, number]> = [
+    [6, 18],
+    [18, 6],
+    [6, 6],
+    [18, 18],
+  ];
+
+  it.each(pairs)("compares the execution rate with the reference rate (%i -> %i decimals)", (dIn, dOut) => {
+    const referenceIn = referenceAmount(dIn, dOut);
+    // 1:1 pool at the margin
+    const referenceOut = (referenceIn * BigInt(10) ** BigInt(dOut)) / BigInt(10) ** BigInt(dIn);
+
+    const impact = calculatePriceImpact(
+      units(1000, dIn).toString(),
+      units(985, dOut).toString(),
+      referenceIn.toString(),
+      referenceOut.toString()
+    );
+    expect(impact).toBeCloseTo(1.5, 4);
+  });
+
+  it.each(pairs)("has no impact at the reference rate (%i -> %i decimals)", (dIn, dOut) => {
+    const referenceIn = referenceAmount(dIn, dOut);
+    const referenceOut = (referenceIn * BigInt(10) ** BigInt(dOut)) / BigInt(10) ** BigInt(dIn);
+
+    expect(
+      calculatePriceImpact(
+        units(250, dIn).toString(),
+        units(250, dOut).toString(),
+        referenceIn.toString(),
+        referenceOut.toString()
+      )
+    ).toBe(0);
+  });
+
+  it("returns 0 when the reference quote is zero", () => {
+    expect(calculatePriceImpact(units(100, 6).toString(), units(99, 18).toString(), referenceAmount(6, 18).toString(), "0")).toBe(0);
+  });
+
+  it("returns 0 when the output beats the reference rate", () => {
+    const referenceIn = referenceAmount(18, 6);
+    expect(
+      calculatePriceImpact(
+        units(100, 18).toString(),
+        units(101, 6).toString(),
+        referenceIn.toString(),
+        units(1, 6).toString()
+      )
+    ).toBe(0);
+  });
+
+  it("returns 0 for a zero or invalid input", () => {
+    expect(calculatePriceImpact("0", "0", "10000", "10000")).toBe(0);
+    expect(calculatePriceImpact("not a number", "1", "10000", "10000")).toBe(0);
+  });
+});
+
+describe("getPoolPriceImpact", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // Answer every eth_call with `amount` as a uint256
+  const stubQuote = (amount: bigint) => {
+    const fetchMock = vi.fn(async (_url: string, init: { body: string }) => {
+      const request = JSON.parse(init.body);
+      return new Response(
+        JSON.stringify({ jsonrpc: "2.0", id: request.id, result: `0x${amount.toString(16).padStart(64, "0")}` })
+      );
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  };
+
+  it("quotes the reference amount of the pool's input token", async () => {
+    // 0.01 WUSDC -> 0.01 QTM at the margin
+    const fetchMock = stubQuote(units("0.01", 18));
+
+    const impact = await getPoolPriceImpact(
+      WUSDC_TO_QTM,
+      units(1000, 6).toString(),
+      units(990, 18).toString()
+    );
+
+    expect(impact).toBeCloseTo(1, 4);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips the quote for trades at or below the reference size", async () => {
+    const fetchMock = stubQuote(BigInt(0));
+
+    expect(
+      await getPoolPriceImpact(WUSDC_TO_QTM, units("0.01", 6).toString(), units("0.01", 18).toString())
+    ).toBe(0);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -1,7 +1,38 @@
+import {
+  decodeFunctionResult,
+  decodeRevert,
+  encodeFunctionData,
+  getAbiFunction,
+  getSelector,
+} from "@/supabase/functions/_shared/abi";
+import {
+  ERC20_ABI,
+  decodeUint256,
+  encodeAllowance,
+  encodeBalanceOf,
+} from "@/supabase/functions/_shared/erc20";
+import { MULTICALL3_ADDRESS, multicall } from "@/supabase/functions/_shared/multicall";
+import { ARC_POOLS, type ArcPoolInfo, LIQUIDITY_POOL_ABI } from "@/supabase/functions/_shared/pools";
+import {
+  ARC_TESTNET_RPC_URLS,
+  RpcError,
+  createRpcClient,
+  parseRpcUrls,
+} from "@/supabase/functions/_shared/rpc";
+import {
+  ERC20_TOKENS,
+  NATIVE_TOKENS,
+  TOKEN_ADDRESSES,
+  TOKEN_DECIMALS,
+  getTokenByAddress,
+} from "@/supabase/functions/_shared/tokens";
+
 // Arc Testnet Configuration and utilities
 export const ARC_TESTNET_CONFIG = {
   chainId: 5042002,
-  rpcUrl: "https://rpc.testnet.arc.network",
+  // Override with a comma-separated NEXT_PUBLIC_ARC_RPC_URLS in .env.local
+  rpcUrls: parseRpcUrls(process.env.NEXT_PUBLIC_ARC_RPC_URLS),
+  multicall3Address: process.env.NEXT_PUBLIC_MULTICALL3_ADDRESS || MULTICALL3_ADDRESS,
   currency: "USDC",
   decimals: 18,
   explorerUrl: "https://testnet.arcscan.app",
@@ -19,12 +50,7 @@ export const ARC_ADD_NETWORK_PARAMS = [
       symbol: "USDC",
       decimals: 18,
     },
-    rpcUrls: [
-      "https://rpc.testnet.arc.network",
-      "https://rpc.blockdaemon.testnet.arc.network",
-      "https://rpc.drpc.testnet.arc.network",
-      "https://rpc.quicknode.testnet.arc.network",
-    ],
+    rpcUrls: ARC_TESTNET_RPC_URLS,
     blockExplorerUrls: ["https://testnet.arcscan.app"],
   },
 ];
@@ -33,60 +59,46 @@ export const ARC_ADD_NETWORK_PARAMS = [
 export const QUANTUM_EXCHANGE_CONFIG = {
   baseUrl: "https://www.quantumexchange.app/api/v1",
   chainId: 5042002,
-  rpcUrl: "https://rpc.arc.testnet",
 };
 
-// Token Contract Addresses on Arc Testnet
-// Note: Only USDC, WUSDC, QTM are supported by QuantumExchange API
+// Token addresses, decimals and native/ERC-20 lists are live views of the
+// shared token registry (supabase/functions/_shared/tokens.ts); tokens added
+// with loadTokenRegistry (lib/tokenRegistry.ts) show up here as well.
 // IMPORTANT: USDC (0x3600...) is the NATIVE USDC (wrappable via wrapAndSwap, requires ETH payment)
 //            WUSDC (0xD40f...) is the ERC-20 wrapped version (ERC-20 approval required)
-export const TOKEN_CONTRACTS: Record<string, string> = {
-  USDC: "0x3600000000000000000000000000000000000000",
-  WUSDC: "0xD40fCAa5d2cE963c5dABC2bf59E268489ad7BcE4",
-  QTM: "0xCD304d2A421BFEd31d45f0054AF8E8a6a4cF3EaE",
-  EURC: "0x89B50855Aa3bE2F677cD6303Cec089B5F319D72a",
-  SWPRC: "0xBE7477BF91526FC9988C8f33e91B6db687119D45",
-  // Add other token addresses as needed
-  // USDT: "0x...",
-  // UNI: "0x...",
-  // HYPE: "0x...",
-  // ETH: "0x...",
-};
+export const TOKEN_CONTRACTS: Record<string, string> = TOKEN_ADDRESSES;
+export { ERC20_TOKENS, NATIVE_TOKENS, TOKEN_DECIMALS };
 
-// Tokens that are "native" and require wrapping (accept ETH via payable functions)
-// These tokens route through RouterQuantum.wrapAndSwap and require sending ETH
-export const NATIVE_TOKENS = ["USDC"];
-
-// Tokens that are regular ERC-20 (require approval)
-export const ERC20_TOKENS = ["WUSDC", "QTM", "EURC", "SWPRC", "USDT", "UNI", "HYPE"];
-
-// Token Decimals Configuration
-// Note: USDC has 18 decimals on Arc Testnet, WUSDC has 6
-export const TOKEN_DECIMALS: Record<string, number> = {
-  USDC: 18,
-  WUSDC: 6,
-  QTM: 18,
-  EURC: 6,
-  SWPRC: 6,
-  USDT: 6,
-  UNI: 18,
-  HYPE: 18,
-  ETH: 18,
-};
+// Pools found on-chain by lib/poolRegistry, in addition to ARC_POOLS.pools
+const discoveredPools: Record<string, ArcPoolInfo> = {};
 
-// Arc Pool Configuration - QuantumExchange supported pools
-// IMPORTANT: Each pool contract has its own get_dy function with local indices (0, 1)
-// Token 0 is always listed first, Token 1 is listed second
-export const ARC_POOLS = {
-  router: "0x00468f90a40432Fc488C87B0FBe69c2D0fADF0a0", // Uniswap V2 Router (for reference only)
-  routerQuantum: "0x9d52b6c810d6f95e3d44ca64af3b55f7f66448ff", // RouterQuantum for wrap/unwrap swaps
-  pools: {
-    "WUSDC/QTM": {
-      address: "0xD330Ae5713AF6507f43420e85C941a68BfbaD9D0",
-      tokens: ["WUSDC", "QTM"],
-    },
-  },
-};
+/**
+ * Add pools found on-chain to the known pools
+ * @param pools - Pools keyed by pair name
+ */
+export function registerPools(pools: Record<string, ArcPoolInfo>): void {
+  Object.assign(discoveredPools, pools);
+}
+
+/**
+ * All pools the app can quote and swap against: ARC_POOLS.pools plus every
+ * discovered pool at an address not already configured there. A discovered
+ * pool whose pair name is taken by a configured pool at another address is
+ * listed as "<pair> (<address prefix>)".
+ * @returns Pools keyed by pair name
+ */
+export function getKnownPools(): Record<string, ArcPoolInfo> {
+  const configured = new Set(
+    Object.values(ARC_POOLS.pools).map((pool) => pool.address.toLowerCase())
+  );
+  const discovered = Object.entries(discoveredPools)
+    .filter(([, pool]) => !configured.has(pool.address.toLowerCase()))
+    .map(([name, pool]): [string, ArcPoolInfo] => [
+      ARC_POOLS.pools[name] ? `${name} (${pool.address.slice(0, 8)})` : name,
+      pool,
+    ]);
+  return { ...Object.fromEntries(discovered), ...ARC_POOLS.pools };
+}
 
 /**
  * Get the index of a token in the router
@@ -152,44 +164,6 @@ export async function getRouterTokenIndices(
   }
 }
 
-/**
- * Find the pool that contains both tokens
- * @param tokenInSymbol - Symbol of input token
- * @param tokenOutSymbol - Symbol of output token
- * @returns Object with pool address and local indices (0 or 1) or null if not found
- */
-function findPoolForTokens(
-  tokenInSymbol: string,
-  tokenOutSymbol: string
-): {
-  poolAddress: string;
-  tokenInIndex: number;
-  tokenOutIndex: number;
-} | null {
-  const pools = Object.entries(ARC_POOLS.pools);
-
-  for (const [, poolInfo] of pools) {
-    const [token0, token1] = poolInfo.tokens;
-    
-    // Check both directions
-    if (token0 === tokenInSymbol && token1 === tokenOutSymbol) {
-      return {
-        poolAddress: poolInfo.address,
-        tokenInIndex: 0,
-        tokenOutIndex: 1,
-      };
-    } else if (token0 === tokenOutSymbol && token1 === tokenInSymbol) {
-      return {
-        poolAddress: poolInfo.address,
-        tokenInIndex: 1,
-        tokenOutIndex: 0,
-      };
-    }
-  }
-
-  return null;
-}
-
 // Swap Router ABI - this contract handles token swaps with get_dy and swap functions
 export const SWAP_ROUTER_ABI = [
   {
@@ -235,53 +209,22 @@ export const SWAP_ROUTER_ABI = [
     inputs: [{ name: "", type: "uint256" }],
     outputs: [{ name: "", type: "address" }],
   },
-];
+] as const;
 
-// Liquidity Pool ABI for managing liquidity
-export const LIQUIDITY_POOL_ABI = [
-  {
-    name: "getBalances",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "", type: "uint256[]" }],
-  },
-  {
-    name: "addLiquidity",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [{ name: "amounts", type: "uint256[]" }],
-    outputs: [],
-  },
-  {
-    name: "removeLiquidity",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [{ name: "lpAmount", type: "uint256" }],
-    outputs: [],
-  },
-];
+// Liquidity Pool ABI and pool configuration, shared with the Edge Functions
+export { ARC_POOLS, LIQUIDITY_POOL_ABI };
+export type { ArcPoolInfo };
 
-// ERC20 ABI for token balance queries
-export const ERC20_ABI = [
-  {
-    name: "balanceOf",
-    type: "function",
-    stateMutability: "view",
-    inputs: [{ name: "account", type: "address" }],
-    outputs: [{ name: "", type: "uint256" }],
-  },
-  {
-    name: "allowance",
-    type: "function",
-    stateMutability: "view",
-    inputs: [
-      { name: "owner", type: "address" },
-      { name: "spender", type: "address" },
-    ],
-    outputs: [{ name: "", type: "uint256" }],
-  },
-];
+// ERC20 ABI for token balance queries and approvals
+export { ERC20_ABI };
+
+// Shared RPC client: fails over between ARC_TESTNET_CONFIG.rpcUrls, retries,
+// batches calls made together and caches results that never change
+export const arcRpc = createRpcClient({
+  urls: ARC_TESTNET_CONFIG.rpcUrls,
+  // A pool's coin at each index is fixed at deployment
+  immutableSelectors: [getSelector(getAbiFunction(LIQUIDITY_POOL_ABI, "coins"))],
+});
 
 /**
  * Fetch ERC20 token balance from Arc testnet
@@ -303,10 +246,7 @@ export const fetchERC20Balance = async (
       : `0x${tokenAddress}`;
 
     // Encode balanceOf function call: balanceOf(address)
-    // Function selector for balanceOf: 0x70a08231
-    const functionSelector = "0x70a08231";
-    const paddedAddress = cleanWalletAddress.slice(2).padStart(64, "0");
-    const encodedData = functionSelector + paddedAddress;
+    const encodedData = encodeBalanceOf(cleanWalletAddress);
 
     console.log("Fetching ERC20 balance:", {
       walletAddress: cleanWalletAddress,
@@ -314,42 +254,15 @@ export const fetchERC20Balance = async (
       encodedData,
     });
 
-    const response = await fetch(ARC_TESTNET_CONFIG.rpcUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        id: Date.now(),
-        method: "eth_call",
-        params: [
-          {
-            to: cleanTokenAddress,
-            data: encodedData,
-          },
-          "latest",
-        ],
-      }),
-    });
-
-    const data = await response.json();
+    const result = await arcRpc.ethCall(cleanTokenAddress, encodedData);
 
     console.log("ERC20 balance response:", {
       tokenAddress: cleanTokenAddress,
-      response: data,
+      result,
     });
 
-    if (data.error) {
-      console.error(
-        `RPC Error fetching ERC20 balance for ${cleanTokenAddress}:`,
-        data.error
-      );
-      return null;
-    }
-
-    if (data.result && data.result !== "0x") {
-      return data.result;
+    if (result && result !== "0x") {
+      return result;
     }
 
     console.warn(
@@ -390,11 +303,7 @@ export const fetchERC20Allowance = async (
       : `0x${tokenAddress}`;
 
     // Encode allowance function call: allowance(address owner, address spender)
-    // Function selector for allowance: 0xdd62ed3e
-    const functionSelector = "0xdd62ed3e";
-    const ownerPadded = cleanOwnerAddress.slice(2).padStart(64, "0");
-    const spenderPadded = cleanSpenderAddress.slice(2).padStart(64, "0");
-    const encodedData = functionSelector + ownerPadded + spenderPadded;
+    const encodedData = encodeAllowance(cleanOwnerAddress, cleanSpenderAddress);
 
     console.log("Fetching ERC20 allowance:", {
       ownerAddress: cleanOwnerAddress,
@@ -403,42 +312,15 @@ export const fetchERC20Allowance = async (
       encodedData,
     });
 
-    const response = await fetch(ARC_TESTNET_CONFIG.rpcUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        id: Date.now(),
-        method: "eth_call",
-        params: [
-          {
-            to: cleanTokenAddress,
-            data: encodedData,
-          },
-          "latest",
-        ],
-      }),
-    });
-
-    const data = await response.json();
+    const result = await arcRpc.ethCall(cleanTokenAddress, encodedData);
 
     console.log("ERC20 allowance response:", {
       tokenAddress: cleanTokenAddress,
-      response: data,
+      result,
     });
 
-    if (data.error) {
-      console.error(
-        `RPC Error fetching ERC20 allowance for ${cleanTokenAddress}:`,
-        data.error
-      );
-      return null;
-    }
-
-    if (data.result && data.result !== "0x") {
-      return data.result;
+    if (result && result !== "0x") {
+      return result;
     }
 
     console.warn(
@@ -463,23 +345,10 @@ export const fetchArcBalance = async (
   walletAddress: string
 ): Promise<string | null> => {
   try {
-    const response = await fetch(ARC_TESTNET_CONFIG.rpcUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        id: 1,
-        method: "eth_getBalance",
-        params: [walletAddress, "latest"],
-      }),
-    });
-
-    const data = await response.json();
-    if (data.result) {
+    const result = await arcRpc.call("eth_getBalance", [walletAddress, "latest"]);
+    if (result) {
       // Convert from wei to USDC (18 decimals)
-      const balanceInWei = BigInt(data.result);
+      const balanceInWei = BigInt(result);
       const balanceInUsdc = balanceInWei / BigInt(10 ** ARC_TESTNET_CONFIG.decimals);
       return balanceInUsdc.toString();
     }
@@ -490,6 +359,35 @@ export const fetchArcBalance = async (
   }
 };
 
+/**
+ * Fetch a wallet's native balance and ERC20 balances in one RPC request, with
+ * a Multicall3 aggregate (or a JSON-RPC batch where Multicall3 is unavailable)
+ * @param walletAddress - The wallet address to fetch balances for
+ * @param tokenAddresses - ERC20 token contract addresses
+ * @returns Native balance and each token's balance in base units, in the order given; a token whose call reverts has a balance of zero
+ * @throws If the RPC request fails
+ */
+export async function fetchWalletBalances(
+  walletAddress: string,
+  tokenAddresses: string[]
+): Promise<{ native: bigint; tokens: bigint[] }> {
+  const data = encodeBalanceOf(walletAddress);
+  // Made in the same tick, so both go out in one batch
+  const [native, results] = await Promise.all([
+    arcRpc.call("eth_getBalance", [walletAddress, "latest"]),
+    multicall(
+      arcRpc,
+      tokenAddresses.map((target) => ({ target, data })),
+      ARC_TESTNET_CONFIG.multicall3Address
+    ),
+  ]);
+
+  return {
+    native: BigInt(native),
+    tokens: results.map(decodeUint256),
+  };
+}
+
 /**
  * Format balance for display
  * @param balance - Balance as string
@@ -506,100 +404,218 @@ export const formatBalance = (balance: string, decimals: number = 2): string =>
 };
 
 /**
- * Encode function data for EVM calls using minimal encoding
- * @param functionName - Name of the function
- * @param inputs - Array of input values
- * @returns Encoded function data
+ * Make a JSON-RPC call to Arc network through arcRpc
+ * @param method - JSON-RPC method name
+ * @param params - Parameters for the method
+ * @returns Response data
  */
-function encodeFunctionData(functionName: string, inputs: string[]): string {
-  const functionSignatures: { [key: string]: string } = {
-    "get_dy(uint256,uint256,uint256)": "0x50c0e8aa",
-    "swap(uint256,uint256,uint256,uint256)": "0xa08cd8e2",
-    "getBalances()": "0xe4e61b70",
-    "getTokenCount()": "0x0dfe1681",
-    "tokens(uint256)": "0xfc735e99",
-  };
+export async function makeJsonRpcCall<T = string>(
+  method: string,
+  params: unknown[]
+): Promise<T> {
+  return arcRpc.call<T>(method, params);
+}
 
-  const typeMap: Record<string, string[]> = {
-    "get_dy(uint256,uint256,uint256)": ["uint256", "uint256", "uint256"],
-    "swap(uint256,uint256,uint256,uint256)": [
-      "uint256",
-      "uint256",
-      "uint256",
-      "uint256",
-    ],
-    "getBalances()": [],
-    "getTokenCount()": [],
-    "tokens(uint256)": ["uint256"],
-  };
+/**
+ * Get the current gas price on Arc network
+ * @returns Gas price (in wei of the native token)
+ */
+export async function getGasPrice(): Promise<bigint> {
+  return BigInt(await makeJsonRpcCall("eth_gasPrice", []));
+}
+
+/**
+ * Quote a single pool swap with the pool's own `get_dy`
+ * @param poolAddress - Address of the pool
+ * @param tokenInIndex - Pool-local index of the input token
+ * @param tokenOutIndex - Pool-local index of the output token
+ * @param amountIn - Amount to swap (in wei)
+ * @returns Amount out (in wei, hex)
+ */
+export async function getPoolQuote(
+  poolAddress: string,
+  tokenInIndex: number,
+  tokenOutIndex: number,
+  amountIn: string
+): Promise<string> {
+  const data = encodeFunctionData(LIQUIDITY_POOL_ABI, "get_dy", [
+    tokenInIndex,
+    tokenOutIndex,
+    amountIn,
+  ]);
+
+  const result = await makeJsonRpcCall("eth_call", [
+    {
+      to: poolAddress,
+      data,
+    },
+    "latest",
+  ]);
+
+  const [amountOut] = decodeFunctionResult(LIQUIDITY_POOL_ABI, "get_dy", result);
+  return `0x${amountOut.toString(16)}`;
+}
+
+// Longest route the local router considers
+export const MAX_ROUTE_HOPS = 3;
+
+/** One directed swap through a pool */
+export interface PoolEdge {
+  pool: string;
+  poolAddress: string;
+  tokenIn: string;
+  tokenOut: string;
+  tokenInIndex: number;
+  tokenOutIndex: number;
+}
+
+export interface RouteHop extends PoolEdge {
+  /** Amount in (in wei, decimal string) */
+  amountIn: string;
+  /** Amount out (in wei, decimal string) */
+  amountOut: string;
+}
+
+export interface SwapRoute {
+  /** Token symbols from input to output */
+  path: string[];
+  hops: RouteHop[];
+  amountIn: string;
+  amountOut: string;
+}
+
+/**
+ * Token symbol for a contract address
+ * @returns The symbol, or null if the address is not in TOKEN_CONTRACTS
+ */
+export function getTokenSymbol(tokenAddress: string): string | null {
+  return getTokenByAddress(tokenAddress)?.symbol ?? null;
+}
 
-  let typeList: string[] = [];
-  if (functionName === "get_dy") {
-    typeList = typeMap["get_dy(uint256,uint256,uint256)"];
-  } else if (functionName === "swap") {
-    typeList = typeMap["swap(uint256,uint256,uint256,uint256)"];
-  } else if (functionName === "getBalances") {
-    typeList = typeMap["getBalances()"];
-  } else if (functionName === "getTokenCount") {
-    typeList = typeMap["getTokenCount()"];
-  } else if (functionName === "tokens") {
-    typeList = typeMap["tokens(uint256)"];
+/**
+ * Build the swap graph of the known pools: one edge per pool and ordered token pair
+ * @returns Outgoing edges keyed by input token symbol
+ */
+export function buildPoolGraph(): Map<string, PoolEdge[]> {
+  const graph = new Map<string, PoolEdge[]>();
+
+  for (const [pool, poolInfo] of Object.entries(getKnownPools())) {
+    poolInfo.tokens.forEach((tokenIn, tokenInIndex) => {
+      poolInfo.tokens.forEach((tokenOut, tokenOutIndex) => {
+        if (tokenInIndex === tokenOutIndex) return;
+        const edges = graph.get(tokenIn) ?? [];
+        edges.push({
+          pool,
+          poolAddress: poolInfo.address,
+          tokenIn,
+          tokenOut,
+          tokenInIndex,
+          tokenOutIndex,
+        });
+        graph.set(tokenIn, edges);
+      });
+    });
   }
 
-  const signature = `${functionName}(${typeList.join(",")})`;
-  const selector = functionSignatures[signature];
+  return graph;
+}
+
+/**
+ * Enumerate paths between two tokens that never revisit a token
+ * @param maxHops - Longest path to return (1 to MAX_ROUTE_HOPS)
+ * @returns Paths as lists of pool edges, shortest first
+ */
+export function findRoutePaths(
+  tokenInSymbol: string,
+  tokenOutSymbol: string,
+  maxHops: number = MAX_ROUTE_HOPS
+): PoolEdge[][] {
+  const graph = buildPoolGraph();
+  const paths: PoolEdge[][] = [];
+
+  const visit = (token: string, path: PoolEdge[], visited: Set<string>) => {
+    if (path.length >= maxHops) return;
+    for (const edge of graph.get(token) ?? []) {
+      if (visited.has(edge.tokenOut)) continue;
+      const next = [...path, edge];
+      if (edge.tokenOut === tokenOutSymbol) {
+        paths.push(next);
+      } else {
+        visit(edge.tokenOut, next, new Set(visited).add(edge.tokenOut));
+      }
+    }
+  };
 
-  if (!selector) {
-    throw new Error(`Unknown function: ${functionName}`);
+  if (tokenInSymbol !== tokenOutSymbol) {
+    visit(tokenInSymbol, [], new Set([tokenInSymbol]));
   }
 
-  let encoded = selector;
+  return paths.sort((a, b) => a.length - b.length);
+}
 
-  if (inputs.length > 0) {
-    inputs.forEach((input) => {
-      const hex = BigInt(input).toString(16).padStart(64, "0");
-      encoded += hex;
-    });
+/**
+ * Quote a path by chaining `get_dy` through each pool
+ * @param amountIn - Amount to swap (in wei)
+ */
+export async function quoteRoute(path: PoolEdge[], amountIn: string): Promise<SwapRoute> {
+  const hops: RouteHop[] = [];
+  let amount = BigInt(amountIn).toString();
+
+  for (const edge of path) {
+    const amountOut = BigInt(
+      await getPoolQuote(edge.poolAddress, edge.tokenInIndex, edge.tokenOutIndex, amount)
+    ).toString();
+    hops.push({ ...edge, amountIn: amount, amountOut });
+    amount = amountOut;
   }
 
-  return encoded;
+  return {
+    path: [path[0].tokenIn, ...path.map((edge) => edge.tokenOut)],
+    hops,
+    amountIn: BigInt(amountIn).toString(),
+    amountOut: amount,
+  };
 }
 
 /**
- * Make a JSON-RPC call to Arc network
- * @param method - JSON-RPC method name
- * @param params - Parameters for the method
- * @returns Response data
+ * Find the route with the largest output between two tokens across ARC_POOLS
+ * (direct pools and up to MAX_ROUTE_HOPS hops)
+ * @param amountIn - Amount to swap (in wei)
+ * @returns Best route with per-hop amounts
+ * @throws If no path exists or no path could be quoted
  */
-async function makeJsonRpcCall(
-  method: string,
-  params: (string | number | Record<string, string>)[]
-): Promise<string> {
-  const response = await fetch(ARC_TESTNET_CONFIG.rpcUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      jsonrpc: "2.0",
-      id: Date.now(),
-      method,
-      params,
-    }),
-  });
-
-  const data = await response.json();
-
-  if (data.error) {
-    throw new Error(`RPC Error: ${data.error.message}`);
+export async function findBestRoute(
+  tokenInSymbol: string,
+  tokenOutSymbol: string,
+  amountIn: string
+): Promise<SwapRoute> {
+  const paths = findRoutePaths(tokenInSymbol, tokenOutSymbol);
+  if (paths.length === 0) {
+    throw new Error(`No route found for tokens ${tokenInSymbol}/${tokenOutSymbol}`);
   }
 
-  return data.result;
+  const quotes = await Promise.allSettled(paths.map((path) => quoteRoute(path, amountIn)));
+  let best: SwapRoute | null = null;
+  for (const quote of quotes) {
+    if (quote.status !== "fulfilled") {
+      console.warn("Route quote failed:", quote.reason);
+      continue;
+    }
+    if (!best || BigInt(quote.value.amountOut) > BigInt(best.amountOut)) {
+      best = quote.value;
+    }
+  }
+
+  if (!best) {
+    throw new Error(`Failed to quote any route for tokens ${tokenInSymbol}/${tokenOutSymbol}`);
+  }
+  return best;
 }
 
 /**
- * Get a quote for swapping between two tokens using the Arc swap router
- * 
+ * Get a quote for swapping between two tokens through ARC_POOLS, routing
+ * through intermediate pools when there is no direct one
+ *
  * @param tokenInAddress - Input token contract address
  * @param tokenOutAddress - Output token contract address
  * @param amountIn - Amount to swap (in wei)
@@ -611,18 +627,8 @@ export async function getSwapQuote(
   amountIn: string
 ): Promise<string> {
   try {
-    // Convert token addresses to symbols
-    const normalizedInAddress = tokenInAddress.toLowerCase();
-    const normalizedOutAddress = tokenOutAddress.toLowerCase();
-
-    const addressToSymbol: Record<string, string> = {
-      "0x3600000000000000000000000000000000000000": "USDC",
-      "0x89b50855aa3be2f677cd6303cec089b5f319d72a": "EURC",
-      "0xbe7477bf91526fc9988c8f33e91b6db687119d45": "SWPRC",
-    };
-
-    const tokenInSymbol = addressToSymbol[normalizedInAddress];
-    const tokenOutSymbol = addressToSymbol[normalizedOutAddress];
+    const tokenInSymbol = getTokenSymbol(tokenInAddress);
+    const tokenOutSymbol = getTokenSymbol(tokenOutAddress);
 
     if (!tokenInSymbol || !tokenOutSymbol) {
       throw new Error(
@@ -630,46 +636,15 @@ export async function getSwapQuote(
       );
     }
 
-    // Find the pool that contains both tokens
-    const poolInfo = findPoolForTokens(tokenInSymbol, tokenOutSymbol);
-
-    if (!poolInfo) {
-      throw new Error(
-        `No pool found for tokens ${tokenInSymbol}/${tokenOutSymbol}`
-      );
-    }
-
-    const { poolAddress, tokenInIndex, tokenOutIndex } = poolInfo;
-
-    const data = encodeFunctionData("get_dy", [
-      BigInt(tokenInIndex).toString(),
-      BigInt(tokenOutIndex).toString(),
-      BigInt(amountIn).toString(),
-    ]);
+    const route = await findBestRoute(tokenInSymbol, tokenOutSymbol, amountIn);
 
-    console.log("Getting swap quote from pool:", {
-      poolAddress,
-      tokenInSymbol,
-      tokenOutSymbol,
-      tokenInIndex,
-      tokenOutIndex,
+    console.log("Swap quote route:", {
+      path: route.path,
       amountIn,
-      encodedData: data,
+      amountOut: route.amountOut,
     });
 
-    const result = await makeJsonRpcCall("eth_call", [
-      {
-        to: poolAddress,
-        data,
-      },
-      "latest",
-    ]);
-
-    console.log("Swap quote result:", result);
-
-    // Parse the result (32 bytes for uint256)
-    const amount = result.startsWith("0x") ? result : "0x" + result;
-    return amount;
+    return "0x" + BigInt(route.amountOut).toString(16);
   } catch (error) {
     console.error("Error getting swap quote:", {
       tokenInAddress,
@@ -690,7 +665,7 @@ export async function getPoolBalances(
   poolAddress: string
 ): Promise<[string, string]> {
   try {
-    const data = encodeFunctionData("getBalances", []);
+    const data = encodeFunctionData(LIQUIDITY_POOL_ABI, "getBalances", []);
 
     const result = await makeJsonRpcCall("eth_call", [
       {
@@ -700,15 +675,12 @@ export async function getPoolBalances(
       "latest",
     ]);
 
-    // Parse dynamic array response
-    // Format: offset (32 bytes) + length (32 bytes) + data
-    const dataHex = result.slice(2);
-    const offset = parseInt(dataHex.slice(0, 64), 16);
-
-    const balance0 = "0x" + dataHex.slice(offset * 2 + 64, offset * 2 + 128);
-    const balance1 = "0x" + dataHex.slice(offset * 2 + 128, offset * 2 + 192);
+    const [balances] = decodeFunctionResult(LIQUIDITY_POOL_ABI, "getBalances", result);
+    if (balances.length < 2) {
+      throw new Error(`Pool returned ${balances.length} balances`);
+    }
 
-    return [balance0, balance1];
+    return [`0x${balances[0].toString(16)}`, `0x${balances[1].toString(16)}`];
   } catch (error) {
     console.error("Error getting pool balances:", error);
     throw error;
@@ -731,10 +703,10 @@ export function prepareSwapTransaction(
   data: string;
   value: string;
 } {
-  const data = encodeFunctionData("swap", [
-    BigInt(tokenInIndex).toString(),
-    BigInt(tokenOutIndex).toString(),
-    BigInt(amountIn).toString(),
+  const data = encodeFunctionData(SWAP_ROUTER_ABI, "swap", [
+    tokenInIndex,
+    tokenOutIndex,
+    amountIn,
   ]);
 
   return {
@@ -744,19 +716,51 @@ export function prepareSwapTransaction(
   };
 }
 
+/**
+ * Prepare a swap directly against a pool with its `swap(i, j, dx, min_dy)`
+ * @param poolAddress - Address of the pool
+ * @param tokenInIndex - Pool-local index of the input token
+ * @param tokenOutIndex - Pool-local index of the output token
+ * @param amountIn - Amount to swap (in wei)
+ * @param minAmountOut - Least output the swap may return (in wei)
+ * @returns Transaction data object ready to sign
+ */
+export function preparePoolSwapTransaction(
+  poolAddress: string,
+  tokenInIndex: number,
+  tokenOutIndex: number,
+  amountIn: string,
+  minAmountOut: string
+): {
+  to: string;
+  data: string;
+  value: string;
+} {
+  const data = encodeFunctionData(LIQUIDITY_POOL_ABI, "swap", [
+    tokenInIndex,
+    tokenOutIndex,
+    amountIn,
+    minAmountOut,
+  ]);
+
+  return {
+    to: poolAddress,
+    data,
+    value: "0x0",
+  };
+}
+
 /**
  * Get pool info for a specific pool pair
  * @param pairName - Pool pair name (e.g., "USDC/EURC")
  * @returns Pool address and token info
  */
-export function getPoolInfo(
-  pairName: string
-): { address: string; pair: string; tokens: string[] } | null {
-  const poolData = ARC_POOLS.pools[pairName as keyof typeof ARC_POOLS.pools];
+export function getPoolInfo(pairName: string): (ArcPoolInfo & { pair: string }) | null {
+  const poolData = getKnownPools()[pairName];
   if (!poolData) {
     return null;
   }
-  return { address: poolData.address, pair: pairName, tokens: poolData.tokens };
+  return { ...poolData, pair: pairName };
 }
 
 /**
@@ -764,41 +768,96 @@ export function getPoolInfo(
  * @returns Array of available pool pairs
  */
 export function listAvailablePools(): string[] {
-  return Object.keys(ARC_POOLS.pools);
+  return Object.keys(getKnownPools());
+}
+
+// Significant digits the reference quote's output needs for a stable rate
+const REFERENCE_OUTPUT_DIGITS = 6;
+
+/**
+ * Input amount used to read a pool's marginal rate: 0.01 of tokenIn, raised
+ * until the expected output has REFERENCE_OUTPUT_DIGITS digits (assuming
+ * roughly 1:1 stable pairs), so 18 -> 6 decimal quotes are not rounded away
+ * @param tokenInDecimals - TOKEN_DECIMALS of the input token
+ * @param tokenOutDecimals - TOKEN_DECIMALS of the output token
+ * @returns Reference amount (in wei of tokenIn)
+ */
+export function referenceAmount(tokenInDecimals: number, tokenOutDecimals: number): bigint {
+  const exponent = Math.max(
+    tokenInDecimals - 2,
+    REFERENCE_OUTPUT_DIGITS + tokenInDecimals - tokenOutDecimals,
+    0
+  );
+  return BigInt(10) ** BigInt(exponent);
 }
 
 /**
- * Calculate price impact
- * @param amountOut - Output amount
- * @param reserve0 - Reserve of token 0
- * @param reserve1 - Reserve of token 1
+ * Calculate price impact against the pool's marginal rate
+ *
+ * Stableswap pools have no simple reserve ratio, so the marginal rate is
+ * read from `get_dy` for a tiny reference amount and compared with the rate
+ * the actual amount gets. Both rates are in wei of the same tokens, so the
+ * decimals cancel out.
+ * @param amountIn - Swapped amount (in wei of tokenIn)
+ * @param amountOut - `get_dy` for amountIn (in wei of tokenOut)
+ * @param referenceIn - Reference amount (see referenceAmount)
+ * @param referenceOut - `get_dy` for referenceIn
  * @returns Price impact as percentage (0-100)
  */
 export function calculatePriceImpact(
+  amountIn: string,
   amountOut: string,
-  reserve0: string,
-  reserve1: string
+  referenceIn: string,
+  referenceOut: string
 ): number {
   try {
-    const out = BigInt(amountOut);
-    const res0 = BigInt(reserve0);
-    const res1 = BigInt(reserve1);
-
-    if (res0 === BigInt(0) || res1 === BigInt(0)) return 0;
-
-    const spotPrice = (res1 * BigInt("1000000")) / res0;
-    const executionPrice = (out * BigInt("1000000")) / res0;
-
-    const impact = Number(
-      ((spotPrice - executionPrice) * BigInt("100")) / spotPrice
-    );
-    const denominator = 1000000;
-    return Math.max(0, impact) / denominator;
+    const dx = BigInt(amountIn);
+    const dy = BigInt(amountOut);
+    const refDx = BigInt(referenceIn);
+    const refDy = BigInt(referenceOut);
+
+    if (dx <= BigInt(0) || refDx <= BigInt(0) || refDy <= BigInt(0)) return 0;
+
+    // 1 - executionRate / marginalRate, in 1e-4 % precision
+    const scale = BigInt(1000000);
+    const ratio = (dy * refDx * scale) / (dx * refDy);
+    if (ratio >= scale) return 0;
+    return Number(scale - ratio) / 10000;
   } catch {
     return 0;
   }
 }
 
+/**
+ * Price impact of one pool swap, quoting the pool's marginal rate with a
+ * reference amount sized for the tokens' TOKEN_DECIMALS
+ * @param edge - Pool and direction of the swap
+ * @param amountIn - Swapped amount (in wei)
+ * @param amountOut - Quoted output for amountIn (in wei)
+ * @returns Price impact as percentage (0-100)
+ */
+export async function getPoolPriceImpact(
+  edge: PoolEdge,
+  amountIn: string,
+  amountOut: string
+): Promise<number> {
+  const poolDecimals = getKnownPools()[edge.pool]?.decimals;
+  const reference = referenceAmount(
+    TOKEN_DECIMALS[edge.tokenIn] ?? poolDecimals?.[edge.tokenInIndex] ?? 18,
+    TOKEN_DECIMALS[edge.tokenOut] ?? poolDecimals?.[edge.tokenOutIndex] ?? 18
+  );
+  // Trades at or below the reference size move the price by a rounding error
+  if (BigInt(amountIn) <= reference) return 0;
+
+  const referenceOut = await getPoolQuote(
+    edge.poolAddress,
+    edge.tokenInIndex,
+    edge.tokenOutIndex,
+    reference.toString()
+  );
+  return calculatePriceImpact(amountIn, amountOut, reference.toString(), referenceOut);
+}
+
 /** Common Panic(uint256) codes from Solidity */
 const PANIC_MESSAGES: Record<number, string> = {
   0x11: "Arithmetic underflow or overflow",
@@ -821,11 +880,9 @@ export async function getRevertReasonViaPublicRpc(tx: {
   data: string;
 }): Promise<string | null> {
   try {
-    const body = {
-      jsonrpc: "2.0",
-      id: Date.now(),
-      method: "eth_call",
-      params: [
+    let err: RpcError;
+    try {
+      await arcRpc.call("eth_call", [
         {
           from: tx.from,
           to: tx.to,
@@ -833,19 +890,14 @@ export async function getRevertReasonViaPublicRpc(tx: {
           data: tx.data,
         },
         "latest",
-      ],
-    };
-    const response = await fetch(ARC_TESTNET_CONFIG.rpcUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
-    });
-    const data = await response.json();
-
-    if (!data.error) return null;
+      ]);
+      return null;
+    } catch (error) {
+      if (!(error instanceof RpcError)) return null;
+      err = error;
+    }
 
-    const err = data.error as Record<string, unknown>;
-    const message = typeof err.message === "string" ? err.message : null;
+    const message = err.reason || null;
 
     // Get revert payload: some RPCs use error.data as string, or error.data.data
     let hex: string | null = null;
@@ -854,31 +906,15 @@ export async function getRevertReasonViaPublicRpc(tx: {
       hex = (err.data as Record<string, unknown>).data as string;
     if (!hex || !hex.startsWith("0x")) return message || "Transaction reverted";
 
-    const raw = hex.slice(2);
-    if (raw.length < 8) return message || "Transaction reverted";
-
-    const selector = raw.slice(0, 8);
-
-    // Error(string) selector = 0x08c379a0
-    if (selector === "08c379a0") {
-      const rest = raw.slice(8);
-      if (rest.length < 128) return message || "Transaction reverted";
-      const lenHex = rest.slice(64, 128);
-      const len = parseInt(lenHex, 16);
-      if (len <= 0 || rest.length < 128 + len * 2) return message || "Transaction reverted";
-      const strHex = rest.slice(128, 128 + len * 2);
-      const chars: number[] = [];
-      for (let i = 0; i < strHex.length; i += 2) chars.push(parseInt(strHex.slice(i, i + 2), 16));
-      const decoded = String.fromCharCode(...chars).replace(/\0/g, "").trim();
-      return decoded || message || "Transaction reverted";
+    const revert = decodeRevert(hex);
+
+    if (revert?.reason) {
+      return revert.reason.replace(/\0/g, "").trim() || message || "Transaction reverted";
     }
 
-    // Panic(uint256) selector = 0x4e487b71
-    if (selector === "4e487b71" && raw.length >= 72) {
-      const codeHex = raw.slice(8, 72);
-      const code = parseInt(codeHex, 16);
-      const panicMsg = PANIC_MESSAGES[code] ?? `Panic(0x${code.toString(16)})`;
-      return panicMsg;
+    if (revert?.name === "Panic") {
+      const code = Number(revert.args[0]);
+      return PANIC_MESSAGES[code] ?? `Panic(0x${code.toString(16)})`;
     }
 
     return message || "Transaction reverted";
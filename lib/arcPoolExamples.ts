@@ -112,7 +112,7 @@ export function ExampleSwapComponent() {
   const handleGetQuote = async () => {
     const poolInfo = getPoolInfo("USDC/EURC");
     if (poolInfo) {
-      await getQuote(poolInfo.address);
+      await getQuote(poolInfo.address, 0, 1, "1000000");
     }
   };
 
@@ -0,0 +1,148 @@
+import { supabase } from "./supabase";
+import {
+  TokenInfo,
+  getToken,
+  getTokenByAddress,
+  readTokenMetadata,
+  registerCustomTokens,
+} from "@/supabase/functions/_shared/tokens";
+import { TokenList, toTokenList } from "@/supabase/functions/_shared/tokenList";
+import { ethCall } from "./tokenRegistry";
+
+// Custom token row matching the custom_tokens table
+export interface CustomTokenRow {
+  id: string;
+  wallet_address: string;
+  token_address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  created_at: string;
+}
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * Whether a string is a well-formed contract address
+ */
+export const isTokenAddress = (value: string): boolean => ADDRESS_PATTERN.test(value.trim());
+
+const toTokenInfo = (row: CustomTokenRow): TokenInfo => ({
+  symbol: row.symbol,
+  name: row.name,
+  address: row.token_address,
+  decimals: row.decimals,
+  custom: true,
+});
+
+/**
+ * Read an ERC-20's name, symbol and decimals over RPC so the user can review
+ * it before importing
+ * @param address - Token contract address
+ * @returns The listed token if the address is already known, otherwise the unverified token read from the contract
+ * @throws If the address is malformed, the contract is not an ERC-20, or its symbol is already listed at another address
+ */
+export const lookupTokenByAddress = async (address: string): Promise<TokenInfo> => {
+  const tokenAddress = address.trim().toLowerCase();
+  if (!isTokenAddress(tokenAddress)) {
+    throw new Error("Invalid token address");
+  }
+
+  const listed = getTokenByAddress(tokenAddress);
+  if (listed) return listed;
+
+  let token: TokenInfo;
+  try {
+    token = await readTokenMetadata(tokenAddress, ethCall);
+  } catch (error) {
+    console.error("Error reading token metadata:", error);
+    throw new Error("Failed to read token details. Is this an ERC-20 token on Arc Testnet?");
+  }
+
+  // Symbols are how the app refers to tokens, so an import can't reuse one
+  if (getToken(token.symbol)) {
+    throw new Error(`${token.symbol} is already listed at a different address`);
+  }
+
+  return { ...token, custom: true };
+};
+
+/**
+ * Get the tokens a wallet has imported
+ */
+export const getCustomTokens = async (walletAddress: string): Promise<TokenInfo[]> => {
+  const { data, error } = await supabase
+    .from("custom_tokens")
+    .select("*")
+    .eq("wallet_address", walletAddress.toLowerCase())
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching custom tokens:", error);
+    throw error;
+  }
+
+  return (data || []).map(toTokenInfo);
+};
+
+/**
+ * Get a wallet's imported tokens and register them so they can be quoted,
+ * swapped and shown in holdings
+ * @returns The imported tokens that were registered; ones whose symbol or address clashes with a listed token are left out
+ */
+export const loadCustomTokens = async (walletAddress: string): Promise<TokenInfo[]> => {
+  const tokens = await getCustomTokens(walletAddress);
+  registerCustomTokens(tokens);
+  return tokens.filter((token) => {
+    const registered = getTokenByAddress(token.address as string);
+    return registered?.custom === true && registered.symbol === token.symbol;
+  });
+};
+
+/**
+ * Add a token to a wallet's custom token list and register it
+ * @param walletAddress - The user's wallet address
+ * @param token - Token returned by lookupTokenByAddress
+ * @returns The imported token
+ */
+export const addCustomToken = async (
+  walletAddress: string,
+  token: TokenInfo
+): Promise<TokenInfo> => {
+  if (!token.address) {
+    throw new Error("Token has no contract address");
+  }
+
+  const { data, error } = await supabase
+    .from("custom_tokens")
+    .upsert(
+      {
+        wallet_address: walletAddress.toLowerCase(),
+        token_address: token.address.toLowerCase(),
+        symbol: token.symbol,
+        name: token.name,
+        decimals: token.decimals,
+      },
+      { onConflict: "wallet_address,token_address" }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error saving custom token:", error);
+    throw error;
+  }
+
+  const imported = toTokenInfo(data);
+  registerCustomTokens([imported]);
+  return imported;
+};
+
+/**
+ * Export a wallet's imported tokens as a token list
+ * @param walletAddress - The user's wallet address
+ * @returns Token list JSON that can be hosted and added to NEXT_PUBLIC_TOKEN_LIST_URLS
+ */
+export const exportCustomTokens = async (walletAddress: string): Promise<TokenList> => {
+  return toTokenList("Tower imported tokens", await getCustomTokens(walletAddress));
+};
@@ -0,0 +1,33 @@
+import { ERC20_TOKENS, TOKEN_CONTRACTS, fetchERC20Allowance } from "../arcNetwork";
+import { ApprovalRequirement, QuoteRequest, SwapTransaction } from "./types";
+
+/**
+ * ERC-20 approval check shared by adapters whose swaps pull tokenIn with
+ * `transferFrom`. Native tokens are sent as value and never need one.
+ * @returns The missing approval, or null if the allowance covers the swap
+ * @throws If the token has no contract address
+ */
+export async function checkErc20Approval(
+  owner: string,
+  request: QuoteRequest,
+  transaction: SwapTransaction
+): Promise<ApprovalRequirement | null> {
+  if (!ERC20_TOKENS.includes(request.tokenIn)) {
+    return null;
+  }
+
+  const token = TOKEN_CONTRACTS[request.tokenIn];
+  if (!token) {
+    throw new Error(`Token address not found for ${request.tokenIn}`);
+  }
+
+  const spender = transaction.spender ?? transaction.to;
+  const amount = transaction.approvalAmount ?? request.amountIn;
+  const allowance = await fetchERC20Allowance(owner, spender, token);
+  const currentAllowance = allowance ? BigInt(allowance) : BigInt(0);
+
+  if (currentAllowance >= BigInt(amount)) {
+    return null;
+  }
+  return { token, spender, amount, currentAllowance: currentAllowance.toString() };
+}
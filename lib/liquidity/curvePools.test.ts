@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { PoolEdge, SwapRoute } from "../arcNetwork";
+import type { SplitPlan } from "../splitRouting";
+import { curvePoolSource, describePartialSwap, splitPoolSource } from "./curvePools";
+import type { SwapRequest } from "./types";
+
+const WALLET = "0x" + "aa".repeat(20);
+
+const edge = (poolAddress: string, tokenIn: string, tokenOut: string): PoolEdge => ({
+  pool: `${tokenIn}/${tokenOut}`,
+  poolAddress,
+  tokenIn,
+  tokenOut,
+  tokenInIndex: 0,
+  tokenOutIndex: 1,
+});
+
+// Every pool returns half of its input
+const quote = (path: PoolEdge[], amountIn: string): SwapRoute => {
+  let amount = BigInt(amountIn);
+  const hops = path.map((hop) => {
+    const quoted = { ...hop, amountIn: amount.toString(), amountOut: (amount / BigInt(2)).toString() };
+    amount /= BigInt(2);
+    return quoted;
+  });
+  return {
+    path: [path[0].tokenIn, ...path.map((hop) => hop.tokenOut)],
+    hops,
+    amountIn,
+    amountOut: amount.toString(),
+  };
+};
+
+// A -> B directly for 40%, and through C for 60%
+const PLAN: SplitPlan = {
+  tokenIn: "A",
+  tokenOut: "B",
+  amountIn: "1000",
+  amountOut: "350",
+  legs: [
+    { route: quote([edge("0x02", "A", "C"), edge("0x03", "C", "B")], "600"), share: 60, priceImpact: 1 },
+    { route: quote([edge("0x01", "A", "B")], "400"), share: 40, priceImpact: 2 },
+  ],
+  priceImpact: 1.4,
+  singleRouteAmountOut: "250",
+};
+
+const balances: Record<string, bigint> = {};
+
+vi.mock("../poolRegistry", () => ({ ensurePoolsDiscovered: async () => {} }));
+
+vi.mock("../splitRouting", () => ({ planSplitSwap: vi.fn(async () => PLAN) }));
+
+vi.mock("../arcNetwork", () => ({
+  TOKEN_CONTRACTS: { A: "0xa", B: "0xb", C: "0xc" },
+  fetchERC20Balance: async (_wallet: string, token: string) => "0x" + balances[token].toString(16),
+  quoteRoute: async (path: PoolEdge[], amountIn: string) => quote(path, amountIn),
+  preparePoolSwapTransaction: (
+    poolAddress: string,
+    i: number,
+    j: number,
+    amountIn: string,
+    minAmountOut: string
+  ) => ({ to: poolAddress, data: `swap(${i},${j},${amountIn},${minAmountOut})`, value: "0x0" }),
+}));
+
+const REQUEST: SwapRequest = {
+  tokenIn: "A",
+  tokenOut: "B",
+  amountIn: "1000",
+  slippage: 2,
+  recipient: WALLET,
+};
+
+beforeEach(() => {
+  balances["0xc"] = BigInt(50);
+});
+
+describe("pool sources", () => {
+  it("quote the plan with gas for every hop and intermediate approval", async () => {
+    expect(await splitPoolSource.quote(REQUEST)).toEqual({
+      amountOut: "350",
+      priceImpact: 1.4,
+      estimatedGas: 3 * 180000 + 50000,
+      plan: PLAN,
+    });
+  });
+
+  it("plan a single route for the best-route source", async () => {
+    const { planSplitSwap } = await import("../splitRouting");
+    await curvePoolSource.quote(REQUEST);
+    expect(planSplitSwap).toHaveBeenLastCalledWith("A", "B", "1000", 1, 1);
+  });
+});
+
+describe("buildSwapTransaction", () => {
+  it("swaps a route one hop at a time", async () => {
+    const first = await splitPoolSource.buildSwapTransaction(REQUEST);
+
+    // 1% of the leg's 2% tolerance per hop
+    expect(first).toMatchObject({
+      to: "0x02",
+      data: "swap(0,1,600,297)",
+      spender: "0x02",
+      approvalAmount: "600",
+      hop: { tokenIn: "A", tokenOut: "C" },
+    });
+    expect(first.next).toMatchObject({ tokenIn: "C", amountIn: "300" });
+    expect(first.next?.legs?.[0]).toMatchObject({ amountIn: null, balanceBefore: "50", slippage: 1 });
+
+    // The first hop returned 310 C, which the second hop spends
+    balances["0xc"] = BigInt(360);
+    const second = await splitPoolSource.buildSwapTransaction(first.next as SwapRequest);
+    expect(second).toMatchObject({
+      to: "0x03",
+      data: "swap(0,1,310,153)",
+      approvalAmount: "310",
+      hop: { tokenIn: "C", tokenOut: "B" },
+    });
+
+    const third = await splitPoolSource.buildSwapTransaction(second.next as SwapRequest);
+    expect(third).toMatchObject({ to: "0x01", data: "swap(0,1,400,196)", approvalAmount: "400" });
+    expect(third.next).toBeUndefined();
+  });
+
+  it("refuses a hop when the previous one returned nothing", async () => {
+    const first = await splitPoolSource.buildSwapTransaction(REQUEST);
+
+    await expect(splitPoolSource.buildSwapTransaction(first.next as SwapRequest)).rejects.toThrow(
+      "No C to swap"
+    );
+  });
+});
+
+describe("describePartialSwap", () => {
+  it("names the intermediate token a route stopped on", () => {
+    expect(describePartialSwap([{ tokenIn: "A", tokenOut: "C" }], "B")).toBe(
+      "Only part of the route went through (A → C). Your wallet now holds the C from the last swap."
+    );
+  });
+
+  it("says the input was left when a later leg did not start", () => {
+    expect(
+      describePartialSwap(
+        [
+          { tokenIn: "A", tokenOut: "C" },
+          { tokenIn: "C", tokenOut: "B" },
+        ],
+        "B"
+      )
+    ).toBe("Only part of the route went through (A → C, C → B). The rest of your input was not swapped.");
+  });
+});
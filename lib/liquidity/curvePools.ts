@@ -0,0 +1,186 @@
+import {
+  TOKEN_CONTRACTS,
+  buildPoolGraph,
+  fetchERC20Balance,
+  findRoutePaths,
+  preparePoolSwapTransaction,
+  quoteRoute,
+} from "../arcNetwork";
+import { ensurePoolsDiscovered } from "../poolRegistry";
+import { SplitPlan, planSplitSwap } from "../splitRouting";
+import { checkErc20Approval } from "./approval";
+import {
+  LiquidityQuote,
+  LiquiditySource,
+  QuoteRequest,
+  RouteLeg,
+  SwapHop,
+  SwapRequest,
+  SwapTransaction,
+  TokenPair,
+} from "./types";
+
+// Gas for a single `swap` on a pool, which has no quote-side estimate
+const POOL_SWAP_GAS = 180000;
+
+// Gas for approving an intermediate token to the next pool of a route
+const APPROVAL_GAS = 50000;
+
+/** Pairs connected by a route over the known pools */
+async function listRoutePairs(): Promise<TokenPair[]> {
+  await ensurePoolsDiscovered();
+  const tokens = [...buildPoolGraph().keys()];
+  return tokens.flatMap((a, i) =>
+    tokens
+      .slice(i + 1)
+      .filter((b) => findRoutePaths(a, b).length > 0)
+      .map((b): TokenPair => [a, b])
+  );
+}
+
+/**
+ * Quote a plan, with gas for every hop and for approving each intermediate
+ * token to the pool that takes it next
+ */
+function planQuote(plan: SplitPlan): LiquidityQuote {
+  const hops = plan.legs.reduce((sum, leg) => sum + leg.route.hops.length, 0);
+  const approvals = hops - plan.legs.length;
+  return {
+    amountOut: plan.amountOut,
+    priceImpact: plan.priceImpact,
+    estimatedGas: POOL_SWAP_GAS * hops + APPROVAL_GAS * approvals,
+    plan,
+  };
+}
+
+/** Legs of a plan, each starting with its share of the input */
+function planLegs(plan: SplitPlan): RouteLeg[] {
+  return plan.legs.map(({ route }) => ({ path: route.hops, amountIn: route.amountIn }));
+}
+
+/**
+ * Read a wallet's balance of a pool token
+ * @throws If the token is unknown or the balance cannot be read
+ */
+async function fetchTokenBalance(owner: string, token: string): Promise<bigint> {
+  const tokenAddress = TOKEN_CONTRACTS[token];
+  const balance = tokenAddress ? await fetchERC20Balance(owner, tokenAddress) : null;
+  if (balance === null) {
+    throw new Error(`Failed to read the ${token} balance of ${owner}`);
+  }
+  return BigInt(balance);
+}
+
+/**
+ * Build the swap for the first remaining hop of a route
+ *
+ * The pools have no router, so routes are swapped one hop per transaction.
+ * The returned transaction's `next` request carries the rest of the route;
+ * a hop that follows another spends what the recipient's balance grew by.
+ * The leg's slippage tolerance is spread evenly over its hops.
+ * @param legs - Remaining legs, the first of which is swapped now
+ * @throws If the previous hop returned nothing or the hop cannot be quoted
+ */
+async function buildHopTransaction(
+  request: SwapRequest,
+  legs: RouteLeg[]
+): Promise<SwapTransaction> {
+  const [leg, ...laterLegs] = legs;
+  const [hop, ...remainingHops] = leg.path;
+
+  let amountIn: bigint;
+  if (leg.amountIn !== null) {
+    amountIn = BigInt(leg.amountIn);
+  } else {
+    if (leg.balanceBefore === undefined) {
+      throw new Error(`Failed to size the ${hop.tokenIn} hop: no starting balance`);
+    }
+    const balance = await fetchTokenBalance(request.recipient, hop.tokenIn);
+    amountIn = balance - BigInt(leg.balanceBefore);
+  }
+  if (amountIn <= BigInt(0)) {
+    throw new Error(`No ${hop.tokenIn} to swap through pool ${hop.pool}`);
+  }
+
+  const legSlippage = leg.slippage ?? request.slippage;
+  const hopSlippage = legSlippage / leg.path.length;
+  const quoted = await quoteRoute([hop], amountIn.toString());
+  const slippageBps = BigInt(Math.round(hopSlippage * 100));
+  const minAmountOut = (BigInt(quoted.amountOut) * (BigInt(10000) - slippageBps)) / BigInt(10000);
+
+  const nextLegs =
+    remainingHops.length > 0
+      ? [
+          {
+            path: remainingHops,
+            amountIn: null,
+            balanceBefore: (await fetchTokenBalance(request.recipient, hop.tokenOut)).toString(),
+            slippage: legSlippage - hopSlippage,
+          },
+          ...laterLegs,
+        ]
+      : laterLegs;
+  const [nextLeg] = nextLegs;
+
+  return {
+    ...preparePoolSwapTransaction(
+      hop.poolAddress,
+      hop.tokenInIndex,
+      hop.tokenOutIndex,
+      amountIn.toString(),
+      minAmountOut.toString()
+    ),
+    gasLimit: POOL_SWAP_GAS,
+    spender: hop.poolAddress,
+    approvalAmount: amountIn.toString(),
+    hop: { tokenIn: hop.tokenIn, tokenOut: hop.tokenOut },
+    next: nextLeg && {
+      ...request,
+      tokenIn: nextLeg.path[0].tokenIn,
+      amountIn: nextLeg.amountIn ?? quoted.amountOut,
+      legs: nextLegs,
+    },
+  };
+}
+
+/**
+ * Describe what a route swapped hop by hop left in the wallet when it stopped
+ * partway
+ * @param minedHops - Hops that were mined, in order (at least one)
+ * @param tokenOut - Token the whole route buys
+ */
+export function describePartialSwap(minedHops: SwapHop[], tokenOut: string): string {
+  const swapped = minedHops.map((hop) => `${hop.tokenIn} → ${hop.tokenOut}`).join(", ");
+  const held = minedHops[minedHops.length - 1].tokenOut;
+  return held === tokenOut
+    ? `Only part of the route went through (${swapped}). The rest of your input was not swapped.`
+    : `Only part of the route went through (${swapped}). Your wallet now holds the ${held} from the last swap.`;
+}
+
+/**
+ * Source over the known pools (ARC_POOLS and discovered ones), swapped hop by
+ * hop with `swap(i, j, dx, min_dy)`
+ * @param split - Whether to split the input across routes, or use the best single route
+ */
+function createPoolSource(id: string, label: string, split: boolean): LiquiditySource {
+  const plan = ({ tokenIn, tokenOut, amountIn }: QuoteRequest) =>
+    split
+      ? planSplitSwap(tokenIn, tokenOut, amountIn)
+      : planSplitSwap(tokenIn, tokenOut, amountIn, 1, 1);
+
+  return {
+    id,
+    label,
+    listPairs: listRoutePairs,
+    quote: async (request) => planQuote(await plan(request)),
+    buildSwapTransaction: async (request) =>
+      buildHopTransaction(request, request.legs ?? planLegs(await plan(request))),
+    needsApproval: checkErc20Approval,
+  };
+}
+
+// Best single route of up to three pools
+export const curvePoolSource = createPoolSource("arc-pool", "Arc pool", false);
+
+// Input split across up to three routes that share no pool
+export const splitPoolSource = createPoolSource("arc-split", "Arc split route", true);
@@ -0,0 +1,43 @@
+/**
+ * Liquidity sources - adapters for every DEX the swap UI can use
+ *
+ * To add a DEX, implement LiquiditySource in this directory and add it to
+ * LIQUIDITY_SOURCES; the quote aggregator and SwapCard pick it up from here.
+ */
+
+import { curvePoolSource, splitPoolSource } from "./curvePools";
+import { quantumExchangeSource } from "./quantumExchange";
+import { LiquiditySource } from "./types";
+
+export const LIQUIDITY_SOURCES: LiquiditySource[] = [
+  quantumExchangeSource,
+  curvePoolSource,
+  splitPoolSource,
+];
+
+/**
+ * Look up a registered source
+ * @throws If no source has the id
+ */
+export function getLiquiditySource(id: string): LiquiditySource {
+  const source = LIQUIDITY_SOURCES.find((candidate) => candidate.id === id);
+  if (!source) {
+    throw new Error(`Unknown liquidity source: ${id}`);
+  }
+  return source;
+}
+
+export { checkErc20Approval } from "./approval";
+export { curvePoolSource, describePartialSwap, splitPoolSource } from "./curvePools";
+export { quantumExchangeSource } from "./quantumExchange";
+export type {
+  ApprovalRequirement,
+  LiquidityQuote,
+  LiquiditySource,
+  QuoteRequest,
+  RouteLeg,
+  SwapHop,
+  SwapRequest,
+  SwapTransaction,
+  TokenPair,
+} from "./types";
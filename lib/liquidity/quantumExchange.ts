@@ -0,0 +1,66 @@
+import {
+  TOKEN_CONTRACTS,
+  getQuantumExchangeTokens,
+  getSwapQuoteFromQuantumExchange,
+  getSwapTransactionFromQuantumExchange,
+} from "../arcNetwork";
+import { checkErc20Approval } from "./approval";
+import { LiquiditySource, QuoteRequest, TokenPair } from "./types";
+
+const tokenAddresses = ({ tokenIn, tokenOut }: QuoteRequest): [string, string] => {
+  const tokenInAddress = TOKEN_CONTRACTS[tokenIn];
+  const tokenOutAddress = TOKEN_CONTRACTS[tokenOut];
+  if (!tokenInAddress || !tokenOutAddress) {
+    throw new Error(`Token address not found for ${tokenIn} or ${tokenOut}`);
+  }
+  return [tokenInAddress, tokenOutAddress];
+};
+
+// QuantumExchange API, which routes across its own pools and the wrap router
+export const quantumExchangeSource: LiquiditySource = {
+  id: "quantum-exchange",
+  label: "QuantumExchange",
+
+  listPairs: async () => {
+    const symbols = (await getQuantumExchangeTokens()).map((token) => token.symbol);
+    const pairs: TokenPair[] = [];
+    symbols.forEach((a, i) => symbols.slice(i + 1).forEach((b) => pairs.push([a, b])));
+    return pairs;
+  },
+
+  quote: async (request) => {
+    const [tokenInAddress, tokenOutAddress] = tokenAddresses(request);
+    const quote = await getSwapQuoteFromQuantumExchange(
+      tokenInAddress,
+      tokenOutAddress,
+      request.amountIn,
+      request.slippage
+    );
+    return {
+      amountOut: quote.toAmount,
+      priceImpact: quote.priceImpact,
+      estimatedGas: quote.estimatedGas,
+    };
+  },
+
+  buildSwapTransaction: async (request) => {
+    const [tokenInAddress, tokenOutAddress] = tokenAddresses(request);
+    const swapData = await getSwapTransactionFromQuantumExchange(
+      tokenInAddress,
+      tokenOutAddress,
+      request.amountIn,
+      request.slippage,
+      request.recipient
+    );
+    return {
+      to: swapData.to,
+      data: swapData.data,
+      value: swapData.value,
+      gasLimit: swapData.gasLimit ?? null,
+      spender: swapData.approvalAddress,
+      approvalAmount: swapData.approvalAmount,
+    };
+  },
+
+  needsApproval: checkErc20Approval,
+};
@@ -0,0 +1,96 @@
+import { PoolEdge } from "../arcNetwork";
+import { SplitPlan } from "../splitRouting";
+
+/** Token symbols of a pair a source can trade, in either direction */
+export type TokenPair = [string, string];
+
+export interface QuoteRequest {
+  tokenIn: string;
+  tokenOut: string;
+  /** Amount to swap (in wei of tokenIn) */
+  amountIn: string;
+  /** Slippage tolerance in % */
+  slippage: number;
+}
+
+/** Pool hops of one route leg that are still to be swapped */
+export interface RouteLeg {
+  path: PoolEdge[];
+  /** Input of the first hop (in wei), or null to spend what the previous hop returned */
+  amountIn: string | null;
+  /** Recipient's balance of the first hop's token before the previous hop, when amountIn is null */
+  balanceBefore?: string;
+  /** Slippage tolerance in % left for the leg's remaining hops */
+  slippage?: number;
+}
+
+export interface SwapRequest extends QuoteRequest {
+  /** Wallet that sends the swap and receives the output */
+  recipient: string;
+  /** Remaining pool legs of a route being swapped hop by hop */
+  legs?: RouteLeg[];
+}
+
+export interface LiquidityQuote {
+  /** Quoted output (in wei of tokenOut) */
+  amountOut: string;
+  /** Price impact in % */
+  priceImpact: number;
+  estimatedGas: number;
+  /** Pool legs, for sources that swap through the known pools */
+  plan?: SplitPlan;
+}
+
+/** Tokens one transaction of a route sells and buys */
+export interface SwapHop {
+  tokenIn: string;
+  tokenOut: string;
+}
+
+export interface SwapTransaction {
+  to: string;
+  data: string;
+  value: string;
+  gasLimit: number | null;
+  /** Contract that spends tokenIn, or null if the source reports none */
+  spender: string | null;
+  /** Amount the spender needs to be approved for (in wei) */
+  approvalAmount: string | null;
+  /** Pair this transaction swaps, for routes swapped hop by hop */
+  hop?: SwapHop;
+  /** Swap to build and send once this transaction is mined, for routes swapped hop by hop */
+  next?: SwapRequest;
+}
+
+export interface ApprovalRequirement {
+  /** Token contract to send the approval to */
+  token: string;
+  spender: string;
+  amount: string;
+  currentAllowance: string;
+}
+
+/**
+ * A DEX or pool family that can quote and execute swaps on Arc
+ *
+ * Sources in LIQUIDITY_SOURCES are quoted by the aggregator and executed by
+ * SwapCard through this interface only, so adding a DEX means adding an
+ * adapter and registering it.
+ */
+export interface LiquiditySource {
+  id: string;
+  label: string;
+  /** Pairs the source can trade */
+  listPairs: () => Promise<TokenPair[]>;
+  quote: (request: QuoteRequest) => Promise<LiquidityQuote>;
+  buildSwapTransaction: (request: SwapRequest) => Promise<SwapTransaction>;
+  /**
+   * Approval the owner has to send before `transaction` can spend tokenIn
+   * @returns The missing approval, or null if none is needed
+   */
+  needsApproval: (
+    owner: string,
+    request: QuoteRequest,
+    transaction: SwapTransaction
+  ) => Promise<ApprovalRequirement | null>;
+}
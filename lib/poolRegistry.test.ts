@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TOKEN_CONTRACTS, getKnownPools, makeJsonRpcCall } from "./arcNetwork";
+import { POOL_DISCOVERY_CONFIG, discoverPools } from "./poolRegistry";
+
+vi.mock("./arcNetwork", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./arcNetwork")>()),
+  makeJsonRpcCall: vi.fn(),
+}));
+
+const FACTORY = "0x" + "fa".repeat(20);
+const COINS_SELECTOR = "0xc6610657";
+const DECIMALS_SELECTOR = "0x313ce567";
+
+const word = (hex: string) => hex.replace(/^0x/, "").toLowerCase().padStart(64, "0");
+
+interface FakeChain {
+  latestBlock: number;
+  /** Creation logs by block */
+  logs: Array<{ block: number; topics: string[]; data: string }>;
+  /** Coins of each pool */
+  pools: Record<string, string[]>;
+  /** Tokens whose decimals() fails */
+  failingTokens: Set<string>;
+}
+
+let chain: FakeChain;
+
+/** Answer the registry's RPC calls from `chain` */
+function serveChain() {
+  vi.mocked(makeJsonRpcCall).mockImplementation(async (method: string, params: unknown[]) => {
+    if (method === "eth_blockNumber") {
+      return `0x${chain.latestBlock.toString(16)}`;
+    }
+    if (method === "eth_getLogs") {
+      const { fromBlock, toBlock } = params[0] as { fromBlock: string; toBlock: string };
+      return chain.logs.filter(
+        ({ block }) => block >= Number(fromBlock) && block <= Number(toBlock)
+      ) as never;
+    }
+    const { to, data } = params[0] as { to: string; data: string };
+    if (data.startsWith(COINS_SELECTOR)) {
+      const coin = chain.pools[to]?.[Number(BigInt(`0x${data.slice(10)}`))];
+      if (!coin) throw new Error("execution reverted");
+      return `0x${word(coin)}`;
+    }
+    if (data.startsWith(DECIMALS_SELECTOR)) {
+      if (chain.failingTokens.has(to)) throw new Error("RPC request failed");
+      return `0x${word("12")}`;
+    }
+    throw new Error(`Unexpected call ${method}`);
+  });
+}
+
+const getLogsRanges = () =>
+  vi
+    .mocked(makeJsonRpcCall)
+    .mock.calls.filter(([method]) => method === "eth_getLogs")
+    .map(([, params]) => {
+      const { fromBlock, toBlock } = (params as Array<{ fromBlock: string; toBlock: string }>)[0];
+      return [Number(fromBlock), Number(toBlock)];
+    });
+
+// Each test uses its own pool addresses, since registered pools are kept
+let nextPool = 1;
+const newPool = () => "0x" + (nextPool++).toString(16).padStart(40, "0");
+
+beforeEach(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal("window", {});
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+  });
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.mocked(makeJsonRpcCall).mockReset();
+  POOL_DISCOVERY_CONFIG.factoryAddress = FACTORY;
+  POOL_DISCOVERY_CONFIG.startBlock = 0;
+  chain = { latestBlock: 100, logs: [], pools: {}, failingTokens: new Set() };
+  serveChain();
+});
+
+describe("discoverPools", () => {
+  it("reads the pool address from an indexed argument or the first data word", async () => {
+    const indexed = newPool();
+    const unindexed = newPool();
+    const tokenA = "0x" + "a1".repeat(20);
+    const tokenB = "0x" + "b1".repeat(20);
+    chain.pools = { [indexed]: [tokenA, tokenB], [unindexed]: [tokenB, tokenA] };
+    chain.logs = [
+      { block: 10, topics: ["0xtopic", `0x${word(indexed)}`], data: "0x" },
+      { block: 20, topics: ["0xtopic"], data: `0x${word(unindexed)}${word("40")}` },
+    ];
+
+    const pools = await discoverPools();
+
+    expect(pools[`${tokenA}/${tokenB}`]).toEqual({
+      address: indexed,
+      tokens: [tokenA, tokenB],
+      coins: [tokenA, tokenB],
+      decimals: [18, 18],
+    });
+    expect(pools[`${tokenB}/${tokenA}`].address).toBe(unindexed);
+  });
+
+  it("resumes from the cached block and reads pools that failed before", async () => {
+    const pool = newPool();
+    const tokenA = "0x" + "a2".repeat(20);
+    const tokenB = "0x" + "b2".repeat(20);
+    chain.pools = { [pool]: [tokenA, tokenB] };
+    chain.logs = [{ block: 50, topics: ["0xtopic", `0x${word(pool)}`], data: "0x" }];
+    chain.failingTokens.add(tokenB);
+
+    expect(await discoverPools()).toEqual({});
+
+    chain.latestBlock = 150;
+    chain.failingTokens.clear();
+    const pools = await discoverPools();
+
+    expect(pools[`${tokenA}/${tokenB}`].address).toBe(pool);
+    expect(getLogsRanges()).toEqual([
+      [0, 100],
+      [101, 150],
+    ]);
+  });
+});
+
+describe("getKnownPools", () => {
+  it("keeps a discovered pool whose pair name is taken by a configured pool", async () => {
+    const pool = newPool();
+    chain.pools = { [pool]: [TOKEN_CONTRACTS.WUSDC, TOKEN_CONTRACTS.QTM] };
+    chain.logs = [{ block: 10, topics: ["0xtopic", `0x${word(pool)}`], data: "0x" }];
+
+    await discoverPools();
+
+    const known = getKnownPools();
+    expect(known["WUSDC/QTM"].address).toBe("0xD330Ae5713AF6507f43420e85C941a68BfbaD9D0");
+    expect(known[`WUSDC/QTM (${pool.slice(0, 8)})`].address).toBe(pool);
+  });
+});
@@ -0,0 +1,230 @@
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import {
+  decodeFunctionResult,
+  decodeParameters,
+  encodeFunctionData,
+} from "@/supabase/functions/_shared/abi";
+import {
+  ArcPoolInfo,
+  ERC20_ABI,
+  LIQUIDITY_POOL_ABI,
+  getKnownPools,
+  getTokenSymbol,
+  makeJsonRpcCall,
+  registerPools,
+} from "./arcNetwork";
+
+// Pool discovery configuration
+// Add these to your .env.local file to discover pools from a factory:
+// NEXT_PUBLIC_POOL_FACTORY_ADDRESS=0x...
+// NEXT_PUBLIC_POOL_FACTORY_START_BLOCK=block the factory was deployed at
+// NEXT_PUBLIC_POOL_CREATED_EVENT=event signature (default: PoolCreated(address,address[]))
+export const POOL_DISCOVERY_CONFIG = {
+  factoryAddress: process.env.NEXT_PUBLIC_POOL_FACTORY_ADDRESS || "",
+  startBlock: Number(process.env.NEXT_PUBLIC_POOL_FACTORY_START_BLOCK || 0),
+  poolCreatedEvent: process.env.NEXT_PUBLIC_POOL_CREATED_EVENT || "PoolCreated(address,address[])",
+  // Blocks per eth_getLogs request
+  logChunkSize: 10000,
+  // Most coins read from a single pool
+  maxCoins: 8,
+};
+
+const CACHE_KEY = "tower-pool-registry";
+
+interface PoolRegistryCache {
+  factoryAddress: string;
+  /** Last block whose logs have been scanned */
+  lastScannedBlock: number;
+  pools: Record<string, ArcPoolInfo>;
+  /** Pools found in the logs whose coins could not be read yet */
+  unreadPools?: string[];
+}
+
+interface RpcLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+let discovery: Promise<void> | null = null;
+
+const wordToAddress = (word: string): string => decodeParameters([{ type: "address" }], word)[0] as string;
+
+/**
+ * Pool address of a creation log: the first indexed argument, or the first
+ * data word when the event indexes nothing
+ */
+const poolAddressFromLog = (log: RpcLog): string | null => {
+  if (log.topics[1]) return wordToAddress(log.topics[1]).toLowerCase();
+  const data = log.data?.replace(/^0x/, "") ?? "";
+  return data.length >= 64 ? wordToAddress(data.slice(0, 64)).toLowerCase() : null;
+};
+
+const loadCache = (): PoolRegistryCache | null => {
+  if (typeof window === "undefined") return null;
+  try {
+    const data = localStorage.getItem(CACHE_KEY);
+    if (!data) return null;
+    const cache: PoolRegistryCache = JSON.parse(data);
+    // A different factory means a different set of pools
+    return cache.factoryAddress.toLowerCase() ===
+      POOL_DISCOVERY_CONFIG.factoryAddress.toLowerCase()
+      ? cache
+      : null;
+  } catch (error) {
+    console.error("Error loading pool registry cache:", error);
+    return null;
+  }
+};
+
+const saveCache = (cache: PoolRegistryCache): void => {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+  } catch (error) {
+    console.error("Error saving pool registry cache:", error);
+  }
+};
+
+/**
+ * Read a pool's coins with `coins(i)` until the pool reverts, and each coin's decimals
+ * @returns The pool, or null if it has fewer than two coins
+ */
+async function readPool(poolAddress: string): Promise<ArcPoolInfo | null> {
+  const coins: string[] = [];
+  for (let i = 0; i < POOL_DISCOVERY_CONFIG.maxCoins; i++) {
+    try {
+      const result = await makeJsonRpcCall("eth_call", [
+        { to: poolAddress, data: encodeFunctionData(LIQUIDITY_POOL_ABI, "coins", [i]) },
+        "latest",
+      ]);
+      if (!result || result === "0x") break;
+      const [coin] = decodeFunctionResult(LIQUIDITY_POOL_ABI, "coins", result);
+      coins.push(coin);
+    } catch {
+      // Out-of-range indices revert
+      break;
+    }
+  }
+  if (coins.length < 2) return null;
+
+  const decimals = await Promise.all(
+    coins.map(async (coin) => {
+      const result = await makeJsonRpcCall("eth_call", [
+        { to: coin, data: encodeFunctionData(ERC20_ABI, "decimals", []) },
+        "latest",
+      ]);
+      const [decimals] = decodeFunctionResult(ERC20_ABI, "decimals", result);
+      return Number(decimals);
+    })
+  );
+
+  return {
+    address: poolAddress,
+    // Unknown tokens keep their address so they can't pose as a listed symbol
+    tokens: coins.map((coin) => getTokenSymbol(coin) ?? coin),
+    coins,
+    decimals,
+  };
+}
+
+/**
+ * Register pools cached by an earlier discovery
+ * @returns Number of cached pools
+ */
+export function loadCachedPools(): number {
+  const cache = loadCache();
+  if (!cache) return 0;
+  registerPools(cache.pools);
+  return Object.keys(cache.pools).length;
+}
+
+/**
+ * Scan the factory's pool-creation logs since the last scanned block, read
+ * each new pool's coins and decimals, register them and cache the result.
+ * Pools whose coins could not be read are kept in the cache and read again on
+ * the next scan.
+ * @returns Every discovered pool, keyed by pair name
+ * @throws If the factory is not configured or an RPC call fails
+ */
+export async function discoverPools(): Promise<Record<string, ArcPoolInfo>> {
+  const { factoryAddress, startBlock, poolCreatedEvent, logChunkSize } = POOL_DISCOVERY_CONFIG;
+  if (!factoryAddress) {
+    throw new Error("Pool factory address is not configured");
+  }
+
+  const cache = loadCache() ?? { factoryAddress, lastScannedBlock: startBlock - 1, pools: {} };
+  const knownAddresses = new Set(
+    Object.values({ ...getKnownPools(), ...cache.pools }).map((pool) => pool.address.toLowerCase())
+  );
+  const topic = `0x${bytesToHex(keccak_256(utf8ToBytes(poolCreatedEvent)))}`;
+  const latestBlock = Number(BigInt(await makeJsonRpcCall("eth_blockNumber", [])));
+
+  // Pools an earlier scan could not read come first
+  const newAddresses = (cache.unreadPools ?? []).filter((address) => !knownAddresses.has(address));
+  newAddresses.forEach((address) => knownAddresses.add(address));
+  for (let from = cache.lastScannedBlock + 1; from <= latestBlock; from += logChunkSize) {
+    const to = Math.min(from + logChunkSize - 1, latestBlock);
+    const logs = await makeJsonRpcCall<RpcLog[]>("eth_getLogs", [
+      {
+        address: factoryAddress,
+        topics: [topic],
+        fromBlock: `0x${from.toString(16)}`,
+        toBlock: `0x${to.toString(16)}`,
+      },
+    ]);
+    for (const log of logs) {
+      const address = poolAddressFromLog(log);
+      if (address && !knownAddresses.has(address)) {
+        knownAddresses.add(address);
+        newAddresses.push(address);
+      }
+    }
+  }
+
+  const pools = await Promise.allSettled(newAddresses.map(readPool));
+  const unreadPools: string[] = [];
+  pools.forEach((result, i) => {
+    if (result.status === "rejected") {
+      console.warn(`Could not read pool ${newAddresses[i]}, retrying on the next scan:`, result.reason);
+      unreadPools.push(newAddresses[i]);
+      return;
+    }
+    if (!result.value) return;
+    const pair = result.value.tokens.join("/");
+    const name = cache.pools[pair] ? `${pair} (${result.value.address.slice(0, 8)})` : pair;
+    cache.pools[name] = result.value;
+  });
+
+  cache.lastScannedBlock = latestBlock;
+  cache.unreadPools = unreadPools;
+  saveCache(cache);
+  registerPools(cache.pools);
+
+  console.log("Pool discovery finished:", {
+    newPools: newAddresses.length - unreadPools.length,
+    unreadPools: unreadPools.length,
+    totalPools: Object.keys(cache.pools).length,
+    lastScannedBlock: latestBlock,
+  });
+
+  return cache.pools;
+}
+
+/**
+ * Load cached pools and run discovery once per session. Failures are logged
+ * and leave the configured ARC_POOLS in place.
+ */
+export function ensurePoolsDiscovered(): Promise<void> {
+  if (!discovery) {
+    loadCachedPools();
+    discovery = POOL_DISCOVERY_CONFIG.factoryAddress
+      ? discoverPools().then(
+          () => undefined,
+          (error) => console.error("Error discovering pools:", error)
+        )
+      : Promise.resolve();
+  }
+  return discovery;
+}
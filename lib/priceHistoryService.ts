@@ -0,0 +1,205 @@
+import { supabase } from "./supabase";
+import { ARC_POOLS } from "./arcNetwork";
+
+// Chart periods: how far back each one looks and how long each candle is (ms)
+export const CHART_PERIODS = {
+  "1H": { rangeMs: 60 * 60 * 1000, bucketMs: 60 * 1000 },
+  "24H": { rangeMs: 24 * 60 * 60 * 1000, bucketMs: 15 * 60 * 1000 },
+  "7D": { rangeMs: 7 * 24 * 60 * 60 * 1000, bucketMs: 60 * 60 * 1000 },
+  "30D": { rangeMs: 30 * 24 * 60 * 60 * 1000, bucketMs: 4 * 60 * 60 * 1000 },
+};
+
+export type ChartPeriod = keyof typeof CHART_PERIODS;
+
+// How often the sample-pool-prices Edge Function records a price (ms)
+export const PRICE_SAMPLE_INTERVAL = 60 * 1000;
+
+// Native USDC trades on the pools as WUSDC, wrapped 1:1 by RouterQuantum
+const POOL_SYMBOL_ALIASES: Record<string, string> = { USDC: "WUSDC" };
+
+export interface Candle {
+  /** Bucket start (ms) */
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  /** Base token swapped during the bucket */
+  volume: number;
+}
+
+export interface PriceHistory {
+  base: string;
+  quote: string;
+  /** Candles in time order; buckets before the first sample are left out */
+  candles: Candle[];
+  /** Latest price of the base token in the quote token */
+  price: number;
+  /** Change in % over the period, or since the first sample if the history is shorter; null without samples */
+  change: number | null;
+  high: number;
+  low: number;
+  volume: number;
+}
+
+/** A bucket of the period with samples, swaps or both */
+export interface CandleBucket {
+  time: number;
+  /** Prices of the bucket's samples, or null if it has none */
+  prices: Pick<Candle, "open" | "high" | "low" | "close"> | null;
+  volume: number;
+}
+
+interface CandleRow {
+  bucket_start: string;
+  open: number | string | null;
+  high: number | string | null;
+  low: number | string | null;
+  close: number | string | null;
+  volume: number | string;
+}
+
+/**
+ * Find the sampled pool that trades a pair
+ * @returns The pool address, the base token's symbol in the pool, and whether
+ * the base token is the pool's token 1
+ */
+export const findPricedPool = (
+  base: string,
+  quote: string
+): { address: string; baseToken: string; inverted: boolean } | null => {
+  const [poolBase, poolQuote] = [base, quote].map((symbol) => POOL_SYMBOL_ALIASES[symbol] ?? symbol);
+  for (const pool of Object.values(ARC_POOLS.pools)) {
+    const [token0, token1] = pool.tokens;
+    if (token0 === poolBase && token1 === poolQuote) {
+      return { address: pool.address, baseToken: poolBase, inverted: false };
+    }
+    if (token0 === poolQuote && token1 === poolBase) {
+      return { address: pool.address, baseToken: poolBase, inverted: true };
+    }
+  }
+  return null;
+};
+
+/**
+ * Fill the buckets of a period with candles, carrying the previous close
+ * through buckets without samples
+ * @param buckets - Buckets that have samples or swaps
+ * @param openingPrice - Last price before the period, if any
+ */
+export function fillCandles(
+  buckets: CandleBucket[],
+  period: ChartPeriod,
+  now: number,
+  openingPrice: number | null
+): Candle[] {
+  const { rangeMs, bucketMs } = CHART_PERIODS[period];
+  const byTime = new Map(buckets.map((bucket) => [bucket.time, bucket]));
+  const candles: Candle[] = [];
+  let previousClose = openingPrice;
+
+  for (let time = Math.floor((now - rangeMs) / bucketMs) * bucketMs; time <= now; time += bucketMs) {
+    const bucket = byTime.get(time);
+    const volume = bucket?.volume ?? 0;
+    if (bucket?.prices) {
+      // Samples are points in time, so each candle opens where the last closed
+      const open = previousClose ?? bucket.prices.open;
+      candles.push({
+        time,
+        open,
+        high: Math.max(bucket.prices.high, open),
+        low: Math.min(bucket.prices.low, open),
+        close: bucket.prices.close,
+        volume,
+      });
+      previousClose = bucket.prices.close;
+    } else if (previousClose !== null) {
+      candles.push({
+        time,
+        open: previousClose,
+        high: previousClose,
+        low: previousClose,
+        close: previousClose,
+        volume,
+      });
+    }
+  }
+  return candles;
+}
+
+/**
+ * Get the price history of a pair for a chart period
+ * @param base - Token whose price is charted
+ * @param quote - Token the price is given in
+ * @returns The history, or null if no sampled pool trades the pair
+ */
+export const getPriceHistory = async (
+  base: string,
+  quote: string,
+  period: ChartPeriod
+): Promise<PriceHistory | null> => {
+  const pool = findPricedPool(base, quote);
+  if (!pool) return null;
+
+  const now = Date.now();
+  const { rangeMs, bucketMs } = CHART_PERIODS[period];
+  const since = new Date(Math.floor((now - rangeMs) / bucketMs) * bucketMs).toISOString();
+
+  const [candlesResult, openingResult] = await Promise.all([
+    supabase.rpc("get_price_candles", {
+      p_pool_address: pool.address,
+      p_base_token: pool.baseToken,
+      p_since: since,
+      p_bucket_seconds: bucketMs / 1000,
+    }),
+    supabase
+      .from("price_samples")
+      .select("price")
+      .eq("pool_address", pool.address.toLowerCase())
+      .lt("sampled_at", since)
+      .order("sampled_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (candlesResult.error) {
+    console.error("Error fetching price candles:", candlesResult.error);
+    throw candlesResult.error;
+  }
+  if (openingResult.error) {
+    console.error("Error fetching opening price:", openingResult.error);
+    throw openingResult.error;
+  }
+
+  // Pool prices are token 1 per token 0; flip them when the base is token 1
+  const orient = (price: number | string) => (pool.inverted ? 1 / Number(price) : Number(price));
+  const buckets = ((candlesResult.data ?? []) as CandleRow[]).map((row): CandleBucket => ({
+    time: new Date(row.bucket_start).getTime(),
+    prices:
+      row.open === null || row.high === null || row.low === null || row.close === null
+        ? null
+        : {
+            open: orient(row.open),
+            high: orient(pool.inverted ? row.low : row.high),
+            low: orient(pool.inverted ? row.high : row.low),
+            close: orient(row.close),
+          },
+    volume: Number(row.volume),
+  }));
+  const openingPrice = openingResult.data ? orient(openingResult.data.price) : null;
+
+  const candles = fillCandles(buckets, period, now, openingPrice);
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+
+  return {
+    base,
+    quote,
+    candles,
+    price: last?.close ?? 0,
+    change: first && first.open > 0 ? ((last.close - first.open) / first.open) * 100 : null,
+    high: candles.length > 0 ? Math.max(...candles.map((candle) => candle.high)) : 0,
+    low: candles.length > 0 ? Math.min(...candles.map((candle) => candle.low)) : 0,
+    volume: candles.reduce((total, candle) => total + candle.volume, 0),
+  };
+};
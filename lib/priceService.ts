@@ -0,0 +1,184 @@
+import { TOKEN_DECIMALS } from "./arcNetwork";
+import { aggregateQuotes } from "./quoteAggregator";
+import { fromBaseUnits, toBaseUnits } from "@/supabase/functions/_shared/units";
+
+// Pricing configuration
+export const PRICE_CONFIG = {
+  // Tokens taken to be worth $1, which every other token is quoted against
+  usdTokens: ["USDC", "WUSDC"],
+  // Whole tokens sold in a pricing quote; small enough to keep price impact low
+  probeAmount: 1,
+  // How long a price is reused before it is quoted again (ms)
+  ttlMs: 60 * 1000,
+  // Minimum time between two history samples of a token (ms)
+  historySampleIntervalMs: 5 * 60 * 1000,
+  // Shortest history a change is reported over (ms)
+  minChangeWindowMs: 60 * 60 * 1000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_KEY = "tower-price-history";
+
+export interface TokenPrice {
+  symbol: string;
+  /** USD price */
+  usd: number;
+  /**
+   * Change in % over the last 24h, or since the oldest sample if the history
+   * is shorter; null until the history spans PRICE_CONFIG.minChangeWindowMs
+   */
+  change24h: number | null;
+  /** USD prices sampled over the last 24h, oldest first, ending with `usd` */
+  history: number[];
+  updatedAt: number;
+}
+
+/** [timestamp, USD price] */
+type PriceSample = [number, number];
+
+const cache = new Map<string, TokenPrice>();
+const pending = new Map<string, Promise<TokenPrice | null>>();
+
+const loadHistory = (): Record<string, PriceSample[]> => {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(localStorage.getItem(HISTORY_KEY) || "{}");
+  } catch (error) {
+    console.error("Error loading price history:", error);
+    return {};
+  }
+};
+
+const saveHistory = (history: Record<string, PriceSample[]>): void => {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.error("Error saving price history:", error);
+  }
+};
+
+/**
+ * Add a price to a token's stored history and drop samples older than a day
+ * @returns The token's samples from the last 24h, oldest first
+ */
+function recordSample(symbol: string, usd: number, now: number): PriceSample[] {
+  const history = loadHistory();
+  const samples = (history[symbol] ?? []).filter(([time]) => time >= now - DAY_MS);
+  const last = samples[samples.length - 1];
+  if (!last || now - last[0] >= PRICE_CONFIG.historySampleIntervalMs) {
+    samples.push([now, usd]);
+  }
+  history[symbol] = samples;
+  saveHistory(history);
+  return samples;
+}
+
+/**
+ * Quote one probe amount of a token against each USD token through every
+ * liquidity source
+ * @returns USD price from the best quote
+ * @throws If no source could quote the token against a USD token
+ */
+async function quoteUsdPrice(symbol: string): Promise<number> {
+  const decimals = TOKEN_DECIMALS[symbol] ?? 18;
+  const amountIn = toBaseUnits(PRICE_CONFIG.probeAmount, decimals).toString();
+
+  const results = await Promise.allSettled(
+    PRICE_CONFIG.usdTokens
+      .filter((usdToken) => usdToken !== symbol)
+      .map(async (usdToken) => {
+        const { quotes } = await aggregateQuotes({
+          tokenIn: symbol,
+          tokenOut: usdToken,
+          amountIn,
+          slippage: 0.5,
+        });
+        // Gas is a cost of the trade, not of the token, so compare gross output
+        const amountOut = quotes.reduce(
+          (max, quote) => (BigInt(quote.amountOut) > max ? BigInt(quote.amountOut) : max),
+          BigInt(0)
+        );
+        return fromBaseUnits(amountOut, TOKEN_DECIMALS[usdToken] ?? 18) / PRICE_CONFIG.probeAmount;
+      })
+  );
+
+  const prices = results
+    .filter((result): result is PromiseFulfilledResult<number> => result.status === "fulfilled")
+    .map((result) => result.value)
+    .filter((price) => price > 0);
+  if (prices.length === 0) {
+    throw new Error(`Failed to price ${symbol} against ${PRICE_CONFIG.usdTokens.join("/")}`);
+  }
+  return Math.max(...prices);
+}
+
+/**
+ * Get a token's USD price, quoted on-chain and cached for PRICE_CONFIG.ttlMs
+ * @param symbol - Token symbol
+ * @returns The price, or null if the token can't be quoted against a USD token
+ */
+export async function getTokenPrice(symbol: string): Promise<TokenPrice | null> {
+  const cached = cache.get(symbol);
+  if (cached && Date.now() - cached.updatedAt < PRICE_CONFIG.ttlMs) {
+    return cached;
+  }
+
+  let request = pending.get(symbol);
+  if (!request) {
+    request = (async () => {
+      try {
+        const usd = PRICE_CONFIG.usdTokens.includes(symbol) ? 1 : await quoteUsdPrice(symbol);
+        const now = Date.now();
+        const samples = recordSample(symbol, usd, now);
+        const [oldestTime, oldestPrice] = samples[0];
+        const price: TokenPrice = {
+          symbol,
+          usd,
+          change24h:
+            now - oldestTime >= PRICE_CONFIG.minChangeWindowMs && oldestPrice > 0
+              ? ((usd - oldestPrice) / oldestPrice) * 100
+              : null,
+          history: [...samples.map(([, sample]) => sample).slice(0, -1), usd],
+          updatedAt: now,
+        };
+        cache.set(symbol, price);
+        return price;
+      } catch (error) {
+        console.warn(`Could not price ${symbol}:`, error);
+        // A stale price beats none
+        return cached ?? null;
+      } finally {
+        pending.delete(symbol);
+      }
+    })();
+    pending.set(symbol, request);
+  }
+  return request;
+}
+
+/**
+ * Get the USD prices of several tokens
+ * @returns Prices keyed by symbol; tokens that can't be priced are left out
+ */
+export async function getTokenPrices(symbols: string[]): Promise<Record<string, TokenPrice>> {
+  const prices = await Promise.all([...new Set(symbols)].map(getTokenPrice));
+  return Object.fromEntries(
+    prices.filter((price): price is TokenPrice => price !== null).map((price) => [price.symbol, price])
+  );
+}
+
+/**
+ * Format a USD price for display, with more decimals for small prices
+ */
+export const formatUsdPrice = (usd: number): string =>
+  `$${usd.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: usd < 1 ? 6 : 2,
+  })}`;
+
+/**
+ * Format a % change for display, e.g. "+1.25%"
+ */
+export const formatChange = (change: number): string =>
+  `${change >= 0 ? "+" : ""}${change.toFixed(2)}%`;
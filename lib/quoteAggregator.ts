@@ -0,0 +1,157 @@
+import { NATIVE_TOKENS, TOKEN_DECIMALS, getGasPrice } from "./arcNetwork";
+import { LIQUIDITY_SOURCES, LiquidityQuote, LiquiditySource, QuoteRequest } from "./liquidity";
+
+export type { QuoteRequest } from "./liquidity";
+
+// How long a single source may take before it is left out
+export const DEFAULT_QUOTE_TIMEOUT_MS = 5000;
+
+// Tokens worth one native token, so gas can be priced in them directly
+const NATIVE_PEGGED_TOKENS = [...NATIVE_TOKENS, "WUSDC"];
+
+export interface Quote extends LiquidityQuote {
+  /** Id of the liquidity source that produced the quote */
+  source: string;
+  /** Display name of the source */
+  label: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  /** Gas cost in wei of tokenOut, or null if gas could not be priced */
+  gasCost: string | null;
+  /** amountOut minus gasCost; equals amountOut when gas is unpriced */
+  netAmountOut: string;
+}
+
+export interface QuoteFailure {
+  source: string;
+  label: string;
+  error: string;
+}
+
+export interface AggregatedQuote {
+  /** Quote with the highest output net of gas */
+  best: Quote;
+  /** Every successful quote, best first */
+  quotes: Quote[];
+  /** Sources that failed or timed out */
+  failures: QuoteFailure[];
+  /** Number of sources queried */
+  sourceCount: number;
+}
+
+/**
+ * Reject a promise that does not settle in time
+ * @throws If `ms` elapses first
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Price a quote's gas in its output token
+ *
+ * Gas is paid in the native token, so it can be priced directly when the
+ * output is pegged to it, or through the quote's own rate when the input is.
+ * @returns Gas cost (in wei of tokenOut), or null if neither side is pegged
+ */
+function gasCostInOutput(
+  request: QuoteRequest,
+  amountOut: bigint,
+  estimatedGas: number,
+  gasPrice: bigint
+): bigint | null {
+  const nativeDecimals = TOKEN_DECIMALS[NATIVE_TOKENS[0]];
+  const gasWei = BigInt(Math.ceil(estimatedGas)) * gasPrice;
+
+  const toTokenUnits = (symbol: string) =>
+    (gasWei * BigInt(10) ** BigInt(TOKEN_DECIMALS[symbol] ?? 18)) /
+    BigInt(10) ** BigInt(nativeDecimals);
+
+  if (NATIVE_PEGGED_TOKENS.includes(request.tokenOut)) {
+    return toTokenUnits(request.tokenOut);
+  }
+  const amountIn = BigInt(request.amountIn);
+  if (NATIVE_PEGGED_TOKENS.includes(request.tokenIn) && amountIn > BigInt(0)) {
+    return (toTokenUnits(request.tokenIn) * amountOut) / amountIn;
+  }
+  return null;
+}
+
+/**
+ * Quote a swap with every source in parallel and pick the best output net of gas
+ * @param sources - Sources to query (default: LIQUIDITY_SOURCES)
+ * @param timeoutMs - Time each source gets before it is left out
+ * @returns The winning quote, all successful quotes and the failures
+ * @throws If no source returned a quote
+ */
+export async function aggregateQuotes(
+  request: QuoteRequest,
+  sources: LiquiditySource[] = LIQUIDITY_SOURCES,
+  timeoutMs: number = DEFAULT_QUOTE_TIMEOUT_MS
+): Promise<AggregatedQuote> {
+  const [gasPriceResult, ...results] = await Promise.allSettled([
+    withTimeout(getGasPrice(), timeoutMs, "Gas price"),
+    ...sources.map((source) => withTimeout(source.quote(request), timeoutMs, source.label)),
+  ]);
+
+  const gasPrice =
+    gasPriceResult.status === "fulfilled" ? (gasPriceResult.value as bigint) : null;
+  if (gasPriceResult.status === "rejected") {
+    console.warn("Could not get gas price, comparing quotes gross of gas:", gasPriceResult.reason);
+  }
+
+  const quotes: Quote[] = [];
+  const failures: QuoteFailure[] = [];
+
+  results.forEach((result, i) => {
+    const source = sources[i];
+    if (result.status === "rejected") {
+      failures.push({
+        source: source.id,
+        label: source.label,
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
+      return;
+    }
+
+    const sourceQuote = result.value as LiquidityQuote;
+    const amountOut = BigInt(sourceQuote.amountOut);
+    const gasCost =
+      gasPrice === null
+        ? null
+        : gasCostInOutput(request, amountOut, sourceQuote.estimatedGas, gasPrice);
+
+    quotes.push({
+      ...sourceQuote,
+      source: source.id,
+      label: source.label,
+      tokenIn: request.tokenIn,
+      tokenOut: request.tokenOut,
+      amountIn: request.amountIn,
+      amountOut: amountOut.toString(),
+      gasCost: gasCost === null ? null : gasCost.toString(),
+      netAmountOut: (gasCost === null ? amountOut : amountOut - gasCost).toString(),
+    });
+  });
+
+  if (quotes.length === 0) {
+    throw new Error(
+      `Failed to get a quote from any of ${sources.length} sources: ${failures
+        .map((failure) => `${failure.label}: ${failure.error}`)
+        .join("; ")}`
+    );
+  }
+
+  // Stable sort keeps source order on ties
+  quotes.sort((a, b) => {
+    const diff = BigInt(b.netAmountOut) - BigInt(a.netAmountOut);
+    return diff > BigInt(0) ? 1 : diff < BigInt(0) ? -1 : 0;
+  });
+
+  return { best: quotes[0], quotes, failures, sourceCount: sources.length };
+}
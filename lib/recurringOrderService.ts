@@ -1,4 +1,35 @@
 import { supabase } from "./supabase";
+import { TOKEN_CONTRACTS, getSwapQuoteFromQuantumExchange } from "./arcNetwork";
+import { getTokenDecimals } from "./tokenRegistry";
+import {
+  SignedSpendingPermission,
+  SpendingPermission,
+  buildSpendingPermissionTypedData,
+  checkOrderAgainstPermission,
+  maxExecutionsAllowed,
+  verifySpendingPermission,
+} from "@/supabase/functions/_shared/spendingPermission";
+import {
+  DEFAULT_TIMEZONE,
+  normalizeFrequency,
+  validateFrequency,
+} from "@/supabase/functions/_shared/frequency";
+import {
+  DEFAULT_MISSED_SLOT_POLICY,
+  MissedSlotPolicy,
+  endOfDayInZone,
+  nextSlotAfter,
+} from "@/supabase/functions/_shared/schedule";
+import { ExecutionFailureClass } from "@/supabase/functions/_shared/preflight";
+import {
+  DEFAULT_MAX_SLIPPAGE,
+  quotedPrice,
+  validatePriceProtection,
+} from "@/supabase/functions/_shared/priceProtection";
+import { fromBaseUnits, toBaseUnits } from "@/supabase/functions/_shared/units";
+
+// Permissions for orders without an end date are valid for one year
+const DEFAULT_PERMISSION_DURATION_SECONDS = 365 * 24 * 60 * 60;
 
 export interface RecurringOrder {
   id: string;
@@ -8,15 +39,50 @@ export interface RecurringOrder {
   target_token: string;
   amount: number;
   frequency: string;
+  timezone: string;
   start_date: string;
   end_date?: string;
   next_execution_date?: string;
+  max_executions?: number | null;
+  total_budget?: number | null;
+  completed_at?: string | null;
+  completion_reason?: string | null;
+  missed_slot_policy: MissedSlotPolicy;
+  max_slippage: number;
+  limit_price?: number | null;
   is_active: boolean;
   execution_count: number;
+  total_spent: number;
+  consecutive_failures: number;
+  retry_count: number;
+  current_slot?: string | null;
+  last_failure_class?: ExecutionFailureClass | null;
+  paused_reason?: string | null;
+  paused_at?: string | null;
+  permission?: SpendingPermission | null;
+  signature?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Optional limits after which a recurring order completes
+ */
+export interface RecurringOrderLimits {
+  maxExecutions?: number;
+  totalBudget?: number;
+}
+
+/**
+ * Bounds each execution's quote must satisfy (see _shared/priceProtection)
+ */
+export interface RecurringOrderPriceProtection {
+  /** Slippage tolerance in % (default DEFAULT_MAX_SLIPPAGE) */
+  maxSlippage?: number;
+  /** Buy at or below / sell at or above this price of the traded token */
+  limitPrice?: number;
+}
+
 export interface RecurringOrderExecution {
   id: string;
   recurring_order_id: string;
@@ -26,14 +92,132 @@ export interface RecurringOrderExecution {
   source_token: string;
   target_token: string;
   transaction_hash?: string;
-  status: "Pending" | "Successful" | "Failed";
+  status: "Pending" | "Successful" | "Failed" | "Skipped" | "SkippedPriceLimit";
   error_message?: string;
+  failure_class?: ExecutionFailureClass | null;
+  amount_out?: number | null;
+  effective_price?: number | null;
+  price_impact?: number | null;
+  gas_used?: number | null;
+  fee?: number | null;
+  scheduled_for?: string | null;
+  attempt?: number;
+  idempotency_key?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Last moment of an order's end date in the order's timezone
+ * @param date - "MM/DD/YYYY" (as picked in the app) or "YYYY-MM-DD"
+ * @throws If the date can't be read
+ */
+const endOfDay = (date: string, timeZone: string): Date => {
+  const us = date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const iso = date.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const [year, month, day] = us
+    ? [Number(us[3]), Number(us[1]), Number(us[2])]
+    : iso
+      ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+      : [NaN, NaN, NaN];
+  if (!year || month < 1 || month > 12 || day < 1 || day > 31) {
+    throw new Error(`Invalid end date: ${date}`);
+  }
+  return endOfDayInZone(year, month, day, timeZone);
+};
+
+/**
+ * Build the spending permission a wallet signs when creating a recurring order.
+ * With an end date the permission expires at the end of that day in
+ * `timezone`; without one it expires after one year. The total budget is the
+ * order's own budget if it has one, otherwise every execution the frequency
+ * allows before expiry.
+ */
+export const buildRecurringOrderPermission = (
+  walletAddress: string,
+  sourceToken: string,
+  targetToken: string,
+  amount: number,
+  frequency: string,
+  endDate?: string,
+  totalBudget?: number,
+  timezone: string = DEFAULT_TIMEZONE
+): SpendingPermission => {
+  const frequencyError = validateFrequency(frequency, timezone);
+  if (frequencyError) {
+    throw new Error(frequencyError);
+  }
+
+  const sourceAddress = TOKEN_CONTRACTS[sourceToken];
+  const targetAddress = TOKEN_CONTRACTS[targetToken];
+  if (!sourceAddress || !targetAddress) {
+    throw new Error(
+      `${!sourceAddress ? sourceToken : targetToken} is not supported for recurring orders yet`
+    );
+  }
+
+  const validAfter = Math.floor(Date.now() / 1000);
+  let expiry = validAfter + DEFAULT_PERMISSION_DURATION_SECONDS;
+  if (endDate) {
+    expiry = Math.floor(endOfDay(endDate, timezone).getTime() / 1000);
+  }
+
+  const decimals = getTokenDecimals(sourceToken);
+  const maxAmountPerExecution = toBaseUnits(amount, decimals);
+  const nonce = crypto.getRandomValues(new Uint32Array(2));
+
+  const permission: SpendingPermission = {
+    wallet: walletAddress.toLowerCase(),
+    sourceToken: sourceAddress.toLowerCase(),
+    targetToken: targetAddress.toLowerCase(),
+    maxAmountPerExecution: maxAmountPerExecution.toString(),
+    frequency: normalizeFrequency(frequency),
+    totalBudget: "0",
+    validAfter: validAfter.toString(),
+    expiry: expiry.toString(),
+    nonce: ((BigInt(nonce[0]) << BigInt(32)) | BigInt(nonce[1])).toString(),
+  };
+
+  const executions = maxExecutionsAllowed(permission, new Date((expiry - 1) * 1000));
+  const scheduleBudget = maxAmountPerExecution * BigInt(executions);
+  const orderBudget = totalBudget ? toBaseUnits(totalBudget, decimals) : undefined;
+  permission.totalBudget = (
+    orderBudget !== undefined && orderBudget < scheduleBudget ? orderBudget : scheduleBudget
+  ).toString();
+
+  return permission;
+};
+
+/**
+ * Ask the wallet to sign a spending permission (EIP-712, eth_signTypedData_v4)
+ * @returns The 65-byte signature
+ */
+export const requestSpendingPermissionSignature = async (
+  provider: { request: (args: { method: string; params?: unknown[] }) => Promise<unknown> },
+  walletAddress: string,
+  permission: SpendingPermission
+): Promise<string> => {
+  const signature = await provider.request({
+    method: "eth_signTypedData_v4",
+    params: [walletAddress, JSON.stringify(buildSpendingPermissionTypedData(permission))],
+  });
+
+  if (typeof signature !== "string") {
+    throw new Error("Wallet did not return a signature");
+  }
+
+  return signature;
+};
+
 /**
  * Create a new recurring order
+ * The signed spending permission is verified against the wallet and order
+ * terms before anything is stored. `frequency` must be a supported rule (see
+ * _shared/frequency) and is evaluated in `timezone`. Executions are anchored to
+ * the start date; `missedSlotPolicy` decides what the executor does with
+ * slots that pass while the order cannot run. The order completes at the end
+ * of `endDate` or when one of `limits` is reached. Executions whose quote is
+ * outside `priceProtection` are skipped.
  */
 export const createRecurringOrder = async (
   walletAddress: string,
@@ -42,9 +226,53 @@ export const createRecurringOrder = async (
   targetToken: string,
   amount: number,
   frequency: string,
-  endDate?: string,
-  signature?: string
+  endDate: string | undefined,
+  authorization: SignedSpendingPermission,
+  missedSlotPolicy: MissedSlotPolicy = DEFAULT_MISSED_SLOT_POLICY,
+  limits: RecurringOrderLimits = {},
+  timezone: string = DEFAULT_TIMEZONE,
+  priceProtection: RecurringOrderPriceProtection = {}
 ): Promise<RecurringOrder> => {
+  const frequencyError = validateFrequency(frequency, timezone);
+  if (frequencyError) {
+    throw new Error(`Failed to create recurring order: ${frequencyError}`);
+  }
+  const rule = normalizeFrequency(frequency);
+
+  const { maxExecutions, totalBudget } = limits;
+  if (maxExecutions !== undefined && (!Number.isInteger(maxExecutions) || maxExecutions <= 0)) {
+    throw new Error("Failed to create recurring order: Max executions must be a positive whole number");
+  }
+  if (totalBudget !== undefined && !(totalBudget >= amount)) {
+    throw new Error("Failed to create recurring order: Total budget must cover at least one execution");
+  }
+
+  const maxSlippage = priceProtection.maxSlippage ?? DEFAULT_MAX_SLIPPAGE;
+  const limitPrice = priceProtection.limitPrice ?? null;
+  const priceProtectionError = validatePriceProtection({
+    max_slippage: maxSlippage,
+    limit_price: limitPrice,
+  });
+  if (priceProtectionError) {
+    throw new Error(`Failed to create recurring order: ${priceProtectionError}`);
+  }
+
+  if (!verifySpendingPermission(authorization, walletAddress)) {
+    throw new Error("Failed to create recurring order: Spending permission was not signed by this wallet");
+  }
+
+  const violation = checkOrderAgainstPermission(authorization.permission, {
+    walletAddress,
+    sourceTokenAddress: TOKEN_CONTRACTS[sourceToken] ?? "",
+    targetTokenAddress: TOKEN_CONTRACTS[targetToken] ?? "",
+    amountBaseUnits: toBaseUnits(amount, getTokenDecimals(sourceToken)),
+    frequency: rule,
+  });
+  if (violation) {
+    throw new Error(`Failed to create recurring order: ${violation}`);
+  }
+
+  const startDate = new Date().toISOString();
   const { data, error } = await supabase
     .from("recurring_orders")
     .insert({
@@ -53,12 +281,19 @@ export const createRecurringOrder = async (
       source_token: sourceToken,
       target_token: targetToken,
       amount,
-      frequency,
-      start_date: new Date().toISOString(),
-      end_date: endDate ? new Date(endDate).toISOString() : null,
-      next_execution_date: calculateNextExecutionDate(frequency),
+      frequency: rule,
+      timezone,
+      start_date: startDate,
+      end_date: endDate ? endOfDay(endDate, timezone).toISOString() : null,
+      next_execution_date: calculateNextExecutionDate(rule, startDate, startDate, timezone),
+      missed_slot_policy: missedSlotPolicy,
+      max_executions: maxExecutions ?? null,
+      total_budget: totalBudget ?? null,
+      max_slippage: maxSlippage,
+      limit_price: limitPrice,
       is_active: true,
-      ...(signature && { signature }),
+      permission: authorization.permission,
+      signature: authorization.signature,
     })
     .select()
     .single();
@@ -127,11 +362,23 @@ export const getRecurringOrder = async (
 
 /**
  * Update a recurring order
+ * @throws If the update moves a signed order to another timezone, which its
+ * spending permission does not cover (also enforced by the
+ * recurring_orders_keep_signed_timezone trigger in schema.sql)
  */
 export const updateRecurringOrder = async (
   orderId: string,
   updates: Partial<RecurringOrder>
 ): Promise<RecurringOrder> => {
+  if (updates.timezone !== undefined) {
+    const current = await getRecurringOrder(orderId);
+    if (current?.signature && current.timezone !== updates.timezone) {
+      throw new Error(
+        "Failed to update recurring order: The timezone of a signed order can't be changed. Cancel it and create a new order instead."
+      );
+    }
+  }
+
   const { data, error } = await supabase
     .from("recurring_orders")
     .update(updates)
@@ -207,7 +454,9 @@ export const logOrderCreation = async (
 };
 
 /**
- * Cancel a recurring order (deactivate it)
+ * Cancel a recurring order (deactivate it). Also works for orders the
+ * executor auto-paused; the pause reason is cleared so the order shows as
+ * cancelled.
  */
 export const cancelRecurringOrder = async (
   orderId: string,
@@ -223,7 +472,7 @@ export const cancelRecurringOrder = async (
   // Update order status
   const { error } = await supabase
     .from("recurring_orders")
-    .update({ is_active: false })
+    .update({ is_active: false, paused_reason: null, paused_at: null })
     .eq("id", orderId);
 
   if (error) {
@@ -284,6 +533,32 @@ export const getOrderExecutions = async (
   return data || [];
 };
 
+/**
+ * Current price of an order's traded token (see _shared/priceProtection),
+ * quoted for one execution of the order
+ * @returns Price in the other token of the pair
+ */
+export const getCurrentOrderPrice = async (order: RecurringOrder): Promise<number> => {
+  const sourceAddress = TOKEN_CONTRACTS[order.source_token];
+  const targetAddress = TOKEN_CONTRACTS[order.target_token];
+  if (!sourceAddress || !targetAddress) {
+    throw new Error(`Failed to quote order: unsupported token pair ${order.source_token}/${order.target_token}`);
+  }
+
+  const quote = await getSwapQuoteFromQuantumExchange(
+    sourceAddress,
+    targetAddress,
+    toBaseUnits(order.amount, getTokenDecimals(order.source_token)).toString(),
+    order.max_slippage ?? DEFAULT_MAX_SLIPPAGE
+  );
+
+  return quotedPrice(order.order_type, {
+    amountIn: order.amount,
+    amountOut: fromBaseUnits(quote.toAmount, getTokenDecimals(order.target_token)),
+    priceImpact: quote.priceImpact,
+  });
+};
+
 /**
  * Get execution history for a wallet
  */
@@ -348,32 +623,16 @@ export const logOrderExecution = async (
 };
 
 /**
- * Calculate next execution date based on frequency
+ * Calculate the next execution date after `after`, anchored to the order's
+ * start date and evaluated in its timezone
  */
-export const calculateNextExecutionDate = (frequency: string): string => {
-  const now = new Date();
-
-  switch (frequency.toLowerCase()) {
-    case "hourly":
-      now.setHours(now.getHours() + 1);
-      break;
-    case "daily":
-      now.setDate(now.getDate() + 1);
-      break;
-    case "weekly":
-      now.setDate(now.getDate() + 7);
-      break;
-    case "bi-weekly":
-      now.setDate(now.getDate() + 14);
-      break;
-    case "monthly":
-      now.setMonth(now.getMonth() + 1);
-      break;
-    default:
-      now.setDate(now.getDate() + 7); // Default to weekly
-  }
-
-  return now.toISOString();
+export const calculateNextExecutionDate = (
+  frequency: string,
+  startDate: string,
+  after: string | Date = new Date(),
+  timezone: string = DEFAULT_TIMEZONE
+): string => {
+  return nextSlotAfter(startDate, frequency, after, timezone);
 };
 
 /**
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+import type { PoolEdge, SwapRoute } from "./arcNetwork";
+import { planSplitSwap } from "./splitRouting";
+
+// Constant-product pools with equal reserves on both sides
+const RESERVES: Record<string, bigint> = {
+  "0x01": BigInt(1000000),
+  "0x02": BigInt(1000000),
+  "0x03": BigInt(1000000),
+  "0x04": BigInt(1000000),
+};
+
+const edge = (poolAddress: string, tokenIn: string, tokenOut: string): PoolEdge => ({
+  pool: `${tokenIn}/${tokenOut}`,
+  poolAddress,
+  tokenIn,
+  tokenOut,
+  tokenInIndex: 0,
+  tokenOutIndex: 1,
+});
+
+// A -> B directly, or through C over two pools that share the A/C pool
+const PATHS: PoolEdge[][] = [
+  [edge("0x01", "A", "B")],
+  [edge("0x02", "A", "C"), edge("0x03", "C", "B")],
+  [edge("0x02", "A", "C"), edge("0x04", "C", "B")],
+];
+
+vi.mock("./poolRegistry", () => ({ ensurePoolsDiscovered: async () => {} }));
+
+vi.mock("./arcNetwork", () => ({
+  findRoutePaths: () => PATHS,
+  getPoolPriceImpact: async () => 0,
+  quoteRoute: async (path: PoolEdge[], amountIn: string): Promise<SwapRoute> => {
+    let amount = BigInt(amountIn);
+    const hops = path.map((hop) => {
+      const reserve = RESERVES[hop.poolAddress];
+      const amountOut = (reserve * amount) / (reserve + amount);
+      const quoted = { ...hop, amountIn: amount.toString(), amountOut: amountOut.toString() };
+      amount = amountOut;
+      return quoted;
+    });
+    return {
+      path: [path[0].tokenIn, ...path.map((hop) => hop.tokenOut)],
+      hops,
+      amountIn,
+      amountOut: amount.toString(),
+    };
+  },
+}));
+
+describe("planSplitSwap", () => {
+  it("only combines paths that share no pool", async () => {
+    const plan = await planSplitSwap("A", "B", "400000");
+
+    const pools = plan.legs.map((leg) => leg.route.hops.map((hop) => hop.poolAddress));
+    const used = pools.flat();
+    expect(new Set(used).size).toBe(used.length);
+    expect(plan.legs).toHaveLength(2);
+  });
+
+  it("splits the whole input and beats the best single route", async () => {
+    const plan = await planSplitSwap("A", "B", "400000");
+
+    const legInputs = plan.legs.reduce((sum, leg) => sum + BigInt(leg.route.amountIn), BigInt(0));
+    expect(legInputs).toBe(BigInt(400000));
+    expect(plan.legs.reduce((sum, leg) => sum + leg.share, 0)).toBeCloseTo(100, 6);
+    expect(BigInt(plan.amountOut)).toBeGreaterThan(BigInt(plan.singleRouteAmountOut));
+  });
+
+  it("rejects a zero amount", async () => {
+    await expect(planSplitSwap("A", "B", "0")).rejects.toThrow("greater than 0");
+  });
+});
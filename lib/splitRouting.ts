@@ -0,0 +1,181 @@
+import {
+  PoolEdge,
+  SwapRoute,
+  findRoutePaths,
+  getPoolPriceImpact,
+  quoteRoute,
+} from "./arcNetwork";
+import { ensurePoolsDiscovered } from "./poolRegistry";
+
+// The input is split in this many equal parts between routes
+const DEFAULT_SPLIT_PARTS = 10;
+
+// Most routes a split plan uses
+const DEFAULT_MAX_LEGS = 3;
+
+export interface SplitLeg {
+  route: SwapRoute;
+  /** Share of the input amount in % */
+  share: number;
+  /** Price impact of this leg in % (compounded over its hops) */
+  priceImpact: number;
+}
+
+export interface SplitPlan {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOut: string;
+  legs: SplitLeg[];
+  /** Input-weighted price impact of all legs in % */
+  priceImpact: number;
+  /** Output of the best single route for the full amount, for comparison */
+  singleRouteAmountOut: string;
+}
+
+/**
+ * Price impact of a quoted route from each pool's marginal rate, compounded
+ * over its hops
+ */
+async function routePriceImpact(route: SwapRoute): Promise<number> {
+  const hopImpacts = await Promise.all(
+    route.hops.map((hop) =>
+      getPoolPriceImpact(hop, hop.amountIn, hop.amountOut).catch((error) => {
+        console.warn(`Could not read the marginal rate of pool ${hop.pool}:`, error);
+        return 0;
+      })
+    )
+  );
+  const remaining = hopImpacts.reduce((product, impact) => product * (1 - impact / 100), 1);
+  return (1 - remaining) * 100;
+}
+
+/**
+ * Output of each path for 1..parts parts of the input
+ * @returns Output curves (index k = k parts), or null for paths that cannot be quoted
+ */
+async function quotePathCurves(
+  paths: PoolEdge[][],
+  amountIn: bigint,
+  parts: number
+): Promise<(bigint[] | null)[]> {
+  return Promise.all(
+    paths.map(async (path) => {
+      const quotes = await Promise.allSettled(
+        Array.from({ length: parts }, (_, i) =>
+          quoteRoute(path, ((amountIn * BigInt(i + 1)) / BigInt(parts)).toString())
+        )
+      );
+      if (quotes.some((quote) => quote.status !== "fulfilled")) {
+        return null;
+      }
+      return [
+        BigInt(0),
+        ...quotes.map((quote) =>
+          BigInt((quote as PromiseFulfilledResult<SwapRoute>).value.amountOut)
+        ),
+      ];
+    })
+  );
+}
+
+/**
+ * Plan a swap that splits the input across several routes to maximize output
+ *
+ * Every 1-3 hop path over the known pools is quoted for each fraction of the input;
+ * the parts are then assigned one at a time to the route with the best
+ * marginal output. Legs are quoted independently against the pools' current
+ * state, so a plan only combines paths that share no pool. Legs are re-quoted
+ * with their final amounts so per-hop amounts are exact.
+ * @param amountIn - Amount to swap (in wei)
+ * @param parts - Granularity of the split
+ * @param maxLegs - Most routes to use
+ * @throws If no route exists or none could be quoted
+ */
+export async function planSplitSwap(
+  tokenInSymbol: string,
+  tokenOutSymbol: string,
+  amountIn: string,
+  parts: number = DEFAULT_SPLIT_PARTS,
+  maxLegs: number = DEFAULT_MAX_LEGS
+): Promise<SplitPlan> {
+  const total = BigInt(amountIn);
+  if (total <= BigInt(0)) {
+    throw new Error("Amount to swap must be greater than 0");
+  }
+
+  await ensurePoolsDiscovered();
+  const paths = findRoutePaths(tokenInSymbol, tokenOutSymbol);
+  if (paths.length === 0) {
+    throw new Error(`No route found for tokens ${tokenInSymbol}/${tokenOutSymbol}`);
+  }
+
+  // A single route cannot be split
+  const splitParts = paths.length === 1 ? 1 : parts;
+  const curves = await quotePathCurves(paths, total, splitParts);
+
+  const allocation = paths.map(() => 0);
+  const pools = paths.map((path) => new Set(path.map((edge) => edge.poolAddress.toLowerCase())));
+  // Whether path i goes through a pool an allocated leg already uses
+  const sharesPool = (i: number) =>
+    allocation.some(
+      (count, j) => count > 0 && j !== i && [...pools[i]].some((pool) => pools[j].has(pool))
+    );
+
+  for (let part = 0; part < splitParts; part++) {
+    const usedLegs = allocation.filter((count) => count > 0).length;
+    let bestPath = -1;
+    let bestGain = BigInt(-1);
+
+    curves.forEach((curve, i) => {
+      if (!curve) return;
+      if (allocation[i] === 0 && (usedLegs >= maxLegs || sharesPool(i))) return;
+      const gain = curve[allocation[i] + 1] - curve[allocation[i]];
+      if (gain > bestGain) {
+        bestGain = gain;
+        bestPath = i;
+      }
+    });
+
+    if (bestPath === -1) {
+      throw new Error(`Failed to quote any route for tokens ${tokenInSymbol}/${tokenOutSymbol}`);
+    }
+    allocation[bestPath]++;
+  }
+
+  // Final leg amounts; rounding dust goes to the largest leg
+  const legAmounts = allocation.map((count) => (total * BigInt(count)) / BigInt(splitParts));
+  const largest = allocation.indexOf(Math.max(...allocation));
+  legAmounts[largest] += total - legAmounts.reduce((sum, amount) => sum + amount, BigInt(0));
+
+  const legs = await Promise.all(
+    paths
+      .map((path, i) => ({ path, amount: legAmounts[i] }))
+      .filter(({ amount }) => amount > BigInt(0))
+      .map(async ({ path, amount }) => {
+        const route = await quoteRoute(path, amount.toString());
+        return {
+          route,
+          share: Number((amount * BigInt(10000)) / total) / 100,
+          priceImpact: await routePriceImpact(route),
+        };
+      })
+  );
+
+  const amountOut = legs.reduce((sum, leg) => sum + BigInt(leg.route.amountOut), BigInt(0));
+  const priceImpact = legs.reduce((sum, leg) => sum + (leg.priceImpact * leg.share) / 100, 0);
+  const singleRouteAmountOut = curves.reduce(
+    (best, curve) => (curve && curve[splitParts] > best ? curve[splitParts] : best),
+    BigInt(0)
+  );
+
+  return {
+    tokenIn: tokenInSymbol,
+    tokenOut: tokenOutSymbol,
+    amountIn: total.toString(),
+    amountOut: amountOut.toString(),
+    legs: legs.sort((a, b) => b.share - a.share),
+    priceImpact,
+    singleRouteAmountOut: singleRouteAmountOut.toString(),
+  };
+}
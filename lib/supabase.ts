@@ -34,3 +34,25 @@ export interface ActivityRow {
   created_at: string;
   updated_at: string;
 }
+
+// Swap indexed on-chain by the index-swaps Edge Function
+export interface SwapRow {
+  id: string;
+  pool_address: string;
+  transaction_hash: string;
+  log_index: number;
+  block_number: number;
+  block_hash: string;
+  block_time: string;
+  wallet_address: string;
+  router_address: string | null;
+  sender: string;
+  recipient: string;
+  token_in: string;
+  token_out: string;
+  token_in_address: string;
+  token_out_address: string;
+  amount_in: number;
+  amount_out: number;
+  created_at: string;
+}
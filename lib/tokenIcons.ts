@@ -1,5 +1,6 @@
 // Token icon mapping utility
-// Maps token tickers to their icon paths in /public/assets
+// Maps token tickers to their icon paths in /public/assets, falling back to
+// the logoURI of tokens loaded from token lists
 
 import { StaticImageData } from "next/image";
 import usdcLogo from "@/public/assets/USDC-fotor-bg-remover-2025111075935.png";
@@ -9,6 +10,11 @@ import hypeLogo from "@/public/assets/hype.png";
 import usdtLogo from "@/public/assets/usdt_logo-removebg-preview.png";
 import uniLogo from "@/public/assets/uniswap-removebg-preview.png";
 import qtmLogo from "@/public/assets/quantum-logo.png";
+import unknownTokenLogo from "@/public/assets/unknown-token.svg";
+import { getToken } from "./tokenRegistry";
+
+// Bundled image, or a logo URL from a token list
+export type TokenIcon = StaticImageData | string;
 
 export const TOKEN_ICONS: Record<string, StaticImageData> = {
   USDC: usdcLogo,
@@ -19,10 +25,24 @@ export const TOKEN_ICONS: Record<string, StaticImageData> = {
   USDT: usdtLogo,
   UNI: uniLogo,
   QTM: qtmLogo,
-  SWPRC: usdcLogo, // Default to USDC logo if SWPRC logo not available
   // Add more token icons as needed
 };
 
-export const getTokenIcon = (ticker: string): StaticImageData | null => {
-  return TOKEN_ICONS[ticker.toUpperCase()] || null;
+// Shown for imported tokens that have no icon of their own
+export const UNKNOWN_TOKEN_ICON: StaticImageData = unknownTokenLogo;
+
+const IPFS_GATEWAY = "https://ipfs.io/ipfs/";
+
+export const getTokenIcon = (ticker: string): TokenIcon | null => {
+  const logoURI = getToken(ticker)?.logoURI;
+  return (
+    TOKEN_ICONS[ticker.toUpperCase()] ||
+    logoURI?.replace(/^ipfs:\/\//, IPFS_GATEWAY) ||
+    null
+  );
 };
+
+// Token list logos on other hosts are loaded as-is rather than through the
+// image optimizer, which only accepts the domains in next.config.ts
+export const isRemoteIcon = (icon: TokenIcon): boolean =>
+  typeof icon === "string" && !icon.startsWith("/");
@@ -0,0 +1,64 @@
+import {
+  TokenInfo,
+  listTokens,
+  refreshTokenRegistry,
+} from "@/supabase/functions/_shared/tokens";
+import { arcRpc, getQuantumExchangeTokens } from "./arcNetwork";
+
+// Token list configuration
+// Add this to your .env.local file to load more token lists (highest priority first):
+// NEXT_PUBLIC_TOKEN_LIST_URLS=https://example.com/a.tokenlist.json,https://example.com/b.tokenlist.json
+// The app's own list is always loaded first.
+export const TOKEN_LIST_URLS = [
+  "/tokenlists/arc-testnet.tokenlist.json",
+  ...(process.env.NEXT_PUBLIC_TOKEN_LIST_URLS || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean),
+];
+
+let loading: Promise<TokenInfo[]> | null = null;
+
+/**
+ * `eth_call` against the latest block on Arc network
+ */
+export const ethCall = (to: string, data: string): Promise<string> => arcRpc.ethCall(to, data);
+
+/**
+ * Merge the configured token lists, the QuantumExchange token list and
+ * on-chain metadata into the token registry, once per session
+ * @returns Every registered token
+ */
+export const loadTokenRegistry = (): Promise<TokenInfo[]> => {
+  if (!loading) {
+    loading = refreshTokenRegistry({
+      tokenListUrls: TOKEN_LIST_URLS,
+      fetchRemoteTokens: getQuantumExchangeTokens,
+      ethCall,
+    }).then(() => listTokens());
+  }
+  return loading;
+};
+
+/**
+ * Register tokens by contract address, reading their symbol and decimals on-chain
+ * @returns The tokens that were added
+ */
+export const registerTokenAddresses = (addresses: string[]): Promise<TokenInfo[]> =>
+  refreshTokenRegistry({ ethCall, addresses });
+
+export {
+  getToken,
+  getTokenAddress,
+  getTokenByAddress,
+  getTokenDecimals,
+  isNativeToken,
+  listTokens,
+} from "@/supabase/functions/_shared/tokens";
+export type { TokenInfo } from "@/supabase/functions/_shared/tokens";
+export {
+  mergeTokenLists,
+  toTokenList,
+  validateTokenList,
+} from "@/supabase/functions/_shared/tokenList";
+export type { TokenList } from "@/supabase/functions/_shared/tokenList";
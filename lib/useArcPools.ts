@@ -1,9 +1,11 @@
 import { useState, useCallback } from "react";
 import {
+  getKnownPools,
   getPoolBalances,
+  getPoolPriceImpact,
+  getPoolQuote,
   prepareSwapTransaction,
   listAvailablePools,
-  calculatePriceImpact,
   ARC_POOLS,
 } from "./arcNetwork";
 
@@ -65,12 +67,15 @@ export function useArcPools() {
   }, []);
 
   /**
-   * Get a swap quote
+   * Get a swap quote from a pool's `get_dy`, with price impact against its
+   * marginal rate
    */
   const getQuote = useCallback(
     async (
-      poolAddress: string
-      // Note: Pool-based API is deprecated. Use getSwapQuote with token addresses instead
+      poolAddress: string,
+      tokenInIndex: number,
+      tokenOutIndex: number,
+      amountIn: string
     ) => {
       setSwapQuote({
         amountOut: null,
@@ -80,17 +85,33 @@ export function useArcPools() {
       });
 
       try {
-        // Note: For the new token address-based API, this function signature
-        // needs to be updated. For now, keeping the pool-based version for backwards compatibility
-        const amountOut = BigInt(0).toString(); // Placeholder
+        const amountOut = BigInt(
+          await getPoolQuote(poolAddress, tokenInIndex, tokenOutIndex, amountIn)
+        ).toString();
 
-        // Fetch pool balances for price impact calculation
+        // Price impact needs the token symbols for their decimals
         let priceImpact = 0;
-        try {
-          const [balance0, balance1] = await getPoolBalances(poolAddress);
-          priceImpact = calculatePriceImpact(amountOut, balance0, balance1);
-        } catch {
-          // Price impact calculation is optional
+        const pool = Object.entries(getKnownPools()).find(
+          ([, poolInfo]) => poolInfo.address.toLowerCase() === poolAddress.toLowerCase()
+        );
+        if (pool) {
+          const [name, { tokens }] = pool;
+          try {
+            priceImpact = await getPoolPriceImpact(
+              {
+                pool: name,
+                poolAddress,
+                tokenIn: tokens[tokenInIndex],
+                tokenOut: tokens[tokenOutIndex],
+                tokenInIndex,
+                tokenOutIndex,
+              },
+              amountIn,
+              amountOut
+            );
+          } catch {
+            // Price impact calculation is optional
+          }
         }
 
         setSwapQuote({
@@ -0,0 +1,46 @@
+import { useState, useEffect } from "react";
+import { ChartPeriod, PRICE_SAMPLE_INTERVAL, PriceHistory, getPriceHistory } from "./priceHistoryService";
+
+/**
+ * Price history of a pair, reloaded as new samples are recorded
+ * @param base - Token whose price is charted
+ * @param quote - Token the price is given in
+ * @param period - Chart period
+ */
+export const usePriceHistory = (base: string, quote: string, period: ChartPeriod) => {
+  const [history, setHistory] = useState<PriceHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchHistory = async (initial: boolean) => {
+      if (initial) {
+        setLoading(true);
+        setError(null);
+        setHistory(null);
+      }
+      try {
+        const result = await getPriceHistory(base, quote, period);
+        if (!cancelled) setHistory(result);
+      } catch (err) {
+        console.error("Error fetching price history:", err);
+        if (!cancelled && initial) {
+          setError(err instanceof Error ? err.message : "Failed to fetch price history");
+        }
+      } finally {
+        if (initial && !cancelled) setLoading(false);
+      }
+    };
+
+    void fetchHistory(true);
+    const interval = setInterval(() => void fetchHistory(false), PRICE_SAMPLE_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [base, quote, period]);
+
+  return { history, loading, error };
+};
@@ -0,0 +1,42 @@
+import { useState, useEffect } from "react";
+import { PRICE_CONFIG, TokenPrice, getTokenPrices } from "./priceService";
+
+/**
+ * USD prices of tokens, re-quoted whenever the cached prices expire
+ * @param symbols - Token symbols to price
+ */
+export const useTokenPrices = (symbols: string[]) => {
+  const [prices, setPrices] = useState<Record<string, TokenPrice>>({});
+  const [loading, setLoading] = useState(false);
+  // Stable across renders that pass the same symbols
+  const symbolsKey = [...new Set(symbols)].sort().join(",");
+
+  useEffect(() => {
+    if (!symbolsKey) {
+      setPrices({});
+      return;
+    }
+
+    let cancelled = false;
+    const list = symbolsKey.split(",");
+
+    const fetchPrices = async (initial: boolean) => {
+      if (initial) setLoading(true);
+      try {
+        const result = await getTokenPrices(list);
+        if (!cancelled) setPrices(result);
+      } finally {
+        if (initial && !cancelled) setLoading(false);
+      }
+    };
+
+    void fetchPrices(true);
+    const interval = setInterval(() => void fetchPrices(false), PRICE_CONFIG.ttlMs);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [symbolsKey]);
+
+  return { prices, loading };
+};
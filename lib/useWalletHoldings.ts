@@ -1,186 +1,139 @@
 import { useState, useEffect } from "react";
-import { StaticImageData } from "next/image";
-import { getTokenIcon } from "./tokenIcons";
-import { ARC_TESTNET_CONFIG } from "./arcNetwork";
+import { TokenIcon, getTokenIcon } from "./tokenIcons";
+import { arcRpc, fetchWalletBalances } from "./arcNetwork";
+import { TokenInfo, loadTokenRegistry } from "./tokenRegistry";
+import { loadCustomTokens } from "./customTokenService";
+import { formatUsdPrice, getTokenPrices } from "./priceService";
+import { fromBaseUnits } from "@/supabase/functions/_shared/units";
 
 export interface WalletHolding {
   token: string;
-  icon: StaticImageData | null;
+  icon: TokenIcon | null;
   balance: string;
   price: string;
   value: string;
   rawBalance: number;
+  /** Price change in % over the last 24h, or null if unknown */
+  change24h: number | null;
 }
 
-const COMMON_ERC20_TOKENS = {
-  WUSDC: "0xD40fCAa5d2cE963c5dABC2bf59E268489ad7BcE4",
-  QTM: "0xCD304d2A421BFEd31d45f0054AF8E8a6a4cF3EaE",
-  EURC: "0x89B50855Aa3bE2F677cD6303Cec089B5F319D72a",
-  SWPRC: "0xBE7477BF91526FC9988C8f33e91B6db687119D45",
-};
+// Balances below this are dust and left out of holdings
+const DUST_BALANCE = 0.000001;
+
+// How often to check for a new block (ms); balances are re-read when one arrives
+const BLOCK_POLL_INTERVAL = 15000;
 
-// ERC20 ABI for token balance queries
-const ERC20_ABI = [
-  {
-    constant: true,
-    inputs: [{ name: "_owner", type: "address" }],
-    name: "balanceOf",
-    outputs: [{ name: "balance", type: "uint256" }],
-    type: "function",
-  },
-  {
-    constant: true,
-    inputs: [],
-    name: "decimals",
-    outputs: [{ name: "", type: "uint8" }],
-    type: "function",
-  },
-];
-
-const RPC_URL = ARC_TESTNET_CONFIG.rpcUrl;
+// Refetch callbacks of every mounted useWalletHoldings
+const refreshListeners = new Set<() => void>();
+
+/**
+ * Re-read balances in every mounted useWalletHoldings, e.g. after a swap
+ */
+export const refreshWalletHoldings = (): void => {
+  refreshListeners.forEach((listener) => listener());
+};
 
 export const useWalletHoldings = (walletAddress: string | null) => {
   const [holdings, setHoldings] = useState<WalletHolding[]>([]);
+  // Balance of every known token by symbol, including zero balances
+  const [balances, setBalances] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     if (!walletAddress) {
       setHoldings([]);
+      setBalances({});
       return;
     }
 
-    const fetchHoldings = async () => {
-      setLoading(true);
-      setError(null);
-      try {
-        // Helper function to make JSON-RPC calls
-        const jsonRpcCall = async (method: string, params: unknown[]) => {
-          const response = await fetch(RPC_URL, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              jsonrpc: "2.0",
-              method,
-              params,
-              id: 1,
-            }),
-          });
-          const data = await response.json();
-          if (data.error) {
-            throw new Error(data.error.message);
-          }
-          return data.result;
-        };
+    let cancelled = false;
+    let fetching = false;
+    let refetch = false;
+    let lastBlock: string | null = null;
 
-        // Fetch native balance (USDC on Arc)
-        const nativeBalance = await jsonRpcCall("eth_getBalance", [
-          walletAddress,
-          "latest",
+    // The first fetch shows the loading state; later ones update in place
+    const fetchHoldings = async (initial: boolean) => {
+      if (fetching) {
+        refetch = true;
+        return;
+      }
+      fetching = true;
+      if (initial) {
+        setLoading(true);
+        setError(null);
+      }
+      try {
+        // Fetch balances of every deployed ERC-20 in the token registry, plus
+        // the tokens this wallet imported (other wallets' imports are skipped)
+        const [registryTokens, customTokens] = await Promise.all([
+          loadTokenRegistry(),
+          loadCustomTokens(walletAddress).catch((err) => {
+            console.warn("Failed to load custom tokens", err);
+            return [];
+          }),
         ]);
-        const nativeBalanceWei = parseInt(nativeBalance, 16);
-        const nativeBalanceFormatted = nativeBalanceWei / 1e18;
-
-        // Fetch token balances using eth_call to balanceOf function
-        const tokenPromises = Object.entries(COMMON_ERC20_TOKENS).map(
-          async ([tokenName, tokenAddress]) => {
-            try {
-              // Encode balanceOf function call
-              // balanceOf(address) = 0x70a08231 + padded address
-              const data =
-                "0x70a08231" +
-                walletAddress.slice(2).padStart(64, "0");
-
-              const result = await jsonRpcCall("eth_call", [
-                {
-                  to: tokenAddress,
-                  data,
-                },
-                "latest",
-              ]);
-
-              // Handle empty result
-              if (!result || result === "0x") {
-                console.log(`No balance found for ${tokenName}`);
-                return { tokenName, balance: 0 };
-              }
-
-              const balance = parseInt(result, 16);
-              console.log(`${tokenName} balance (raw): ${balance}`);
-              return { tokenName, balance };
-            } catch (err) {
-              console.error(`Error fetching ${tokenName} balance:`, err);
-              return { tokenName, balance: 0 };
-            }
-          }
+        const erc20Tokens = [
+          ...registryTokens.filter((token) => !token.custom),
+          ...customTokens,
+        ].filter(
+          (token): token is TokenInfo & { address: string } => !!token.address && !token.native
         );
 
-        const tokenBalances = await Promise.all(tokenPromises);
+        // Native balance (USDC on Arc) and every ERC-20 balance in one request
+        const { native, tokens } = await fetchWalletBalances(
+          walletAddress,
+          erc20Tokens.map((token) => token.address)
+        );
+        if (cancelled) return;
 
-        // Get token prices from CoinGecko
-        let priceMap: Record<string, number> = {
-          USDC: 1,
-          WUSDC: 1,
-          QTM: 0,
-          EURC: 1,
-          SWPRC: 0,
-        };
+        const nativeBalanceFormatted = fromBaseUnits(native, 18);
+        const tokenBalances = erc20Tokens.map(({ symbol: tokenName, decimals }, i) => ({
+          tokenName,
+          balance: fromBaseUnits(tokens[i], decimals),
+        }));
 
-        try {
-          const priceResponse = await fetch(
-            "https://api.coingecko.com/api/v3/simple/price?ids=usd-coin,stasis-eur-coin&vs_currencies=usd"
-          );
-          const prices = await priceResponse.json();
-          priceMap = {
-            USDC: prices["usd-coin"]?.usd || 1,
-            WUSDC: prices["usd-coin"]?.usd || 1,
-            QTM: 0,
-            EURC: prices["stasis-eur-coin"]?.usd || 1,
-            SWPRC: 0,
+        const newBalances: Record<string, number> = { USDC: nativeBalanceFormatted };
+        tokenBalances.forEach(({ tokenName, balance }) => {
+          newBalances[tokenName] = balance;
+        });
+        setBalances(newBalances);
+
+        // USD prices quoted on-chain, only for tokens the wallet holds
+        const held = [
+          ...(nativeBalanceFormatted >= DUST_BALANCE ? ["USDC"] : []),
+          ...tokenBalances
+            .filter(({ balance }) => balance >= DUST_BALANCE)
+            .map(({ tokenName }) => tokenName),
+        ];
+        const prices = await getTokenPrices(held);
+        if (cancelled) return;
+
+        const toHolding = (token: string, balance: number): WalletHolding => {
+          const price = prices[token];
+          return {
+            token,
+            icon: getTokenIcon(token),
+            balance: balance.toFixed(6),
+            // Tokens that can't be quoted against USDC are shown without a value
+            price: price ? formatUsdPrice(price.usd) : "—",
+            value: `$${(price ? balance * price.usd : 0).toFixed(2)}`,
+            rawBalance: balance,
+            change24h: price?.change24h ?? null,
           };
-        } catch (err) {
-          console.warn("Failed to fetch prices from CoinGecko, using defaults", err);
-        }
+        };
 
         const newHoldings: WalletHolding[] = [];
 
         // Add native USDC balance
-        if (nativeBalanceFormatted > 0.000001) {
-          const price = priceMap.USDC;
-          newHoldings.push({
-            token: "USDC",
-            icon: getTokenIcon("USDC"),
-            balance: nativeBalanceFormatted.toFixed(6),
-            price: `$${price.toFixed(2)}`,
-            value: `$${(nativeBalanceFormatted * price).toFixed(2)}`,
-            rawBalance: nativeBalanceFormatted,
-          });
+        if (nativeBalanceFormatted >= DUST_BALANCE) {
+          newHoldings.push(toHolding("USDC", nativeBalanceFormatted));
         }
 
-        // Add ERC20 tokens
+        // Add ERC20 tokens, skipping dust
         tokenBalances.forEach(({ tokenName, balance }) => {
-          if (balance > 0) {
-            // USDC, WUSDC, and EURC use 6 decimals; others use 18
-            const decimals =
-              tokenName === "USDC" || tokenName === "WUSDC" || tokenName === "EURC" ? 6 : 18;
-            const formattedBalance = balance / Math.pow(10, decimals);
-            
-            // Skip if balance is too small (dust)
-            if (formattedBalance < 0.000001) return;
-            
-            const price = priceMap[tokenName] || 0;
-            const value = formattedBalance * price;
-
-            console.log(`Adding ${tokenName}: ${formattedBalance} (price: ${price})`);
-
-            newHoldings.push({
-              token: tokenName,
-              icon: getTokenIcon(tokenName),
-              balance: formattedBalance.toFixed(6),
-              price: `$${price.toFixed(2)}`,
-              value: `$${value.toFixed(2)}`,
-              rawBalance: formattedBalance,
-            });
+          if (balance >= DUST_BALANCE) {
+            newHoldings.push(toHolding(tokenName, balance));
           }
         });
 
@@ -191,22 +144,57 @@ export const useWalletHoldings = (walletAddress: string | null) => {
             parseFloat(a.value.replace("$", ""))
         );
 
+        if (cancelled) return;
         setHoldings(newHoldings);
       } catch (err) {
         console.error("Error fetching wallet holdings:", err);
+        if (cancelled || !initial) return;
         setError(
           err instanceof Error ? err.message : "Failed to fetch holdings"
         );
         setHoldings([]);
       } finally {
-        setLoading(false);
+        fetching = false;
+        if (initial && !cancelled) setLoading(false);
+        if (refetch && !cancelled) {
+          refetch = false;
+          void fetchHoldings(false);
+        }
+      }
+    };
+
+    // Re-read balances when the chain has moved on since the last check
+    const pollBlockNumber = async () => {
+      if (typeof document !== "undefined" && document.hidden) return;
+      try {
+        const blockNumber = await arcRpc.call("eth_blockNumber", []);
+        if (cancelled) return;
+        if (lastBlock !== null && blockNumber !== lastBlock) {
+          void fetchHoldings(false);
+        }
+        lastBlock = blockNumber;
+      } catch (err) {
+        console.warn("Failed to poll block number", err);
       }
     };
 
+    const refresh = () => void fetchHoldings(false);
+    refreshListeners.add(refresh);
+
     // Debounce the fetch to avoid too many API calls
-    const timer = setTimeout(fetchHoldings, 300);
-    return () => clearTimeout(timer);
+    const timer = setTimeout(() => {
+      void fetchHoldings(true);
+      void pollBlockNumber();
+    }, 300);
+    const interval = setInterval(pollBlockNumber, BLOCK_POLL_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      clearInterval(interval);
+      refreshListeners.delete(refresh);
+    };
   }, [walletAddress]);
 
-  return { holdings, loading, error };
+  return { holdings, balances, loading, error, refresh: refreshWalletHoldings };
 };
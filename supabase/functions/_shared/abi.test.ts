@@ -0,0 +1,319 @@
+import { describe, expect, it } from "vitest";
+import {
+  type Abi,
+  type AbiParameter,
+  decodeFunctionResult,
+  decodeParameters,
+  decodeRevert,
+  encodeFunctionData,
+  encodeParameters,
+  getSelector,
+  getSignature,
+} from "./abi.ts";
+import { MULTICALL3_ABI } from "./multicall.ts";
+
+/** Concatenate 32-byte words given as unpadded hex */
+const words = (...values: string[]): string => values.map((value) => value.padStart(64, "0")).join("");
+
+/** Right-pad hex to a whole number of words */
+const padded = (hex: string): string => hex.padEnd(Math.ceil(hex.length / 64) * 64, "0");
+
+const ADDRESS = "0x" + "Ab".repeat(20);
+
+// Examples from the Solidity ABI specification
+const SPEC_ABI = [
+  {
+    type: "function",
+    name: "baz",
+    inputs: [
+      { name: "x", type: "uint32" },
+      { name: "y", type: "bool" },
+    ],
+    outputs: [{ name: "r", type: "bool" }],
+  },
+  {
+    type: "function",
+    name: "bar",
+    inputs: [{ name: "x", type: "bytes3[2]" }],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "sam",
+    inputs: [
+      { name: "name", type: "bytes" },
+      { name: "z", type: "bool" },
+      { name: "data", type: "uint256[]" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "f",
+    inputs: [
+      { name: "a", type: "uint256" },
+      { name: "b", type: "uint32[]" },
+      { name: "c", type: "bytes10" },
+      { name: "d", type: "bytes" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "g",
+    inputs: [
+      { name: "a", type: "uint256[][]" },
+      { name: "b", type: "string[]" },
+    ],
+    outputs: [],
+  },
+] as const;
+
+describe("static types", () => {
+  it("encodes uint32 and bool (baz)", () => {
+    expect(getSelector(SPEC_ABI[0])).toBe("0xcdcd77c0");
+    expect(encodeFunctionData(SPEC_ABI, "baz", [69, true])).toBe("0xcdcd77c0" + words("45", "1"));
+  });
+
+  it("encodes fixed arrays of fixed-size bytes (bar)", () => {
+    expect(encodeFunctionData(SPEC_ABI, "bar", [["0x616263", "0x646566"]])).toBe(
+      "0xfce353f6" + padded("616263") + padded("646566")
+    );
+  });
+
+  it("encodes signed integers in two's complement", () => {
+    const params: AbiParameter[] = [{ type: "int256" }, { type: "int8" }];
+    const encoded = encodeParameters(params, [-1, -128]);
+    expect(encoded).toBe("0x" + "f".repeat(64) + "f".repeat(62) + "80");
+    expect(decodeParameters(params, encoded)).toEqual([BigInt(-1), BigInt(-128)]);
+  });
+
+  it("round-trips addresses, bools and bytes32", () => {
+    const params: AbiParameter[] = [{ type: "address" }, { type: "bool" }, { type: "bytes32" }];
+    const bytes32 = "0x" + "12".repeat(32);
+    const encoded = encodeParameters(params, [ADDRESS, false, bytes32]);
+    expect(encoded).toBe("0x" + words("ab".repeat(20), "0") + "12".repeat(32));
+    expect(decodeParameters(params, encoded)).toEqual([ADDRESS.toLowerCase(), false, bytes32]);
+  });
+
+  it("rejects values that do not fit their type", () => {
+    expect(() => encodeParameters([{ type: "uint8" }], [256])).toThrow("out of range");
+    expect(() => encodeParameters([{ type: "int8" }], [-129])).toThrow("out of range");
+    expect(() => encodeParameters([{ type: "uint256" }], [-1])).toThrow("out of range");
+    expect(() => encodeParameters([{ type: "address" }], ["0x1234"])).toThrow("Invalid address");
+    expect(() => encodeParameters([{ type: "bytes3" }], ["0x61"])).toThrow("Expected 3 bytes");
+  });
+});
+
+describe("dynamic types", () => {
+  it("encodes bytes, bool and uint256[] (sam)", () => {
+    const encoded = encodeFunctionData(SPEC_ABI, "sam", ["0x64617665", true, [1, 2, 3]]);
+    expect(encoded).toBe(
+      "0xa5643bf2" +
+        words("60", "1", "a0") +
+        words("4") +
+        padded("64617665") +
+        words("3", "1", "2", "3")
+    );
+  });
+
+  it("mixes static and dynamic parameters (f)", () => {
+    const expected =
+      "0x8be65246" +
+      words("123", "80") +
+      padded("31323334353637383930") +
+      words("e0", "2", "456", "789", "d") +
+      padded("48656c6c6f2c20776f726c6421");
+    expect(
+      encodeFunctionData(SPEC_ABI, "f", [
+        "0x123",
+        ["0x456", "0x789"],
+        "0x31323334353637383930",
+        "0x48656c6c6f2c20776f726c6421",
+      ])
+    ).toBe(expected);
+
+    const params = SPEC_ABI[3].inputs;
+    expect(decodeParameters(params, expected.slice(10))).toEqual([
+      BigInt(0x123),
+      [BigInt(0x456), BigInt(0x789)],
+      "0x31323334353637383930",
+      "0x48656c6c6f2c20776f726c6421",
+    ]);
+  });
+
+  it("encodes nested dynamic arrays and string arrays (g)", () => {
+    const expected =
+      "0x2289b18c" +
+      words("40", "140") +
+      words("2", "40", "a0", "2", "1", "2", "1", "3") +
+      words("3", "60", "a0", "e0") +
+      words("3") +
+      padded("6f6e65") +
+      words("3") +
+      padded("74776f") +
+      words("5") +
+      padded("7468726565");
+    expect(
+      encodeFunctionData(SPEC_ABI, "g", [
+        [[1, 2], [3]],
+        ["one", "two", "three"],
+      ])
+    ).toBe(expected);
+    expect(decodeParameters(SPEC_ABI[4].inputs, expected.slice(10))).toEqual([
+      [[BigInt(1), BigInt(2)], [BigInt(3)]],
+      ["one", "two", "three"],
+    ]);
+  });
+
+  it("round-trips empty and multi-byte strings", () => {
+    const params: AbiParameter[] = [{ type: "string" }, { type: "string" }, { type: "bytes" }];
+    const encoded = encodeParameters(params, ["", "Tower ✓", "0x"]);
+    expect(decodeParameters(params, encoded)).toEqual(["", "Tower ✓", "0x"]);
+  });
+
+  it("rejects offsets that point outside the data", () => {
+    expect(() => decodeParameters([{ type: "bytes" }], "0x" + words("ffff"))).toThrow("out of bounds");
+    expect(() => decodeParameters([{ type: "bytes" }], "0x" + words("20", "40"))).toThrow("too short");
+  });
+});
+
+describe("tuples", () => {
+  const NESTED: AbiParameter[] = [
+    {
+      name: "position",
+      type: "tuple",
+      components: [
+        { name: "amount", type: "uint256" },
+        {
+          name: "owner",
+          type: "tuple",
+          components: [
+            { name: "account", type: "address" },
+            { name: "active", type: "bool" },
+          ],
+        },
+      ],
+    },
+    {
+      name: "label",
+      type: "tuple",
+      components: [
+        { name: "text", type: "string" },
+        { name: "ids", type: "uint256[]" },
+      ],
+    },
+  ];
+
+  const EXPECTED =
+    "0x" +
+    // Static nested tuple inline, then the offset of the dynamic one
+    words("7", "ab".repeat(20), "1", "80") +
+    words("40", "80", "2") +
+    padded("6162") +
+    words("1", "5");
+
+  it("formats tuple types in signatures", () => {
+    expect(
+      getSignature({ type: "function", name: "h", inputs: NESTED, outputs: [] })
+    ).toBe("h((uint256,(address,bool)),(string,uint256[]))");
+  });
+
+  it("encodes nested static tuples inline and dynamic tuples by offset", () => {
+    expect(encodeParameters(NESTED, [[7, [ADDRESS, true]], ["ab", [5]]])).toBe(EXPECTED);
+  });
+
+  it("accepts tuples as objects keyed by component name", () => {
+    expect(
+      encodeParameters(NESTED, [
+        { amount: 7, owner: { account: ADDRESS, active: true } },
+        { text: "ab", ids: [5] },
+      ])
+    ).toBe(EXPECTED);
+  });
+
+  it("decodes nested and dynamic tuples", () => {
+    expect(decodeParameters(NESTED, EXPECTED)).toEqual([
+      [BigInt(7), [ADDRESS.toLowerCase(), true]],
+      ["ab", [BigInt(5)]],
+    ]);
+  });
+});
+
+describe("decodeRevert", () => {
+  it("decodes Error(string)", () => {
+    // revert("Not enough Ether provided.")
+    const data =
+      "0x08c379a0" + words("20", "1a") + padded("4e6f7420656e6f7567682045746865722070726f76696465642e");
+    expect(decodeRevert(data)).toEqual({
+      name: "Error",
+      args: ["Not enough Ether provided."],
+      reason: "Not enough Ether provided.",
+    });
+  });
+
+  it("decodes Panic(uint256)", () => {
+    // Arithmetic overflow
+    expect(decodeRevert("0x4e487b71" + words("11"))).toEqual({
+      name: "Panic",
+      args: [BigInt(0x11)],
+      reason: null,
+    });
+  });
+
+  it("decodes custom errors from the ABI", () => {
+    const abi: Abi = [
+      {
+        type: "error",
+        name: "InsufficientOutput",
+        inputs: [
+          { name: "expected", type: "uint256" },
+          { name: "actual", type: "uint256" },
+        ],
+      },
+    ];
+    const selector = getSelector(abi[0]);
+    expect(decodeRevert(selector + words("64", "63"), abi)).toEqual({
+      name: "InsufficientOutput",
+      args: [BigInt(100), BigInt(99)],
+      reason: null,
+    });
+  });
+
+  it("returns null for empty, unknown or malformed data", () => {
+    expect(decodeRevert("0x")).toBeNull();
+    expect(decodeRevert(undefined)).toBeNull();
+    expect(decodeRevert("0xdeadbeef" + words("1"))).toBeNull();
+    expect(decodeRevert("0x08c379a0" + words("20"))).toBeNull();
+  });
+});
+
+describe("aggregate3", () => {
+  it("round-trips calls", () => {
+    const calls = [
+      { target: ADDRESS, allowFailure: true, callData: "0x70a08231" + words("ab".repeat(20)) },
+      { target: "0x" + "01".repeat(20), allowFailure: false, callData: "0x18160ddd" },
+    ];
+    const encoded = encodeFunctionData(MULTICALL3_ABI, "aggregate3", [calls]);
+    expect(encoded.slice(0, 10)).toBe("0x82ad56cb");
+    expect(decodeParameters(MULTICALL3_ABI[0].inputs, encoded.slice(10))).toEqual([
+      calls.map(({ target, allowFailure, callData }) => [target.toLowerCase(), allowFailure, callData]),
+    ]);
+  });
+
+  it("decodes results, including failed calls with empty return data", () => {
+    const returnData =
+      "0x" +
+      words("20") +
+      words("2", "40", "c0") +
+      words("1", "40", "20", "2a") +
+      words("0", "40", "0");
+    const expected = [
+      [true, "0x" + words("2a")],
+      [false, "0x"],
+    ];
+
+    expect(decodeFunctionResult(MULTICALL3_ABI, "aggregate3", returnData)).toEqual([expected]);
+    expect(encodeParameters(MULTICALL3_ABI[0].outputs, [expected])).toBe(returnData);
+  });
+});
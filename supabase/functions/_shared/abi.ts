@@ -0,0 +1,422 @@
+/**
+ * Solidity ABI encoding and decoding shared by the app and Edge Functions
+ *
+ * Works from JSON ABI definitions (SWAP_ROUTER_ABI, LIQUIDITY_POOL_ABI,
+ * ERC20_ABI, ...) declared `as const`, so function names, arguments and
+ * results are typed from the ABI. Supports static and dynamic types, fixed
+ * and dynamic arrays, tuples, and revert data (Error(string), Panic(uint256)
+ * and custom errors).
+ *
+ * Hex strings are 0x-prefixed; addresses are returned lowercase.
+ */
+
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+
+export interface AbiParameter {
+  readonly name?: string;
+  readonly type: string;
+  readonly components?: readonly AbiParameter[];
+}
+
+export interface AbiFunction {
+  readonly type: "function";
+  readonly name: string;
+  readonly stateMutability?: string;
+  readonly inputs: readonly AbiParameter[];
+  readonly outputs: readonly AbiParameter[];
+}
+
+export interface AbiError {
+  readonly type: "error";
+  readonly name: string;
+  readonly inputs: readonly AbiParameter[];
+}
+
+export type Abi = readonly (AbiFunction | AbiError)[];
+
+/** Decoded value: integers are bigints, addresses/bytes/strings are strings */
+export type AbiValue = bigint | boolean | string | readonly AbiValue[];
+
+/** Value accepted for encoding: integers may also be numbers or decimal/hex strings */
+export type AbiInput = bigint | number | boolean | string | readonly AbiInput[] | { readonly [name: string]: AbiInput };
+
+type OutputOf<T extends string> = string extends T
+  ? AbiValue
+  : T extends `${infer Inner}[]` | `${infer Inner}[${number}]`
+  ? readonly OutputOf<Inner>[]
+  : T extends "bool"
+  ? boolean
+  : T extends `uint${string}` | `int${string}`
+  ? bigint
+  : T extends "tuple"
+  ? readonly AbiValue[]
+  : string;
+
+type InputOf<T extends string> = string extends T
+  ? AbiInput
+  : T extends `${infer Inner}[]` | `${infer Inner}[${number}]`
+  ? readonly InputOf<Inner>[]
+  : T extends "bool"
+  ? boolean
+  : T extends `uint${string}` | `int${string}`
+  ? bigint | number | string
+  : T extends "tuple"
+  ? AbiInput
+  : string;
+
+export type ParameterOutputs<P extends readonly AbiParameter[]> = {
+  -readonly [K in keyof P]: P[K] extends { type: infer T extends string } ? OutputOf<T> : never;
+};
+
+export type ParameterInputs<P extends readonly AbiParameter[]> = {
+  -readonly [K in keyof P]: P[K] extends { type: infer T extends string } ? InputOf<T> : never;
+};
+
+type FunctionItem<TAbi extends Abi, TName extends string> = Extract<
+  TAbi[number],
+  { type: "function"; name: TName }
+>;
+
+export type FunctionName<TAbi extends Abi> = Extract<TAbi[number], { type: "function" }>["name"];
+
+export type FunctionArgs<TAbi extends Abi, TName extends FunctionName<TAbi>> = ParameterInputs<
+  FunctionItem<TAbi, TName>["inputs"]
+>;
+
+export type FunctionResult<TAbi extends Abi, TName extends FunctionName<TAbi>> = ParameterOutputs<
+  FunctionItem<TAbi, TName>["outputs"]
+>;
+
+export interface DecodedRevert {
+  /** Error name: "Error" for require/revert strings, "Panic" for assertions */
+  name: string;
+  args: AbiValue[];
+  /** Error(string) message, or null for other errors */
+  reason: string | null;
+}
+
+// Built-in revert errors
+const REVERT_ERRORS: Abi = [
+  { type: "error", name: "Error", inputs: [{ name: "message", type: "string" }] },
+  { type: "error", name: "Panic", inputs: [{ name: "code", type: "uint256" }] },
+];
+
+const WORD_BYTES = 32;
+const WORD_HEX = WORD_BYTES * 2;
+const TWO_256 = BigInt(1) << BigInt(256);
+
+const strip0x = (hex: string): string => (hex.startsWith("0x") ? hex.slice(2) : hex);
+const padLeft = (hex: string): string => hex.padStart(WORD_HEX, "0");
+const padRight = (hex: string): string =>
+  hex.padEnd(Math.ceil(hex.length / WORD_HEX) * WORD_HEX, "0");
+
+/** Element type and length of an array type, or null for non-arrays */
+function arrayType(param: AbiParameter): { element: AbiParameter; length: number | null } | null {
+  const match = param.type.match(/^(.*)\[(\d*)\]$/);
+  if (!match) return null;
+  return {
+    element: { ...param, type: match[1] },
+    length: match[2] === "" ? null : Number(match[2]),
+  };
+}
+
+function isDynamic(param: AbiParameter): boolean {
+  if (param.type === "string" || param.type === "bytes") return true;
+  const array = arrayType(param);
+  if (array) return array.length === null || isDynamic(array.element);
+  if (param.type === "tuple") return (param.components ?? []).some(isDynamic);
+  return false;
+}
+
+/** Bytes taken by a parameter in the head of its enclosing tuple */
+function headSize(param: AbiParameter): number {
+  if (isDynamic(param)) return WORD_BYTES;
+  const array = arrayType(param);
+  if (array) return (array.length ?? 0) * headSize(array.element);
+  if (param.type === "tuple") {
+    return (param.components ?? []).reduce((size, component) => size + headSize(component), 0);
+  }
+  return WORD_BYTES;
+}
+
+/**
+ * Canonical type of a parameter as used in signatures, e.g. `(uint256,address)[]`
+ */
+export function formatParameterType(param: AbiParameter): string {
+  if (param.type.startsWith("tuple")) {
+    return `(${(param.components ?? []).map(formatParameterType).join(",")})${param.type.slice(5)}`;
+  }
+  return param.type;
+}
+
+/**
+ * Signature of a function or error, e.g. `balanceOf(address)`
+ */
+export function getSignature(item: AbiFunction | AbiError): string {
+  return `${item.name}(${item.inputs.map(formatParameterType).join(",")})`;
+}
+
+const selectors = new Map<string, string>();
+
+/**
+ * 4-byte selector of a function or error
+ */
+export function getSelector(item: AbiFunction | AbiError): string {
+  const signature = getSignature(item);
+  let selector = selectors.get(signature);
+  if (!selector) {
+    selector = `0x${bytesToHex(keccak_256(utf8ToBytes(signature)).slice(0, 4))}`;
+    selectors.set(signature, selector);
+  }
+  return selector;
+}
+
+function encodeInteger(param: AbiParameter, value: AbiInput): string {
+  if (typeof value !== "bigint" && typeof value !== "number" && typeof value !== "string") {
+    throw new Error(`Invalid ${param.type} value: ${String(value)}`);
+  }
+  const signed = param.type.startsWith("int");
+  const bits = Number(param.type.slice(signed ? 3 : 4) || 256);
+  const n = BigInt(value);
+  const min = signed ? -(BigInt(1) << BigInt(bits - 1)) : BigInt(0);
+  const max = (BigInt(1) << BigInt(signed ? bits - 1 : bits)) - BigInt(1);
+  if (n < min || n > max) {
+    throw new Error(`Value ${n} is out of range for ${param.type}`);
+  }
+  return padLeft((n < BigInt(0) ? TWO_256 + n : n).toString(16));
+}
+
+function encodeBytes(bytes: Uint8Array): string {
+  return padLeft(bytes.length.toString(16)) + padRight(bytesToHex(bytes));
+}
+
+function encodeValue(param: AbiParameter, value: AbiInput): string {
+  const array = arrayType(param);
+  if (array) {
+    if (!Array.isArray(value)) throw new Error(`Expected an array for ${param.type}`);
+    if (array.length !== null && value.length !== array.length) {
+      throw new Error(`Expected ${array.length} values for ${param.type}, got ${value.length}`);
+    }
+    const encoded = encodeParameters(Array(value.length).fill(array.element), value);
+    return (array.length === null ? padLeft(value.length.toString(16)) : "") + strip0x(encoded);
+  }
+
+  if (param.type === "tuple") {
+    const components = param.components ?? [];
+    const values = Array.isArray(value)
+      ? value
+      : components.map((component) => (value as Record<string, AbiInput>)[component.name ?? ""]);
+    return strip0x(encodeParameters(components, values));
+  }
+
+  if (param.type === "address") {
+    if (typeof value !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(value)) {
+      throw new Error(`Invalid address: ${String(value)}`);
+    }
+    return padLeft(strip0x(value).toLowerCase());
+  }
+  if (param.type === "bool") {
+    return padLeft(value ? "1" : "0");
+  }
+  if (param.type === "string") {
+    return encodeBytes(utf8ToBytes(String(value)));
+  }
+  if (param.type === "bytes") {
+    return encodeBytes(hexToBytes(strip0x(String(value))));
+  }
+  if (/^bytes\d+$/.test(param.type)) {
+    const size = Number(param.type.slice(5));
+    const hex = strip0x(String(value));
+    if (hex.length !== size * 2) throw new Error(`Expected ${size} bytes for ${param.type}`);
+    return padRight(hex.toLowerCase());
+  }
+  if (/^u?int\d*$/.test(param.type)) {
+    return encodeInteger(param, value);
+  }
+
+  throw new Error(`Unsupported ABI type: ${param.type}`);
+}
+
+/**
+ * ABI-encode values for a parameter list
+ * @returns 0x-prefixed encoding
+ * @throws If a value does not fit its type or the counts differ
+ */
+export function encodeParameters(params: readonly AbiParameter[], values: readonly AbiInput[]): string {
+  if (params.length !== values.length) {
+    throw new Error(`Expected ${params.length} values, got ${values.length}`);
+  }
+
+  const headLength = params.reduce((size, param) => size + headSize(param), 0);
+  let head = "";
+  let tail = "";
+  params.forEach((param, i) => {
+    const encoded = encodeValue(param, values[i]);
+    if (isDynamic(param)) {
+      head += padLeft((headLength + tail.length / 2).toString(16));
+      tail += encoded;
+    } else {
+      head += encoded;
+    }
+  });
+
+  return `0x${head}${tail}`;
+}
+
+function readWord(data: string, offset: number): string {
+  const word = data.slice(offset * 2, offset * 2 + WORD_HEX);
+  if (word.length !== WORD_HEX) {
+    throw new Error("ABI decoding failed: data is too short");
+  }
+  return word;
+}
+
+function readOffset(data: string, offset: number): number {
+  const value = BigInt(`0x${readWord(data, offset)}`);
+  if (value > BigInt(data.length / 2)) {
+    throw new Error("ABI decoding failed: offset is out of bounds");
+  }
+  return Number(value);
+}
+
+function readBytes(data: string, offset: number): string {
+  const length = readOffset(data, offset);
+  const start = (offset + WORD_BYTES) * 2;
+  const hex = data.slice(start, start + length * 2);
+  if (hex.length !== length * 2) {
+    throw new Error("ABI decoding failed: data is too short");
+  }
+  return hex;
+}
+
+/** Decode the value of `param` whose encoding starts at `offset` (in bytes) */
+function decodeValue(param: AbiParameter, data: string, offset: number): AbiValue {
+  const array = arrayType(param);
+  if (array) {
+    const length = array.length ?? readOffset(data, offset);
+    const start = array.length === null ? offset + WORD_BYTES : offset;
+    return decodeTuple(Array(length).fill(array.element), data, start);
+  }
+  if (param.type === "tuple") {
+    return decodeTuple(param.components ?? [], data, offset);
+  }
+
+  if (param.type === "string") {
+    return new TextDecoder().decode(hexToBytes(readBytes(data, offset)));
+  }
+  if (param.type === "bytes") {
+    return `0x${readBytes(data, offset)}`;
+  }
+
+  const word = readWord(data, offset);
+  if (param.type === "address") {
+    return `0x${word.slice(24)}`;
+  }
+  if (param.type === "bool") {
+    return BigInt(`0x${word}`) !== BigInt(0);
+  }
+  if (/^bytes\d+$/.test(param.type)) {
+    return `0x${word.slice(0, Number(param.type.slice(5)) * 2)}`;
+  }
+  if (/^uint\d*$/.test(param.type)) {
+    return BigInt(`0x${word}`);
+  }
+  if (/^int\d*$/.test(param.type)) {
+    const n = BigInt(`0x${word}`);
+    return n >= TWO_256 / BigInt(2) ? n - TWO_256 : n;
+  }
+
+  throw new Error(`Unsupported ABI type: ${param.type}`);
+}
+
+/** Decode a tuple whose head starts at `base` (in bytes) */
+function decodeTuple(params: readonly AbiParameter[], data: string, base: number): AbiValue[] {
+  let position = base;
+  return params.map((param) => {
+    const value = isDynamic(param)
+      ? decodeValue(param, data, base + readOffset(data, position))
+      : decodeValue(param, data, position);
+    position += headSize(param);
+    return value;
+  });
+}
+
+/**
+ * ABI-decode data for a parameter list
+ * @throws If the data is too short or an offset points outside it
+ */
+export function decodeParameters<P extends readonly AbiParameter[]>(
+  params: P,
+  data: string
+): ParameterOutputs<P> {
+  return decodeTuple(params, strip0x(data), 0) as ParameterOutputs<P>;
+}
+
+/**
+ * Find a function by name, picking the overload that takes `argCount` arguments
+ * @throws If the ABI has no such function
+ */
+export function getAbiFunction(abi: Abi, name: string, argCount?: number): AbiFunction {
+  const candidates = abi.filter(
+    (item): item is AbiFunction => item.type === "function" && item.name === name
+  );
+  const item =
+    argCount === undefined
+      ? candidates[0]
+      : candidates.find((candidate) => candidate.inputs.length === argCount);
+  if (!item) {
+    throw new Error(`Unknown function: ${name}${argCount === undefined ? "" : ` with ${argCount} arguments`}`);
+  }
+  return item;
+}
+
+/**
+ * Calldata for a call to `name` with `args`
+ * @throws If the function is not in the ABI or an argument does not fit its type
+ */
+export function encodeFunctionData<TAbi extends Abi, TName extends FunctionName<TAbi>>(
+  abi: TAbi,
+  name: TName,
+  args: FunctionArgs<TAbi, TName>
+): string {
+  const values = args as readonly AbiInput[];
+  const item = getAbiFunction(abi, name, values.length);
+  return getSelector(item) + strip0x(encodeParameters(item.inputs, values));
+}
+
+/**
+ * Decode the return data of a call to `name`
+ * @throws If the function is not in the ABI or the data is malformed
+ */
+export function decodeFunctionResult<TAbi extends Abi, TName extends FunctionName<TAbi>>(
+  abi: TAbi,
+  name: TName,
+  data: string
+): FunctionResult<TAbi, TName> {
+  const item = getAbiFunction(abi, name);
+  return decodeParameters(item.outputs, data) as FunctionResult<TAbi, TName>;
+}
+
+/**
+ * Decode revert data as Error(string), Panic(uint256) or one of the ABI's errors
+ * @returns The error, or null if the data is empty, unknown or malformed
+ */
+export function decodeRevert(data: string | null | undefined, abi: Abi = []): DecodedRevert | null {
+  const hex = strip0x(data ?? "");
+  if (hex.length < 8) return null;
+
+  const selector = `0x${hex.slice(0, 8)}`;
+  const item = [...REVERT_ERRORS, ...abi].find(
+    (candidate): candidate is AbiError => candidate.type === "error" && getSelector(candidate) === selector
+  );
+  if (!item) return null;
+
+  try {
+    const args = decodeParameters(item.inputs, hex.slice(8));
+    const reason = item === REVERT_ERRORS[0] ? (args[0] as string) : null;
+    return { name: item.name, args, reason };
+  } catch {
+    return null;
+  }
+}
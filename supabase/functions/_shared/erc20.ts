@@ -0,0 +1,108 @@
+/**
+ * ERC20 call encoding shared by the app and Edge Functions
+ */
+
+import { decodeFunctionResult, encodeFunctionData } from "./abi.ts";
+
+// ERC20 ABI for token reads and approvals
+export const ERC20_ABI = [
+  {
+    name: "balanceOf",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "allowance",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "approve",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    name: "decimals",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+  {
+    name: "symbol",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+  },
+  {
+    name: "name",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+  },
+] as const;
+
+function withHexPrefix(address: string): string {
+  return address.startsWith("0x") ? address : `0x${address}`;
+}
+
+/**
+ * Calldata for `balanceOf(owner)`
+ */
+export function encodeBalanceOf(owner: string): string {
+  return encodeFunctionData(ERC20_ABI, "balanceOf", [withHexPrefix(owner)]);
+}
+
+/**
+ * Calldata for `allowance(owner, spender)`
+ */
+export function encodeAllowance(owner: string, spender: string): string {
+  return encodeFunctionData(ERC20_ABI, "allowance", [withHexPrefix(owner), withHexPrefix(spender)]);
+}
+
+/**
+ * Calldata for `approve(spender, amount)`
+ */
+export function encodeApprove(spender: string, amount: bigint | string): string {
+  return encodeFunctionData(ERC20_ABI, "approve", [withHexPrefix(spender), amount]);
+}
+
+/**
+ * Decode a uint256 eth_call result; an empty result ("0x") is zero
+ */
+export function decodeUint256(result: string | null | undefined): bigint {
+  if (!result || result === "0x") return BigInt(0);
+  const [value] = decodeFunctionResult(ERC20_ABI, "balanceOf", result);
+  return value;
+}
+
+/**
+ * Decode a `string` eth_call result, or a `bytes32` one as returned by older
+ * tokens; empty results decode to ""
+ */
+export function decodeString(result: string | null | undefined): string {
+  const hex = (result ?? "").replace(/^0x/, "");
+  if (hex.length === 0) return "";
+
+  if (hex.length === 64) {
+    const bytes = hex.replace(/(00)+$/, "").match(/../g) ?? [];
+    return new TextDecoder().decode(new Uint8Array(bytes.map((byte) => parseInt(byte, 16))));
+  }
+
+  const [value] = decodeFunctionResult(ERC20_ABI, "symbol", hex);
+  return value;
+}
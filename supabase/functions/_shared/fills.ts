@@ -0,0 +1,132 @@
+/**
+ * Execution fills and DCA performance for recurring orders
+ *
+ * The executor reads what a swap actually delivered from its receipt and
+ * stores it on the execution; the dashboard aggregates those fills into an
+ * average cost basis and unrealized P&L. Prices follow the convention of
+ * _shared/priceProtection: the traded asset (the target of a buy, the source of
+ * a sell) priced in the other token.
+ */
+
+import { type PriceProtectedOrderType, quotedPrice } from "./priceProtection.ts";
+
+// keccak256("Transfer(address,address,uint256)")
+export const TRANSFER_TOPIC =
+  "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+export interface ReceiptLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+export interface ExecutionFill {
+  status: string;
+  amount: number;
+  amount_out?: number | null;
+  fee?: number | null;
+}
+
+export interface OrderPerformance {
+  /** Executions with a recorded fill */
+  filledExecutions: number;
+  /** Source token spent */
+  totalIn: number;
+  /** Target token received */
+  totalOut: number;
+  /** Average price of the traded asset in the other token */
+  averagePrice: number | null;
+  /** Gas fees paid, in the native token */
+  totalFees: number;
+  /** P&L in the other token against `currentPrice`, or null without a price */
+  unrealizedPnl: number | null;
+  unrealizedPnlPercent: number | null;
+}
+
+function topicAddress(topic: string | undefined): string {
+  return topic ? `0x${topic.slice(-40)}`.toLowerCase() : "";
+}
+
+/**
+ * Total ERC20 `Transfer`s of `tokenAddress` to `recipient` in a receipt's logs
+ * @returns Amount in base units
+ */
+export function sumTransfersTo(
+  logs: ReceiptLog[],
+  tokenAddress: string,
+  recipient: string
+): bigint {
+  let total = BigInt(0);
+  for (const log of logs) {
+    if (
+      log.address.toLowerCase() === tokenAddress.toLowerCase() &&
+      log.topics[0]?.toLowerCase() === TRANSFER_TOPIC &&
+      topicAddress(log.topics[2]) === recipient.toLowerCase() &&
+      log.data &&
+      log.data !== "0x"
+    ) {
+      total += BigInt(log.data);
+    }
+  }
+  return total;
+}
+
+/**
+ * Effective price of a fill, or null if nothing was received
+ */
+export function effectivePrice(
+  orderType: PriceProtectedOrderType,
+  amountIn: number,
+  amountOut: number
+): number | null {
+  if (!(amountIn > 0) || !(amountOut > 0)) {
+    return null;
+  }
+  return quotedPrice(orderType, { amountIn, amountOut, priceImpact: 0 });
+}
+
+/**
+ * Aggregate an order's successful fills
+ * @param currentPrice - Current price of the traded asset, from a fresh quote
+ */
+export function summarizeOrderPerformance(
+  orderType: PriceProtectedOrderType,
+  executions: ExecutionFill[],
+  currentPrice?: number | null
+): OrderPerformance {
+  let filledExecutions = 0;
+  let totalIn = 0;
+  let totalOut = 0;
+  let totalFees = 0;
+
+  for (const execution of executions) {
+    if (execution.status !== "Successful" || !execution.amount_out) continue;
+    filledExecutions++;
+    totalIn += Number(execution.amount);
+    totalOut += Number(execution.amount_out);
+    totalFees += Number(execution.fee ?? 0);
+  }
+
+  const averagePrice = effectivePrice(orderType, totalIn, totalOut);
+
+  let unrealizedPnl: number | null = null;
+  let unrealizedPnlPercent: number | null = null;
+  if (currentPrice && averagePrice !== null) {
+    // Buys: value of what was acquired minus what it cost.
+    // Sells: what was received minus the current value of what was sold.
+    const cost = orderType === "buy" ? totalIn : totalIn * currentPrice;
+    const value = orderType === "buy" ? totalOut * currentPrice : totalOut;
+    unrealizedPnl = value - cost;
+    unrealizedPnlPercent = cost > 0 ? (unrealizedPnl / cost) * 100 : null;
+  }
+
+  return {
+    filledExecutions,
+    totalIn,
+    totalOut,
+    averagePrice,
+    totalFees,
+    unrealizedPnl,
+    unrealizedPnlPercent,
+  };
+}
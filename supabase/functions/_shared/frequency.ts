@@ -0,0 +1,261 @@
+/**
+ * Recurring order frequencies
+ *
+ * A frequency is stored as a human-readable rule that this module parses and
+ * validates. The same parser is used by the frequency picker, by
+ * createRecurringOrder and by the execute-recurring-orders edge function, so a
+ * rule is accepted everywhere or nowhere. Supported rules:
+ *
+ * - Presets: "Hourly", "Daily", "Weekly", "Bi-weekly", "Monthly"
+ * - Every N units: "Every 6 hours", "Every 3 days", "Every 2 weeks", "Every 3 months"
+ * - Weekdays: "Weekly on Mon, Wed, Fri"
+ * - Day of month: "Monthly on day 15", "Every 3 months on day 1"
+ *
+ * Any rule except hourly ones may end with a time of day, e.g. "Daily at 09:00".
+ * Times are wall-clock times in the order's timezone.
+ */
+
+export interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+export type FrequencySpec =
+  | { kind: "hours"; every: number }
+  | { kind: "days"; every: number; time?: TimeOfDay }
+  | { kind: "weeks"; every: number; time?: TimeOfDay }
+  | { kind: "weekdays"; weekdays: number[]; time?: TimeOfDay }
+  | { kind: "months"; every: number; dayOfMonth?: number; time?: TimeOfDay };
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const FREQUENCY_PRESETS: { value: string; description: string }[] = [
+  { value: "Hourly", description: "Every hour starting now" },
+  { value: "Daily", description: "Every day starting today" },
+  { value: "Weekly", description: "Every week starting now" },
+  { value: "Bi-weekly", description: "Every two weeks starting now" },
+  { value: "Monthly", description: "Every month starting now" },
+];
+
+// Upper bounds for "every N" rules (one year)
+const MAX_EVERY: Record<"hours" | "days" | "weeks" | "months", number> = {
+  hours: 24 * 365,
+  days: 365,
+  weeks: 52,
+  months: 12,
+};
+
+const HOUR_SECONDS = 60 * 60;
+const DAY_SECONDS = 24 * HOUR_SECONDS;
+
+const PRESETS: Record<string, FrequencySpec> = {
+  hourly: { kind: "hours", every: 1 },
+  daily: { kind: "days", every: 1 },
+  weekly: { kind: "weeks", every: 1 },
+  "bi-weekly": { kind: "weeks", every: 2 },
+  biweekly: { kind: "weeks", every: 2 },
+  monthly: { kind: "months", every: 1 },
+};
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+function unsupported(frequency: string, detail?: string): Error {
+  return new Error(`Unsupported frequency "${frequency}"${detail ? `: ${detail}` : ""}`);
+}
+
+function parseEvery(frequency: string, value: string, unit: keyof typeof MAX_EVERY): number {
+  const every = Number(value);
+  if (!Number.isInteger(every) || every < 1 || every > MAX_EVERY[unit]) {
+    throw unsupported(frequency, `interval must be between 1 and ${MAX_EVERY[unit]} ${unit}`);
+  }
+  return every;
+}
+
+function parseDayOfMonth(frequency: string, value: string): number {
+  const day = Number(value);
+  if (!Number.isInteger(day) || day < 1 || day > 31) {
+    throw unsupported(frequency, "day of month must be between 1 and 31");
+  }
+  return day;
+}
+
+/**
+ * Parse a frequency rule
+ * @throws If the rule is not one of the supported forms
+ */
+export function parseFrequency(frequency: string): FrequencySpec {
+  let rule = frequency.trim().toLowerCase().replace(/,/g, " ").replace(/\s+/g, " ");
+  let time: TimeOfDay | undefined;
+
+  const atMatch = rule.match(/^(.+) at (\d{1,2}):(\d{2})$/);
+  if (atMatch) {
+    const hour = Number(atMatch[2]);
+    const minute = Number(atMatch[3]);
+    if (hour > 23 || minute > 59) {
+      throw unsupported(frequency, "time of day must be between 00:00 and 23:59");
+    }
+    time = { hour, minute };
+    rule = atMatch[1];
+  }
+
+  let spec: FrequencySpec | undefined;
+
+  if (PRESETS[rule]) {
+    spec = { ...PRESETS[rule] };
+  }
+
+  const everyMatch = rule.match(/^every (\d+) (hour|day|week|month)s?(?: on day (\d+))?$/);
+  if (everyMatch) {
+    const unit = `${everyMatch[2]}s` as keyof typeof MAX_EVERY;
+    const every = parseEvery(frequency, everyMatch[1], unit);
+    if (everyMatch[3] && unit !== "months") {
+      throw unsupported(frequency, "a day of month only applies to monthly rules");
+    }
+    spec =
+      unit === "months"
+        ? {
+            kind: "months",
+            every,
+            dayOfMonth: everyMatch[3] ? parseDayOfMonth(frequency, everyMatch[3]) : undefined,
+          }
+        : { kind: unit, every };
+  }
+
+  const weekdaysMatch = rule.match(/^weekly on (.+)$/);
+  if (weekdaysMatch) {
+    const names = weekdaysMatch[1].split(" ").filter((name) => name !== "and");
+    const weekdays = names.map((name) => {
+      const day = WEEKDAYS[name];
+      if (day === undefined) {
+        throw unsupported(frequency, `unknown weekday "${name}"`);
+      }
+      return day;
+    });
+    spec = { kind: "weekdays", weekdays: [...new Set(weekdays)].sort((a, b) => a - b) };
+  }
+
+  const dayOfMonthMatch = rule.match(/^monthly on day (\d+)$/);
+  if (dayOfMonthMatch) {
+    spec = { kind: "months", every: 1, dayOfMonth: parseDayOfMonth(frequency, dayOfMonthMatch[1]) };
+  }
+
+  if (!spec) {
+    throw unsupported(frequency);
+  }
+
+  if (time) {
+    if (spec.kind === "hours") {
+      throw unsupported(frequency, "hourly rules cannot have a time of day");
+    }
+    spec.time = time;
+  }
+
+  return spec;
+}
+
+/**
+ * Check that a timezone is a valid IANA name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a frequency rule and timezone
+ * @returns An error message, or null if both are valid
+ */
+export function validateFrequency(frequency: string, timeZone?: string | null): string | null {
+  try {
+    parseFrequency(frequency);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    return `Unsupported timezone "${timeZone}"`;
+  }
+  return null;
+}
+
+function formatTime(time: TimeOfDay): string {
+  return `${String(time.hour).padStart(2, "0")}:${String(time.minute).padStart(2, "0")}`;
+}
+
+/**
+ * Canonical rule for a frequency spec (the form stored on orders and signed
+ * in spending permissions)
+ */
+export function formatFrequency(spec: FrequencySpec): string {
+  let rule: string;
+
+  switch (spec.kind) {
+    case "hours":
+      return spec.every === 1 ? "Hourly" : `Every ${spec.every} hours`;
+    case "days":
+      rule = spec.every === 1 ? "Daily" : `Every ${spec.every} days`;
+      break;
+    case "weeks":
+      rule =
+        spec.every === 1 ? "Weekly" : spec.every === 2 ? "Bi-weekly" : `Every ${spec.every} weeks`;
+      break;
+    case "weekdays":
+      rule = `Weekly on ${spec.weekdays.map((day) => WEEKDAY_LABELS[day]).join(", ")}`;
+      break;
+    case "months":
+      rule = spec.every === 1 ? "Monthly" : `Every ${spec.every} months`;
+      if (spec.dayOfMonth) {
+        rule += ` on day ${spec.dayOfMonth}`;
+      }
+      break;
+  }
+
+  return spec.time ? `${rule} at ${formatTime(spec.time)}` : rule;
+}
+
+/**
+ * Parse and re-format a rule so equivalent spellings compare equal
+ * @throws If the rule is not supported
+ */
+export function normalizeFrequency(frequency: string): string {
+  return formatFrequency(parseFrequency(frequency));
+}
+
+/**
+ * Shortest time between two executions of a rule, in seconds. Calendar rules
+ * allow one hour less than the nominal interval to absorb DST changes.
+ * @throws If the rule is not supported
+ */
+export function minIntervalSeconds(frequency: string): number {
+  const spec = parseFrequency(frequency);
+
+  switch (spec.kind) {
+    case "hours":
+      return spec.every * HOUR_SECONDS;
+    case "days":
+      return spec.every * DAY_SECONDS - HOUR_SECONDS;
+    case "weeks":
+      return spec.every * 7 * DAY_SECONDS - HOUR_SECONDS;
+    case "weekdays": {
+      const gaps = spec.weekdays.map(
+        (day, i) => ((spec.weekdays[(i + 1) % spec.weekdays.length] - day + 6) % 7) + 1
+      );
+      return Math.min(...gaps) * DAY_SECONDS - HOUR_SECONDS;
+    }
+    case "months":
+      return spec.every * 28 * DAY_SECONDS - HOUR_SECONDS;
+  }
+}
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { encodeParameters } from "./abi.ts";
+import { MULTICALL3_ABI, multicall } from "./multicall.ts";
+import { type RpcClient, RpcError } from "./rpc.ts";
+
+const TOKEN = "0x" + "11".repeat(20);
+const CALLS = [
+  { target: TOKEN, data: "0x18160ddd" },
+  { target: TOKEN, data: "0x313ce567" },
+];
+const WORD = "0x" + "2a".padStart(64, "0");
+
+/**
+ * RPC client whose Multicall3 calls are answered by `aggregate` and whose
+ * other calls return WORD
+ */
+function fakeRpc(multicallAddress: string, aggregate: () => Promise<string>) {
+  const ethCall = vi.fn(async (to: string) => (to === multicallAddress ? aggregate() : WORD));
+  const rpc = { ethCall } as unknown as RpcClient;
+  return { rpc, ethCall };
+}
+
+const aggregateCalls = (ethCall: ReturnType<typeof vi.fn>, address: string) =>
+  ethCall.mock.calls.filter(([to]) => to === address).length;
+
+// Each test uses its own address, since unavailable deployments are remembered
+let address: string;
+let nextAddress = 1;
+beforeEach(() => {
+  address = "0x" + (nextAddress++).toString(16).padStart(40, "0");
+});
+
+describe("multicall", () => {
+  it("returns each call's data, with null for failed calls", async () => {
+    const result = encodeParameters(MULTICALL3_ABI[0].outputs, [
+      [
+        [true, WORD],
+        [false, "0x"],
+      ],
+    ]);
+    const { rpc, ethCall } = fakeRpc(address, async () => result);
+
+    expect(await multicall(rpc, CALLS, address)).toEqual([WORD, null]);
+    expect(ethCall).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops using an address without code", async () => {
+    const { rpc, ethCall } = fakeRpc(address, async () => "0x");
+
+    expect(await multicall(rpc, CALLS, address)).toEqual([WORD, WORD]);
+    expect(await multicall(rpc, CALLS, address)).toEqual([WORD, WORD]);
+    expect(aggregateCalls(ethCall, address)).toBe(1);
+  });
+
+  it("falls back for one request when the node rejects the aggregate", async () => {
+    const { rpc, ethCall } = fakeRpc(address, async () => {
+      throw new RpcError("eth_call", { code: -32000, message: "gas limit reached" });
+    });
+
+    expect(await multicall(rpc, CALLS, address)).toEqual([WORD, WORD]);
+    expect(await multicall(rpc, CALLS, address)).toEqual([WORD, WORD]);
+    // Multicall3 is tried again on the next request
+    expect(aggregateCalls(ethCall, address)).toBe(2);
+  });
+
+  it("rethrows transport failures", async () => {
+    const { rpc } = fakeRpc(address, async () => {
+      throw new Error("fetch failed");
+    });
+
+    await expect(multicall(rpc, CALLS, address)).rejects.toThrow("fetch failed");
+  });
+});
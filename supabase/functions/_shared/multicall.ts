@@ -0,0 +1,104 @@
+/**
+ * Multicall3 (https://github.com/mds1/multicall) read aggregation shared by
+ * the app and Edge Functions
+ *
+ * Many `eth_call`s are sent as one `aggregate3` call. Where Multicall3 is not
+ * deployed, the calls are sent individually instead, which the RPC client
+ * groups into one JSON-RPC batch.
+ */
+
+import { decodeFunctionResult, encodeFunctionData } from "./abi.ts";
+import { type RpcClient, RpcError } from "./rpc.ts";
+
+// Multicall3 is deployed at the same address on most EVM chains
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+export const MULTICALL3_ABI = [
+  {
+    name: "aggregate3",
+    type: "function",
+    stateMutability: "payable",
+    inputs: [
+      {
+        name: "calls",
+        type: "tuple[]",
+        components: [
+          { name: "target", type: "address" },
+          { name: "allowFailure", type: "bool" },
+          { name: "callData", type: "bytes" },
+        ],
+      },
+    ],
+    outputs: [
+      {
+        name: "returnData",
+        type: "tuple[]",
+        components: [
+          { name: "success", type: "bool" },
+          { name: "returnData", type: "bytes" },
+        ],
+      },
+    ],
+  },
+] as const;
+
+export interface MulticallCall {
+  target: string;
+  data: string;
+}
+
+// Multicall addresses found to have no Multicall3 contract
+const unavailable = new Set<string>();
+
+/**
+ * Run `eth_call`s against the latest block in one request
+ * @param rpc - RPC client to send the calls with
+ * @param calls - Calls to make
+ * @param multicallAddress - Multicall3 deployment
+ * @returns Each call's return data in call order, or null where the call reverted
+ * @throws If the RPC request fails
+ */
+export async function multicall(
+  rpc: RpcClient,
+  calls: MulticallCall[],
+  multicallAddress: string = MULTICALL3_ADDRESS
+): Promise<(string | null)[]> {
+  if (calls.length === 0) return [];
+
+  const address = multicallAddress.toLowerCase();
+  if (!unavailable.has(address)) {
+    let result: string | null;
+    try {
+      result = await rpc.ethCall(
+        multicallAddress,
+        encodeFunctionData(MULTICALL3_ABI, "aggregate3", [
+          calls.map(({ target, data }) => ({ target, allowFailure: true, callData: data })),
+        ])
+      );
+    } catch (error) {
+      // Transport failures would fail the fallback as well
+      if (!(error instanceof RpcError)) throw error;
+      // The node rejected this aggregate (gas cap, response size, ...): send
+      // these calls individually, but keep using Multicall3 for later ones
+      console.warn(`Multicall3 call failed (${error.reason}), sending calls individually`);
+      result = null;
+    }
+
+    if (result !== null && result !== "0x") {
+      const [returnData] = decodeFunctionResult(MULTICALL3_ABI, "aggregate3", result);
+      return returnData.map(([success, data]) => (success ? (data as string) : null));
+    }
+    // An address without code returns no data
+    if (result === "0x") {
+      console.warn(`Multicall3 is not available at ${multicallAddress}, sending calls individually`);
+      unavailable.add(address);
+    }
+  }
+
+  const results = await Promise.allSettled(calls.map(({ target, data }) => rpc.ethCall(target, data)));
+  return results.map((result) => {
+    if (result.status === "fulfilled") return result.value;
+    if (result.reason instanceof RpcError) return null;
+    throw result.reason;
+  });
+}
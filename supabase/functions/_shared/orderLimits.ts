@@ -0,0 +1,109 @@
+/**
+ * Completion limits for recurring orders
+ *
+ * An order stops once it passes its `end_date`, has run `max_executions`
+ * times, or cannot afford another execution from its `total_budget`. The
+ * executor enforces these and the dashboard uses the same math to show the
+ * remaining budget and a projected completion date.
+ */
+
+import { DEFAULT_TIMEZONE } from "./frequency.ts";
+import { listSlots, nextSlotAfter } from "./schedule.ts";
+
+// Tolerance for comparing NUMERIC amounts read back as floats
+const AMOUNT_EPSILON = 1e-9;
+
+// Projections further out than this many executions are not computed
+const MAX_PROJECTED_EXECUTIONS = 10000;
+
+export interface OrderLimits {
+  start_date: string;
+  frequency: string;
+  timezone?: string | null;
+  amount: number;
+  end_date?: string | null;
+  max_executions?: number | null;
+  total_budget?: number | null;
+  execution_count?: number;
+  total_spent?: number;
+}
+
+export interface OrderProjection {
+  /** Executions left before a limit is hit, or null if the order has no limit */
+  remainingExecutions: number | null;
+  /** Budget left in the source token, or null without a total budget */
+  remainingBudget: number | null;
+  /** Date of the last remaining execution, or null if unknown / none left */
+  projectedCompletionDate: string | null;
+}
+
+/**
+ * Reason the order cannot run the execution scheduled at `slot`
+ * @returns A completion reason, or null if the execution is within all limits
+ */
+export function orderLimitReason(order: OrderLimits, slot: string | Date): string | null {
+  if (order.end_date && new Date(slot).getTime() > new Date(order.end_date).getTime()) {
+    return "Reached end date";
+  }
+  if (order.max_executions && (order.execution_count ?? 0) >= order.max_executions) {
+    return `Completed ${order.max_executions} executions`;
+  }
+  if (
+    order.total_budget &&
+    (order.total_spent ?? 0) + order.amount > order.total_budget + AMOUNT_EPSILON
+  ) {
+    return "Total budget spent";
+  }
+  return null;
+}
+
+/**
+ * Remaining executions, remaining budget and projected completion date for an
+ * order whose next execution is `nextExecutionDate`
+ * @throws If the order's frequency is not supported
+ */
+export function projectOrderCompletion(
+  order: OrderLimits,
+  nextExecutionDate: string
+): OrderProjection {
+  const candidates: number[] = [];
+
+  if (order.max_executions) {
+    candidates.push(order.max_executions - (order.execution_count ?? 0));
+  }
+
+  let remainingBudget: number | null = null;
+  if (order.total_budget) {
+    remainingBudget = Math.max(0, order.total_budget - (order.total_spent ?? 0));
+    candidates.push(Math.floor(remainingBudget / order.amount + AMOUNT_EPSILON));
+  }
+
+  const timeZone = order.timezone ?? DEFAULT_TIMEZONE;
+
+  if (order.end_date) {
+    candidates.push(
+      listSlots(order.start_date, order.frequency, nextExecutionDate, order.end_date, undefined, timeZone)
+        .length
+    );
+  }
+
+  if (candidates.length === 0) {
+    return { remainingExecutions: null, remainingBudget, projectedCompletionDate: null };
+  }
+
+  const remainingExecutions = Math.max(0, Math.min(...candidates));
+  if (remainingExecutions === 0) {
+    return { remainingExecutions, remainingBudget, projectedCompletionDate: null };
+  }
+
+  // Walk the schedule to the last remaining slot (too far out to matter past the cap)
+  let lastSlot: string | null = new Date(nextExecutionDate).toISOString();
+  for (let i = 1; i < remainingExecutions && lastSlot; i++) {
+    lastSlot =
+      i < MAX_PROJECTED_EXECUTIONS
+        ? nextSlotAfter(order.start_date, order.frequency, lastSlot, timeZone)
+        : null;
+  }
+
+  return { remainingExecutions, remainingBudget, projectedCompletionDate: lastSlot };
+}
@@ -0,0 +1,90 @@
+/**
+ * Arc pool configuration shared by the app and Edge Functions
+ *
+ * The app re-exports these from lib/arcNetwork; Edge Functions that quote or
+ * index the pools import them from here.
+ */
+
+// Liquidity Pool ABI for quotes, swaps and managing liquidity
+export const LIQUIDITY_POOL_ABI = [
+  {
+    name: "get_dy",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "i", type: "uint256" },
+      { name: "j", type: "uint256" },
+      { name: "dx", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "swap",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "i", type: "uint256" },
+      { name: "j", type: "uint256" },
+      { name: "dx", type: "uint256" },
+      { name: "min_dy", type: "uint256" },
+    ],
+    outputs: [{ name: "dy", type: "uint256" }],
+  },
+  {
+    name: "coins",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "i", type: "uint256" }],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "getBalances",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256[]" }],
+  },
+  {
+    name: "addLiquidity",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "amounts", type: "uint256[]" }],
+    outputs: [],
+  },
+  {
+    name: "removeLiquidity",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "lpAmount", type: "uint256" }],
+    outputs: [],
+  },
+] as const;
+
+export interface ArcPoolInfo {
+  address: string;
+  /** Token symbols in pool index order (the contract address if a token has no known symbol) */
+  tokens: string[];
+  /** Token contract addresses in pool index order, for discovered pools */
+  coins?: string[];
+  /** Token decimals in pool index order, for discovered pools */
+  decimals?: number[];
+}
+
+// Arc Pool Configuration - QuantumExchange supported pools
+// IMPORTANT: Each pool contract has its own get_dy function with local indices (0, 1)
+// Token 0 is always listed first, Token 1 is listed second
+// More pools are discovered on-chain by the app's lib/poolRegistry (see getKnownPools)
+export const ARC_POOLS: {
+  router: string;
+  routerQuantum: string;
+  pools: Record<string, ArcPoolInfo>;
+} = {
+  router: "0x00468f90a40432Fc488C87B0FBe69c2D0fADF0a0", // Uniswap V2 Router (for reference only)
+  routerQuantum: "0x9d52b6c810d6f95e3d44ca64af3b55f7f66448ff", // RouterQuantum for wrap/unwrap swaps
+  pools: {
+    "WUSDC/QTM": {
+      address: "0xD330Ae5713AF6507f43420e85C941a68BfbaD9D0",
+      tokens: ["WUSDC", "QTM"],
+    },
+  },
+};
@@ -0,0 +1,49 @@
+/**
+ * Pre-execution funding checks for recurring orders
+ *
+ * Before a swap is signed the executor reads the wallet's source token balance
+ * and the router's allowance. An order that cannot be funded fails with one of
+ * these classes instead of a generic error so the app can tell the user what
+ * to fix.
+ */
+
+export type ExecutionFailureClass = "InsufficientBalance" | "InsufficientAllowance";
+
+export const FAILURE_CLASS_LABELS: Record<ExecutionFailureClass, string> = {
+  InsufficientBalance: "Insufficient balance",
+  InsufficientAllowance: "Insufficient allowance",
+};
+
+export interface FundingState {
+  /** Amount the execution spends, in source token base units */
+  required: bigint;
+  balance: bigint;
+  /** Router allowance, or null for native tokens that need no approval */
+  allowance: bigint | null;
+}
+
+/**
+ * Check that the wallet can fund an execution
+ * @returns The failure class, or null if balance and allowance both cover it
+ */
+export function checkFunding(state: FundingState): ExecutionFailureClass | null {
+  if (state.balance < state.required) {
+    return "InsufficientBalance";
+  }
+  if (state.allowance !== null && state.allowance < state.required) {
+    return "InsufficientAllowance";
+  }
+  return null;
+}
+
+/**
+ * Message shown to the user for a failure class
+ */
+export function describeFailureClass(failureClass: ExecutionFailureClass, token: string): string {
+  switch (failureClass) {
+    case "InsufficientBalance":
+      return `Insufficient ${token} balance. Top up your wallet before the next execution.`;
+    case "InsufficientAllowance":
+      return `The swap router is not approved to spend enough ${token}. Approve ${token} before the next execution.`;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Per-order price protection for recurring orders
+ *
+ * Every order carries a max slippage (in %) that is passed to the swap
+ * endpoint and checked against the quote's price impact, plus an optional
+ * limit price for the traded asset in terms of the other token: a buy only
+ * runs while the price is at or below the limit, a sell only while it is at or
+ * above it. Used by the order forms and by the execute-recurring-orders edge
+ * function.
+ */
+
+export type PriceProtectedOrderType = "buy" | "sell";
+
+export const DEFAULT_MAX_SLIPPAGE = 1;
+export const MAX_SLIPPAGE_LIMIT = 50;
+export const SLIPPAGE_PRESETS = [0.5, 1, 2];
+
+export interface PriceProtection {
+  max_slippage?: number | null;
+  limit_price?: number | null;
+}
+
+export interface QuoteSnapshot {
+  /** Amount spent, in whole source tokens */
+  amountIn: number;
+  /** Quoted output, in whole target tokens */
+  amountOut: number;
+  /** Quoted price impact in % */
+  priceImpact: number;
+}
+
+/**
+ * Validate a max slippage and limit price before they are stored
+ * @returns An error message, or null if both are valid
+ */
+export function validatePriceProtection(protection: PriceProtection): string | null {
+  const { max_slippage, limit_price } = protection;
+  if (
+    max_slippage !== undefined &&
+    max_slippage !== null &&
+    (!Number.isFinite(max_slippage) || max_slippage <= 0 || max_slippage > MAX_SLIPPAGE_LIMIT)
+  ) {
+    return `Max slippage must be greater than 0% and at most ${MAX_SLIPPAGE_LIMIT}%`;
+  }
+  if (
+    limit_price !== undefined &&
+    limit_price !== null &&
+    (!Number.isFinite(limit_price) || limit_price <= 0)
+  ) {
+    return "Limit price must be greater than 0";
+  }
+  return null;
+}
+
+/**
+ * Price of the traded asset (the target of a buy, the source of a sell) in
+ * the other token
+ */
+export function quotedPrice(orderType: PriceProtectedOrderType, quote: QuoteSnapshot): number {
+  return orderType === "buy" ? quote.amountIn / quote.amountOut : quote.amountOut / quote.amountIn;
+}
+
+/**
+ * Check a quote against an order's max slippage and limit price
+ * @returns A violation message, or null if the quote is within bounds
+ */
+export function checkPriceProtection(
+  order: PriceProtection & { order_type: PriceProtectedOrderType },
+  quote: QuoteSnapshot
+): string | null {
+  if (!(quote.amountOut > 0)) {
+    return "Quote returned no output";
+  }
+
+  const maxSlippage = order.max_slippage ?? DEFAULT_MAX_SLIPPAGE;
+  if (quote.priceImpact > maxSlippage) {
+    return `Price impact ${quote.priceImpact.toFixed(2)}% exceeds max slippage ${maxSlippage}%`;
+  }
+
+  if (order.limit_price) {
+    const price = quotedPrice(order.order_type, quote);
+    if (order.order_type === "buy" && price > order.limit_price) {
+      return `Price ${price.toPrecision(6)} is above the limit price ${order.limit_price}`;
+    }
+    if (order.order_type === "sell" && price < order.limit_price) {
+      return `Price ${price.toPrecision(6)} is below the limit price ${order.limit_price}`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createRpcClient } from "./rpc.ts";
+
+const URLS = ["https://rpc-a.test", "https://rpc-b.test"];
+
+interface Message {
+  id: number;
+  method: string;
+}
+
+/**
+ * Stub fetch: endpoints in `down` answer with HTTP 503, the others answer
+ * every request with "<endpoint>:<method>"
+ */
+function stubFetch(down: Set<string> = new Set()) {
+  const fetchMock = vi.fn(async (url: string, init: { body: string }) => {
+    if (down.has(url)) {
+      return new Response("unavailable", { status: 503 });
+    }
+    const payload: Message | Message[] = JSON.parse(init.body);
+    const answer = ({ id, method }: Message) => ({ jsonrpc: "2.0", id, result: `${url}:${method}` });
+    return new Response(JSON.stringify(Array.isArray(payload) ? payload.map(answer) : answer(payload)));
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  return fetchMock;
+}
+
+const requestedUrls = (fetchMock: ReturnType<typeof stubFetch>) =>
+  fetchMock.mock.calls.map(([url]) => url);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("createRpcClient", () => {
+  it("fails over to the next endpoint on transport errors", async () => {
+    const fetchMock = stubFetch(new Set([URLS[0]]));
+    const client = createRpcClient({ urls: URLS, retryDelayMs: 0 });
+
+    expect(await client.call("eth_blockNumber", [])).toBe(`${URLS[1]}:eth_blockNumber`);
+    expect(requestedUrls(fetchMock)).toEqual(URLS);
+    expect(client.health()).toEqual([
+      { url: URLS[0], healthy: false, consecutiveFailures: 1 },
+      { url: URLS[1], healthy: true, consecutiveFailures: 0 },
+    ]);
+  });
+
+  it("skips a failed endpoint until its cooldown is over", async () => {
+    const down = new Set([URLS[0]]);
+    const fetchMock = stubFetch(down);
+    const client = createRpcClient({ urls: URLS, retryDelayMs: 0, cooldownMs: 50 });
+
+    await client.call("eth_blockNumber", []);
+    down.clear();
+    await client.call("eth_blockNumber", []);
+    expect(requestedUrls(fetchMock)).toEqual([URLS[0], URLS[1], URLS[1]]);
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(await client.call("eth_blockNumber", [])).toBe(`${URLS[0]}:eth_blockNumber`);
+  });
+
+  it("splits calls made in the same tick into batches of maxBatchSize", async () => {
+    const fetchMock = stubFetch();
+    const client = createRpcClient({ urls: URLS, maxBatchSize: 2 });
+
+    const results = await Promise.all([
+      client.call("eth_blockNumber", []),
+      client.call("eth_gasPrice", []),
+      client.call("eth_chainId", []),
+    ]);
+
+    expect(results).toEqual([
+      `${URLS[0]}:eth_blockNumber`,
+      `${URLS[0]}:eth_gasPrice`,
+      `${URLS[0]}:eth_chainId`,
+    ]);
+    const batchSizes = fetchMock.mock.calls.map(([, init]) => {
+      const payload = JSON.parse(init.body);
+      return Array.isArray(payload) ? payload.length : 1;
+    });
+    expect(batchSizes).toEqual([2, 1]);
+  });
+
+  it("sends transactions on their own and never retries them", async () => {
+    const fetchMock = stubFetch(new Set([URLS[0]]));
+    const client = createRpcClient({ urls: URLS, retryDelayMs: 0 });
+
+    const [sent, blockNumber] = await Promise.allSettled([
+      client.call("eth_sendRawTransaction", ["0x02"]),
+      client.call("eth_blockNumber", []),
+    ]);
+
+    expect(sent.status).toBe("rejected");
+    expect(blockNumber).toEqual({ status: "fulfilled", value: `${URLS[1]}:eth_blockNumber` });
+    const sends = fetchMock.mock.calls.filter(([, init]) => init.body.includes("eth_sendRawTransaction"));
+    expect(sends).toHaveLength(1);
+    expect(JSON.parse(sends[0][1].body).method).toBe("eth_sendRawTransaction");
+  });
+});
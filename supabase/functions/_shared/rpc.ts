@@ -0,0 +1,322 @@
+/**
+ * JSON-RPC client shared by the app and Edge Functions
+ *
+ * Requests go to the first healthy endpoint in the configured list. Transport
+ * failures (network errors, timeouts, HTTP errors, rate limits) mark the
+ * endpoint unhealthy for a cooldown that grows with each consecutive failure,
+ * and the request is retried with backoff on the next endpoint. JSON-RPC
+ * errors such as reverts are returned by the node itself and are not retried.
+ * Requests that must not run twice (`eth_sendRawTransaction`) are sent on
+ * their own and never retried: a timeout does not mean the node did not get
+ * them, so the caller has to check the outcome itself.
+ *
+ * Calls made in the same tick are sent as one JSON-RPC batch, and calls whose
+ * result can never change (`eth_chainId`, ERC-20 `decimals()`, `symbol()`,
+ * `name()`) are cached for the lifetime of the client.
+ */
+
+import { getSelector } from "./abi.ts";
+import { ERC20_ABI } from "./erc20.ts";
+
+// Public Arc Testnet endpoints, in order of preference
+export const ARC_TESTNET_RPC_URLS = [
+  "https://rpc.testnet.arc.network",
+  "https://rpc.blockdaemon.testnet.arc.network",
+  "https://rpc.drpc.testnet.arc.network",
+  "https://rpc.quicknode.testnet.arc.network",
+];
+
+export interface RpcRequest {
+  method: string;
+  params: unknown[];
+}
+
+export interface RpcClientOptions {
+  /** Endpoints in order of preference */
+  urls: string[];
+  /** Per-request timeout (ms) */
+  timeoutMs?: number;
+  /** Retries after the first attempt, each on the next endpoint (never for transaction sends) */
+  retries?: number;
+  /** Delay before the first retry (ms); doubles on each further retry */
+  retryDelayMs?: number;
+  /** How long an endpoint is skipped after its first failure (ms); doubles on each further failure */
+  cooldownMs?: number;
+  /** Most requests sent in one batch */
+  maxBatchSize?: number;
+  /** Selectors of `eth_call`s whose result never changes, in addition to ERC-20 decimals, symbol and name */
+  immutableSelectors?: string[];
+}
+
+export interface RpcEndpointHealth {
+  url: string;
+  healthy: boolean;
+  consecutiveFailures: number;
+}
+
+export interface RpcClient {
+  call<T = string>(method: string, params: unknown[]): Promise<T>;
+  /** Send several requests in one batch; results are in request order */
+  batch<T = unknown>(requests: RpcRequest[]): Promise<T[]>;
+  /** `eth_call` against the latest block */
+  ethCall(to: string, data: string): Promise<string>;
+  health(): RpcEndpointHealth[];
+}
+
+/**
+ * Error returned by the node for a request, e.g. a reverted `eth_call`
+ */
+export class RpcError extends Error {
+  code: number;
+  /** The node's error message, e.g. "execution reverted" */
+  reason: string;
+  /** Revert data or other details sent with the error */
+  data?: unknown;
+
+  constructor(method: string, error: { code?: number; message?: string; data?: unknown }) {
+    super(`RPC Error (${method}): ${error.message ?? "Unknown error"}`);
+    this.name = "RpcError";
+    this.code = error.code ?? 0;
+    this.reason = error.message ?? "";
+    this.data = error.data;
+  }
+}
+
+interface RpcResponse {
+  id?: number;
+  result?: unknown;
+  error?: { code?: number; message?: string; data?: unknown };
+}
+
+interface Endpoint {
+  url: string;
+  consecutiveFailures: number;
+  unhealthyUntil: number;
+}
+
+interface PendingRequest extends RpcRequest {
+  id: number;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+const ERC20_IMMUTABLE_SELECTORS = ERC20_ABI.filter((item) =>
+  ["decimals", "symbol", "name"].includes(item.name)
+).map((item) => getSelector(item));
+
+// Methods that act on the chain and must never be sent twice
+const NON_IDEMPOTENT_METHODS = new Set(["eth_sendRawTransaction", "eth_sendTransaction"]);
+
+// Rate limit codes used by common node providers
+const RATE_LIMIT_CODES = new Set([-32005, -32016, 429]);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRateLimited = (response: RpcResponse): boolean =>
+  !!response.error &&
+  (RATE_LIMIT_CODES.has(response.error.code ?? 0) ||
+    /rate limit|too many requests/i.test(response.error.message ?? ""));
+
+/**
+ * Parse a comma-separated list of endpoints, e.g. from an environment variable
+ * @returns The listed endpoints, or `fallback` if there are none
+ */
+export function parseRpcUrls(value: string | undefined, fallback: string[] = ARC_TESTNET_RPC_URLS): string[] {
+  const urls = (value ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+  return urls.length > 0 ? urls : fallback;
+}
+
+/**
+ * Create a JSON-RPC client over a list of endpoints
+ * @throws If no endpoint is given
+ */
+export function createRpcClient(options: RpcClientOptions): RpcClient {
+  const {
+    timeoutMs = 10000,
+    retries = 2,
+    retryDelayMs = 250,
+    cooldownMs = 5000,
+    maxBatchSize = 20,
+  } = options;
+  if (options.urls.length === 0) {
+    throw new Error("RPC client needs at least one endpoint");
+  }
+
+  const endpoints: Endpoint[] = options.urls.map((url) => ({
+    url,
+    consecutiveFailures: 0,
+    unhealthyUntil: 0,
+  }));
+  const immutableSelectors = [...ERC20_IMMUTABLE_SELECTORS, ...(options.immutableSelectors ?? [])].map(
+    (selector) => selector.toLowerCase()
+  );
+  const cache = new Map<string, Promise<unknown>>();
+  let queue: PendingRequest[] = [];
+  let nextId = 1;
+
+  // Healthy endpoints in configured order, then the ones that recover soonest
+  const orderedEndpoints = (): Endpoint[] => {
+    const now = Date.now();
+    const healthy = endpoints.filter((endpoint) => endpoint.unhealthyUntil <= now);
+    const unhealthy = endpoints
+      .filter((endpoint) => endpoint.unhealthyUntil > now)
+      .sort((a, b) => a.unhealthyUntil - b.unhealthyUntil);
+    return [...healthy, ...unhealthy];
+  };
+
+  const markFailed = (endpoint: Endpoint) => {
+    endpoint.consecutiveFailures++;
+    endpoint.unhealthyUntil =
+      Date.now() + cooldownMs * Math.pow(2, Math.min(endpoint.consecutiveFailures - 1, 6));
+  };
+
+  const markHealthy = (endpoint: Endpoint) => {
+    endpoint.consecutiveFailures = 0;
+    endpoint.unhealthyUntil = 0;
+  };
+
+  // POST a request or batch, failing over to the next endpoint on transport
+  // errors unless `failover` is off
+  const post = async (
+    payload: unknown,
+    label: string,
+    failover: boolean
+  ): Promise<RpcResponse | RpcResponse[]> => {
+    const order = orderedEndpoints();
+    const maxRetries = failover ? retries : 0;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (attempt > 0) {
+        await sleep(retryDelayMs * Math.pow(2, attempt - 1));
+      }
+      const endpoint = order[attempt % order.length];
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        const response = await fetch(endpoint.url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const data: RpcResponse | RpcResponse[] = await response.json();
+        if (!Array.isArray(data) && isRateLimited(data)) {
+          throw new Error(data.error?.message ?? "Rate limited");
+        }
+        markHealthy(endpoint);
+        return data;
+      } catch (error) {
+        lastError = controller.signal.aborted ? new Error(`Timed out after ${timeoutMs}ms`) : error;
+        markFailed(endpoint);
+        console.warn(`RPC ${label} failed on ${endpoint.url} (attempt ${attempt + 1}):`, lastError);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    throw new Error(
+      `RPC ${label} failed after ${maxRetries + 1} attempts: ${lastError instanceof Error ? lastError.message : String(lastError)}`
+    );
+  };
+
+  const settle = (request: PendingRequest, response: RpcResponse | undefined) => {
+    if (!response) {
+      request.reject(new Error(`RPC Error (${request.method}): no response in batch`));
+    } else if (response.error) {
+      request.reject(new RpcError(request.method, response.error));
+    } else {
+      request.resolve(response.result);
+    }
+  };
+
+  const send = async (requests: PendingRequest[]) => {
+    const toMessage = ({ id, method, params }: PendingRequest) => ({ jsonrpc: "2.0", id, method, params });
+
+    try {
+      if (requests.length === 1) {
+        const [request] = requests;
+        const failover = !NON_IDEMPOTENT_METHODS.has(request.method);
+        const response = await post(toMessage(request), request.method, failover);
+        settle(request, Array.isArray(response) ? response[0] : response);
+        return;
+      }
+
+      const response = await post(requests.map(toMessage), `batch of ${requests.length}`, true);
+      // Nodes without batch support answer with a single error
+      if (!Array.isArray(response)) {
+        requests.forEach((request) => settle(request, response));
+        return;
+      }
+      const byId = new Map(response.map((item) => [item.id, item]));
+      requests.forEach((request) => settle(request, byId.get(request.id)));
+    } catch (error) {
+      requests.forEach((request) => request.reject(error));
+    }
+  };
+
+  const flush = () => {
+    const pending = queue.filter((request) => !NON_IDEMPOTENT_METHODS.has(request.method));
+    // Batches may be retried as a whole, so transaction sends go on their own
+    queue
+      .filter((request) => NON_IDEMPOTENT_METHODS.has(request.method))
+      .forEach((request) => void send([request]));
+    queue = [];
+    for (let i = 0; i < pending.length; i += maxBatchSize) {
+      void send(pending.slice(i, i + maxBatchSize));
+    }
+  };
+
+  const enqueue = (method: string, params: unknown[]): Promise<unknown> =>
+    new Promise((resolve, reject) => {
+      queue.push({ id: nextId++, method, params, resolve, reject });
+      if (queue.length === 1) {
+        setTimeout(flush, 0);
+      }
+    });
+
+  const isImmutable = (method: string, params: unknown[]): boolean => {
+    if (method === "eth_chainId") return true;
+    if (method !== "eth_call" || (params[1] ?? "latest") !== "latest") return false;
+    const data = (params[0] as { data?: string } | undefined)?.data?.toLowerCase() ?? "";
+    return immutableSelectors.some((selector) => data.startsWith(selector));
+  };
+
+  const call = <T>(method: string, params: unknown[]): Promise<T> => {
+    if (!isImmutable(method, params)) {
+      return enqueue(method, params) as Promise<T>;
+    }
+
+    const key = `${method}:${JSON.stringify(params).toLowerCase()}`;
+    let cached = cache.get(key);
+    if (!cached) {
+      cached = enqueue(method, params);
+      cache.set(key, cached);
+      // Only successful results are kept
+      cached.catch(() => cache.delete(key));
+    }
+    return cached as Promise<T>;
+  };
+
+  return {
+    call,
+    batch: <T>(requests: RpcRequest[]) =>
+      Promise.all(requests.map(({ method, params }) => call<T>(method, params))),
+    ethCall: (to, data) => call<string>("eth_call", [{ to, data }, "latest"]),
+    health: () => {
+      const now = Date.now();
+      return endpoints.map(({ url, consecutiveFailures, unhealthyUntil }) => ({
+        url,
+        healthy: unhealthyUntil <= now,
+        consecutiveFailures,
+      }));
+    },
+  };
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { endOfDayInZone } from "./schedule.ts";
+
+describe("endOfDayInZone", () => {
+  it("ends the day on the timezone's wall clock", () => {
+    expect(endOfDayInZone(2026, 3, 10).toISOString()).toBe("2026-03-10T23:59:59.999Z");
+    expect(endOfDayInZone(2026, 3, 10, "Asia/Tokyo").toISOString()).toBe("2026-03-10T14:59:59.999Z");
+    expect(endOfDayInZone(2026, 12, 31, "America/Los_Angeles").toISOString()).toBe(
+      "2027-01-01T07:59:59.999Z"
+    );
+  });
+
+  it("follows daylight saving time", () => {
+    // New York is UTC-5 before 8 March 2026 and UTC-4 after
+    expect(endOfDayInZone(2026, 3, 7, "America/New_York").toISOString()).toBe("2026-03-08T04:59:59.999Z");
+    expect(endOfDayInZone(2026, 3, 8, "America/New_York").toISOString()).toBe("2026-03-09T03:59:59.999Z");
+  });
+});
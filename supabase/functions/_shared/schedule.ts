@@ -0,0 +1,336 @@
+/**
+ * Recurring order schedule
+ *
+ * Execution slots are anchored to the order's start date: for interval rules
+ * slot N is `start_date` plus N intervals, and calendar rules (weekdays, day of
+ * month, time of day) are evaluated in the order's timezone from the start
+ * date on. A late cron run therefore never shifts later executions, and the
+ * slots an order missed while it could not run can be enumerated exactly.
+ * Used by the app when creating orders and by the execute-recurring-orders
+ * edge function.
+ */
+
+import {
+  DEFAULT_TIMEZONE,
+  type FrequencySpec,
+  type TimeOfDay,
+  formatFrequency,
+  parseFrequency,
+} from "./frequency.ts";
+
+/**
+ * What the executor does with slots that passed while the order could not run
+ * - "skip": record every missed slot as Skipped and wait for the next slot
+ * - "run_once": run the most recent missed slot, record the older ones as Skipped
+ * - "run_all": run every missed slot (up to a cap), oldest first
+ */
+export type MissedSlotPolicy = "skip" | "run_once" | "run_all";
+
+export const DEFAULT_MISSED_SLOT_POLICY: MissedSlotPolicy = "run_once";
+
+export const MISSED_SLOT_POLICIES: {
+  value: MissedSlotPolicy;
+  label: string;
+  description: string;
+}[] = [
+  { value: "skip", label: "Skip", description: "Skip missed executions and wait for the next one" },
+  { value: "run_once", label: "Run once", description: "Catch up with a single execution" },
+  { value: "run_all", label: "Run all", description: "Run every missed execution" },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Safety bound for loops that walk the schedule slot by slot
+const MAX_SLOT_ITERATIONS = 10000;
+
+export interface MissedSlotPlan {
+  /** Slot to execute now, or null if nothing should run */
+  runSlot: string | null;
+  /** Missed slots to record as Skipped */
+  skippedSlots: string[];
+  /** Next execution date when nothing runs now */
+  nextExecutionDate: string;
+}
+
+/** Wall-clock date and time in a timezone (month is 1-12) */
+interface ZonedDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function toZoned(date: Date, timeZone: string): ZonedDateTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: date.getUTCMilliseconds(),
+  };
+}
+
+/**
+ * Instant at which the wall clock in `timeZone` shows `zoned`. Day and month
+ * overflow is normalized (day 32 is the 1st of the next month).
+ */
+function fromZoned(zoned: ZonedDateTime, timeZone: string): Date {
+  const wallClock = Date.UTC(
+    zoned.year,
+    zoned.month - 1,
+    zoned.day,
+    zoned.hour,
+    zoned.minute,
+    zoned.second,
+    zoned.millisecond
+  );
+
+  // Converge on the offset in effect at the resulting instant
+  let instant = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const shown = toZoned(new Date(instant), timeZone);
+    const shownWallClock = Date.UTC(
+      shown.year,
+      shown.month - 1,
+      shown.day,
+      shown.hour,
+      shown.minute,
+      shown.second,
+      shown.millisecond
+    );
+    instant += wallClock - shownWallClock;
+  }
+  return new Date(instant);
+}
+
+/** Calendar date `days` after the given one, normalized */
+function addDays(zoned: ZonedDateTime, days: number): ZonedDateTime {
+  const date = new Date(Date.UTC(zoned.year, zoned.month - 1, zoned.day + days));
+  return { ...zoned, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/** Same day of month `months` later, clamped to the end of shorter months */
+function addMonths(zoned: ZonedDateTime, months: number, dayOfMonth: number): ZonedDateTime {
+  const first = new Date(Date.UTC(zoned.year, zoned.month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+  return {
+    ...zoned,
+    year: first.getUTCFullYear(),
+    month: first.getUTCMonth() + 1,
+    day: Math.min(dayOfMonth, lastDay),
+  };
+}
+
+function withTime(zoned: ZonedDateTime, time?: TimeOfDay): ZonedDateTime {
+  return time ? { ...zoned, hour: time.hour, minute: time.minute, second: 0, millisecond: 0 } : zoned;
+}
+
+/**
+ * First slot at or after `from`. Slots never precede the start date; rules
+ * without a time of day run at the start date's wall-clock time.
+ */
+function firstSlotAtOrAfter(
+  startDate: Date,
+  spec: FrequencySpec,
+  timeZone: string,
+  from: Date
+): Date {
+  const lower = Math.max(from.getTime(), startDate.getTime());
+
+  if (spec.kind === "hours") {
+    const step = spec.every * HOUR_MS;
+    return new Date(startDate.getTime() + Math.ceil((lower - startDate.getTime()) / step) * step);
+  }
+
+  const anchor = withTime(toZoned(startDate, timeZone), spec.time);
+
+  if (spec.kind === "days" || spec.kind === "weeks") {
+    const stepDays = spec.kind === "days" ? spec.every : spec.every * 7;
+    let k = Math.max(0, Math.floor((lower - startDate.getTime()) / (stepDays * DAY_MS)) - 1);
+    for (let i = 0; i < MAX_SLOT_ITERATIONS; i++, k++) {
+      const slot = fromZoned(addDays(anchor, k * stepDays), timeZone);
+      if (slot.getTime() >= lower) return slot;
+    }
+  }
+
+  if (spec.kind === "weekdays") {
+    const lowerDay = {
+      ...toZoned(new Date(lower), timeZone),
+      hour: anchor.hour,
+      minute: anchor.minute,
+      second: anchor.second,
+      millisecond: anchor.millisecond,
+    };
+    for (let k = -1; k <= 8; k++) {
+      const day = addDays(lowerDay, k);
+      const weekday = new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+      if (!spec.weekdays.includes(weekday)) continue;
+      const slot = fromZoned(day, timeZone);
+      if (slot.getTime() >= lower) return slot;
+    }
+  }
+
+  if (spec.kind === "months") {
+    const dayOfMonth = spec.dayOfMonth ?? anchor.day;
+    const lowerZoned = toZoned(new Date(lower), timeZone);
+    const monthsElapsed = (lowerZoned.year - anchor.year) * 12 + (lowerZoned.month - anchor.month);
+    let k = Math.max(0, Math.floor(monthsElapsed / spec.every) - 1);
+    for (let i = 0; i < MAX_SLOT_ITERATIONS; i++, k++) {
+      const slot = fromZoned(addMonths(anchor, k * spec.every, dayOfMonth), timeZone);
+      if (slot.getTime() >= lower) return slot;
+    }
+  }
+
+  throw new Error(`Could not find the next slot for frequency "${formatFrequency(spec)}"`);
+}
+
+/**
+ * Last moment (23:59:59.999) of a calendar date in a timezone, e.g. for an
+ * order that ends on that day
+ * @param month - 1-12
+ */
+export function endOfDayInZone(
+  year: number,
+  month: number,
+  day: number,
+  timeZone: string = DEFAULT_TIMEZONE
+): Date {
+  return fromZoned(
+    { year, month, day, hour: 23, minute: 59, second: 59, millisecond: 999 },
+    timeZone
+  );
+}
+
+/**
+ * First slot strictly after `after`
+ * @returns ISO timestamp
+ * @throws If the frequency is not supported
+ */
+export function nextSlotAfter(
+  startDate: string | Date,
+  frequency: string,
+  after: string | Date,
+  timeZone: string = DEFAULT_TIMEZONE
+): string {
+  return firstSlotAtOrAfter(
+    new Date(startDate),
+    parseFrequency(frequency),
+    timeZone,
+    new Date(new Date(after).getTime() + 1)
+  ).toISOString();
+}
+
+/**
+ * Slots between `from` and `to` (both inclusive), at most `limit` of them
+ * @returns ISO timestamps in order
+ */
+export function listSlots(
+  startDate: string | Date,
+  frequency: string,
+  from: string | Date,
+  to: string | Date,
+  limit: number = MAX_SLOT_ITERATIONS,
+  timeZone: string = DEFAULT_TIMEZONE
+): string[] {
+  const start = new Date(startDate);
+  const spec = parseFrequency(frequency);
+  const end = new Date(to).getTime();
+  const slots: string[] = [];
+
+  let slot = firstSlotAtOrAfter(start, spec, timeZone, new Date(from));
+  while (slot.getTime() <= end && slots.length < limit) {
+    slots.push(slot.toISOString());
+    slot = firstSlotAtOrAfter(start, spec, timeZone, new Date(slot.getTime() + 1));
+  }
+  return slots;
+}
+
+/**
+ * Decide what to do with an order whose due slot is `dueSlot` at time `now`.
+ * The due slot plus every later slot up to `now` are overdue; if there is only
+ * one the order is simply on time and that slot runs. Slots after `endDate`
+ * are never planned.
+ * @param maxCatchUp - Most slots "run_all" executes; older ones are skipped
+ */
+export function planMissedSlots(
+  startDate: string | Date,
+  frequency: string,
+  dueSlot: string | Date,
+  now: Date,
+  policy: MissedSlotPolicy,
+  maxCatchUp: number,
+  endDate?: string | null,
+  timeZone: string = DEFAULT_TIMEZONE
+): MissedSlotPlan {
+  const due = new Date(dueSlot);
+  const nextExecutionDate = nextSlotAfter(startDate, frequency, now, timeZone);
+  const until = Math.min(now.getTime(), endDate ? new Date(endDate).getTime() : Infinity);
+
+  if (due.getTime() > until) {
+    return { runSlot: null, skippedSlots: [], nextExecutionDate };
+  }
+
+  const overdue = [
+    due.toISOString(),
+    ...listSlots(
+      startDate,
+      frequency,
+      new Date(due.getTime() + 1),
+      new Date(until),
+      MAX_SLOT_ITERATIONS,
+      timeZone
+    ),
+  ];
+
+  if (overdue.length === 1) {
+    return { runSlot: overdue[0], skippedSlots: [], nextExecutionDate };
+  }
+
+  switch (policy) {
+    case "skip":
+      return { runSlot: null, skippedSlots: overdue, nextExecutionDate };
+    case "run_all": {
+      const firstRun = Math.max(0, overdue.length - Math.max(1, maxCatchUp));
+      return {
+        runSlot: overdue[firstRun],
+        skippedSlots: overdue.slice(0, firstRun),
+        nextExecutionDate,
+      };
+    }
+    case "run_once":
+    default:
+      return {
+        runSlot: overdue[overdue.length - 1],
+        skippedSlots: overdue.slice(0, -1),
+        nextExecutionDate,
+      };
+  }
+}
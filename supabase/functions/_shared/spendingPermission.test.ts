@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { bytesToHex } from "@noble/hashes/utils";
+import {
+  type SpendingPermission,
+  checkExecutionAgainstPermission,
+  hashSpendingPermission,
+  recoverSpendingPermissionSigner,
+  verifySpendingPermission,
+} from "./spendingPermission.ts";
+
+// Well-known development key (Hardhat/Anvil account #0), never funded on a real network
+const ADDRESS = "0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266";
+
+// 100 WUSDC per day into QTM, 3000 WUSDC in total, during January 2026
+const PERMISSION: SpendingPermission = {
+  wallet: ADDRESS,
+  sourceToken: "0xd40fcaa5d2ce963c5dabc2bf59e268489ad7bce4",
+  targetToken: "0xcd304d2a421bfed31d45f0054af8e8a6a4cf3eae",
+  maxAmountPerExecution: "100000000",
+  frequency: "Daily",
+  totalBudget: "3000000000",
+  validAfter: "1767225600",
+  expiry: "1769903999",
+  nonce: "42",
+};
+
+// Expected values produced independently with viem (hashTypedData, signTypedData)
+const DIGEST = "0df8300461c2955be02bb7a2b1792b827536ad9cee34862f455a33c159ed30f0";
+const SIGNATURE =
+  "0x8816ffe35cbbbc682be9d6b3245ef2586d7f7ab9dfbbc1d9716076b18121fbd93d5734b4f740a92c248c1902c89809d30b48a044d8e6f209a98ba934acf4b4861c";
+
+describe("hashSpendingPermission", () => {
+  it("matches the EIP-712 digest", () => {
+    expect(bytesToHex(hashSpendingPermission(PERMISSION))).toBe(DIGEST);
+  });
+});
+
+describe("recoverSpendingPermissionSigner", () => {
+  it("recovers the signing wallet", () => {
+    expect(recoverSpendingPermissionSigner(PERMISSION, SIGNATURE)).toBe(ADDRESS);
+  });
+
+  it("recovers another address for a changed permission", () => {
+    const changed = { ...PERMISSION, maxAmountPerExecution: "200000000" };
+    expect(recoverSpendingPermissionSigner(changed, SIGNATURE)).not.toBe(ADDRESS);
+  });
+
+  it("rejects malformed signatures", () => {
+    expect(recoverSpendingPermissionSigner(PERMISSION, SIGNATURE.slice(0, -2))).toBeNull();
+    expect(recoverSpendingPermissionSigner(PERMISSION, `${SIGNATURE.slice(0, -2)}1d`)).toBeNull();
+  });
+});
+
+describe("verifySpendingPermission", () => {
+  it("only accepts the wallet the permission was signed by and for", () => {
+    const signed = { permission: PERMISSION, signature: SIGNATURE };
+    expect(verifySpendingPermission(signed, "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266")).toBe(true);
+    expect(verifySpendingPermission(signed, "0x" + "11".repeat(20))).toBe(false);
+  });
+});
+
+describe("checkExecutionAgainstPermission", () => {
+  // One day and a second after validAfter: two daily executions are allowed
+  const now = new Date((Number(PERMISSION.validAfter) + 86401) * 1000);
+  const execution = {
+    amountBaseUnits: BigInt(100000000),
+    spentBaseUnits: BigInt(100000000),
+    executionCount: 1,
+    now,
+  };
+
+  it("allows an execution inside every bound", () => {
+    expect(checkExecutionAgainstPermission(PERMISSION, execution)).toBeNull();
+  });
+
+  it("rejects executions outside the validity window", () => {
+    expect(
+      checkExecutionAgainstPermission(PERMISSION, { ...execution, now: new Date(1767225599000) })
+    ).toBe("Permission is not valid yet");
+    expect(
+      checkExecutionAgainstPermission(PERMISSION, { ...execution, now: new Date(1769903999000) })
+    ).toBe("Permission has expired");
+  });
+
+  it("rejects executions past the total budget", () => {
+    expect(
+      checkExecutionAgainstPermission(PERMISSION, { ...execution, spentBaseUnits: BigInt(2950000000) })
+    ).toBe("Execution would exceed the signed total budget");
+  });
+
+  it("rejects executions more frequent than the signed frequency", () => {
+    expect(checkExecutionAgainstPermission(PERMISSION, { ...execution, executionCount: 2 })).toBe(
+      "Execution would run more often than the signed frequency allows"
+    );
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * EIP-712 spending permissions for recurring orders
+ *
+ * When a user creates a recurring order their wallet signs a typed-data
+ * permission that bounds what the executor may do on their behalf: the token
+ * pair, a per-execution cap, the frequency, a total budget and an expiry.
+ * The app verifies the signature before storing the order and the executor
+ * re-verifies it (and the bounds) before every run.
+ */
+
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { minIntervalSeconds, validateFrequency } from "./frequency.ts";
+
+export const SPENDING_PERMISSION_DOMAIN = {
+  name: "Tower Finance",
+  version: "1",
+  chainId: 5042002, // Arc Testnet
+};
+
+export const SPENDING_PERMISSION_TYPES = {
+  EIP712Domain: [
+    { name: "name", type: "string" },
+    { name: "version", type: "string" },
+    { name: "chainId", type: "uint256" },
+  ],
+  RecurringOrderPermission: [
+    { name: "wallet", type: "address" },
+    { name: "sourceToken", type: "address" },
+    { name: "targetToken", type: "address" },
+    { name: "maxAmountPerExecution", type: "uint256" },
+    { name: "frequency", type: "string" },
+    { name: "totalBudget", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+/**
+ * Signed permission message. Token amounts are base units and timestamps are
+ * unix seconds, all as decimal strings so they survive JSON storage.
+ */
+export interface SpendingPermission {
+  wallet: string;
+  sourceToken: string;
+  targetToken: string;
+  maxAmountPerExecution: string;
+  frequency: string;
+  totalBudget: string;
+  validAfter: string;
+  expiry: string;
+  nonce: string;
+}
+
+export interface SignedSpendingPermission {
+  permission: SpendingPermission;
+  signature: string;
+}
+
+type TypedField = { name: string; type: string };
+
+function strip0x(hex: string): string {
+  return hex.startsWith("0x") ? hex.slice(2) : hex;
+}
+
+function encodeType(primaryType: string, fields: TypedField[]): string {
+  return `${primaryType}(${fields.map((f) => `${f.type} ${f.name}`).join(",")})`;
+}
+
+function encodeValue(type: string, value: string | number): Uint8Array {
+  if (type === "string") {
+    return keccak_256(utf8ToBytes(String(value)));
+  }
+  if (type === "address") {
+    return hexToBytes(strip0x(String(value)).toLowerCase().padStart(64, "0"));
+  }
+  if (type === "uint256") {
+    return hexToBytes(BigInt(value).toString(16).padStart(64, "0"));
+  }
+  throw new Error(`Unsupported EIP-712 type: ${type}`);
+}
+
+function hashStruct(
+  primaryType: string,
+  fields: TypedField[],
+  data: Record<string, string | number>
+): Uint8Array {
+  const typeHash = keccak_256(utf8ToBytes(encodeType(primaryType, fields)));
+  return keccak_256(
+    concatBytes(typeHash, ...fields.map((f) => encodeValue(f.type, data[f.name])))
+  );
+}
+
+/**
+ * Build the eth_signTypedData_v4 payload for a permission
+ */
+export function buildSpendingPermissionTypedData(permission: SpendingPermission) {
+  return {
+    types: SPENDING_PERMISSION_TYPES,
+    primaryType: "RecurringOrderPermission" as const,
+    domain: SPENDING_PERMISSION_DOMAIN,
+    message: permission,
+  };
+}
+
+/**
+ * EIP-712 digest that the wallet signs
+ */
+export function hashSpendingPermission(permission: SpendingPermission): Uint8Array {
+  const domainSeparator = hashStruct(
+    "EIP712Domain",
+    SPENDING_PERMISSION_TYPES.EIP712Domain,
+    SPENDING_PERMISSION_DOMAIN
+  );
+  const structHash = hashStruct(
+    "RecurringOrderPermission",
+    SPENDING_PERMISSION_TYPES.RecurringOrderPermission,
+    { ...permission }
+  );
+  return keccak_256(concatBytes(Uint8Array.of(0x19, 0x01), domainSeparator, structHash));
+}
+
+/**
+ * Recover the address that signed a permission
+ * @returns Lowercase address, or null if the signature is malformed
+ */
+export function recoverSpendingPermissionSigner(
+  permission: SpendingPermission,
+  signature: string
+): string | null {
+  try {
+    const raw = strip0x(signature);
+    if (raw.length !== 130) return null;
+
+    const v = parseInt(raw.slice(128, 130), 16);
+    const recovery = v >= 27 ? v - 27 : v;
+    if (recovery !== 0 && recovery !== 1) return null;
+
+    const publicKey = secp256k1.Signature.fromCompact(raw.slice(0, 128))
+      .addRecoveryBit(recovery)
+      .recoverPublicKey(hashSpendingPermission(permission))
+      .toRawBytes(false);
+
+    return `0x${bytesToHex(keccak_256(publicKey.slice(1)).slice(-20))}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check that a permission was signed by the given wallet
+ */
+export function verifySpendingPermission(
+  signed: SignedSpendingPermission,
+  walletAddress: string
+): boolean {
+  const signer = recoverSpendingPermissionSigner(signed.permission, signed.signature);
+  return (
+    signer !== null &&
+    signer === walletAddress.toLowerCase() &&
+    signed.permission.wallet.toLowerCase() === walletAddress.toLowerCase()
+  );
+}
+
+/**
+ * Maximum number of executions a permission allows up to `now`, based on the
+ * shortest interval its frequency can run at
+ */
+export function maxExecutionsAllowed(permission: SpendingPermission, now: Date): number {
+  if (validateFrequency(permission.frequency)) return 0;
+  const interval = minIntervalSeconds(permission.frequency);
+  const elapsed = Math.floor(now.getTime() / 1000) - Number(permission.validAfter);
+  if (!interval || elapsed < 0) return 0;
+  return Math.floor(elapsed / interval) + 1;
+}
+
+/**
+ * Check a recurring order's static terms against its permission
+ * @returns A violation message, or null if the order fits inside the permission
+ */
+export function checkOrderAgainstPermission(
+  permission: SpendingPermission,
+  order: {
+    walletAddress: string;
+    sourceTokenAddress: string;
+    targetTokenAddress: string;
+    amountBaseUnits: bigint;
+    frequency: string;
+  }
+): string | null {
+  if (permission.wallet.toLowerCase() !== order.walletAddress.toLowerCase()) {
+    return "Permission was issued for a different wallet";
+  }
+  if (
+    permission.sourceToken.toLowerCase() !== order.sourceTokenAddress.toLowerCase() ||
+    permission.targetToken.toLowerCase() !== order.targetTokenAddress.toLowerCase()
+  ) {
+    return "Order token pair does not match the signed permission";
+  }
+  if (order.amountBaseUnits > BigInt(permission.maxAmountPerExecution)) {
+    return "Order amount exceeds the signed per-execution cap";
+  }
+  if (permission.frequency !== order.frequency) {
+    return "Order frequency does not match the signed permission";
+  }
+  const frequencyError = validateFrequency(permission.frequency);
+  if (frequencyError) {
+    return `Invalid frequency in permission: ${frequencyError}`;
+  }
+  return null;
+}
+
+/**
+ * Whether a permission's expiry has passed; an expired permission can never
+ * allow another execution
+ */
+export function isPermissionExpired(permission: SpendingPermission, now: Date): boolean {
+  return Math.floor(now.getTime() / 1000) >= Number(permission.expiry);
+}
+
+/**
+ * Check whether one more execution is inside the permission's bounds
+ * @returns A violation message, or null if the execution is allowed
+ */
+export function checkExecutionAgainstPermission(
+  permission: SpendingPermission,
+  execution: {
+    amountBaseUnits: bigint;
+    spentBaseUnits: bigint;
+    executionCount: number;
+    now: Date;
+  }
+): string | null {
+  const nowSeconds = Math.floor(execution.now.getTime() / 1000);
+
+  if (nowSeconds < Number(permission.validAfter)) {
+    return "Permission is not valid yet";
+  }
+  if (isPermissionExpired(permission, execution.now)) {
+    return "Permission has expired";
+  }
+  if (execution.spentBaseUnits + execution.amountBaseUnits > BigInt(permission.totalBudget)) {
+    return "Execution would exceed the signed total budget";
+  }
+  if (execution.executionCount >= maxExecutionsAllowed(permission, execution.now)) {
+    return "Execution would run more often than the signed frequency allows";
+  }
+  return null;
+}
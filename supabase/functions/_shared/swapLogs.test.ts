@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { TRANSFER_TOPIC } from "./fills.ts";
+import { type ChainLog, decodePoolSwaps, decodeRouterSwaps } from "./swapLogs.ts";
+
+const TOKEN_A = "0x" + "a1".repeat(20);
+const TOKEN_B = "0x" + "b1".repeat(20);
+const POOL = "0x" + "01".repeat(20);
+const ROUTER = "0x" + "02".repeat(20);
+const TRADER = "0x" + "03".repeat(20);
+const TX = "0x" + "ee".repeat(32);
+
+const topic = (address: string) => `0x${address.slice(2).padStart(64, "0")}`;
+
+/** Transfer log of `amount` of `token`, at `logIndex` in TX */
+const transfer = (logIndex: number, token: string, from: string, to: string, amount: number): ChainLog => ({
+  address: token,
+  topics: [TRANSFER_TOPIC, topic(from), topic(to)],
+  data: `0x${amount.toString(16).padStart(64, "0")}`,
+  blockNumber: "0x10",
+  blockHash: "0x" + "bb".repeat(32),
+  transactionHash: TX,
+  logIndex: `0x${logIndex.toString(16)}`,
+});
+
+// TRADER swaps 100 A for 95 B through ROUTER and POOL
+const ROUTED_SWAP = [
+  transfer(0, TOKEN_A, TRADER, ROUTER, 100),
+  transfer(1, TOKEN_A, ROUTER, POOL, 100),
+  transfer(2, TOKEN_B, POOL, ROUTER, 95),
+  transfer(3, TOKEN_B, ROUTER, TRADER, 95),
+];
+
+describe("decodePoolSwaps", () => {
+  it("finds the pool's side of a routed swap", () => {
+    const [swap] = decodePoolSwaps(ROUTED_SWAP, { address: POOL, coins: [TOKEN_A, TOKEN_B] });
+
+    expect(swap).toMatchObject({
+      pool: POOL,
+      sender: ROUTER,
+      recipient: ROUTER,
+      soldIndex: 0,
+      boughtIndex: 1,
+      amountIn: BigInt(100),
+      amountOut: BigInt(95),
+    });
+  });
+});
+
+describe("decodeRouterSwaps", () => {
+  const router = { address: ROUTER, coins: [TOKEN_A, TOKEN_B] };
+
+  it("finds the trader's side of a routed swap", () => {
+    expect(decodeRouterSwaps(ROUTED_SWAP, router)).toEqual([
+      {
+        pool: ROUTER,
+        transactionHash: TX,
+        blockNumber: 16,
+        blockHash: "0x" + "bb".repeat(32),
+        logIndex: 0,
+        sender: TRADER,
+        recipient: TRADER,
+        soldIndex: 0,
+        boughtIndex: 1,
+        amountIn: BigInt(100),
+        amountOut: BigInt(95),
+      },
+    ]);
+  });
+
+  it("leaves out transactions that end with the token they started with", () => {
+    const refund = [
+      transfer(0, TOKEN_A, TRADER, ROUTER, 100),
+      transfer(1, TOKEN_A, ROUTER, TRADER, 100),
+    ];
+    expect(decodeRouterSwaps(refund, router)).toEqual([]);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Pool swaps read from ERC-20 `Transfer` logs
+ *
+ * Pools are read through the tokens' standard `Transfer` events rather than
+ * the pools' own events, so every pool that holds ERC-20s can be read the same
+ * way. A transaction that sends one pool token in and takes the other out is a
+ * swap; liquidity changes move both tokens the same way and are left out.
+ *
+ * A router only passes tokens through, so its net flows cancel out. Router
+ * swaps are read from the transfers between the router and the trader
+ * instead: the first token sent to the router and the last token it sends on.
+ */
+
+import { type ReceiptLog, TRANSFER_TOPIC } from "./fills.ts";
+
+// Log as returned by `eth_getLogs`
+export interface ChainLog extends ReceiptLog {
+  blockNumber: string;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: string;
+  /** Set on logs dropped by a reorg */
+  removed?: boolean;
+}
+
+export interface SwapPool {
+  address: string;
+  /** Token contract addresses in pool index order */
+  coins: string[];
+}
+
+export interface PoolSwap {
+  pool: string;
+  transactionHash: string;
+  blockNumber: number;
+  blockHash: string;
+  /** Index of the swap's first log in the block */
+  logIndex: number;
+  /** Account that sent the sold token to the pool (a router for routed swaps) */
+  sender: string;
+  /** Account that received the bought token */
+  recipient: string;
+  /** Pool-local index of the sold token */
+  soldIndex: number;
+  /** Pool-local index of the bought token */
+  boughtIndex: number;
+  /** Sold token amount in base units */
+  amountIn: bigint;
+  /** Bought token amount in base units */
+  amountOut: bigint;
+}
+
+const toTopic = (address: string): string => `0x${address.slice(2).toLowerCase().padStart(64, "0")}`;
+
+const topicAddress = (topic: string | undefined): string =>
+  topic ? `0x${topic.slice(-40)}`.toLowerCase() : "";
+
+/**
+ * `eth_getLogs` filters for the pool tokens' transfers into and out of a pool
+ * (or a router, with the tokens it may carry as `coins`)
+ * @param fromBlock - First block, as a hex quantity
+ * @param toBlock - Last block, as a hex quantity
+ */
+export function poolTransferFilters(pool: SwapPool, fromBlock: string, toBlock: string) {
+  const base = { address: pool.coins, fromBlock, toBlock };
+  return [
+    { ...base, topics: [TRANSFER_TOPIC, null, toTopic(pool.address)] },
+    { ...base, topics: [TRANSFER_TOPIC, toTopic(pool.address)] },
+  ];
+}
+
+/**
+ * Transfer logs grouped by transaction, in log order, without removed and
+ * duplicate logs
+ */
+function groupTransfers(logs: ChainLog[]): Map<string, ChainLog[]> {
+  const seen = new Set<string>();
+  const byTransaction = new Map<string, ChainLog[]>();
+
+  for (const log of logs) {
+    const key = `${log.transactionHash}:${log.logIndex}`;
+    if (log.removed || seen.has(key) || log.topics[0]?.toLowerCase() !== TRANSFER_TOPIC) continue;
+    seen.add(key);
+    const group = byTransaction.get(log.transactionHash) ?? [];
+    group.push(log);
+    byTransaction.set(log.transactionHash, group);
+  }
+
+  for (const group of byTransaction.values()) {
+    group.sort((a, b) => Number(BigInt(a.logIndex) - BigInt(b.logIndex)));
+  }
+  return byTransaction;
+}
+
+/**
+ * Find a pool's swaps in its tokens' transfer logs
+ * @param logs - Transfer logs of the pool tokens, e.g. from poolTransferFilters
+ * @returns Swaps in chain order
+ */
+export function decodePoolSwaps(logs: ChainLog[], pool: SwapPool): PoolSwap[] {
+  const poolAddress = pool.address.toLowerCase();
+  const coins = pool.coins.map((coin) => coin.toLowerCase());
+
+  const swaps: PoolSwap[] = [];
+  for (const [transactionHash, group] of groupTransfers(logs)) {
+    const inflow = coins.map(() => BigInt(0));
+    const outflow = coins.map(() => BigInt(0));
+    let sender = "";
+    let recipient = "";
+
+    for (const log of group) {
+      const coin = coins.indexOf(log.address.toLowerCase());
+      if (coin === -1 || !log.data || log.data === "0x") continue;
+      const from = topicAddress(log.topics[1]);
+      const to = topicAddress(log.topics[2]);
+      if (to === poolAddress && from !== poolAddress) {
+        inflow[coin] += BigInt(log.data);
+        sender ||= from;
+      } else if (from === poolAddress && to !== poolAddress) {
+        outflow[coin] += BigInt(log.data);
+        recipient ||= to;
+      }
+    }
+
+    const sold = inflow.map((amount, i) => (amount > outflow[i] ? i : -1)).filter((i) => i !== -1);
+    const bought = outflow.map((amount, i) => (amount > inflow[i] ? i : -1)).filter((i) => i !== -1);
+    if (sold.length !== 1 || bought.length !== 1) continue;
+
+    const [soldIndex] = sold;
+    const [boughtIndex] = bought;
+    swaps.push({
+      pool: poolAddress,
+      transactionHash,
+      blockNumber: Number(BigInt(group[0].blockNumber)),
+      blockHash: group[0].blockHash,
+      logIndex: Number(BigInt(group[0].logIndex)),
+      sender,
+      recipient,
+      soldIndex,
+      boughtIndex,
+      amountIn: inflow[soldIndex] - outflow[soldIndex],
+      amountOut: outflow[boughtIndex] - inflow[boughtIndex],
+    });
+  }
+
+  return swaps.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+/**
+ * Find the swaps made through a router in its transfer logs
+ *
+ * The trader is whoever sent the router its first token in the transaction,
+ * and the recipient is whoever the router sent its last token to. Transfers
+ * between the router and pools in between are the route itself and are left
+ * out. Transactions that end with the token they started with are not swaps.
+ * @param logs - Transfer logs into and out of the router, e.g. from poolTransferFilters
+ * @param router - The router, with every token it may carry as `coins`
+ * @returns Swaps in chain order, with the router as `pool`
+ */
+export function decodeRouterSwaps(logs: ChainLog[], router: SwapPool): PoolSwap[] {
+  const routerAddress = router.address.toLowerCase();
+  const coins = router.coins.map((coin) => coin.toLowerCase());
+
+  const swaps: PoolSwap[] = [];
+  for (const [transactionHash, group] of groupTransfers(logs)) {
+    const transfers = group
+      .filter((log) => log.data && log.data !== "0x" && coins.includes(log.address.toLowerCase()))
+      .map((log) => ({
+        coin: coins.indexOf(log.address.toLowerCase()),
+        from: topicAddress(log.topics[1]),
+        to: topicAddress(log.topics[2]),
+        amount: BigInt(log.data),
+      }));
+    const first = transfers.find((transfer) => transfer.to === routerAddress);
+    const last = [...transfers].reverse().find((transfer) => transfer.from === routerAddress);
+    if (!first || !last || first.coin === last.coin) continue;
+
+    const sum = (matches: (transfer: (typeof transfers)[number]) => boolean) =>
+      transfers.filter(matches).reduce((total, transfer) => total + transfer.amount, BigInt(0));
+    swaps.push({
+      pool: routerAddress,
+      transactionHash,
+      blockNumber: Number(BigInt(group[0].blockNumber)),
+      blockHash: group[0].blockHash,
+      logIndex: Number(BigInt(group[0].logIndex)),
+      sender: first.from,
+      recipient: last.to,
+      soldIndex: first.coin,
+      boughtIndex: last.coin,
+      amountIn: sum((t) => t.coin === first.coin && t.from === first.from && t.to === routerAddress),
+      amountOut: sum((t) => t.coin === last.coin && t.from === routerAddress && t.to === last.to),
+    });
+  }
+
+  return swaps.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
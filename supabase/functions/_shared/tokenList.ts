@@ -0,0 +1,177 @@
+/**
+ * Token lists in the Uniswap tokenlist JSON format
+ * (https://github.com/Uniswap/token-lists), used to manage token metadata
+ * without editing BUNDLED_TOKENS
+ *
+ * Lists are validated against the parts of the schema the app relies on and
+ * merged in priority order: for a given symbol or address, the first list
+ * that lists it wins.
+ */
+
+import type { TokenInfo } from "./tokens.ts";
+
+export const ARC_TESTNET_CHAIN_ID = 5042002;
+
+export interface TokenListToken {
+  chainId: number;
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+}
+
+export interface TokenList {
+  name: string;
+  timestamp: string;
+  version: { major: number; minor: number; patch: number };
+  tokens: TokenListToken[];
+  logoURI?: string;
+  keywords?: string[];
+}
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+// Absolute URIs, plus site-relative paths for lists served by the app itself
+const LOGO_URI_PATTERN = /^((https?|ipfs|ar):\/\/\S+|data:image\/\S+|\/\S*)$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+function validateToken(value: unknown, index: number): TokenListToken {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid token list: tokens[${index}] ${reason}`);
+  };
+
+  if (!isObject(value)) fail("is not an object");
+  const token = value as Record<string, unknown>;
+
+  if (!isCount(token.chainId) || token.chainId < 1) fail("has an invalid chainId");
+  if (typeof token.address !== "string" || !ADDRESS_PATTERN.test(token.address)) {
+    fail("has an invalid address");
+  }
+  if (!isCount(token.decimals) || token.decimals > 255) fail("has invalid decimals");
+  if (typeof token.symbol !== "string" || !/^\S{1,20}$/.test(token.symbol)) {
+    fail("has an invalid symbol");
+  }
+  if (typeof token.name !== "string" || token.name.length > 60) fail("has an invalid name");
+  if (
+    token.logoURI !== undefined &&
+    (typeof token.logoURI !== "string" || !LOGO_URI_PATTERN.test(token.logoURI))
+  ) {
+    fail("has an invalid logoURI");
+  }
+  if (
+    token.tags !== undefined &&
+    (!Array.isArray(token.tags) || token.tags.some((tag) => typeof tag !== "string"))
+  ) {
+    fail("has invalid tags");
+  }
+
+  return token as unknown as TokenListToken;
+}
+
+/**
+ * Check that a parsed JSON value is a token list
+ * @returns The value typed as a TokenList
+ * @throws If a required field is missing or malformed, or a token is listed twice on a chain
+ */
+export function validateTokenList(value: unknown): TokenList {
+  if (!isObject(value)) {
+    throw new Error("Invalid token list: not a JSON object");
+  }
+  if (typeof value.name !== "string" || value.name.length === 0 || value.name.length > 30) {
+    throw new Error("Invalid token list: name must be 1-30 characters");
+  }
+  if (typeof value.timestamp !== "string" || Number.isNaN(Date.parse(value.timestamp))) {
+    throw new Error("Invalid token list: timestamp must be an ISO 8601 date");
+  }
+  const version = value.version;
+  if (!isObject(version) || !isCount(version.major) || !isCount(version.minor) || !isCount(version.patch)) {
+    throw new Error("Invalid token list: version must have integer major, minor and patch");
+  }
+  if (!Array.isArray(value.tokens) || value.tokens.length === 0 || value.tokens.length > 10000) {
+    throw new Error("Invalid token list: tokens must list 1-10000 tokens");
+  }
+
+  const tokens = value.tokens.map(validateToken);
+  const seen = new Set<string>();
+  for (const token of tokens) {
+    for (const key of [`${token.chainId}:${token.address.toLowerCase()}`, `${token.chainId}:${token.symbol}`]) {
+      if (seen.has(key)) {
+        throw new Error(`Invalid token list: ${token.symbol} (${token.address}) is listed twice`);
+      }
+      seen.add(key);
+    }
+  }
+
+  return value as unknown as TokenList;
+}
+
+/**
+ * Fetch and validate a token list
+ * @throws If the request fails or the response is not a valid token list
+ */
+export async function fetchTokenList(url: string): Promise<TokenList> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch token list ${url}: ${response.status}`);
+  }
+  return validateTokenList(await response.json());
+}
+
+/**
+ * Merge token lists into registry tokens for one chain. Lists are in priority
+ * order: a token whose symbol or address an earlier list already took is dropped.
+ */
+export function mergeTokenLists(lists: TokenList[], chainId: number = ARC_TESTNET_CHAIN_ID): TokenInfo[] {
+  const merged: TokenInfo[] = [];
+  const symbols = new Set<string>();
+  const addresses = new Set<string>();
+
+  for (const list of lists) {
+    for (const token of list.tokens) {
+      const address = token.address.toLowerCase();
+      if (token.chainId !== chainId || symbols.has(token.symbol) || addresses.has(address)) continue;
+      symbols.add(token.symbol);
+      addresses.add(address);
+      merged.push({
+        symbol: token.symbol,
+        name: token.name || token.symbol,
+        address: token.address,
+        decimals: token.decimals,
+        logoURI: token.logoURI,
+      });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Build a token list from registry tokens; tokens without an address are left out
+ */
+export function toTokenList(
+  name: string,
+  tokens: TokenInfo[],
+  chainId: number = ARC_TESTNET_CHAIN_ID
+): TokenList {
+  return {
+    name,
+    timestamp: new Date().toISOString(),
+    version: { major: 1, minor: 0, patch: 0 },
+    tokens: tokens
+      .filter((token) => token.address)
+      .map((token) => ({
+        chainId,
+        address: token.address as string,
+        name: token.name,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        ...(token.logoURI ? { logoURI: token.logoURI } : {}),
+      })),
+  };
+}
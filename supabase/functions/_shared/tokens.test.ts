@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  TOKEN_ADDRESSES,
+  getToken,
+  getTokenAddress,
+  getTokenByAddress,
+  listTokens,
+  registerCustomTokens,
+  registerTokens,
+} from "./tokens.ts";
+
+const address = (byte: string) => "0x" + byte.repeat(20);
+
+describe("registerCustomTokens", () => {
+  it("never fills in the address of a bundled token", () => {
+    expect(registerCustomTokens([{ symbol: "USDT", name: "Tether", address: address("a1"), decimals: 6 }])).toEqual([]);
+    expect(getTokenAddress("USDT")).toBeNull();
+    expect(getTokenByAddress(address("a1"))).toBeNull();
+  });
+
+  it("skips imports at a listed address", () => {
+    const wusdc = getTokenAddress("WUSDC") as string;
+    expect(registerCustomTokens([{ symbol: "FAKE", name: "Fake", address: wusdc, decimals: 6 }])).toEqual([]);
+    expect(getToken("FAKE")).toBeNull();
+  });
+
+  it("registers other imports as custom tokens outside the listed tokens", () => {
+    const [added] = registerCustomTokens([{ symbol: "MEME", name: "Meme", address: address("a2"), decimals: 18 }]);
+
+    expect(added.custom).toBe(true);
+    expect(getToken("MEME")).toEqual(added);
+    expect(getTokenByAddress(address("a2"))).toEqual(added);
+    expect(TOKEN_ADDRESSES.MEME).toBe(address("a2"));
+    expect(listTokens().some((token) => token.symbol === "MEME")).toBe(false);
+  });
+
+  it("gives way to a listed token that claims the same address", () => {
+    registerCustomTokens([{ symbol: "PEPE", name: "Pepe", address: address("a3"), decimals: 18 }]);
+    registerTokens([{ symbol: "PEP", name: "Pepe", address: address("a3"), decimals: 18 }]);
+
+    expect(getToken("PEPE")).toBeNull();
+    expect(TOKEN_ADDRESSES.PEPE).toBeUndefined();
+    expect(getTokenByAddress(address("a3"))?.symbol).toBe("PEP");
+    expect(getTokenByAddress(address("a3"))?.custom).toBeUndefined();
+  });
+});
+
+describe("registerTokens", () => {
+  it("only fills in a bundled token's address from a trusted list", () => {
+    expect(registerTokens([{ symbol: "UNI", name: "Uniswap", address: address("b1"), decimals: 18 }])).toEqual([]);
+    expect(getTokenAddress("UNI")).toBeNull();
+
+    registerTokens([{ symbol: "UNI", name: "Uniswap", address: address("b1"), decimals: 18 }], true);
+    expect(getTokenAddress("UNI")).toBe(address("b1"));
+  });
+
+  it("ignores tokens marked as imported", () => {
+    registerTokens([{ symbol: "HYPE", name: "Hyperliquid", address: address("b2"), decimals: 18, custom: true }], true);
+    expect(getTokenAddress("HYPE")).toBeNull();
+  });
+});
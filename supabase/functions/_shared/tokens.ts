@@ -0,0 +1,368 @@
+/**
+ * Token registry shared by the app and the execute-recurring-orders edge function
+ *
+ * BUNDLED_TOKENS is the reviewed list of tokens the app ships with. Tokens
+ * from configured token lists (tokenList.ts), the QuantumExchange token list
+ * and on-chain `symbol()`/`decimals()` reads are merged in at runtime with
+ * refreshTokenRegistry, in that priority order; a bundled token's address and
+ * decimals are never overridden, so a remote list cannot repoint a listed
+ * symbol.
+ *
+ * Tokens a user imports are kept apart with registerCustomTokens: they resolve
+ * by symbol and address like any other token, but never take a listed symbol
+ * or address, and give way to a listed token that later claims either.
+ *
+ * TOKEN_ADDRESSES, TOKEN_DECIMALS, NATIVE_TOKENS and ERC20_TOKENS are live
+ * views of the registry, updated in place as tokens are registered.
+ */
+
+import { encodeFunctionData } from "./abi.ts";
+import { ERC20_ABI, decodeString, decodeUint256 } from "./erc20.ts";
+import { fetchTokenList, mergeTokenLists } from "./tokenList.ts";
+
+export interface TokenInfo {
+  symbol: string;
+  name: string;
+  /** Contract address on Arc Testnet, or null if the token is not deployed there */
+  address: string | null;
+  decimals: number;
+  /** Paid via msg.value instead of an ERC-20 transfer */
+  native?: boolean;
+  /** Imported by a user from its contract address; not reviewed */
+  custom?: boolean;
+  /** Logo from a token list, used when the app has no icon for the symbol */
+  logoURI?: string;
+}
+
+/** Token as listed by the QuantumExchange `/tokens` endpoint */
+export interface RemoteToken {
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+}
+
+/** `eth_call` against the latest block */
+export type EthCall = (to: string, data: string) => Promise<string>;
+
+export interface TokenRegistrySources {
+  /** Token list URLs, highest priority first */
+  tokenListUrls?: string[];
+  /** Fetches the QuantumExchange token list */
+  fetchRemoteTokens?: () => Promise<RemoteToken[]>;
+  /** Reads symbol() and decimals() of tokens not in BUNDLED_TOKENS */
+  ethCall?: EthCall;
+  /** Extra token addresses to read on-chain */
+  addresses?: string[];
+}
+
+// Note: USDC is the native token on Arc Testnet (18 decimals); WUSDC is its ERC-20 wrapper (6 decimals)
+export const BUNDLED_TOKENS: TokenInfo[] = [
+  {
+    symbol: "USDC",
+    name: "USD Coin",
+    address: "0x3600000000000000000000000000000000000000",
+    decimals: 18,
+    native: true,
+  },
+  {
+    symbol: "WUSDC",
+    name: "Wrapped USDC",
+    address: "0xD40fCAa5d2cE963c5dABC2bf59E268489ad7BcE4",
+    decimals: 6,
+  },
+  {
+    symbol: "QTM",
+    name: "Quantum",
+    address: "0xCD304d2A421BFEd31d45f0054AF8E8a6a4cF3EaE",
+    decimals: 18,
+  },
+  {
+    symbol: "EURC",
+    name: "Euro Coin",
+    address: "0x89B50855Aa3bE2F677cD6303Cec089B5F319D72a",
+    decimals: 6,
+  },
+  {
+    symbol: "SWPRC",
+    name: "Swaparc Token",
+    address: "0xBE7477BF91526FC9988C8f33e91B6db687119D45",
+    decimals: 6,
+  },
+  // Listed in the UI but not deployed on Arc Testnet yet
+  { symbol: "USDT", name: "Tether", address: null, decimals: 6 },
+  { symbol: "UNI", name: "Uniswap", address: null, decimals: 18 },
+  { symbol: "HYPE", name: "Hyperliquid", address: null, decimals: 18 },
+  { symbol: "ETH", name: "Ethereum", address: null, decimals: 18 },
+];
+
+export const TOKEN_ADDRESSES: Record<string, string> = {};
+export const TOKEN_DECIMALS: Record<string, number> = {};
+export const NATIVE_TOKENS: string[] = [];
+export const ERC20_TOKENS: string[] = [];
+
+const registry = new Map<string, TokenInfo>();
+// Tokens imported by users, keyed by symbol
+const customRegistry = new Map<string, TokenInfo>();
+const bundledSymbols = new Set(BUNDLED_TOKENS.map((token) => token.symbol));
+
+function syncViews(token: TokenInfo): void {
+  TOKEN_DECIMALS[token.symbol] = token.decimals;
+  if (token.address) {
+    TOKEN_ADDRESSES[token.symbol] = token.address;
+  }
+  if (token.native) {
+    if (!NATIVE_TOKENS.includes(token.symbol)) NATIVE_TOKENS.push(token.symbol);
+  } else if (!ERC20_TOKENS.includes(token.symbol)) {
+    ERC20_TOKENS.push(token.symbol);
+  }
+}
+
+function removeFromViews(symbol: string): void {
+  delete TOKEN_DECIMALS[symbol];
+  delete TOKEN_ADDRESSES[symbol];
+  for (const list of [NATIVE_TOKENS, ERC20_TOKENS]) {
+    const index = list.indexOf(symbol);
+    if (index !== -1) list.splice(index, 1);
+  }
+}
+
+const isValidToken = (token: TokenInfo, symbol: string): boolean =>
+  !!symbol && Number.isInteger(token.decimals) && token.decimals >= 0 && token.decimals <= 36;
+
+/** Registered (non-custom) token at an address */
+function findListedByAddress(address: string): TokenInfo | null {
+  const normalized = address.toLowerCase();
+  for (const token of registry.values()) {
+    if (token.address?.toLowerCase() === normalized) return token;
+  }
+  return null;
+}
+
+/** Drop imported tokens that clash with a newly listed token */
+function evictCustomTokens(listed: TokenInfo): void {
+  for (const [symbol, token] of customRegistry) {
+    const sameAddress = !!listed.address && token.address?.toLowerCase() === listed.address.toLowerCase();
+    if (symbol === listed.symbol || sameAddress) {
+      customRegistry.delete(symbol);
+      if (symbol !== listed.symbol) removeFromViews(symbol);
+    }
+  }
+}
+
+/**
+ * Merge listed tokens into the registry. Bundled tokens only gain a logo from
+ * an entry at the same address, or the address they lack from a trusted token
+ * list; a token whose symbol or address is already taken by another entry is
+ * skipped. Imported tokens that clash with a new entry are dropped.
+ * @param tokens - Tokens to register, highest priority first
+ * @param trusted - Whether the tokens come from a configured token list
+ * @returns The tokens that were added or updated
+ */
+export function registerTokens(tokens: TokenInfo[], trusted: boolean = false): TokenInfo[] {
+  const changed: TokenInfo[] = [];
+
+  for (const token of tokens) {
+    const symbol = token.symbol.trim();
+    if (!isValidToken(token, symbol) || token.custom) {
+      continue;
+    }
+
+    const existing = registry.get(symbol);
+    const owner = token.address ? findListedByAddress(token.address) : null;
+    if (owner && owner.symbol !== symbol) {
+      continue;
+    }
+
+    if (existing) {
+      // A list that agrees on the address can supply a missing logo
+      if (owner && token.logoURI && !existing.logoURI) {
+        const updated = { ...existing, logoURI: token.logoURI };
+        registry.set(symbol, updated);
+        changed.push(updated);
+        continue;
+      }
+      if (existing.address || !token.address || !trusted || !bundledSymbols.has(symbol)) continue;
+      // Fill in the address of a listed token once it is deployed
+      if (existing.decimals !== token.decimals) {
+        console.warn(`Ignoring ${symbol} at ${token.address}: decimals differ from the bundled list`);
+        continue;
+      }
+      const updated = { ...existing, address: token.address, logoURI: existing.logoURI ?? token.logoURI };
+      registry.set(symbol, updated);
+      evictCustomTokens(updated);
+      syncViews(updated);
+      changed.push(updated);
+      continue;
+    }
+
+    const added = { ...token, symbol };
+    registry.set(symbol, added);
+    evictCustomTokens(added);
+    syncViews(added);
+    changed.push(added);
+  }
+
+  return changed;
+}
+
+/**
+ * Register tokens a user imported by contract address. An import never fills
+ * in or replaces a listed token: one whose symbol or address is already taken
+ * is skipped.
+ * @returns The tokens that were added
+ */
+export function registerCustomTokens(tokens: TokenInfo[]): TokenInfo[] {
+  const added: TokenInfo[] = [];
+
+  for (const token of tokens) {
+    const symbol = token.symbol.trim();
+    if (!isValidToken(token, symbol) || !token.address) {
+      continue;
+    }
+    const owner = getTokenByAddress(token.address);
+    if (registry.has(symbol) || customRegistry.has(symbol) || owner) {
+      continue;
+    }
+
+    const custom = { ...token, symbol, custom: true };
+    customRegistry.set(symbol, custom);
+    syncViews(custom);
+    added.push(custom);
+  }
+
+  return added;
+}
+
+/**
+ * Look up a token by symbol
+ */
+export function getToken(symbol: string): TokenInfo | null {
+  return registry.get(symbol) ?? customRegistry.get(symbol) ?? null;
+}
+
+/**
+ * Look up a token by contract address (case-insensitive)
+ */
+export function getTokenByAddress(address: string): TokenInfo | null {
+  const listed = findListedByAddress(address);
+  if (listed) return listed;
+  const normalized = address.toLowerCase();
+  for (const token of customRegistry.values()) {
+    if (token.address?.toLowerCase() === normalized) return token;
+  }
+  return null;
+}
+
+/**
+ * Every listed token, bundled tokens first. Imported tokens are not included.
+ */
+export function listTokens(): TokenInfo[] {
+  return [...registry.values()];
+}
+
+/**
+ * Decimals of a token, or `fallback` for unknown symbols
+ */
+export function getTokenDecimals(symbol: string, fallback: number = 18): number {
+  return getToken(symbol)?.decimals ?? fallback;
+}
+
+/**
+ * Contract address of a token, or null if it is unknown or not deployed
+ */
+export function getTokenAddress(symbol: string): string | null {
+  return getToken(symbol)?.address ?? null;
+}
+
+/**
+ * Whether a token is paid via msg.value
+ */
+export function isNativeToken(symbol: string): boolean {
+  return getToken(symbol)?.native === true;
+}
+
+/**
+ * Read a token's symbol, name and decimals from its contract. `name()` is
+ * optional and falls back to the symbol.
+ * @throws If symbol() or decimals() fails or the contract returns no symbol
+ */
+export async function readTokenMetadata(address: string, ethCall: EthCall): Promise<TokenInfo> {
+  const [symbolResult, decimalsResult, nameResult] = await Promise.all([
+    ethCall(address, encodeFunctionData(ERC20_ABI, "symbol", [])),
+    ethCall(address, encodeFunctionData(ERC20_ABI, "decimals", [])),
+    ethCall(address, encodeFunctionData(ERC20_ABI, "name", [])).catch(() => ""),
+  ]);
+  const symbol = decodeString(symbolResult).trim();
+  if (!symbol) {
+    throw new Error(`Token at ${address} returned no symbol`);
+  }
+  return {
+    symbol,
+    name: decodeString(nameResult).trim() || symbol,
+    address,
+    decimals: Number(decodeUint256(decimalsResult)),
+  };
+}
+
+/**
+ * Merge token lists, the remote token list and on-chain metadata into the
+ * registry. Token lists are configured by the app and trusted as-is, and are
+ * the only source that can fill in a bundled token's missing address; remote
+ * tokens that are not bundled are checked against their contract's
+ * `decimals()` when `ethCall` is given. Failing sources are logged and
+ * skipped, leaving the bundled list in place.
+ * @returns The tokens that were added or updated
+ */
+export async function refreshTokenRegistry(sources: TokenRegistrySources): Promise<TokenInfo[]> {
+  const { tokenListUrls = [], fetchRemoteTokens, ethCall, addresses = [] } = sources;
+  const candidates: TokenInfo[] = [];
+
+  const lists = await Promise.allSettled(tokenListUrls.map(fetchTokenList));
+  const listed = mergeTokenLists(
+    lists.flatMap((result, i) => {
+      if (result.status === "fulfilled") return [result.value];
+      console.warn(`Could not load token list ${tokenListUrls[i]}:`, result.reason);
+      return [];
+    })
+  );
+
+  if (fetchRemoteTokens) {
+    try {
+      const remote = await fetchRemoteTokens();
+      const checked = await Promise.allSettled(
+        remote.map(async (token) => {
+          const info: TokenInfo = {
+            symbol: token.symbol,
+            name: token.name || token.symbol,
+            address: token.address,
+            decimals: Number(token.decimals),
+          };
+          if (ethCall && !bundledSymbols.has(info.symbol)) {
+            info.decimals = Number(decodeUint256(await ethCall(token.address, encodeFunctionData(ERC20_ABI, "decimals", []))));
+          }
+          return info;
+        })
+      );
+      checked.forEach((result) => {
+        if (result.status === "fulfilled") candidates.push(result.value);
+        else console.warn("Could not verify remote token:", result.reason);
+      });
+    } catch (error) {
+      console.warn("Could not fetch the remote token list:", error);
+    }
+  }
+
+  if (ethCall) {
+    const unknown = addresses.filter((address) => !getTokenByAddress(address));
+    const read = await Promise.allSettled(unknown.map((address) => readTokenMetadata(address, ethCall)));
+    read.forEach((result, i) => {
+      if (result.status === "fulfilled") candidates.push(result.value);
+      else console.warn(`Could not read token ${unknown[i]}:`, result.reason);
+    });
+  }
+
+  return [...registerTokens(listed, true), ...registerTokens(candidates)];
+}
+
+registerTokens(BUNDLED_TOKENS, true);
@@ -0,0 +1,37 @@
+/**
+ * Token amount conversion helpers shared by the app and Edge Functions
+ */
+
+/**
+ * Convert a human-readable token amount to base units without float rounding
+ * @param amount - Amount in whole tokens (e.g. 1.5)
+ * @param decimals - Token decimals
+ * @returns Amount in base units (e.g. wei)
+ */
+export function toBaseUnits(amount: number | string, decimals: number): bigint {
+  const text =
+    typeof amount === "number"
+      ? amount.toLocaleString("en-US", { useGrouping: false, maximumFractionDigits: 20 })
+      : amount.trim();
+
+  if (!/^\d+(\.\d+)?$/.test(text)) {
+    throw new Error(`Invalid token amount: ${amount}`);
+  }
+
+  const [whole, fraction = ""] = text.split(".");
+  return BigInt(whole + fraction.padEnd(decimals, "0").slice(0, decimals));
+}
+
+/**
+ * Convert base units back to a human-readable amount
+ * @param value - Amount in base units
+ * @param decimals - Token decimals
+ * @returns Amount in whole tokens as a number
+ */
+export function fromBaseUnits(value: bigint | string, decimals: number): number {
+  const units = typeof value === "bigint" ? value : BigInt(value);
+  const divisor = BigInt(10) ** BigInt(decimals);
+  const whole = units / divisor;
+  const fraction = (units % divisor).toString().padStart(decimals, "0");
+  return parseFloat(`${whole}.${fraction || "0"}`);
+}
@@ -5,6 +5,8 @@
  * that handles automatic recurring order execution.
  */
 
+import { ARC_TESTNET_RPC_URLS } from "../_shared/rpc.ts";
+
 export const EXECUTION_CONFIG = {
   // Maximum number of orders to process in a single run
   // Increase for more throughput, decrease to reduce database load
@@ -23,8 +25,26 @@ export const EXECUTION_CONFIG = {
   // Maximum retry attempts for failed orders
   MAX_RETRIES: 3,
 
-  // Retry delay in milliseconds
-  RETRY_DELAY: 5000, // 5 seconds
+  // Time between executor runs (in milliseconds)
+  // Must match the execute-recurring-orders cron job in schema.sql ('0 * * * *')
+  CRON_INTERVAL: 3600000, // 1 hour
+
+  // Delay before the first retry of a failed slot (in milliseconds)
+  // Later retries back off by RETRY_POLICY.BACKOFF_MULTIPLIER. Retries only
+  // happen on cron runs, so delays shorter than CRON_INTERVAL are rounded up.
+  RETRY_DELAY: 3600000, // 1 hour (one cron run later)
+
+  // Most missed slots an order with the "run_all" policy catches up on
+  // Older missed slots are recorded as Skipped
+  MAX_CATCH_UP_SLOTS: 10,
+
+  // Most broadcast executions still marked Pending that one run looks up
+  // receipts for
+  MAX_PENDING_CHECKS_PER_RUN: 50,
+
+  // How long a claimed order stays locked to one invocation (in milliseconds)
+  // Must cover a full run, including waiting for receipts
+  CLAIM_LEASE_DURATION: 900000, // 15 minutes
 
   // Enable logging (set to false in production for performance)
   ENABLE_LOGGING: true,
@@ -57,41 +77,25 @@ export const CRON_SCHEDULES = {
   MONTHLY: '0 0 1 * *',
 };
 
-// Token configuration for decimals and routing
-export const TOKEN_CONFIG = {
-  DECIMALS: {
-    USDC: 18,
-    WUSDC: 6,
-    QTM: 18,
-    EURC: 6,
-    SWPRC: 6,
-    USDT: 6,
-    UNI: 18,
-    HYPE: 18,
-    ETH: 18,
-  },
-
-  // Tokens supported by QuantumExchange
-  SUPPORTED_TOKENS: [
-    'USDC',
-    'WUSDC',
-    'QTM',
-    'EURC',
-    'SWPRC',
-    'USDT',
-    'UNI',
-    'HYPE',
-    'ETH',
-  ],
-};
+// Token addresses and decimals come from the shared token registry
+// (../_shared/tokens.ts), merged with the QuantumExchange token list each run
 
 // API Configuration
 export const API_CONFIG = {
   // QuantumExchange API endpoint for swap quotes
   QUANTUM_EXCHANGE_API: 'https://www.quantumexchange.app/api/v1/quote',
 
-  // Arc RPC endpoint
-  ARC_RPC_URL: 'https://rpc.testnet.arc.network',
+  // QuantumExchange API endpoint for swap calldata
+  QUANTUM_EXCHANGE_SWAP_API: 'https://www.quantumexchange.app/api/v1/swap',
+
+  // QuantumExchange API endpoint for the supported token list
+  QUANTUM_EXCHANGE_TOKENS_API: 'https://www.quantumexchange.app/api/v1/tokens',
+
+  // Arc RPC endpoints in order of preference (override with ARC_RPC_URLS)
+  ARC_RPC_URLS: ARC_TESTNET_RPC_URLS,
+
+  // Arc Testnet chain ID (used for EIP-155 replay protection when signing)
+  ARC_CHAIN_ID: 5042002,
 
   // Retry policy for API calls
   RETRY_POLICY: {
@@ -101,6 +105,18 @@ export const API_CONFIG = {
   },
 };
 
+// Transaction signing and broadcasting
+export const TRANSACTION_CONFIG = {
+  // Extra gas added on top of the estimate (in %)
+  GAS_LIMIT_BUFFER_PERCENT: 20,
+
+  // How long to wait for a receipt before recording the execution as Pending
+  RECEIPT_TIMEOUT: 60000, // 60 seconds
+
+  // Interval between eth_getTransactionReceipt polls
+  RECEIPT_POLL_INTERVAL: 2000, // 2 seconds
+};
+
 // Database operations configuration
 export const DATABASE_CONFIG = {
   // Query timeouts (in milliseconds)
@@ -155,8 +171,8 @@ export const MONITORING_CONFIG = {
 export default {
   EXECUTION_CONFIG,
   CRON_SCHEDULES,
-  TOKEN_CONFIG,
   API_CONFIG,
+  TRANSACTION_CONFIG,
   DATABASE_CONFIG,
   ERROR_CONFIG,
   MONITORING_CONFIG,
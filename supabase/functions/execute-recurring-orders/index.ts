@@ -1,24 +1,91 @@
-import { createClient } from "@supabase/supabase-js";
+import { type SupabaseClient, createClient } from "@supabase/supabase-js";
+import {
+  API_CONFIG,
+  EXECUTION_CONFIG,
+  TRANSACTION_CONFIG,
+} from "./config.ts";
+import {
+  ethCall,
+  estimateGasWithBuffer,
+  getFeeData,
+  getNativeBalance,
+  getTokenAllowance,
+  getTokenBalance,
+  getTransactionCount,
+  getTransactionReceipt,
+  sendRawTransaction,
+  type TransactionReceipt,
+  waitForReceipt,
+} from "./rpc.ts";
+import { failureUpdate } from "./retry.ts";
+import { resolveSigner } from "./signer.ts";
+import {
+  type SpendingPermission,
+  checkExecutionAgainstPermission,
+  checkOrderAgainstPermission,
+  isPermissionExpired,
+  verifySpendingPermission,
+} from "../_shared/spendingPermission.ts";
+import { effectivePrice, sumTransfersTo } from "../_shared/fills.ts";
+import { DEFAULT_TIMEZONE, validateFrequency } from "../_shared/frequency.ts";
+import { orderLimitReason } from "../_shared/orderLimits.ts";
+import {
+  type ExecutionFailureClass,
+  checkFunding,
+  describeFailureClass,
+} from "../_shared/preflight.ts";
+import {
+  DEFAULT_MISSED_SLOT_POLICY,
+  type MissedSlotPolicy,
+  nextSlotAfter,
+  planMissedSlots,
+} from "../_shared/schedule.ts";
+import { DEFAULT_MAX_SLIPPAGE, checkPriceProtection } from "../_shared/priceProtection.ts";
+import {
+  type RemoteToken,
+  getTokenAddress,
+  getTokenDecimals,
+  isNativeToken,
+  refreshTokenRegistry,
+} from "../_shared/tokens.ts";
+import { fromBaseUnits, toBaseUnits } from "../_shared/units.ts";
 
 // deno-lint-ignore no-explicit-any
 const deno = (globalThis as any).Deno;
 
 const supabaseUrl = deno.env.get("SUPABASE_URL") ?? "";
 const supabaseServiceKey = deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";;
-const arcRpcUrl = "https://rpc.testnet.arc.network";
-
-// Token decimals for proper amount conversion
-const TOKEN_DECIMALS: Record<string, number> = {
-  USDC: 18,
-  WUSDC: 6,
-  QTM: 18,
-  EURC: 6,
-  SWPRC: 6,
-  USDT: 6,
-  UNI: 18,
-  HYPE: 18,
-  ETH: 18,
-};
+
+// Gas on Arc is paid in native USDC (18 decimals)
+const NATIVE_DECIMALS = 18;
+
+// Token list merge, once per isolate
+let tokenRegistryLoad: Promise<unknown> | null = null;
+
+/**
+ * Merge the token lists in TOKEN_LIST_URLS and the QuantumExchange token list
+ * into the shared token registry. Failures leave the bundled tokens in place.
+ */
+function ensureTokenRegistry(): Promise<unknown> {
+  if (!tokenRegistryLoad) {
+    tokenRegistryLoad = refreshTokenRegistry({
+      tokenListUrls: (deno.env.get("TOKEN_LIST_URLS") ?? "")
+        .split(",")
+        .map((url: string) => url.trim())
+        .filter(Boolean),
+      fetchRemoteTokens: async (): Promise<RemoteToken[]> => {
+        const response = await fetch(API_CONFIG.QUANTUM_EXCHANGE_TOKENS_API);
+        if (!response.ok) {
+          throw new Error(`Token list request failed: ${response.status}`);
+        }
+        const result = await response.json();
+        return result.data?.tokens ?? [];
+      },
+      ethCall,
+    });
+  }
+  return tokenRegistryLoad;
+}
 
 interface RecurringOrder {
   id: string;
@@ -28,11 +95,79 @@ interface RecurringOrder {
   target_token: string;
   amount: number;
   frequency: string;
+  timezone?: string | null;
+  start_date: string;
+  end_date?: string | null;
   next_execution_date: string;
+  missed_slot_policy?: MissedSlotPolicy;
   is_active: boolean;
   execution_count?: number;
+  consecutive_failures?: number;
+  retry_count?: number;
+  current_slot?: string | null;
+  max_slippage?: number | null;
+  limit_price?: number | null;
+  claimed_by?: string | null;
+  total_spent?: number;
+  max_executions?: number | null;
+  total_budget?: number | null;
+  permission?: SpendingPermission | null;
+  signature?: string | null;
 }
 
+interface SwapTransactionData {
+  to: string;
+  data: string;
+  value: string;
+  gasLimit?: number;
+}
+
+interface SwapQuote {
+  toAmount: string;
+  minimumReceived: string;
+  priceImpact: number;
+}
+
+/** What an execution delivered, from its receipt and quote */
+interface ExecutionFillDetails {
+  amountOut?: number;
+  effectivePrice?: number | null;
+  priceImpact?: number;
+  gasUsed?: string;
+  fee?: number;
+}
+
+interface OrderExecutionResult {
+  orderId: string;
+  status: string;
+  transactionHash?: string;
+  error?: string;
+  failureClass?: ExecutionFailureClass;
+}
+
+/** Broadcast execution still waiting for its receipt */
+interface PendingExecution {
+  id: string;
+  transaction_hash: string;
+  wallet_address: string;
+  amount: number;
+  source_token: string;
+  target_token: string;
+  recurring_orders: { order_type: "buy" | "sell" } | null;
+}
+
+interface SendTransactionResult {
+  success: boolean;
+  transactionHash?: string;
+  // false when the transaction was broadcast but no receipt arrived in time
+  confirmed?: boolean;
+  receipt?: TransactionReceipt;
+  error?: string;
+}
+
+// Lease columns cleared whenever the executor is done with an order
+const RELEASE_CLAIM = { claimed_by: null, claim_expires_at: null };
+
 /**
  * Main handler for executing recurring orders
  */
@@ -51,64 +186,99 @@ Deno.serve(async (req: Request) => {
     }
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    await ensureTokenRegistry();
 
-    // Get all active recurring orders that are due for execution
-    const now = new Date().toISOString();
-    const { data: ordersToExecute, error: fetchError } = await supabase
-      .from("recurring_orders")
-      .select("*")
-      .eq("is_active", true)
-      .lte("next_execution_date", now)
-      .order("next_execution_date", { ascending: true })
-      .limit(100); // Process max 100 orders per run
-
-    if (fetchError) {
-      console.error("Error fetching recurring orders:", fetchError);
-      return new Response(
-        JSON.stringify({ error: "Failed to fetch orders", details: fetchError }),
-        { status: 500, headers: { "Content-Type": "application/json" } }
-      );
-    }
+    // Settle earlier broadcasts that had no receipt in time
+    const settledCount = await settlePendingExecutions(supabase);
 
-    if (!ordersToExecute || ordersToExecute.length === 0) {
-      return new Response(
-        JSON.stringify({ message: "No orders to execute", processed: 0 }),
-        { status: 200, headers: { "Content-Type": "application/json" } }
-      );
-    }
-
-    console.log(`Processing ${ordersToExecute.length} recurring orders`);
-
-    // Execute each order and track results
+    const workerId = crypto.randomUUID();
     const results = [];
+    let processed = 0;
     let successCount = 0;
     let failureCount = 0;
+    let skippedCount = 0;
+    let completedCount = 0;
 
-    for (const order of ordersToExecute as RecurringOrder[]) {
-      try {
-        const executionResult = await executeOrder(supabase, order);
-        results.push(executionResult);
+    // Keep claiming until nothing is due, so orders catching up on missed
+    // slots ("run_all") and retries that came due are handled in the same run
+    while (processed < EXECUTION_CONFIG.MAX_ORDERS_PER_RUN) {
+      // Atomically claim the due orders so overlapping invocations never pick up
+      // the same order (see claim_due_recurring_orders in schema.sql)
+      const { data: claimedOrders, error: fetchError } = await supabase.rpc(
+        "claim_due_recurring_orders",
+        {
+          p_worker_id: workerId,
+          p_limit: EXECUTION_CONFIG.MAX_ORDERS_PER_RUN - processed,
+          p_lease_seconds: Math.ceil(EXECUTION_CONFIG.CLAIM_LEASE_DURATION / 1000),
+        }
+      );
 
-        if (executionResult.status === "Successful") {
-          successCount++;
-        } else {
-          failureCount++;
+      if (fetchError) {
+        console.error("Error fetching recurring orders:", fetchError);
+        if (processed === 0) {
+          return new Response(
+            JSON.stringify({ error: "Failed to fetch orders", details: fetchError }),
+            { status: 500, headers: { "Content-Type": "application/json" } }
+          );
         }
-      } catch (error) {
-        console.error(`Error executing order ${order.id}:`, error);
-        failureCount++;
+        break;
+      }
+
+      const ordersToExecute = ((claimedOrders ?? []) as RecurringOrder[]).sort(
+        (a, b) => new Date(a.next_execution_date).getTime() - new Date(b.next_execution_date).getTime()
+      );
+      if (ordersToExecute.length === 0) {
+        break;
+      }
 
-        // Log failed execution
-        await logOrderExecution(supabase, order, "Failed", undefined, String(error));
+      console.log(`Worker ${workerId} processing ${ordersToExecute.length} recurring orders`);
+
+      // Execute each order and track results
+      for (const order of ordersToExecute) {
+        processed++;
+        try {
+          const executionResult = await executeOrder(supabase, order);
+          results.push(executionResult);
+
+          if (executionResult.status === "Successful") {
+            successCount++;
+          } else if (executionResult.status === "Completed") {
+            completedCount++;
+          } else if (
+            executionResult.status === "Skipped" ||
+            executionResult.status === "SkippedPriceLimit" ||
+            executionResult.status === "Duplicate"
+          ) {
+            skippedCount++;
+          } else {
+            failureCount++;
+          }
+        } catch (error) {
+          console.error(`Error executing order ${order.id}:`, error);
+          failureCount++;
+
+          // Log failed execution
+          await recordFailure(supabase, order, String(error));
+        }
       }
     }
 
+    if (processed === 0) {
+      return new Response(
+        JSON.stringify({ message: "No orders to execute", processed: 0, settled: settledCount }),
+        { status: 200, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
     return new Response(
       JSON.stringify({
         message: "Execution batch completed",
-        processed: ordersToExecute.length,
+        processed,
         successful: successCount,
         failed: failureCount,
+        skipped: skippedCount,
+        completed: completedCount,
+        settled: settledCount,
         results,
       }),
       { status: 200, headers: { "Content-Type": "application/json" } }
@@ -128,53 +298,148 @@ Deno.serve(async (req: Request) => {
 async function executeOrder(
   supabase: any,
   order: RecurringOrder
-): Promise<{ orderId: string; status: string; transactionHash?: string; error?: string }> {
+): Promise<OrderExecutionResult> {
   try {
     console.log(`Executing order ${order.id}: ${order.source_token} -> ${order.target_token}`);
 
+    // An order whose schedule cannot be evaluated would fail on every run
+    const frequencyError = validateFrequency(order.frequency, order.timezone);
+    if (frequencyError) {
+      await pauseOrder(supabase, order, frequencyError);
+      return { orderId: order.id, status: "Failed", error: frequencyError };
+    }
+
+    // Apply the order's missed-slot policy if slots passed while it could not run
+    const plan = planMissedSlots(
+      order.start_date,
+      order.frequency,
+      executionSlot(order),
+      new Date(),
+      order.missed_slot_policy ?? DEFAULT_MISSED_SLOT_POLICY,
+      EXECUTION_CONFIG.MAX_CATCH_UP_SLOTS,
+      order.end_date,
+      order.timezone ?? DEFAULT_TIMEZONE
+    );
+    if (plan.skippedSlots.length > 0) {
+      await recordSkippedSlots(supabase, order, plan.skippedSlots);
+    }
+
+    // Deactivate orders past their end date, execution limit or total budget
+    const limitReason = orderLimitReason(order, plan.runSlot ?? plan.nextExecutionDate);
+    if (limitReason) {
+      await completeOrder(supabase, order, limitReason);
+      return { orderId: order.id, status: "Completed", error: limitReason };
+    }
+
+    if (!plan.runSlot) {
+      await rescheduleOrder(supabase, order, plan.nextExecutionDate);
+      return {
+        orderId: order.id,
+        status: "Skipped",
+        error: `Skipped ${plan.skippedSlots.length} missed executions`,
+      };
+    }
+    if (plan.runSlot !== executionSlot(order)) {
+      order = { ...order, current_slot: plan.runSlot, retry_count: 0 };
+    }
+
+    // Reserve this (order, slot, attempt) before anything is signed. If the
+    // reservation already exists another invocation got there first.
+    const reserved = await reserveExecution(supabase, order);
+    if (!reserved) {
+      return await reconcileDuplicateExecution(supabase, order);
+    }
+
+    // Refuse anything the wallet's signed spending permission does not cover.
+    // Retrying can't fix that, so the order stops until the user signs again.
+    const now = new Date();
+    const permissionViolation = checkOrderPermission(order, now);
+    if (permissionViolation) {
+      const errorMsg = `Spending permission check failed: ${permissionViolation}`;
+      await logOrderExecution(supabase, order, "Failed", undefined, errorMsg);
+      if (order.permission && isPermissionExpired(order.permission, now)) {
+        await completeOrder(supabase, order, "Spending permission expired");
+        return { orderId: order.id, status: "Completed", error: errorMsg };
+      }
+      await pauseOrder(supabase, order, errorMsg);
+      return { orderId: order.id, status: "Failed", error: errorMsg };
+    }
+
     // Get swap quote from QuantumExchange API
     const quoteResult = await getSwapQuote(order);
-    if (!quoteResult.success) {
+    if (!quoteResult.success || !quoteResult.data) {
       throw new Error(`Failed to get quote: ${quoteResult.error}`);
     }
 
-    // Build and send transaction
+    // Skip this slot if the quote breaks the order's slippage or limit price
+    const tokens = resolveOrderTokens(order);
+    const priceViolation = checkPriceProtection(order, {
+      amountIn: order.amount,
+      amountOut: fromBaseUnits(quoteResult.data.toAmount, tokens.targetDecimals),
+      priceImpact: Number(quoteResult.data.priceImpact ?? 0),
+    });
+    if (priceViolation) {
+      await logOrderExecution(supabase, order, "SkippedPriceLimit", undefined, priceViolation);
+      await skipSlot(supabase, order);
+      return { orderId: order.id, status: "SkippedPriceLimit", error: priceViolation };
+    }
+
+    // Build the swap calldata for the order's wallet
+    const swapTxResult = await buildSwapTransaction(order);
+    if (!swapTxResult.success || !swapTxResult.data) {
+      throw new Error(`Failed to build swap transaction: ${swapTxResult.error}`);
+    }
+
+    // Make sure the wallet can fund the swap before anything is signed
+    const fundingFailure = await checkOrderFunding(order, swapTxResult.data.to);
+    if (fundingFailure) {
+      const errorMsg = describeFailureClass(fundingFailure, order.source_token);
+      await recordFailure(supabase, order, errorMsg, undefined, fundingFailure);
+      return { orderId: order.id, status: "Failed", error: errorMsg, failureClass: fundingFailure };
+    }
+
+    // Sign, broadcast and wait for the receipt
     const txResult = await sendSwapTransaction(
       order.wallet_address,
-      quoteResult.data
+      swapTxResult.data
     );
 
     if (!txResult.success) {
-      throw new Error(`Failed to send transaction: ${txResult.error}`);
+      const errorMsg = `Failed to send transaction: ${txResult.error}`;
+      await recordFailure(supabase, order, errorMsg, txResult.transactionHash);
+      return {
+        orderId: order.id,
+        status: "Failed",
+        transactionHash: txResult.transactionHash,
+        error: errorMsg,
+      };
     }
 
-    // Log successful execution
+    // A broadcast transaction without a receipt stays Pending, but the schedule
+    // still advances so the next run cannot send the same swap twice. Later runs
+    // settle the row from its receipt (see settlePendingExecutions).
+    const executionStatus = txResult.confirmed ? "Successful" : "Pending";
     await logOrderExecution(
       supabase,
       order,
-      "Successful",
-      txResult.transactionHash
+      executionStatus,
+      txResult.transactionHash,
+      txResult.confirmed ? undefined : "Transaction broadcast but not confirmed in time",
+      undefined,
+      buildExecutionFill(order, quoteResult.data, txResult.receipt)
     );
 
     // Update next execution date
-    const nextDate = calculateNextExecutionDate(order.frequency);
-    const currentCount = order.execution_count ?? 0;
-    await supabase
-      .from("recurring_orders")
-      .update({
-        next_execution_date: nextDate,
-        execution_count: currentCount + 1,
-      })
-      .eq("id", order.id);
+    await advanceSchedule(supabase, order);
 
     return {
       orderId: order.id,
-      status: "Successful",
+      status: executionStatus,
       transactionHash: txResult.transactionHash,
     };
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
-    await logOrderExecution(supabase, order, "Failed", undefined, errorMsg);
+    await recordFailure(supabase, order, errorMsg);
     return {
       orderId: order.id,
       status: "Failed",
@@ -188,15 +453,16 @@ async function executeOrder(
  */
 async function getSwapQuote(
   order: RecurringOrder
-): Promise<{ success: boolean; data?: any; error?: string }> {
+): Promise<{ success: boolean; data?: SwapQuote; error?: string }> {
   try {
-    const sourceDecimals = TOKEN_DECIMALS[order.source_token] || 18;
-    const amountInWei = (order.amount * Math.pow(10, sourceDecimals)).toString();
+    const tokens = resolveOrderTokens(order);
+    const amountInWei = toBaseUnits(order.amount, tokens.sourceDecimals).toString();
 
-    const url = new URL("https://www.quantumexchange.app/api/v1/quote");
-    url.searchParams.append("tokenIn", order.source_token);
-    url.searchParams.append("tokenOut", order.target_token);
-    url.searchParams.append("amountIn", amountInWei);
+    const url = new URL(API_CONFIG.QUANTUM_EXCHANGE_API);
+    url.searchParams.append("fromToken", tokens.sourceAddress);
+    url.searchParams.append("toToken", tokens.targetAddress);
+    url.searchParams.append("amount", amountInWei);
+    url.searchParams.append("slippage", orderSlippage(order).toString());
 
     const response = await fetch(url.toString(), {
       method: "GET",
@@ -212,8 +478,22 @@ async function getSwapQuote(
       };
     }
 
-    const quoteData = await response.json();
-    return { success: true, data: quoteData };
+    const result = await response.json();
+    if (!result.success || !result.data?.toAmount) {
+      return {
+        success: false,
+        error: result.error?.message || "QuantumExchange returned no quote",
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        toAmount: result.data.toAmount,
+        minimumReceived: result.data.minimumReceived,
+        priceImpact: result.data.priceImpact,
+      },
+    };
   } catch (error) {
     return {
       success: false,
@@ -223,33 +503,47 @@ async function getSwapQuote(
 }
 
 /**
- * Send swap transaction to the blockchain
- * NOTE: This is a placeholder. In production, you would need to:
- * 1. Sign the transaction using stored wallet credentials or a secure signer
- * 2. Send it via the Arc RPC
- * 3. Wait for confirmation
+ * Get swap calldata for an order from the QuantumExchange swap endpoint
  */
-async function sendSwapTransaction(
-  walletAddress: string,
-  quoteData: any
-): Promise<{ success: boolean; transactionHash?: string; error?: string }> {
+async function buildSwapTransaction(
+  order: RecurringOrder
+): Promise<{ success: boolean; data?: SwapTransactionData; error?: string }> {
   try {
-    // IMPORTANT: This is a simplified implementation
-    // In production, you would need:
-    // - A secure way to sign transactions (e.g., AWS KMS, private keys in secure storage)
-    // - Web3.py or ethers.js to prepare the transaction
-    // - Send via Arc RPC using eth_sendRawTransaction
+    const tokens = resolveOrderTokens(order);
+    const amountInWei = toBaseUnits(order.amount, tokens.sourceDecimals).toString();
+
+    const url = new URL(API_CONFIG.QUANTUM_EXCHANGE_SWAP_API);
+    url.searchParams.append("fromToken", tokens.sourceAddress);
+    url.searchParams.append("toToken", tokens.targetAddress);
+    url.searchParams.append("amount", amountInWei);
+    url.searchParams.append("slippage", orderSlippage(order).toString());
+    url.searchParams.append("recipient", order.wallet_address);
+
+    const response = await fetch(url.toString());
+    if (!response.ok) {
+      return { success: false, error: `API returned status ${response.status}` };
+    }
 
-    console.log(`Transaction would be sent from ${walletAddress}`);
-    console.log(`Quote data:`, quoteData);
+    const result = await response.json();
+    if (!result.success || !result.data?.to || !result.data?.data) {
+      return {
+        success: false,
+        error: result.error?.message || "QuantumExchange returned no swap data",
+      };
+    }
 
-    // For now, return a mock transaction hash
-    // This would be replaced with actual signing and sending
-    const mockTxHash = "0x" + Array(64).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join("");
+    // Token-to-token swaps must never carry native value (same guard as SwapCard)
+    const involvesNative =
+      isNativeToken(order.source_token) || isNativeToken(order.target_token);
 
     return {
       success: true,
-      transactionHash: mockTxHash,
+      data: {
+        to: result.data.to,
+        data: result.data.data,
+        value: involvesNative ? result.data.value || "0x0" : "0x0",
+        gasLimit: result.data.gasLimit ?? undefined,
+      },
     };
   } catch (error) {
     return {
@@ -260,27 +554,580 @@ async function sendSwapTransaction(
 }
 
 /**
- * Log order execution in database
+ * Sign the swap transaction, broadcast it with eth_sendRawTransaction and
+ * wait for its receipt
  */
-async function logOrderExecution(
-  supabase: any,
+async function sendSwapTransaction(
+  walletAddress: string,
+  swapData: SwapTransactionData
+): Promise<SendTransactionResult> {
+  let transactionHash: string | undefined;
+
+  try {
+    const signer = resolveSigner(walletAddress, (name) => deno.env.get(name));
+    const signerAddress = await signer.getAddress();
+    if (signerAddress.toLowerCase() !== walletAddress.toLowerCase()) {
+      throw new Error(
+        `Signer address ${signerAddress} does not match order wallet ${walletAddress}`
+      );
+    }
+
+    const value = BigInt(swapData.value || "0x0");
+    const [nonce, fees] = await Promise.all([
+      getTransactionCount(walletAddress),
+      getFeeData(),
+    ]);
+    const gasLimit = swapData.gasLimit
+      ? BigInt(swapData.gasLimit)
+      : await estimateGasWithBuffer({
+          from: walletAddress,
+          to: swapData.to,
+          value: `0x${value.toString(16)}`,
+          data: swapData.data,
+        });
+
+    const signedTransaction = await signer.signTransaction({
+      chainId: API_CONFIG.ARC_CHAIN_ID,
+      nonce,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      maxFeePerGas: fees.maxFeePerGas,
+      gasLimit,
+      to: swapData.to,
+      value,
+      data: swapData.data,
+    });
+
+    transactionHash = await sendRawTransaction(signedTransaction);
+    console.log(`Broadcast swap for ${walletAddress} via ${signer.kind} signer: ${transactionHash}`);
+
+    const receipt = await waitForReceipt(transactionHash);
+    if (!receipt) {
+      return { success: true, transactionHash, confirmed: false };
+    }
+
+    if (receipt.status !== "0x1") {
+      return {
+        success: false,
+        transactionHash,
+        error: `Transaction reverted in block ${parseInt(receipt.blockNumber, 16)}`,
+      };
+    }
+
+    return { success: true, transactionHash, confirmed: true, receipt };
+  } catch (error) {
+    return {
+      success: false,
+      transactionHash,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Look up contract addresses and decimals for an order's token pair
+ */
+function resolveOrderTokens(order: Pick<RecurringOrder, "source_token" | "target_token">): {
+  sourceAddress: string;
+  targetAddress: string;
+  sourceDecimals: number;
+  targetDecimals: number;
+} {
+  const sourceAddress = getTokenAddress(order.source_token);
+  const targetAddress = getTokenAddress(order.target_token);
+
+  if (!sourceAddress || !targetAddress) {
+    throw new Error(
+      `No contract address configured for ${!sourceAddress ? order.source_token : order.target_token}`
+    );
+  }
+
+  return {
+    sourceAddress,
+    targetAddress,
+    sourceDecimals: getTokenDecimals(order.source_token),
+    targetDecimals: getTokenDecimals(order.target_token),
+  };
+}
+
+/**
+ * Check that the wallet holds enough of the source token and that `spender`
+ * (the swap router) may spend it. Native tokens need no allowance.
+ * @returns The failure class, or null if the execution can be funded
+ */
+async function checkOrderFunding(
   order: RecurringOrder,
-  status: "Successful" | "Failed" | "Pending",
-  transactionHash?: string,
-  errorMessage?: string
-): Promise<void> {
+  spender: string
+): Promise<ExecutionFailureClass | null> {
+  const tokens = resolveOrderTokens(order);
+  const required = toBaseUnits(order.amount, tokens.sourceDecimals);
+
+  if (isNativeToken(order.source_token)) {
+    const balance = await getNativeBalance(order.wallet_address);
+    return checkFunding({ required, balance, allowance: null });
+  }
+
+  const [balance, allowance] = await Promise.all([
+    getTokenBalance(tokens.sourceAddress, order.wallet_address),
+    getTokenAllowance(tokens.sourceAddress, order.wallet_address, spender),
+  ]);
+  return checkFunding({ required, balance, allowance });
+}
+
+/**
+ * Amount received, effective price and gas cost of a swap. The received
+ * amount is the sum of target token Transfers to the wallet in the receipt;
+ * swaps into the native token emit none, so the quoted output is used instead.
+ * Without a receipt only the quote's price impact is known.
+ */
+function buildExecutionFill(
+  order: RecurringOrder,
+  quote: SwapQuote,
+  receipt?: TransactionReceipt
+): ExecutionFillDetails {
+  const priceImpact = Number(quote.priceImpact ?? 0);
+  if (!receipt) {
+    return { priceImpact };
+  }
+  return { ...receiptFill(order, receipt, BigInt(quote.toAmount)), priceImpact };
+}
+
+/**
+ * Fill details that can be read off a receipt alone
+ * @param quotedAmountOut - Amount out to fall back on when the receipt has no
+ *                          matching transfer (0 to leave the amount out unset)
+ */
+function receiptFill(
+  order: Pick<RecurringOrder, "order_type" | "amount" | "wallet_address" | "source_token" | "target_token">,
+  receipt: TransactionReceipt,
+  quotedAmountOut: bigint = BigInt(0)
+): ExecutionFillDetails {
+  const gasUsed = BigInt(receipt.gasUsed);
+  const fee = gasUsed * BigInt(receipt.effectiveGasPrice ?? "0x0");
+  const fill: ExecutionFillDetails = {
+    gasUsed: gasUsed.toString(),
+    fee: fromBaseUnits(fee, NATIVE_DECIMALS),
+  };
+
+  const tokens = resolveOrderTokens(order);
+  const received = sumTransfersTo(receipt.logs, tokens.targetAddress, order.wallet_address);
+  const amountOutUnits = received > BigInt(0) ? received : quotedAmountOut;
+  if (amountOutUnits > BigInt(0)) {
+    fill.amountOut = fromBaseUnits(amountOutUnits, tokens.targetDecimals);
+    fill.effectivePrice = effectivePrice(order.order_type, order.amount, fill.amountOut);
+  }
+  return fill;
+}
+
+/**
+ * Slippage tolerance in % for the order's quote and swap
+ */
+function orderSlippage(order: RecurringOrder): number {
+  return order.max_slippage ?? DEFAULT_MAX_SLIPPAGE;
+}
+
+/**
+ * Verify the order's EIP-712 spending permission and check that one more
+ * execution stays within its bounds
+ * @returns A violation message, or null if the execution is allowed
+ */
+function checkOrderPermission(order: RecurringOrder, now: Date): string | null {
+  if (!order.permission || !order.signature) {
+    return "Order has no signed spending permission";
+  }
+
+  const signed = { permission: order.permission, signature: order.signature };
+  if (!verifySpendingPermission(signed, order.wallet_address)) {
+    return "Permission signature does not match the order wallet";
+  }
+
+  const tokens = resolveOrderTokens(order);
+  const amountBaseUnits = toBaseUnits(order.amount, tokens.sourceDecimals);
+
+  return (
+    checkOrderAgainstPermission(order.permission, {
+      walletAddress: order.wallet_address,
+      sourceTokenAddress: tokens.sourceAddress,
+      targetTokenAddress: tokens.targetAddress,
+      amountBaseUnits,
+      frequency: order.frequency,
+    }) ??
+    checkExecutionAgainstPermission(order.permission, {
+      amountBaseUnits,
+      spentBaseUnits: toBaseUnits(order.total_spent ?? 0, tokens.sourceDecimals),
+      executionCount: order.execution_count ?? 0,
+      now,
+    })
+  );
+}
+
+/**
+ * Scheduled slot the order is currently executing. While a failed slot is
+ * being retried `next_execution_date` holds the retry time and `current_slot`
+ * keeps the original slot.
+ */
+function executionSlot(order: RecurringOrder): string {
+  return new Date(order.current_slot ?? order.next_execution_date).toISOString();
+}
+
+/**
+ * Idempotency key for one attempt at one scheduled slot of an order
+ */
+function executionKey(order: RecurringOrder): string {
+  return `${order.id}:${executionSlot(order)}:${order.retry_count ?? 0}`;
+}
+
+/**
+ * Insert the Pending execution row that reserves this attempt
+ * @returns false if the attempt was already reserved by another invocation
+ */
+async function reserveExecution(supabase: SupabaseClient, order: RecurringOrder): Promise<boolean> {
+  const { error } = await supabase.from("recurring_order_executions").insert({
+    recurring_order_id: order.id,
+    wallet_address: order.wallet_address,
+    amount: order.amount,
+    source_token: order.source_token,
+    target_token: order.target_token,
+    status: "Pending",
+    scheduled_for: executionSlot(order),
+    attempt: order.retry_count ?? 0,
+    idempotency_key: executionKey(order),
+    execution_date: new Date().toISOString(),
+  });
+
+  if (error?.code === "23505") {
+    return false;
+  }
+  if (error) {
+    throw new Error(`Failed to reserve execution: ${error.message}`);
+  }
+  return true;
+}
+
+/**
+ * Bring an order whose current attempt was already reserved back in line
+ * without sending anything:
+ * - Failed: the normal retry handling
+ * - Successful: the slot was executed, the schedule advances
+ * - SkippedPriceLimit: the slot was skipped
+ * - Pending with a transaction hash: settled from its receipt. Without a
+ *   receipt yet it is treated like a broadcast that timed out.
+ * - Pending without a transaction hash: the attempt stopped before anything
+ *   was recorded as sent, so it counts as a failed attempt
+ */
+async function reconcileDuplicateExecution(
+  supabase: SupabaseClient,
+  order: RecurringOrder
+): Promise<OrderExecutionResult> {
+  const { data: existing, error } = await supabase
+    .from("recurring_order_executions")
+    .select("status, transaction_hash, error_message, failure_class")
+    .eq("idempotency_key", executionKey(order))
+    .maybeSingle();
+
+  if (error || !existing) {
+    await releaseClaim(supabase, order);
+    throw new Error(`Failed to read the existing execution: ${error?.message ?? "not found"}`);
+  }
+
+  console.warn(`Order ${order.id} slot ${executionSlot(order)} was already attempted, not re-sending`);
+
+  const duplicate = {
+    orderId: order.id,
+    status: "Duplicate",
+    transactionHash: existing.transaction_hash ?? undefined,
+    error: "Execution already attempted for this slot",
+  };
+
+  if (existing.status === "Failed") {
+    await applyFailureState(
+      supabase,
+      order,
+      existing.error_message ?? "Unknown error",
+      existing.failure_class
+    );
+    return duplicate;
+  }
+  if (existing.status === "Successful") {
+    await advanceSchedule(supabase, order);
+    return duplicate;
+  }
+  if (existing.status === "SkippedPriceLimit") {
+    await skipSlot(supabase, order);
+    return duplicate;
+  }
+
+  if (!existing.transaction_hash) {
+    const errorMsg = "Execution was interrupted before a transaction was recorded";
+    await recordFailure(supabase, order, errorMsg);
+    return { ...duplicate, error: errorMsg };
+  }
+
+  let receipt: TransactionReceipt | null;
   try {
-    await supabase.from("recurring_order_executions").insert({
+    receipt = await getTransactionReceipt(existing.transaction_hash);
+  } catch (lookupError) {
+    // Leave everything as is and look again on the next run
+    console.warn(`Receipt lookup failed for ${existing.transaction_hash}:`, lookupError);
+    await releaseClaim(supabase, order);
+    return duplicate;
+  }
+
+  if (!receipt) {
+    await advanceSchedule(supabase, order);
+  } else if (receipt.status === "0x1") {
+    await logOrderExecution(
+      supabase,
+      order,
+      "Successful",
+      existing.transaction_hash,
+      undefined,
+      undefined,
+      receiptFill(order, receipt)
+    );
+    await advanceSchedule(supabase, order);
+  } else {
+    const errorMsg = `Transaction reverted in block ${parseInt(receipt.blockNumber, 16)}`;
+    await recordFailure(supabase, order, errorMsg, existing.transaction_hash);
+    return { ...duplicate, error: errorMsg };
+  }
+  return duplicate;
+}
+
+/**
+ * Look up receipts for executions that were broadcast but had no receipt in
+ * time, and record them as Successful or Failed. A reverted execution is
+ * taken back off its order's execution count and total spent (see
+ * settle_reverted_execution in schema.sql). Executions still not mined stay
+ * Pending.
+ * @returns Number of executions settled
+ */
+async function settlePendingExecutions(supabase: SupabaseClient): Promise<number> {
+  const { data: pending, error } = await supabase
+    .from("recurring_order_executions")
+    .select("id, transaction_hash, wallet_address, amount, source_token, target_token, recurring_orders(order_type)")
+    .eq("status", "Pending")
+    .not("transaction_hash", "is", null)
+    .lt("execution_date", new Date(Date.now() - TRANSACTION_CONFIG.RECEIPT_TIMEOUT).toISOString())
+    .order("execution_date", { ascending: true })
+    .limit(EXECUTION_CONFIG.MAX_PENDING_CHECKS_PER_RUN);
+
+  if (error) {
+    console.error("Error fetching pending executions:", error);
+    return 0;
+  }
+
+  let settled = 0;
+  // PostgREST returns the many-to-one recurring_orders join as a single object
+  for (const execution of (pending ?? []) as unknown as PendingExecution[]) {
+    try {
+      const receipt = await getTransactionReceipt(execution.transaction_hash);
+      if (!receipt) {
+        continue;
+      }
+
+      const fill = receiptFill(
+        { ...execution, order_type: execution.recurring_orders?.order_type ?? "buy" },
+        receipt
+      );
+      if (receipt.status === "0x1") {
+        const { error: updateError } = await supabase
+          .from("recurring_order_executions")
+          .update({
+            status: "Successful",
+            error_message: null,
+            amount_out: fill.amountOut ?? null,
+            effective_price: fill.effectivePrice ?? null,
+            gas_used: fill.gasUsed,
+            fee: fill.fee,
+          })
+          .eq("id", execution.id)
+          .eq("status", "Pending");
+        if (updateError) {
+          throw new Error(updateError.message);
+        }
+        settled++;
+      } else {
+        const { data: reverted, error: rpcError } = await supabase.rpc("settle_reverted_execution", {
+          p_execution_id: execution.id,
+          p_error: `Transaction reverted in block ${parseInt(receipt.blockNumber, 16)}`,
+          p_gas_used: fill.gasUsed,
+          p_fee: fill.fee,
+        });
+        if (rpcError) {
+          throw new Error(rpcError.message);
+        }
+        if (reverted) {
+          settled++;
+        }
+      }
+    } catch (settleError) {
+      console.error(`Error settling execution ${execution.id}:`, settleError);
+    }
+  }
+  return settled;
+}
+
+/**
+ * Release an order's claim without changing its schedule, so the next run
+ * picks up the same attempt again
+ */
+async function releaseClaim(supabase: SupabaseClient, order: RecurringOrder): Promise<void> {
+  const { error } = await supabase
+    .from("recurring_orders")
+    .update(RELEASE_CLAIM)
+    .eq("id", order.id)
+    .eq("claimed_by", order.claimed_by);
+
+  if (error) {
+    console.error(`Error releasing claim on order ${order.id}:`, error);
+  }
+}
+
+/**
+ * Record missed slots as Skipped executions
+ */
+async function recordSkippedSlots(
+  supabase: SupabaseClient,
+  order: RecurringOrder,
+  slots: string[]
+): Promise<void> {
+  const { error } = await supabase.from("recurring_order_executions").upsert(
+    slots.map((slot) => ({
       recurring_order_id: order.id,
       wallet_address: order.wallet_address,
       amount: order.amount,
       source_token: order.source_token,
       target_token: order.target_token,
-      status,
-      transaction_hash: transactionHash || null,
-      error_message: errorMessage || null,
+      status: "Skipped",
+      error_message: `Missed scheduled execution (${order.missed_slot_policy ?? DEFAULT_MISSED_SLOT_POLICY} policy)`,
+      scheduled_for: slot,
+      idempotency_key: `${order.id}:${slot}:skipped`,
       execution_date: new Date().toISOString(),
-    });
+    })),
+    { onConflict: "idempotency_key", ignoreDuplicates: true }
+  );
+
+  if (error) {
+    console.error(`Error recording skipped slots for order ${order.id}:`, error);
+  }
+}
+
+/**
+ * Move an order to a later slot without executing and release its claim
+ */
+async function rescheduleOrder(
+  supabase: SupabaseClient,
+  order: RecurringOrder,
+  nextExecutionDate: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("recurring_orders")
+    .update({
+      next_execution_date: nextExecutionDate,
+      retry_count: 0,
+      current_slot: null,
+      ...RELEASE_CLAIM,
+    })
+    .eq("id", order.id)
+    .eq("claimed_by", order.claimed_by);
+
+  if (error) {
+    console.error(`Error rescheduling order ${order.id}:`, error);
+  }
+}
+
+/**
+ * Deactivate an order that reached one of its limits and release its claim
+ */
+async function completeOrder(
+  supabase: SupabaseClient,
+  order: RecurringOrder,
+  reason: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("recurring_orders")
+    .update({
+      is_active: false,
+      completed_at: new Date().toISOString(),
+      completion_reason: reason,
+      retry_count: 0,
+      current_slot: null,
+      ...RELEASE_CLAIM,
+    })
+    .eq("id", order.id)
+    .eq("claimed_by", order.claimed_by);
+
+  if (error) {
+    console.error(`Error completing order ${order.id}:`, error);
+  } else {
+    console.log(`Completed order ${order.id}: ${reason}`);
+  }
+}
+
+/**
+ * Pause an order that cannot be executed and release its claim
+ */
+async function pauseOrder(
+  supabase: SupabaseClient,
+  order: RecurringOrder,
+  reason: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("recurring_orders")
+    .update({
+      is_active: false,
+      paused_at: new Date().toISOString(),
+      paused_reason: reason,
+      retry_count: 0,
+      current_slot: null,
+      ...RELEASE_CLAIM,
+    })
+    .eq("id", order.id)
+    .eq("claimed_by", order.claimed_by);
+
+  if (error) {
+    console.error(`Error pausing order ${order.id}:`, error);
+  } else {
+    console.warn(`Paused order ${order.id}: ${reason}`);
+  }
+}
+
+/**
+ * Record the outcome of the current attempt on its reserved execution row
+ */
+async function logOrderExecution(
+  supabase: any,
+  order: RecurringOrder,
+  status: "Successful" | "Failed" | "Pending" | "SkippedPriceLimit",
+  transactionHash?: string,
+  errorMessage?: string,
+  failureClass?: ExecutionFailureClass,
+  fill?: ExecutionFillDetails
+): Promise<void> {
+  try {
+    await supabase.from("recurring_order_executions").upsert(
+      {
+        recurring_order_id: order.id,
+        wallet_address: order.wallet_address,
+        amount: order.amount,
+        source_token: order.source_token,
+        target_token: order.target_token,
+        status,
+        transaction_hash: transactionHash || null,
+        error_message: errorMessage || null,
+        failure_class: failureClass ?? null,
+        amount_out: fill?.amountOut ?? null,
+        effective_price: fill?.effectivePrice ?? null,
+        price_impact: fill?.priceImpact ?? null,
+        gas_used: fill?.gasUsed ?? null,
+        fee: fill?.fee ?? null,
+        scheduled_for: executionSlot(order),
+        attempt: order.retry_count ?? 0,
+        idempotency_key: executionKey(order),
+        execution_date: new Date().toISOString(),
+      },
+      { onConflict: "idempotency_key" }
+    );
   } catch (error) {
     console.error("Error logging execution:", error);
     // Don't throw, as this is secondary to the actual execution
@@ -288,30 +1135,116 @@ async function logOrderExecution(
 }
 
 /**
- * Calculate next execution date based on frequency
+ * Move a broadcast order on to its next slot and release its claim. The order
+ * is completed right away if the next slot would break one of its limits.
+ */
+async function advanceSchedule(supabase: SupabaseClient, order: RecurringOrder): Promise<void> {
+  const nextExecutionDate = nextSlotAfter(
+    order.start_date,
+    order.frequency,
+    executionSlot(order),
+    order.timezone ?? DEFAULT_TIMEZONE
+  );
+  const executionCount = (order.execution_count ?? 0) + 1;
+  const totalSpent = (order.total_spent ?? 0) + order.amount;
+  const limitReason = orderLimitReason(
+    { ...order, execution_count: executionCount, total_spent: totalSpent },
+    nextExecutionDate
+  );
+
+  const { error } = await supabase
+    .from("recurring_orders")
+    .update({
+      next_execution_date: nextExecutionDate,
+      execution_count: executionCount,
+      total_spent: totalSpent,
+      consecutive_failures: 0,
+      retry_count: 0,
+      current_slot: null,
+      last_failure_class: null,
+      ...(limitReason
+        ? { is_active: false, completed_at: new Date().toISOString(), completion_reason: limitReason }
+        : {}),
+      ...RELEASE_CLAIM,
+    })
+    .eq("id", order.id)
+    .eq("claimed_by", order.claimed_by);
+
+  if (error) {
+    console.error(`Error advancing schedule for order ${order.id}:`, error);
+  }
+}
+
+/**
+ * Give up the current slot without executing it (the quote was outside the
+ * order's price bounds) and release the claim. Nothing was spent, so the
+ * execution count, budget and failure counters are left alone; the order is
+ * completed if the next slot is past its end date.
+ */
+async function skipSlot(supabase: SupabaseClient, order: RecurringOrder): Promise<void> {
+  const nextExecutionDate = nextSlotAfter(
+    order.start_date,
+    order.frequency,
+    executionSlot(order),
+    order.timezone ?? DEFAULT_TIMEZONE
+  );
+  const limitReason = orderLimitReason(order, nextExecutionDate);
+
+  const { error } = await supabase
+    .from("recurring_orders")
+    .update({
+      next_execution_date: nextExecutionDate,
+      retry_count: 0,
+      current_slot: null,
+      ...(limitReason
+        ? { is_active: false, completed_at: new Date().toISOString(), completion_reason: limitReason }
+        : {}),
+      ...RELEASE_CLAIM,
+    })
+    .eq("id", order.id)
+    .eq("claimed_by", order.claimed_by);
+
+  if (error) {
+    console.error(`Error skipping slot for order ${order.id}:`, error);
+  }
+}
+
+/**
+ * Log a failed execution and update the order's retry state
  */
-function calculateNextExecutionDate(frequency: string): string {
-  const now = new Date();
-
-  switch (frequency.toLowerCase()) {
-    case "hourly":
-      now.setHours(now.getHours() + 1);
-      break;
-    case "daily":
-      now.setDate(now.getDate() + 1);
-      break;
-    case "weekly":
-      now.setDate(now.getDate() + 7);
-      break;
-    case "bi-weekly":
-      now.setDate(now.getDate() + 14);
-      break;
-    case "monthly":
-      now.setMonth(now.getMonth() + 1);
-      break;
-    default:
-      now.setDate(now.getDate() + 7); // Default to weekly
-  }
-
-  return now.toISOString();
+async function recordFailure(
+  supabase: SupabaseClient,
+  order: RecurringOrder,
+  errorMessage: string,
+  transactionHash?: string,
+  failureClass?: ExecutionFailureClass
+): Promise<void> {
+  await logOrderExecution(supabase, order, "Failed", transactionHash, errorMessage, failureClass);
+  await applyFailureState(supabase, order, errorMessage, failureClass);
+}
+
+/**
+ * Update the order's retry state after a failed attempt and release its claim
+ * (see failureUpdate in retry.ts for the retry and auto-pause policy)
+ */
+async function applyFailureState(
+  supabase: SupabaseClient,
+  order: RecurringOrder,
+  errorMessage: string,
+  failureClass?: ExecutionFailureClass | null
+): Promise<void> {
+  const update = failureUpdate(order, executionSlot(order), errorMessage);
+  if (update.is_active === false) {
+    console.warn(`Auto-paused order ${order.id} after ${update.consecutive_failures} consecutive failures`);
+  }
+
+  const { error } = await supabase
+    .from("recurring_orders")
+    .update({ ...update, last_failure_class: failureClass ?? null, ...RELEASE_CLAIM })
+    .eq("id", order.id)
+    .eq("claimed_by", order.claimed_by);
+
+  if (error) {
+    console.error(`Error updating retry state for order ${order.id}:`, error);
+  }
 }
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { failureUpdate, retryTime } from "./retry.ts";
+
+const ORDER = {
+  start_date: "2026-01-01T09:00:00.000Z",
+  frequency: "Daily",
+  timezone: "UTC",
+};
+const SLOT = "2026-03-10T09:00:00.000Z";
+
+describe("retryTime", () => {
+  it("schedules retries on the cron ticks after the failed run", () => {
+    const now = new Date("2026-03-10T09:00:42.000Z");
+    expect(retryTime(1, now).toISOString()).toBe("2026-03-10T10:00:00.000Z");
+    expect(retryTime(2, now).toISOString()).toBe("2026-03-10T11:00:00.000Z");
+    expect(retryTime(3, now).toISOString()).toBe("2026-03-10T13:00:00.000Z");
+  });
+});
+
+describe("failureUpdate", () => {
+  it("retries the slot on the next run after the first failure", () => {
+    const update = failureUpdate(ORDER, SLOT, "quote failed", new Date("2026-03-10T09:00:42.000Z"));
+    expect(update).toEqual({
+      consecutive_failures: 1,
+      retry_count: 1,
+      current_slot: SLOT,
+      next_execution_date: "2026-03-10T10:00:00.000Z",
+    });
+  });
+
+  it("backs off exponentially on later retries of the same slot", () => {
+    const update = failureUpdate(
+      { ...ORDER, consecutive_failures: 1, retry_count: 1 },
+      SLOT,
+      "quote failed",
+      new Date("2026-03-10T10:00:15.000Z")
+    );
+    expect(update).toEqual({
+      consecutive_failures: 2,
+      retry_count: 2,
+      current_slot: SLOT,
+      next_execution_date: "2026-03-10T12:00:00.000Z",
+    });
+  });
+
+  it("gives the slot up and moves to the next one when the retries are used up", () => {
+    const update = failureUpdate(
+      { ...ORDER, consecutive_failures: 2, retry_count: 2 },
+      SLOT,
+      "quote failed",
+      new Date("2026-03-10T12:00:15.000Z")
+    );
+    expect(update).toEqual({
+      consecutive_failures: 3,
+      retry_count: 0,
+      current_slot: null,
+      next_execution_date: "2026-03-11T09:00:00.000Z",
+    });
+  });
+
+  it("pauses the order after too many consecutive failures", () => {
+    const now = new Date("2026-03-10T09:00:42.000Z");
+    const update = failureUpdate(
+      { ...ORDER, consecutive_failures: 4, retry_count: 0 },
+      SLOT,
+      "insufficient balance",
+      now
+    );
+    expect(update).toEqual({
+      consecutive_failures: 5,
+      retry_count: 0,
+      current_slot: null,
+      is_active: false,
+      paused_at: now.toISOString(),
+      paused_reason: "Paused after 5 consecutive failures. Last error: insufficient balance",
+    });
+  });
+});
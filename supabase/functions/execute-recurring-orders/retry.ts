@@ -0,0 +1,90 @@
+/**
+ * Retry and auto-pause policy for failed recurring order executions
+ *
+ * The executor only runs on its cron schedule, so a retry can never happen
+ * sooner than the next cron run. Retry delays are therefore whole cron
+ * intervals (EXECUTION_CONFIG.CRON_INTERVAL), growing by
+ * RETRY_POLICY.BACKOFF_MULTIPLIER with every attempt, and retry times are
+ * aligned to the cron ticks so a retry is picked up by the run it was meant for.
+ */
+
+import { API_CONFIG, ERROR_CONFIG, EXECUTION_CONFIG } from "./config.ts";
+import { DEFAULT_TIMEZONE } from "../_shared/frequency.ts";
+import { nextSlotAfter } from "../_shared/schedule.ts";
+
+/** Order fields the retry policy reads */
+export interface RetryOrderState {
+  start_date: string;
+  frequency: string;
+  timezone?: string | null;
+  consecutive_failures?: number;
+  retry_count?: number;
+}
+
+/**
+ * When the given retry of a slot is due: the cron tick `RETRY_DELAY *
+ * BACKOFF_MULTIPLIER^(retryCount - 1)` after the tick of the failed run
+ * @param retryCount - Retry about to be scheduled (1 for the first retry)
+ */
+export function retryTime(retryCount: number, now: Date): Date {
+  const interval = EXECUTION_CONFIG.CRON_INTERVAL;
+  const delay =
+    EXECUTION_CONFIG.RETRY_DELAY *
+    Math.pow(API_CONFIG.RETRY_POLICY.BACKOFF_MULTIPLIER, retryCount - 1);
+  const currentTick = Math.floor(now.getTime() / interval) * interval;
+  return new Date(currentTick + Math.max(delay, interval));
+}
+
+/**
+ * Order columns to write after a failed attempt at `slot`
+ *
+ * - After ERROR_CONFIG.MAX_CONSECUTIVE_FAILURES failures in a row the order is
+ *   paused and the reason is recorded
+ * - Otherwise the slot is retried up to EXECUTION_CONFIG.MAX_RETRIES times
+ *   (see retryTime)
+ * - Once its retries are used up the slot is given up and the order waits for
+ *   its next slot
+ * @param slot - Scheduled slot (ISO timestamp) the failed attempt belongs to
+ */
+export function failureUpdate(
+  order: RetryOrderState,
+  slot: string,
+  errorMessage: string,
+  now: Date = new Date()
+): Record<string, unknown> {
+  const consecutiveFailures = (order.consecutive_failures ?? 0) + 1;
+  const retryCount = (order.retry_count ?? 0) + 1;
+
+  if (consecutiveFailures >= ERROR_CONFIG.MAX_CONSECUTIVE_FAILURES) {
+    return {
+      consecutive_failures: consecutiveFailures,
+      retry_count: 0,
+      current_slot: null,
+      is_active: false,
+      paused_at: now.toISOString(),
+      paused_reason: `Paused after ${consecutiveFailures} consecutive failures. Last error: ${errorMessage}`,
+    };
+  }
+
+  if (retryCount < EXECUTION_CONFIG.MAX_RETRIES) {
+    return {
+      consecutive_failures: consecutiveFailures,
+      retry_count: retryCount,
+      current_slot: slot,
+      next_execution_date: retryTime(retryCount, now).toISOString(),
+    };
+  }
+
+  // Out of retries for this slot: give it up and wait for the next one
+  return {
+    consecutive_failures: consecutiveFailures,
+    retry_count: 0,
+    current_slot: null,
+    next_execution_date: nextSlotAfter(
+      order.start_date,
+      order.frequency,
+      slot,
+      order.timezone ?? DEFAULT_TIMEZONE
+    ),
+  };
+}
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { sendRawTransaction } from "./rpc.ts";
+import { getTransactionHash } from "./transaction.ts";
+
+const RAW_TX = "0x02ec834cef5207843b9aca00852540be40008303d09094d330ae5713af6507f43420e85c941a68bfbad9d08080c0";
+const TX_HASH = getTransactionHash(RAW_TX);
+
+/**
+ * Stub fetch: the send is rejected with `sendError` and the transaction
+ * lookup returns `transaction`
+ */
+function stubNode(sendError: string, transaction: unknown) {
+  const fetchMock = vi.fn(async (_url: string, init: { body: string }) => {
+    const { id, method } = JSON.parse(init.body);
+    const body =
+      method === "eth_sendRawTransaction"
+        ? { jsonrpc: "2.0", id, error: { code: -32000, message: sendError } }
+        : { jsonrpc: "2.0", id, result: transaction };
+    return new Response(JSON.stringify(body));
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("sendRawTransaction", () => {
+  it("treats a transaction the node already has as sent", async () => {
+    stubNode("already known", null);
+    expect(await sendRawTransaction(RAW_TX)).toBe(TX_HASH);
+  });
+
+  it("treats a nonce error for an already mined transaction as sent", async () => {
+    const fetchMock = stubNode("nonce too low", { hash: TX_HASH, blockNumber: "0x10" });
+
+    expect(await sendRawTransaction(RAW_TX)).toBe(TX_HASH);
+    const lookup = JSON.parse(fetchMock.mock.calls[1][1].body);
+    expect(lookup.method).toBe("eth_getTransactionByHash");
+    expect(lookup.params).toEqual([TX_HASH]);
+  });
+
+  it("fails when the chain does not know the transaction", async () => {
+    stubNode("nonce too low", null);
+    await expect(sendRawTransaction(RAW_TX)).rejects.toThrow("nonce too low");
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Arc JSON-RPC helpers for the recurring order executor
+ */
+
+import { API_CONFIG, TRANSACTION_CONFIG } from "./config.ts";
+import { getTransactionHash } from "./transaction.ts";
+import { decodeUint256, encodeAllowance, encodeBalanceOf } from "../_shared/erc20.ts";
+import { RpcError, createRpcClient, parseRpcUrls } from "../_shared/rpc.ts";
+
+export interface TransactionReceipt {
+  transactionHash: string;
+  status: string; // "0x1" success, "0x0" reverted
+  blockNumber: string;
+  gasUsed: string;
+  effectiveGasPrice?: string;
+  logs: Array<{ address: string; topics: string[]; data: string }>;
+}
+
+export interface FeeData {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+const deno = (globalThis as { Deno?: { env: { get(name: string): string | undefined } } }).Deno;
+
+const client = createRpcClient({
+  urls: parseRpcUrls(deno?.env.get("ARC_RPC_URLS"), API_CONFIG.ARC_RPC_URLS),
+  retries: API_CONFIG.RETRY_POLICY.MAX_ATTEMPTS - 1,
+});
+
+/**
+ * Make a JSON-RPC call to the Arc RPC, failing over between endpoints
+ */
+export async function rpcCall<T>(method: string, params: unknown[]): Promise<T> {
+  return await client.call<T>(method, params);
+}
+
+/**
+ * Pending-inclusive nonce for an account
+ */
+export async function getTransactionCount(address: string): Promise<bigint> {
+  return BigInt(await rpcCall<string>("eth_getTransactionCount", [address, "pending"]));
+}
+
+/**
+ * EIP-1559 fee parameters: 2x the latest base fee plus the suggested tip
+ */
+export async function getFeeData(): Promise<FeeData> {
+  const block = await rpcCall<{ baseFeePerGas?: string }>("eth_getBlockByNumber", [
+    "latest",
+    false,
+  ]);
+
+  let maxPriorityFeePerGas = BigInt(0);
+  try {
+    maxPriorityFeePerGas = BigInt(await rpcCall<string>("eth_maxPriorityFeePerGas", []));
+  } catch {
+    // Not every node implements eth_maxPriorityFeePerGas; the base fee alone is enough on Arc
+  }
+
+  if (!block?.baseFeePerGas) {
+    const gasPrice = BigInt(await rpcCall<string>("eth_gasPrice", []));
+    return { maxFeePerGas: gasPrice + maxPriorityFeePerGas, maxPriorityFeePerGas };
+  }
+
+  const baseFee = BigInt(block.baseFeePerGas);
+  return {
+    maxFeePerGas: baseFee * BigInt(2) + maxPriorityFeePerGas,
+    maxPriorityFeePerGas,
+  };
+}
+
+/**
+ * Native balance of an account, in wei
+ */
+export async function getNativeBalance(address: string): Promise<bigint> {
+  return BigInt(await rpcCall<string>("eth_getBalance", [address, "latest"]));
+}
+
+/**
+ * `eth_call` against the latest block
+ */
+export async function ethCall(to: string, data: string): Promise<string> {
+  return await client.ethCall(to, data);
+}
+
+/**
+ * ERC20 `balanceOf(owner)`, in base units
+ */
+export async function getTokenBalance(tokenAddress: string, owner: string): Promise<bigint> {
+  return decodeUint256(
+    await rpcCall<string>("eth_call", [{ to: tokenAddress, data: encodeBalanceOf(owner) }, "latest"])
+  );
+}
+
+/**
+ * ERC20 `allowance(owner, spender)`, in base units
+ */
+export async function getTokenAllowance(
+  tokenAddress: string,
+  owner: string,
+  spender: string
+): Promise<bigint> {
+  return decodeUint256(
+    await rpcCall<string>("eth_call", [
+      { to: tokenAddress, data: encodeAllowance(owner, spender) },
+      "latest",
+    ])
+  );
+}
+
+/**
+ * Estimate gas for a call and add the configured safety buffer
+ */
+export async function estimateGasWithBuffer(tx: {
+  from: string;
+  to: string;
+  value: string;
+  data: string;
+}): Promise<bigint> {
+  const estimate = BigInt(await rpcCall<string>("eth_estimateGas", [tx]));
+  return (estimate * BigInt(100 + TRANSACTION_CONFIG.GAS_LIMIT_BUFFER_PERCENT)) / BigInt(100);
+}
+
+/**
+ * Broadcast a signed raw transaction
+ *
+ * The send is never retried (see createRpcClient), so when it fails the
+ * transaction may still have reached a node: a lost response, or "nonce too
+ * low" because it was already mined. Before reporting a failure the locally
+ * computed hash is looked up, and a transaction the chain knows counts as sent.
+ * @returns Transaction hash
+ * @throws If the transaction was not broadcast
+ */
+export async function sendRawTransaction(rawTransaction: string): Promise<string> {
+  const transactionHash = getTransactionHash(rawTransaction);
+  try {
+    return await rpcCall<string>("eth_sendRawTransaction", [rawTransaction]);
+  } catch (error) {
+    if (error instanceof RpcError && /already known|known transaction/i.test(error.reason)) {
+      return transactionHash;
+    }
+    if (await isTransactionKnown(transactionHash)) {
+      console.warn(`Send of ${transactionHash} failed but the transaction is known, treating it as sent`);
+      return transactionHash;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether a node has the transaction, pending or mined
+ * @throws If the transaction cannot be looked up, since it may have been sent
+ */
+async function isTransactionKnown(transactionHash: string): Promise<boolean> {
+  try {
+    const transaction = await rpcCall<unknown>("eth_getTransactionByHash", [transactionHash]);
+    return transaction !== null;
+  } catch (error) {
+    throw new Error(
+      `Failed to check whether ${transactionHash} was broadcast: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Look up a transaction receipt once
+ * @returns The receipt, or null if the transaction is not mined (yet)
+ */
+export async function getTransactionReceipt(
+  transactionHash: string
+): Promise<TransactionReceipt | null> {
+  return await rpcCall<TransactionReceipt | null>("eth_getTransactionReceipt", [transactionHash]);
+}
+
+/**
+ * Poll for a transaction receipt
+ * @returns The receipt, or null if none arrived within the timeout
+ */
+export async function waitForReceipt(
+  transactionHash: string,
+  timeoutMs: number = TRANSACTION_CONFIG.RECEIPT_TIMEOUT,
+  pollIntervalMs: number = TRANSACTION_CONFIG.RECEIPT_POLL_INTERVAL
+): Promise<TransactionReceipt | null> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    try {
+      const receipt = await getTransactionReceipt(transactionHash);
+      if (receipt) {
+        return receipt;
+      }
+    } catch (error) {
+      console.warn(`Receipt poll failed for ${transactionHash}:`, error);
+    }
+    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+  }
+
+  return null;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { createLocalKeySigner, privateKeyToAddress } from "./signer.ts";
+import { type UnsignedTransaction, getTransactionHash, serializeTransaction } from "./transaction.ts";
+
+// Well-known development key (Hardhat/Anvil account #0), never funded on a real network
+const PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const ADDRESS = "0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266";
+
+// exchange(0, 1, 100 WUSDC, 1 QTM) on the WUSDC/QTM pool
+const CALLDATA =
+  "0x3df02124" +
+  "0000000000000000000000000000000000000000000000000000000000000000" +
+  "0000000000000000000000000000000000000000000000000000000000000001" +
+  "0000000000000000000000000000000000000000000000000000000005f5e100" +
+  "0000000000000000000000000000000000000000000000000de0b6b3a7640000";
+
+const TX: UnsignedTransaction = {
+  chainId: 5042002,
+  nonce: BigInt(7),
+  maxPriorityFeePerGas: BigInt(1000000000),
+  maxFeePerGas: BigInt(160000000000),
+  gasLimit: BigInt(250000),
+  to: "0xd330ae5713af6507f43420e85c941a68bfbad9d0",
+  value: BigInt(0),
+  data: CALLDATA,
+};
+
+// Expected values produced independently with viem
+const SIGNED_TX =
+  "0x02f8f4834cef5207843b9aca00852540be40008303d09094d330ae5713af6507f43420e85c941a68bfbad9d080b884" +
+  CALLDATA.slice(2) +
+  "c080a0903a752d303b1f8bea85dc6f6d8db37162b672f8df8492d46e95988edf5a8e53a03d0d6ca81c50c665c58f81acf2fc673e1e6157b136bb2178743f2582541a0047";
+const TX_HASH = "0x4f981f89e4af4aa43ed739f679e53f3f28c539a9906167fd6d245b9d5e075998";
+
+describe("serializeTransaction", () => {
+  it("serializes an unsigned EIP-1559 transaction", () => {
+    expect(serializeTransaction({ ...TX, data: "0x" })).toBe(
+      "0x02ec834cef5207843b9aca00852540be40008303d09094d330ae5713af6507f43420e85c941a68bfbad9d08080c0"
+    );
+  });
+});
+
+describe("createLocalKeySigner", () => {
+  it("derives the key's address", async () => {
+    expect(privateKeyToAddress(PRIVATE_KEY)).toBe(ADDRESS);
+    expect(await createLocalKeySigner(PRIVATE_KEY).getAddress()).toBe(ADDRESS);
+  });
+
+  it("signs a known transaction byte-for-byte", async () => {
+    const rawTransaction = await createLocalKeySigner(PRIVATE_KEY).signTransaction(TX);
+
+    expect(rawTransaction).toBe(SIGNED_TX);
+    expect(getTransactionHash(rawTransaction)).toBe(TX_HASH);
+  });
+
+  it("rejects keys that are not 32 bytes", () => {
+    expect(() => createLocalKeySigner("0x1234")).toThrow("must be 32 bytes");
+  });
+});
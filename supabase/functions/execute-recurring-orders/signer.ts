@@ -0,0 +1,146 @@
+/**
+ * Transaction signers for recurring order execution
+ *
+ * The executor never holds a user's primary wallet key. Instead it signs
+ * through a pluggable signer:
+ * - "delegated": a signing service that holds a session key (or delegated
+ *   signer) the user granted to Tower Finance for their wallet. The executor
+ *   posts the unsigned transaction and receives the signed raw transaction.
+ * - "local": an in-process private key. Intended for local development and
+ *   tests against a funded test wallet.
+ */
+
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { keccak_256 } from "@noble/hashes/sha3";
+import {
+  type UnsignedTransaction,
+  fromHex,
+  getSigningHash,
+  serializeTransaction,
+  toHex,
+} from "./transaction.ts";
+
+export type SignerKind = "local" | "delegated";
+
+export interface TransactionSigner {
+  kind: SignerKind;
+  getAddress(): Promise<string>;
+  /** Returns the 0x-prefixed signed raw transaction */
+  signTransaction(tx: UnsignedTransaction): Promise<string>;
+}
+
+export type EnvReader = (name: string) => string | undefined;
+
+/**
+ * Derive the checksum-free (lowercase) address for a private key
+ */
+export function privateKeyToAddress(privateKey: string): string {
+  const publicKey = secp256k1.getPublicKey(fromHex(privateKey), false);
+  return toHex(keccak_256(publicKey.slice(1)).slice(-20));
+}
+
+/**
+ * Signer backed by a private key held in memory
+ */
+export function createLocalKeySigner(privateKey: string): TransactionSigner {
+  const keyBytes = fromHex(privateKey);
+  if (keyBytes.length !== 32) {
+    throw new Error("Local signer private key must be 32 bytes");
+  }
+  const address = privateKeyToAddress(privateKey);
+
+  return {
+    kind: "local",
+    getAddress: async () => address,
+    signTransaction: async (tx) => {
+      const signature = secp256k1.sign(getSigningHash(tx), keyBytes, { lowS: true });
+      return serializeTransaction(tx, {
+        r: signature.r,
+        s: signature.s,
+        yParity: signature.recovery === 1 ? 1 : 0,
+      });
+    },
+  };
+}
+
+/**
+ * Signer backed by a remote session-key / delegated-signer service
+ * @param walletAddress - Wallet the service signs for
+ * @param url - Signing endpoint
+ * @param apiKey - Bearer token for the signing service
+ */
+export function createDelegatedSigner(
+  walletAddress: string,
+  url: string,
+  apiKey?: string
+): TransactionSigner {
+  return {
+    kind: "delegated",
+    getAddress: async () => walletAddress.toLowerCase(),
+    signTransaction: async (tx) => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          walletAddress,
+          transaction: {
+            type: "0x2",
+            chainId: `0x${tx.chainId.toString(16)}`,
+            nonce: `0x${tx.nonce.toString(16)}`,
+            maxPriorityFeePerGas: `0x${tx.maxPriorityFeePerGas.toString(16)}`,
+            maxFeePerGas: `0x${tx.maxFeePerGas.toString(16)}`,
+            gas: `0x${tx.gasLimit.toString(16)}`,
+            to: tx.to,
+            value: `0x${tx.value.toString(16)}`,
+            data: tx.data,
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Delegated signer returned status ${response.status}`);
+      }
+
+      const result = await response.json();
+      const signedTransaction = result?.signedTransaction;
+      if (typeof signedTransaction !== "string" || !signedTransaction.startsWith("0x02")) {
+        throw new Error("Delegated signer did not return a signed EIP-1559 transaction");
+      }
+
+      return signedTransaction;
+    },
+  };
+}
+
+/**
+ * Build the signer for a wallet from environment configuration
+ *
+ * EXECUTOR_SIGNER_MODE     - "delegated" (default) or "local"
+ * DELEGATED_SIGNER_URL     - signing service endpoint (delegated mode)
+ * DELEGATED_SIGNER_API_KEY - signing service bearer token (delegated mode)
+ * EXECUTOR_PRIVATE_KEY     - hex private key (local mode)
+ */
+export function resolveSigner(walletAddress: string, env: EnvReader): TransactionSigner {
+  const mode = (env("EXECUTOR_SIGNER_MODE") ?? "delegated").toLowerCase();
+
+  if (mode === "local") {
+    const privateKey = env("EXECUTOR_PRIVATE_KEY");
+    if (!privateKey) {
+      throw new Error("EXECUTOR_PRIVATE_KEY is required when EXECUTOR_SIGNER_MODE=local");
+    }
+    return createLocalKeySigner(privateKey);
+  }
+
+  if (mode === "delegated") {
+    const url = env("DELEGATED_SIGNER_URL");
+    if (!url) {
+      throw new Error("DELEGATED_SIGNER_URL is required when EXECUTOR_SIGNER_MODE=delegated");
+    }
+    return createDelegatedSigner(walletAddress, url, env("DELEGATED_SIGNER_API_KEY"));
+  }
+
+  throw new Error(`Unknown EXECUTOR_SIGNER_MODE: ${mode}`);
+}
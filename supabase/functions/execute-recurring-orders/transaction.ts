@@ -0,0 +1,127 @@
+/**
+ * EIP-1559 transaction serialization
+ *
+ * Minimal RLP encoder and typed-transaction (type 0x02) serializer used to
+ * produce the payload that signers sign and `eth_sendRawTransaction` accepts.
+ */
+
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, concatBytes, hexToBytes } from "@noble/hashes/utils";
+
+export interface UnsignedTransaction {
+  chainId: number;
+  nonce: bigint;
+  maxPriorityFeePerGas: bigint;
+  maxFeePerGas: bigint;
+  gasLimit: bigint;
+  to: string;
+  value: bigint;
+  data: string;
+}
+
+export interface TransactionSignature {
+  r: bigint;
+  s: bigint;
+  yParity: 0 | 1;
+}
+
+type RlpInput = Uint8Array | RlpInput[];
+
+const EIP1559_TX_TYPE = 0x02;
+
+/**
+ * Convert a 0x-prefixed (or bare) hex string to bytes
+ */
+export function fromHex(hex: string): Uint8Array {
+  const clean = hex.startsWith("0x") ? hex.slice(2) : hex;
+  return hexToBytes(clean.length % 2 === 0 ? clean : `0${clean}`);
+}
+
+/**
+ * Convert bytes to a 0x-prefixed hex string
+ */
+export function toHex(bytes: Uint8Array): string {
+  return `0x${bytesToHex(bytes)}`;
+}
+
+/**
+ * Minimal big-endian encoding of an unsigned integer (zero encodes as empty bytes)
+ */
+function bigintToBytes(value: bigint): Uint8Array {
+  if (value < BigInt(0)) {
+    throw new Error("Cannot RLP-encode a negative integer");
+  }
+  if (value === BigInt(0)) {
+    return new Uint8Array(0);
+  }
+  return fromHex(value.toString(16));
+}
+
+function encodeLength(length: number, offset: number): Uint8Array {
+  if (length < 56) {
+    return Uint8Array.of(offset + length);
+  }
+  const lengthBytes = bigintToBytes(BigInt(length));
+  return concatBytes(Uint8Array.of(offset + 55 + lengthBytes.length), lengthBytes);
+}
+
+function rlpEncode(input: RlpInput): Uint8Array {
+  if (input instanceof Uint8Array) {
+    if (input.length === 1 && input[0] < 0x80) {
+      return input;
+    }
+    return concatBytes(encodeLength(input.length, 0x80), input);
+  }
+
+  const payload = concatBytes(...input.map(rlpEncode));
+  return concatBytes(encodeLength(payload.length, 0xc0), payload);
+}
+
+function transactionFields(tx: UnsignedTransaction): RlpInput[] {
+  return [
+    bigintToBytes(BigInt(tx.chainId)),
+    bigintToBytes(tx.nonce),
+    bigintToBytes(tx.maxPriorityFeePerGas),
+    bigintToBytes(tx.maxFeePerGas),
+    bigintToBytes(tx.gasLimit),
+    fromHex(tx.to),
+    bigintToBytes(tx.value),
+    fromHex(tx.data || "0x"),
+    [], // access list
+  ];
+}
+
+/**
+ * Serialize an EIP-1559 transaction, optionally including its signature
+ * @returns 0x-prefixed raw transaction
+ */
+export function serializeTransaction(
+  tx: UnsignedTransaction,
+  signature?: TransactionSignature
+): string {
+  const fields = transactionFields(tx);
+
+  if (signature) {
+    fields.push(
+      bigintToBytes(BigInt(signature.yParity)),
+      bigintToBytes(signature.r),
+      bigintToBytes(signature.s)
+    );
+  }
+
+  return toHex(concatBytes(Uint8Array.of(EIP1559_TX_TYPE), rlpEncode(fields)));
+}
+
+/**
+ * Hash that must be signed to authorize the transaction
+ */
+export function getSigningHash(tx: UnsignedTransaction): Uint8Array {
+  return keccak_256(fromHex(serializeTransaction(tx)));
+}
+
+/**
+ * Transaction hash of a signed raw transaction
+ */
+export function getTransactionHash(rawTransaction: string): string {
+  return toHex(keccak_256(fromHex(rawTransaction)));
+}
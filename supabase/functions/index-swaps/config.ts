@@ -0,0 +1,34 @@
+/**
+ * Configuration for the swap indexer
+ *
+ * This file contains all configurable parameters for the Edge Function
+ * that indexes pool swaps into the swaps table.
+ */
+
+import { ARC_TESTNET_RPC_URLS } from "../_shared/rpc.ts";
+
+export const INDEXER_CONFIG = {
+  // Checkpoint row in indexer_checkpoints
+  CHECKPOINT_NAME: "swaps",
+
+  // Blocks re-indexed below the checkpoint on every run, so swaps dropped or
+  // moved by a reorg are corrected
+  REORG_DEPTH: 12,
+
+  // Most blocks requested in one eth_getLogs call
+  // Public endpoints reject larger ranges
+  MAX_BLOCK_RANGE: 2000,
+
+  // Most eth_getLogs ranges per run; a run that falls behind catches up over
+  // the following runs
+  MAX_RANGES_PER_RUN: 10,
+};
+
+// RPC Configuration
+export const RPC_CONFIG = {
+  // Arc Testnet endpoints, overridden by a comma-separated ARC_RPC_URLS
+  ARC_RPC_URLS: ARC_TESTNET_RPC_URLS,
+
+  // Retries after the first attempt, each on the next endpoint
+  RETRIES: 2,
+};
@@ -0,0 +1,307 @@
+import { type SupabaseClient, createClient } from "@supabase/supabase-js";
+import { INDEXER_CONFIG, RPC_CONFIG } from "./config.ts";
+import { ARC_POOLS } from "../_shared/pools.ts";
+import { createRpcClient, parseRpcUrls } from "../_shared/rpc.ts";
+import {
+  type ChainLog,
+  type PoolSwap,
+  type SwapPool,
+  decodePoolSwaps,
+  decodeRouterSwaps,
+  poolTransferFilters,
+} from "../_shared/swapLogs.ts";
+import { getTokenAddress, getTokenDecimals, listTokens } from "../_shared/tokens.ts";
+import { fromBaseUnits } from "../_shared/units.ts";
+
+const deno = (
+  globalThis as unknown as {
+    Deno: {
+      env: { get(name: string): string | undefined };
+      serve(handler: (req: Request) => Promise<Response>): void;
+    };
+  }
+).Deno;
+
+const supabaseUrl = deno.env.get("SUPABASE_URL") ?? "";
+const supabaseServiceKey = deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+const rpc = createRpcClient({
+  urls: parseRpcUrls(deno.env.get("ARC_RPC_URLS"), RPC_CONFIG.ARC_RPC_URLS),
+  retries: RPC_CONFIG.RETRIES,
+});
+
+// Swaps sent through these are attributed to the transaction sender and keep the router's address
+const ROUTERS = [ARC_POOLS.routerQuantum, ARC_POOLS.router].map((router) => router.toLowerCase());
+
+interface IndexedPool extends SwapPool {
+  name: string;
+  tokens: string[];
+  decimals: number[];
+}
+
+interface Block {
+  number: string;
+  hash: string;
+  timestamp: string;
+  transactions: Array<{ hash: string; from: string; to: string | null }>;
+}
+
+interface SwapRow {
+  pool_address: string;
+  transaction_hash: string;
+  log_index: number;
+  block_number: number;
+  block_hash: string;
+  block_time: string;
+  wallet_address: string;
+  router_address: string | null;
+  sender: string;
+  recipient: string;
+  token_in: string;
+  token_out: string;
+  token_in_address: string;
+  token_out_address: string;
+  amount_in: number;
+  amount_out: number;
+}
+
+const toQuantity = (value: number): string => `0x${value.toString(16)}`;
+
+/**
+ * Resolve the configured pools' token addresses and decimals
+ * @returns The pools whose tokens are all in the registry
+ */
+function resolvePools(): IndexedPool[] {
+  return Object.entries(ARC_POOLS.pools).flatMap(([name, pool]) => {
+    const coins = pool.coins ?? pool.tokens.map((symbol) => getTokenAddress(symbol));
+    if (coins.some((coin) => !coin)) {
+      console.warn(`Skipping pool ${name}: unknown token address`);
+      return [];
+    }
+    return [
+      {
+        name,
+        address: pool.address.toLowerCase(),
+        coins: (coins as string[]).map((coin) => coin.toLowerCase()),
+        tokens: pool.tokens,
+        decimals: pool.decimals ?? pool.tokens.map((symbol) => getTokenDecimals(symbol)),
+      },
+    ];
+  });
+}
+
+/**
+ * RouterQuantum as a swap venue, carrying every listed token with an address
+ */
+function resolveRouter(): IndexedPool {
+  const tokens = listTokens().filter((token) => token.address);
+  return {
+    name: "RouterQuantum",
+    address: ARC_POOLS.routerQuantum.toLowerCase(),
+    coins: tokens.map((token) => (token.address as string).toLowerCase()),
+    tokens: tokens.map((token) => token.symbol),
+    decimals: tokens.map((token) => token.decimals),
+  };
+}
+
+async function getBlock(blockNumber: number, withTransactions: boolean): Promise<Block> {
+  const block = await rpc.call<Block | null>("eth_getBlockByNumber", [
+    toQuantity(blockNumber),
+    withTransactions,
+  ]);
+  if (!block) {
+    throw new Error(`Block ${blockNumber} not found`);
+  }
+  return block;
+}
+
+/**
+ * Transfer logs of a venue's tokens into and out of it in a block range
+ */
+async function readTransfers(venue: IndexedPool, fromBlock: number, toBlock: number): Promise<ChainLog[]> {
+  const logs = await Promise.all(
+    poolTransferFilters(venue, toQuantity(fromBlock), toQuantity(toBlock)).map((filter) =>
+      rpc.call<ChainLog[]>("eth_getLogs", [filter])
+    )
+  );
+  return logs.flat();
+}
+
+/**
+ * Find the swaps of every pool and of the router in a block range. A router
+ * swap through an indexed pool is already one of that pool's swaps (tagged
+ * with the router), so only router swaps that touch none of the pools are added.
+ */
+async function readSwaps(
+  pools: IndexedPool[],
+  router: IndexedPool,
+  fromBlock: number,
+  toBlock: number
+): Promise<PoolSwap[]> {
+  const [perPool, routerLogs] = await Promise.all([
+    Promise.all(
+      pools.map(async (pool) => decodePoolSwaps(await readTransfers(pool, fromBlock, toBlock), pool))
+    ),
+    readTransfers(router, fromBlock, toBlock),
+  ]);
+  const poolSwaps = perPool.flat();
+  const pooledTransactions = new Set(poolSwaps.map((swap) => swap.transactionHash));
+  const routerSwaps = decodeRouterSwaps(routerLogs, router).filter(
+    (swap) => !pooledTransactions.has(swap.transactionHash)
+  );
+  return [...poolSwaps, ...routerSwaps];
+}
+
+/**
+ * Turn swaps into rows, with the time and sender from their blocks
+ * @throws If a block changed since its logs were read (a reorg mid-run)
+ */
+async function toSwapRows(swaps: PoolSwap[], pools: IndexedPool[]): Promise<SwapRow[]> {
+  const blockNumbers = [...new Set(swaps.map((swap) => swap.blockNumber))];
+  const blocks = new Map(
+    (await Promise.all(blockNumbers.map((blockNumber) => getBlock(blockNumber, true)))).map((block) => [
+      Number(BigInt(block.number)),
+      block,
+    ])
+  );
+
+  return swaps.map((swap) => {
+    const block = blocks.get(swap.blockNumber);
+    if (!block || block.hash !== swap.blockHash) {
+      throw new Error(`Block ${swap.blockNumber} changed while indexing`);
+    }
+    const pool = pools.find((candidate) => candidate.address === swap.pool) as IndexedPool;
+    const transaction = block.transactions.find((tx) => tx.hash === swap.transactionHash);
+    const to = transaction?.to?.toLowerCase() ?? null;
+
+    return {
+      pool_address: swap.pool,
+      transaction_hash: swap.transactionHash,
+      log_index: swap.logIndex,
+      block_number: swap.blockNumber,
+      block_hash: swap.blockHash,
+      block_time: new Date(Number(BigInt(block.timestamp)) * 1000).toISOString(),
+      wallet_address: transaction?.from.toLowerCase() ?? swap.sender,
+      router_address: to && ROUTERS.includes(to) ? to : null,
+      sender: swap.sender,
+      recipient: swap.recipient,
+      token_in: pool.tokens[swap.soldIndex],
+      token_out: pool.tokens[swap.boughtIndex],
+      token_in_address: pool.coins[swap.soldIndex],
+      token_out_address: pool.coins[swap.boughtIndex],
+      amount_in: fromBaseUnits(swap.amountIn, pool.decimals[swap.soldIndex]),
+      amount_out: fromBaseUnits(swap.amountOut, pool.decimals[swap.boughtIndex]),
+    };
+  });
+}
+
+/**
+ * First block to index: a few blocks below the checkpoint, or further back if
+ * the checkpoint block itself was replaced by a reorg
+ */
+async function resolveStartBlock(supabase: SupabaseClient, head: number): Promise<number> {
+  const { data: checkpoint, error } = await supabase
+    .from("indexer_checkpoints")
+    .select("block_number, block_hash")
+    .eq("name", INDEXER_CONFIG.CHECKPOINT_NAME)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to fetch indexer checkpoint: ${error.message}`);
+  }
+
+  if (!checkpoint) {
+    const startBlock = deno.env.get("INDEXER_START_BLOCK");
+    return startBlock ? Number(startBlock) : Math.max(head - INDEXER_CONFIG.MAX_BLOCK_RANGE + 1, 0);
+  }
+
+  const checkpointBlock = Number(checkpoint.block_number);
+  const block = await getBlock(checkpointBlock, false);
+  const rewind =
+    block.hash === checkpoint.block_hash ? INDEXER_CONFIG.REORG_DEPTH : INDEXER_CONFIG.MAX_BLOCK_RANGE;
+  if (rewind !== INDEXER_CONFIG.REORG_DEPTH) {
+    console.warn(`Checkpoint block ${checkpointBlock} was reorged, re-indexing the last ${rewind} blocks`);
+  }
+  return Math.max(checkpointBlock - rewind + 1, 0);
+}
+
+deno.serve(async (req: Request) => {
+  try {
+    // Verify the request is from Supabase cron (optional security check)
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const pools = resolvePools();
+    const router = resolveRouter();
+    const head = Number(BigInt(await rpc.call<string>("eth_blockNumber", [])));
+    const fromBlock = await resolveStartBlock(supabase, head);
+    const toBlock = Math.min(
+      head,
+      fromBlock + INDEXER_CONFIG.MAX_BLOCK_RANGE * INDEXER_CONFIG.MAX_RANGES_PER_RUN - 1
+    );
+
+    if (fromBlock > toBlock) {
+      return new Response(
+        JSON.stringify({ success: true, head, indexed: 0 }),
+        { status: 200, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const swaps: PoolSwap[] = [];
+    for (let start = fromBlock; start <= toBlock; start += INDEXER_CONFIG.MAX_BLOCK_RANGE) {
+      const end = Math.min(start + INDEXER_CONFIG.MAX_BLOCK_RANGE - 1, toBlock);
+      swaps.push(...(await readSwaps(pools, router, start, end)));
+    }
+    const rows = await toSwapRows(swaps, [...pools, router]);
+    const checkpointBlock = await getBlock(toBlock, false);
+
+    // Replace what was indexed for the range, so swaps a reorg dropped go away
+    const { error: deleteError } = await supabase
+      .from("swaps")
+      .delete()
+      .in("pool_address", [...pools, router].map((venue) => venue.address))
+      .gte("block_number", fromBlock)
+      .lte("block_number", toBlock);
+    if (deleteError) {
+      throw new Error(`Failed to clear re-indexed swaps: ${deleteError.message}`);
+    }
+
+    if (rows.length > 0) {
+      const { error: insertError } = await supabase
+        .from("swaps")
+        .upsert(rows, { onConflict: "transaction_hash,pool_address,log_index" });
+      if (insertError) {
+        throw new Error(`Failed to insert swaps: ${insertError.message}`);
+      }
+    }
+
+    const { error: checkpointError } = await supabase.from("indexer_checkpoints").upsert({
+      name: INDEXER_CONFIG.CHECKPOINT_NAME,
+      block_number: toBlock,
+      block_hash: checkpointBlock.hash,
+      updated_at: new Date().toISOString(),
+    });
+    if (checkpointError) {
+      throw new Error(`Failed to save indexer checkpoint: ${checkpointError.message}`);
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, head, fromBlock, toBlock, indexed: rows.length }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error indexing swaps:", error);
+    return new Response(
+      JSON.stringify({
+        error: "Failed to index swaps",
+        details: error instanceof Error ? error.message : String(error),
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,27 @@
+/**
+ * Configuration for pool price sampling
+ *
+ * This file contains all configurable parameters for the Edge Function
+ * that records pool prices for the price charts.
+ */
+
+import { ARC_TESTNET_RPC_URLS } from "../_shared/rpc.ts";
+
+export const SAMPLER_CONFIG = {
+  // Whole tokens quoted in each direction to read a pool's price
+  // Small enough to keep price impact low
+  PROBE_AMOUNT: 1,
+
+  // How long samples are kept (in days)
+  // Must cover the longest chart period (30D)
+  RETENTION_DAYS: 35,
+};
+
+// RPC Configuration
+export const RPC_CONFIG = {
+  // Arc Testnet endpoints, overridden by a comma-separated ARC_RPC_URLS
+  ARC_RPC_URLS: ARC_TESTNET_RPC_URLS,
+
+  // Retries after the first attempt, each on the next endpoint
+  RETRIES: 2,
+};
@@ -0,0 +1,155 @@
+import { createClient } from "@supabase/supabase-js";
+import { RPC_CONFIG, SAMPLER_CONFIG } from "./config.ts";
+import { decodeFunctionResult, encodeFunctionData } from "../_shared/abi.ts";
+import { multicall } from "../_shared/multicall.ts";
+import { ARC_POOLS, type ArcPoolInfo, LIQUIDITY_POOL_ABI } from "../_shared/pools.ts";
+import { createRpcClient, parseRpcUrls } from "../_shared/rpc.ts";
+import { getTokenDecimals } from "../_shared/tokens.ts";
+import { fromBaseUnits, toBaseUnits } from "../_shared/units.ts";
+
+const deno = (
+  globalThis as unknown as {
+    Deno: {
+      env: { get(name: string): string | undefined };
+      serve(handler: (req: Request) => Promise<Response>): void;
+    };
+  }
+).Deno;
+
+const supabaseUrl = deno.env.get("SUPABASE_URL") ?? "";
+const supabaseServiceKey = deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+const rpc = createRpcClient({
+  urls: parseRpcUrls(deno.env.get("ARC_RPC_URLS"), RPC_CONFIG.ARC_RPC_URLS),
+  retries: RPC_CONFIG.RETRIES,
+});
+
+interface SampledPool {
+  name: string;
+  address: string;
+  tokens: string[];
+  decimals: number[];
+}
+
+interface PriceSampleRow {
+  pool_address: string;
+  token0: string;
+  token1: string;
+  price: number;
+  block_number: number;
+}
+
+/**
+ * Resolve a configured pool's token decimals
+ */
+function resolvePool(name: string, pool: ArcPoolInfo): SampledPool {
+  return {
+    name,
+    address: pool.address.toLowerCase(),
+    tokens: pool.tokens,
+    decimals: pool.decimals ?? pool.tokens.map((symbol) => getTokenDecimals(symbol)),
+  };
+}
+
+/**
+ * Mid price of token 0 in token 1, from quotes in both directions so the pool
+ * fee cancels out
+ * @returns The price, or null if either quote reverted
+ */
+async function readMidPrices(pools: SampledPool[]): Promise<(number | null)[]> {
+  const probe = (decimals: number) => toBaseUnits(SAMPLER_CONFIG.PROBE_AMOUNT, decimals);
+  const results = await multicall(
+    rpc,
+    pools.flatMap((pool) => [
+      {
+        target: pool.address,
+        data: encodeFunctionData(LIQUIDITY_POOL_ABI, "get_dy", [0, 1, probe(pool.decimals[0])]),
+      },
+      {
+        target: pool.address,
+        data: encodeFunctionData(LIQUIDITY_POOL_ABI, "get_dy", [1, 0, probe(pool.decimals[1])]),
+      },
+    ])
+  );
+
+  return pools.map((pool, i) => {
+    const [forward, backward] = [results[2 * i], results[2 * i + 1]];
+    if (!forward || !backward) return null;
+    const [out1] = decodeFunctionResult(LIQUIDITY_POOL_ABI, "get_dy", forward);
+    const [out0] = decodeFunctionResult(LIQUIDITY_POOL_ABI, "get_dy", backward);
+    // Token 1 per token 0 when selling token 0, and when buying it back
+    const bid = fromBaseUnits(out1, pool.decimals[1]) / SAMPLER_CONFIG.PROBE_AMOUNT;
+    const ask = SAMPLER_CONFIG.PROBE_AMOUNT / fromBaseUnits(out0, pool.decimals[0]);
+    return bid > 0 && Number.isFinite(ask) ? Math.sqrt(bid * ask) : null;
+  });
+}
+
+deno.serve(async (req: Request) => {
+  try {
+    // Verify the request is from Supabase cron (optional security check)
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const pools = Object.entries(ARC_POOLS.pools).map(([name, pool]) => resolvePool(name, pool));
+
+    const [blockNumber, prices] = await Promise.all([
+      rpc.call<string>("eth_blockNumber", []).then((block) => Number(BigInt(block))),
+      readMidPrices(pools),
+    ]);
+
+    const rows: PriceSampleRow[] = [];
+    const skipped: string[] = [];
+    for (const [i, pool] of pools.entries()) {
+      const price = prices[i];
+      if (price === null) {
+        console.warn(`Skipping pool ${pool.name}: quote reverted`);
+        skipped.push(pool.name);
+        continue;
+      }
+
+      rows.push({
+        pool_address: pool.address,
+        token0: pool.tokens[0],
+        token1: pool.tokens[1],
+        price,
+        block_number: blockNumber,
+      });
+    }
+
+    if (rows.length > 0) {
+      const { error: insertError } = await supabase.from("price_samples").insert(rows);
+      if (insertError) {
+        throw new Error(`Failed to insert price samples: ${insertError.message}`);
+      }
+    }
+
+    const cutoff = new Date(Date.now() - SAMPLER_CONFIG.RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const { error: pruneError } = await supabase
+      .from("price_samples")
+      .delete()
+      .lt("sampled_at", cutoff.toISOString());
+    if (pruneError) {
+      console.warn("Failed to prune old price samples:", pruneError);
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, blockNumber, sampled: rows.length, skipped }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error sampling pool prices:", error);
+    return new Response(
+      JSON.stringify({
+        error: "Failed to sample pool prices",
+        details: error instanceof Error ? error.message : String(error),
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -135,6 +135,43 @@ CREATE POLICY "Users can update their own sessions"
   ON ai_chat_sessions FOR UPDATE
   USING (true);
 
+-- ============================================================================
+-- CUSTOM TOKENS TABLE
+-- ============================================================================
+
+-- Create custom tokens table for ERC-20s a wallet imported by address
+CREATE TABLE IF NOT EXISTS custom_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet_address TEXT NOT NULL, -- Wallet address of the user (lowercase)
+  token_address TEXT NOT NULL, -- Token contract address (lowercase)
+  symbol VARCHAR(32) NOT NULL, -- symbol() read from the contract
+  name VARCHAR(255) NOT NULL, -- name() read from the contract (falls back to the symbol)
+  decimals INTEGER NOT NULL CHECK (decimals >= 0 AND decimals <= 36), -- decimals() read from the contract
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (wallet_address, token_address)
+);
+
+-- Create indexes for custom tokens
+CREATE INDEX IF NOT EXISTS idx_custom_tokens_wallet_address ON custom_tokens(wallet_address);
+
+-- Enable Row Level Security for custom tokens
+ALTER TABLE custom_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own custom tokens
+CREATE POLICY "Users can view their own custom tokens"
+  ON custom_tokens FOR SELECT
+  USING (true);
+
+-- Policy: Users can import custom tokens
+CREATE POLICY "Users can import custom tokens"
+  ON custom_tokens FOR INSERT
+  WITH CHECK (true);
+
+-- Policy: Users can update their own custom tokens
+CREATE POLICY "Users can update their own custom tokens"
+  ON custom_tokens FOR UPDATE
+  USING (true);
+
 -- ============================================================================
 -- FUNCTION TO UPDATE TIMESTAMPS
 -- ============================================================================
@@ -213,25 +250,77 @@ CREATE TABLE IF NOT EXISTS recurring_orders (
   
   -- Order details
   amount NUMERIC(20, 10) NOT NULL, -- Amount per order
-  frequency VARCHAR(50) NOT NULL, -- e.g., 'Daily', 'Weekly', 'Bi-weekly', 'Monthly'
+  frequency VARCHAR(100) NOT NULL, -- Rule from _shared/frequency, e.g. 'Daily', 'Every 6 hours', 'Weekly on Mon, Fri at 09:00', 'Monthly on day 15'
+  timezone TEXT NOT NULL DEFAULT 'UTC', -- IANA timezone the frequency's calendar and time of day are evaluated in
   
   -- Scheduling
   start_date TIMESTAMPTZ NOT NULL DEFAULT now(), -- When recurring order starts
   end_date TIMESTAMPTZ, -- When recurring order ends (nullable for ongoing orders)
-  next_execution_date TIMESTAMPTZ, -- Next scheduled execution
+  next_execution_date TIMESTAMPTZ, -- Next scheduled execution (next slot of the frequency after start_date)
+  missed_slot_policy VARCHAR(10) NOT NULL DEFAULT 'run_once'
+    CHECK (missed_slot_policy IN ('skip', 'run_once', 'run_all')), -- What to do with slots missed while the order could not run
   
   -- Status
   is_active BOOLEAN DEFAULT true, -- Whether the order is active
   execution_count INTEGER DEFAULT 0, -- Number of times executed
   
+  -- Price protection (checked against each quote before executing)
+  max_slippage NUMERIC(5, 2) NOT NULL DEFAULT 1 CHECK (max_slippage > 0 AND max_slippage <= 50), -- Slippage tolerance in %
+  limit_price NUMERIC(30, 10) CHECK (limit_price > 0), -- Buy only at or below / sell only at or above this price (nullable)
+  
+  -- Optional completion limits (the order is deactivated once one is reached)
+  max_executions INTEGER CHECK (max_executions > 0), -- Stop after this many executions (nullable)
+  total_budget NUMERIC(20, 10) CHECK (total_budget > 0), -- Stop before total_spent would exceed this (nullable)
+  completed_at TIMESTAMPTZ, -- When the order reached a limit or its end date
+  completion_reason TEXT, -- Which limit completed the order
+  
+  -- Spending tracked against the signed permission
+  total_spent NUMERIC(20, 10) NOT NULL DEFAULT 0, -- Sum of executed amounts (source token)
+  
+  -- Retry and auto-pause state (maintained by the execute-recurring-orders function)
+  consecutive_failures INTEGER NOT NULL DEFAULT 0, -- Failed executions in a row; reset on success
+  retry_count INTEGER NOT NULL DEFAULT 0, -- Retries already spent on the current slot
+  paused_reason TEXT, -- Why the order was auto-paused (NULL if active or cancelled by the user)
+  paused_at TIMESTAMPTZ, -- When the order was auto-paused
+  current_slot TIMESTAMPTZ, -- Scheduled slot being retried (NULL: next_execution_date is the slot)
+  last_failure_class VARCHAR(30), -- Failure class of the latest failed attempt, cleared on success
+  
+  -- Execution lease (see claim_due_recurring_orders)
+  claimed_by TEXT, -- Executor invocation currently holding the order
+  claim_expires_at TIMESTAMPTZ, -- When the claim lapses and the order can be claimed again
+  
   -- Wallet authorization
-  signature TEXT, -- EIP-191 personal_sign signature from wallet for authorization (nullable)
+  permission JSONB, -- EIP-712 RecurringOrderPermission message (token pair, caps, frequency, budget, expiry)
+  signature TEXT, -- EIP-712 signature of `permission` by wallet_address
   
   -- Metadata
   created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
+-- Upgrade existing installations
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS total_spent NUMERIC(20, 10) NOT NULL DEFAULT 0;
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS permission JSONB;
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS retry_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS paused_reason TEXT;
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ;
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS current_slot TIMESTAMPTZ;
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS max_executions INTEGER CHECK (max_executions > 0);
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS total_budget NUMERIC(20, 10) CHECK (total_budget > 0);
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS completion_reason TEXT;
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS missed_slot_policy VARCHAR(10) NOT NULL DEFAULT 'run_once'
+  CHECK (missed_slot_policy IN ('skip', 'run_once', 'run_all'));
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS claimed_by TEXT;
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS claim_expires_at TIMESTAMPTZ;
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC';
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS last_failure_class VARCHAR(30);
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS max_slippage NUMERIC(5, 2) NOT NULL DEFAULT 1
+  CHECK (max_slippage > 0 AND max_slippage <= 50);
+ALTER TABLE recurring_orders ADD COLUMN IF NOT EXISTS limit_price NUMERIC(30, 10) CHECK (limit_price > 0);
+ALTER TABLE recurring_orders ALTER COLUMN frequency TYPE VARCHAR(100);
+
 -- Create indexes for recurring orders
 CREATE INDEX IF NOT EXISTS idx_recurring_wallet_address ON recurring_orders(wallet_address);
 CREATE INDEX IF NOT EXISTS idx_recurring_is_active ON recurring_orders(is_active);
@@ -279,14 +368,41 @@ CREATE TABLE IF NOT EXISTS recurring_order_executions (
   
   -- Transaction details
   transaction_hash TEXT, -- Blockchain transaction hash
-  status VARCHAR(20) DEFAULT 'Pending', -- 'Pending', 'Successful', 'Failed'
+  status VARCHAR(20) DEFAULT 'Pending', -- 'Pending', 'Successful', 'Failed', 'Skipped' (missed slot), 'SkippedPriceLimit' (quote outside price bounds)
   error_message TEXT, -- Error details if execution failed
+  failure_class VARCHAR(30), -- 'InsufficientBalance' or 'InsufficientAllowance' when preflight checks failed
+  
+  -- Fill details (from the receipt and quote of a broadcast swap)
+  amount_out NUMERIC(30, 18), -- Target token received
+  effective_price NUMERIC(30, 18), -- Traded token price in the other token (buy: amount / amount_out, sell: amount_out / amount)
+  price_impact NUMERIC(10, 4), -- Quoted price impact in %
+  gas_used BIGINT, -- Gas used by the swap
+  fee NUMERIC(30, 18), -- Gas fee paid in native USDC
+  
+  -- Idempotency (set by the execute-recurring-orders function)
+  scheduled_for TIMESTAMPTZ, -- Scheduled slot this execution belongs to
+  attempt INTEGER NOT NULL DEFAULT 0, -- Retry attempt within the slot (0 = first try)
+  idempotency_key TEXT, -- '<order id>:<slot>:<attempt>' reserved before anything is signed, '<order id>:<slot>:skipped' for missed slots
   
   -- Metadata
   created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
+-- Upgrade existing installations
+ALTER TABLE recurring_order_executions ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMPTZ;
+ALTER TABLE recurring_order_executions ADD COLUMN IF NOT EXISTS attempt INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE recurring_order_executions ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+ALTER TABLE recurring_order_executions ADD COLUMN IF NOT EXISTS failure_class VARCHAR(30);
+ALTER TABLE recurring_order_executions ADD COLUMN IF NOT EXISTS amount_out NUMERIC(30, 18);
+ALTER TABLE recurring_order_executions ADD COLUMN IF NOT EXISTS effective_price NUMERIC(30, 18);
+ALTER TABLE recurring_order_executions ADD COLUMN IF NOT EXISTS price_impact NUMERIC(10, 4);
+ALTER TABLE recurring_order_executions ADD COLUMN IF NOT EXISTS gas_used BIGINT;
+ALTER TABLE recurring_order_executions ADD COLUMN IF NOT EXISTS fee NUMERIC(30, 18);
+
+-- One execution per (order, slot, attempt): a duplicated invocation cannot send twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_execution_idempotency_key ON recurring_order_executions(idempotency_key);
+
 -- Create indexes for execution history
 CREATE INDEX IF NOT EXISTS idx_execution_recurring_order_id ON recurring_order_executions(recurring_order_id);
 CREATE INDEX IF NOT EXISTS idx_execution_wallet_address ON recurring_order_executions(wallet_address);
@@ -308,6 +424,26 @@ CREATE TRIGGER update_recurring_orders_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+-- A signed order's schedule is evaluated in the timezone it was created with,
+-- so its timezone can't be changed. Enforced here because the table policies
+-- let any client update any order.
+CREATE OR REPLACE FUNCTION keep_signed_order_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.signature IS NOT NULL AND NEW.timezone IS DISTINCT FROM OLD.timezone THEN
+    RAISE EXCEPTION 'The timezone of a signed order can''t be changed. Cancel it and create a new order instead.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS recurring_orders_keep_signed_timezone ON recurring_orders;
+CREATE TRIGGER recurring_orders_keep_signed_timezone
+  BEFORE UPDATE ON recurring_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_signed_order_timezone();
+
 -- Trigger to automatically update updated_at for execution history
 DROP TRIGGER IF EXISTS update_execution_history_updated_at ON recurring_order_executions;
 CREATE TRIGGER update_execution_history_updated_at
@@ -315,6 +451,230 @@ CREATE TRIGGER update_execution_history_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+-- ============================================================================
+-- ATOMIC CLAIMING OF DUE RECURRING ORDERS
+-- ============================================================================
+
+-- Claim up to p_limit due orders for one executor invocation. Rows locked by a
+-- concurrent invocation are skipped, and a claimed order is not handed out
+-- again until its lease expires, so overlapping cron runs never execute the
+-- same order.
+CREATE OR REPLACE FUNCTION claim_due_recurring_orders(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 100,
+  p_lease_seconds INTEGER DEFAULT 900
+)
+RETURNS SETOF recurring_orders AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE recurring_orders
+  SET claimed_by = p_worker_id,
+      claim_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE id IN (
+    SELECT id FROM recurring_orders
+    WHERE is_active = true
+      AND next_execution_date <= now()
+      AND (claim_expires_at IS NULL OR claim_expires_at < now())
+    ORDER BY next_execution_date ASC
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ language 'plpgsql';
+
+-- Only the executor (service role) may claim orders
+REVOKE EXECUTE ON FUNCTION claim_due_recurring_orders(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Settle a Pending execution whose transaction turned out to have reverted.
+-- If the order already moved past the execution's slot (the executor counted
+-- the broadcast as executed) the execution and its amount are taken back off
+-- the order's counters. Orders held by a running invocation are left alone and
+-- settled on a later run.
+-- Returns false if nothing was settled.
+CREATE OR REPLACE FUNCTION settle_reverted_execution(
+  p_execution_id UUID,
+  p_error TEXT,
+  p_gas_used BIGINT DEFAULT NULL,
+  p_fee NUMERIC DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_execution recurring_order_executions%ROWTYPE;
+  v_order recurring_orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_execution FROM recurring_order_executions
+  WHERE id = p_execution_id AND status = 'Pending'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO v_order FROM recurring_orders
+  WHERE id = v_execution.recurring_order_id
+  FOR UPDATE;
+  IF v_order.claim_expires_at IS NOT NULL AND v_order.claim_expires_at >= now() THEN
+    RETURN false;
+  END IF;
+
+  UPDATE recurring_order_executions
+  SET status = 'Failed', error_message = p_error, gas_used = p_gas_used, fee = p_fee
+  WHERE id = p_execution_id;
+
+  IF COALESCE(v_order.current_slot, v_order.next_execution_date) > v_execution.scheduled_for THEN
+    UPDATE recurring_orders
+    SET execution_count = GREATEST(COALESCE(execution_count, 0) - 1, 0),
+        total_spent = GREATEST(total_spent - v_execution.amount, 0)
+    WHERE id = v_order.id;
+  END IF;
+
+  RETURN true;
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION settle_reverted_execution(UUID, TEXT, BIGINT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- SWAP INDEX (written by the index-swaps Edge Function)
+-- ============================================================================
+
+-- Create swaps table: one row per pool swap found on-chain, whichever app made it
+CREATE TABLE IF NOT EXISTS swaps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pool_address TEXT NOT NULL, -- Pool contract address, or RouterQuantum for router swaps through no indexed pool (lowercase)
+
+  -- Position on chain
+  transaction_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL, -- Index of the swap's first transfer log in the block
+  block_number BIGINT NOT NULL,
+  block_hash TEXT NOT NULL,
+  block_time TIMESTAMPTZ NOT NULL,
+
+  -- Parties (lowercase addresses)
+  wallet_address TEXT NOT NULL, -- Sender of the transaction
+  router_address TEXT, -- RouterQuantum or the router, when the transaction went through one
+  sender TEXT NOT NULL, -- Account that sent the sold token to the pool
+  recipient TEXT NOT NULL, -- Account that received the bought token
+
+  -- Trade
+  token_in VARCHAR(20) NOT NULL, -- Symbol of the sold token
+  token_out VARCHAR(20) NOT NULL, -- Symbol of the bought token
+  token_in_address TEXT NOT NULL,
+  token_out_address TEXT NOT NULL,
+  amount_in NUMERIC(38, 18) NOT NULL,
+  amount_out NUMERIC(38, 18) NOT NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One row per swap: re-indexing a block range never duplicates swaps
+CREATE UNIQUE INDEX IF NOT EXISTS idx_swaps_position ON swaps(transaction_hash, pool_address, log_index);
+
+-- Create indexes for charts, the activity feed and reorg rewinds
+CREATE INDEX IF NOT EXISTS idx_swaps_pool_block_time ON swaps(pool_address, block_time DESC);
+CREATE INDEX IF NOT EXISTS idx_swaps_wallet_block_time ON swaps(wallet_address, block_time DESC);
+CREATE INDEX IF NOT EXISTS idx_swaps_block_number ON swaps(block_number);
+
+-- Enable Row Level Security (swaps are only written with the service role)
+ALTER TABLE swaps ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read indexed swaps
+CREATE POLICY "Anyone can view swaps"
+  ON swaps FOR SELECT
+  USING (true);
+
+-- Create indexer checkpoints table: the last block each indexer has processed
+CREATE TABLE IF NOT EXISTS indexer_checkpoints (
+  name TEXT PRIMARY KEY, -- e.g. 'swaps'
+  block_number BIGINT NOT NULL,
+  block_hash TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security (service role only, no policies)
+ALTER TABLE indexer_checkpoints ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- PRICE HISTORY (written by the sample-pool-prices Edge Function)
+-- ============================================================================
+
+-- Create price samples table
+CREATE TABLE IF NOT EXISTS price_samples (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pool_address TEXT NOT NULL, -- Pool contract address, or RouterQuantum for router swaps through no indexed pool (lowercase)
+  token0 VARCHAR(20) NOT NULL, -- Symbol of pool token 0
+  token1 VARCHAR(20) NOT NULL, -- Symbol of pool token 1
+  price NUMERIC(38, 18) NOT NULL, -- Mid price of token0 in token1
+  block_number BIGINT NOT NULL, -- Block the price was read at
+  sampled_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Create index for reading a pool's history
+CREATE INDEX IF NOT EXISTS idx_price_samples_pool_sampled_at ON price_samples(pool_address, sampled_at DESC);
+
+-- Enable Row Level Security (samples are only written with the service role)
+ALTER TABLE price_samples ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read price history
+CREATE POLICY "Anyone can view price samples"
+  ON price_samples FOR SELECT
+  USING (true);
+
+-- OHLC candles of a pool's price from p_since on, one per p_bucket_seconds,
+-- with the amount of p_base_token swapped in each bucket (from the swaps
+-- table). Buckets without samples have null prices; buckets with neither
+-- samples nor swaps are left out.
+CREATE OR REPLACE FUNCTION get_price_candles(
+  p_pool_address TEXT,
+  p_base_token TEXT,
+  p_since TIMESTAMPTZ,
+  p_bucket_seconds INTEGER
+)
+RETURNS TABLE (
+  bucket_start TIMESTAMPTZ,
+  open NUMERIC,
+  high NUMERIC,
+  low NUMERIC,
+  close NUMERIC,
+  volume NUMERIC,
+  swap_count BIGINT
+) AS $$
+  WITH prices AS (
+    SELECT
+      to_timestamp(floor(extract(epoch FROM s.sampled_at) / p_bucket_seconds) * p_bucket_seconds) AS bucket_start,
+      (array_agg(s.price ORDER BY s.sampled_at))[1] AS open,
+      max(s.price) AS high,
+      min(s.price) AS low,
+      (array_agg(s.price ORDER BY s.sampled_at DESC))[1] AS close
+    FROM price_samples s
+    WHERE s.pool_address = lower(p_pool_address)
+      AND s.sampled_at >= p_since
+    GROUP BY 1
+  ),
+  volumes AS (
+    SELECT
+      to_timestamp(floor(extract(epoch FROM w.block_time) / p_bucket_seconds) * p_bucket_seconds) AS bucket_start,
+      sum(CASE WHEN w.token_in = p_base_token THEN w.amount_in ELSE w.amount_out END) AS volume,
+      count(*) AS swap_count
+    FROM swaps w
+    WHERE w.pool_address = lower(p_pool_address)
+      AND w.block_time >= p_since
+      AND p_base_token IN (w.token_in, w.token_out)
+    GROUP BY 1
+  )
+  SELECT
+    coalesce(p.bucket_start, v.bucket_start) AS bucket_start,
+    p.open,
+    p.high,
+    p.low,
+    p.close,
+    coalesce(v.volume, 0) AS volume,
+    coalesce(v.swap_count, 0) AS swap_count
+  FROM prices p
+  FULL OUTER JOIN volumes v ON v.bucket_start = p.bucket_start
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;
+
 -- ============================================================================
 -- SUPABASE EDGE FUNCTION SCHEDULING (pg_cron)
 -- ============================================================================
@@ -326,6 +686,8 @@ CREATE EXTENSION IF NOT EXISTS pg_cron;
 -- This will check for orders due for execution and trigger them automatically
 -- NOTE: Replace 'project-id' with your actual Supabase project ID
 -- The function runs at 0 minutes past every hour
+-- Retries are scheduled in whole runs: keep EXECUTION_CONFIG.CRON_INTERVAL in
+-- the function's config.ts in sync with this schedule
 SELECT cron.schedule(
   'execute-recurring-orders-hourly',
   '0 * * * *', -- Run every hour at the top of the hour
@@ -348,6 +710,54 @@ SELECT cron.schedule(
   $$
 );
 
+-- Schedule the sample-pool-prices Edge Function to run every minute
+-- Each run records every pool's price
+SELECT cron.schedule(
+  'sample-pool-prices-every-minute',
+  '* * * * *', -- Run every minute
+  $$
+  SELECT
+    net.http_post(
+      url := concat(
+        'https://',
+        current_setting('app.settings.supabase_project_id'),
+        '.supabase.co/functions/v1/sample-pool-prices'
+      ),
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', concat('Bearer ', current_setting('app.settings.supabase_service_key'))
+      ),
+      body := jsonb_build_object(
+        'timestamp', now()
+      )
+    ) as request_id;
+  $$
+);
+
+-- Schedule the index-swaps Edge Function to run every minute
+-- Each run indexes the blocks since its checkpoint, rewinding a few for reorgs
+SELECT cron.schedule(
+  'index-swaps-every-minute',
+  '* * * * *', -- Run every minute
+  $$
+  SELECT
+    net.http_post(
+      url := concat(
+        'https://',
+        current_setting('app.settings.supabase_project_id'),
+        '.supabase.co/functions/v1/index-swaps'
+      ),
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', concat('Bearer ', current_setting('app.settings.supabase_service_key'))
+      ),
+      body := jsonb_build_object(
+        'timestamp', now()
+      )
+    ) as request_id;
+  $$
+);
+
 -- Schedule to run every 30 minutes for more frequent execution
 -- Uncomment if you want more frequent checks
 -- SELECT cron.schedule(